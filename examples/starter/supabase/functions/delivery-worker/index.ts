@@ -0,0 +1,19 @@
+/**
+ * Delivery Worker Edge Function
+ *
+ * Sends change events to the change_feed.http_targets configured in
+ * supasaasy.config.ts.
+ * URL pattern: POST /delivery-worker
+ * Body: { max_deliveries?: number } (optional)
+ *
+ * Authentication: Requires Bearer token matching ADMIN_API_KEY environment variable.
+ *
+ * Spawned automatically via pg_net when deliveries are queued.
+ */
+
+// For local development, the import map in deno.json points to the local library
+// In production, change to: import { createDeliveryWorkerHandler } from '@supasaasy/core';
+import { createDeliveryWorkerHandler } from 'supasaasy';
+import config from '../../../supasaasy.config.ts';
+
+Deno.serve(createDeliveryWorkerHandler(config));
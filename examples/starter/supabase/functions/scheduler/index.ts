@@ -0,0 +1,20 @@
+/**
+ * Scheduler Edge Function
+ *
+ * Runs the sync_schedules defined in supasaasy.config.ts by creating sync jobs.
+ * URL pattern: POST /scheduler
+ * Body: { app_key?: string, cron?: string } (all optional)
+ *
+ * Authentication: Requires Bearer token matching ADMIN_API_KEY environment variable.
+ *
+ * The pg_cron jobs generated by getMigrations() call this function with the
+ * app_key of each enabled schedule. Without a body, every enabled schedule whose
+ * cron expression matches the current minute (UTC) is run.
+ */
+
+// For local development, the import map in deno.json points to the local library
+// In production, change to: import { createSchedulerHandler } from '@supasaasy/core';
+import { createSchedulerHandler } from 'supasaasy';
+import config from '../../../supasaasy.config.ts';
+
+Deno.serve(createSchedulerHandler(config));
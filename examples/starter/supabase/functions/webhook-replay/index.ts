@@ -0,0 +1,21 @@
+/**
+ * Webhook Replay Edge Function
+ *
+ * Replays logged webhooks through the connector pipeline, e.g. after a deploy
+ * broke webhook processing.
+ * URL pattern: POST /webhook-replay
+ * Body: { log_ids?: string[], from?: string, to?: string, app_key?: string,
+ *         failed_only?: boolean, limit?: number, dry_run?: boolean, force?: boolean }
+ *
+ * Authentication: Requires Bearer token matching ADMIN_API_KEY environment variable.
+ *
+ * Requires webhook_logging to be enabled in supasaasy.config.ts, since only logged
+ * webhooks can be replayed.
+ */
+
+// For local development, the import map in deno.json points to the local library
+// In production, change to: import { createWebhookReplayHandler } from '@supasaasy/core';
+import { createWebhookReplayHandler } from 'supasaasy';
+import config from '../../../supasaasy.config.ts';
+
+Deno.serve(createWebhookReplayHandler(config));
@@ -0,0 +1,19 @@
+/**
+ * Webhook Worker Edge Function
+ *
+ * Processes webhooks queued by the webhook function when webhook_queue is enabled
+ * in supasaasy.config.ts.
+ * URL pattern: POST /webhook-worker
+ * Body: { max_webhooks?: number } (optional)
+ *
+ * Authentication: Requires Bearer token matching ADMIN_API_KEY environment variable.
+ *
+ * Spawned automatically via pg_net when webhooks are queued.
+ */
+
+// For local development, the import map in deno.json points to the local library
+// In production, change to: import { createWebhookWorkerHandler } from '@supasaasy/core';
+import { createWebhookWorkerHandler } from 'supasaasy';
+import config from '../../../supasaasy.config.ts';
+
+Deno.serve(createWebhookWorkerHandler(config));
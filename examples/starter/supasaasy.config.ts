@@ -74,7 +74,11 @@ export default defineConfig({
     // Sync Schedules
     // ==========================================================================
     // Configure periodic sync schedules for each app instance.
-    // Cron format: minute hour day-of-month month day-of-week
+    // Cron format: minute hour day-of-month month day-of-week (UTC)
+    //
+    // Generated migrations register a pg_cron job per enabled schedule that
+    // calls the scheduler function. Scheduled jobs default to incremental
+    // syncs of all resources; set mode / resource_types to override.
     //
     // Examples:
     //   - '0 * * * *'     - Every hour
@@ -55,6 +55,7 @@ export {
   type DefineConfigOptions,
   validateConfig,
 } from './src/config/define-config.ts';
+export { type CronExpression, cronMatches, parseCron } from './src/config/cron.ts';
 
 // =============================================================================
 // Handler Factory Functions
@@ -64,6 +65,10 @@ export { createWebhookHandler } from './src/handlers/webhook.ts';
 export { createSyncHandler } from './src/handlers/sync.ts';
 export { createWorkerHandler } from './src/handlers/worker.ts';
 export { createJobStatusHandler } from './src/handlers/job-status.ts';
+export { createSchedulerHandler } from './src/handlers/scheduler.ts';
+export { createWebhookReplayHandler } from './src/handlers/webhook-replay.ts';
+export { createWebhookWorkerHandler } from './src/handlers/webhook-worker.ts';
+export { createDeliveryWorkerHandler } from './src/handlers/delivery-worker.ts';
 
 // =============================================================================
 // Migration Generation
@@ -80,12 +85,31 @@ export {
 // =============================================================================
 
 export type {
+  AfterUpsertHook,
   AppConfig,
   AuthConfig,
+  AuthRoleConfig,
+  AuthRoleTable,
+  BeforeDeleteHook,
+  BeforeUpsertHook,
+  ChangeFeedConfig,
+  ChangeFeedDeliveryConfig,
+  ChangeFeedHook,
+  ChangeFeedHttpTarget,
   ConnectorMetadata,
+  EntityChangeEvent,
+  EntityChangeOperation,
+  EntityDeleteTarget,
+  EntityHistoryConfig,
+  EntityHookContext,
+  EntityLifecycleHooks,
   EntityRow,
+  EntityWriteSource,
+  FieldRedactionRules,
+  LifecycleHooksConfig,
   NormalizedEntity,
   ParsedWebhookEvent,
+  RedactionConfig,
   SupaSaaSyConfig,
   SupportedResource,
   SyncOptions,
@@ -96,7 +120,9 @@ export type {
   WebhookEventType,
   WebhookLoggingConfig,
   WebhookPayload,
+  WebhookQueueConfig,
   WebhookVerificationResult,
+  WorkerConfig,
 } from './src/types/index.ts';
 
 // =============================================================================
@@ -105,23 +131,65 @@ export type {
 
 export {
   // Job-based sync utilities
+  cancelPendingTasks,
+  cancelSyncJob,
+  type CancelSyncJobResult,
+  claimOutboundDeliveries,
+  claimQueuedWebhooks,
   claimTask,
+  claimWebhookEvent,
+  type ClaimWebhookEventData,
+  type ClaimWebhookEventResult,
   cleanupOldJobs,
+  cleanupOldOutboundDeliveries,
+  cleanupOldQueuedWebhooks,
+  cleanupOldWebhookEvents,
+  completeOutboundDelivery,
+  completeQueuedWebhook,
+  completeWebhookEvent,
   createJobTasks,
   createSyncJob,
   type CreateSyncJobData,
   deleteEntities,
   deleteEntity,
   type DeleteResult,
+  enqueueOutboundDeliveries,
+  type EnqueueOutboundDeliveryData,
+  enqueueWebhook,
+  type EnqueueWebhookData,
   type Entity,
+  type EntityVersion,
+  failOutboundDelivery,
+  failQueuedWebhook,
+  getActiveSyncJob,
   getEntity,
   getEntityExternalIds,
+  getEntityExternalIdsByPayloadField,
   getEntityExternalIdsCreatedAfter,
+  getEntityVersions,
   getJobStatus,
   getSupabaseClient,
   getSyncState,
   getSyncStates,
+  getWebhookLogs,
+  type GetWebhookLogsOptions,
+  incrementJobCounts,
+  isJobCancelled,
+  listSyncJobs,
+  type ListSyncJobsOptions,
+  type ListSyncJobsResult,
+  type OutboundDelivery,
+  type OutboundDeliveryAttempt,
+  type OutboundDeliveryAttemptLogEntry,
+  type OutboundDeliveryStatus,
+  type QueuedWebhook,
+  type QueuedWebhookStatus,
+  reapStuckTasks,
+  type ReapStuckTasksResult,
+  releaseTask,
+  releaseWebhookEvent,
   resetClient,
+  scheduleTaskRetry,
   type SyncJob,
   type SyncJobStatus,
   type SyncJobStatusWithStats,
@@ -133,11 +201,54 @@ export {
   updateTaskHeartbeat,
   updateTaskStatus,
   upsertEntities,
+  type UpsertEntitiesResult,
   upsertEntity,
   type UpsertEntityData,
   type UpsertResult,
+  wakeDueRetries,
+  type WebhookEventRecord,
+  type WebhookEventStatus,
 } from './src/db/index.ts';
 
+// =============================================================================
+// Change Feed
+// =============================================================================
+
+export {
+  CHANGE_FEED_DELIVERY_HEADER,
+  CHANGE_FEED_SIGNATURE_HEADER,
+  createEntityChangeEvent,
+  emitEntityChanges,
+  isChangeFeedEnabled,
+  matchesHttpTarget,
+  signChangeFeedPayload,
+  verifyChangeFeedSignature,
+} from './src/change-feed/index.ts';
+
+// =============================================================================
+// Lifecycle Hooks
+// =============================================================================
+
+export {
+  type EntityHookSource,
+  getLifecycleHooks,
+  runAfterUpsertHooks,
+  runBeforeDeleteHooks,
+  runBeforeUpsertHooks,
+  selectWrittenEntities,
+} from './src/lifecycle/index.ts';
+
+// =============================================================================
+// Redaction
+// =============================================================================
+
+export {
+  hasWebhookBodyRedaction,
+  redactEntityPayload,
+  redactFields,
+  redactWebhookBody,
+} from './src/redaction/index.ts';
+
 // =============================================================================
 // Connector Registry & Interfaces
 // =============================================================================
@@ -154,6 +265,7 @@ export {
   getConfig,
   getConnector,
   getConnectorForAppKey,
+  hasConfig,
   type IncrementalConnector,
   type IncrementalSyncHandler,
   listConnectorMetadata,
@@ -181,6 +293,7 @@ export {
   isConnectorError,
   isRetryableError,
   NormalizationError,
+  parseRetryAfterHeader,
   RateLimitError,
   WebhookVerificationError,
 } from './src/connectors/errors.ts';
@@ -190,8 +303,10 @@ export {
 // =============================================================================
 
 export {
+  addUpsertCounts,
   buildCollectionKey,
   type ConnectorLogger,
+  countProcessed,
   createConnectorLogger,
   createNormalizedEntity,
   createTimer,
@@ -199,6 +314,7 @@ export {
   detectArchivedAt,
   emptySyncResult,
   entityToRow,
+  eventEntityToUpsertData,
   extractExternalId,
   failedSyncResult,
   getCollectionKey,
@@ -210,6 +326,7 @@ export {
   paginatedSync,
   type PaginatedSyncConfig,
   rowToEntity,
+  setRetryInfo,
   type SyncProgressInfo,
 } from './src/connectors/utils.ts';
 
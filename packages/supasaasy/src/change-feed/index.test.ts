@@ -0,0 +1,225 @@
+/**
+ * Change Feed Unit Tests
+ *
+ * Tests for change event construction, request signing, HTTP target filters and
+ * hook emission, including the events emitted by entity deletes.
+ */
+
+import { assertEquals } from '@std/assert';
+import {
+  createEntityChangeEvent,
+  emitEntityChanges,
+  matchesHttpTarget,
+  signChangeFeedPayload,
+  verifyChangeFeedSignature,
+} from './index.ts';
+import { clearConfig, setConfig } from '../connectors/index.ts';
+import { deleteEntities, type Entity } from '../db/index.ts';
+import { installMockSupabase } from '../connectors/__tests__/mocks/db.ts';
+import type { EntityChangeEvent } from '../types/index.ts';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createEntity(overrides: Partial<Entity> = {}): Entity {
+  return {
+    id: 'entity_1',
+    external_id: 'sub_123',
+    app_key: 'stripe_test',
+    collection_key: 'stripe_subscription',
+    api_version: null,
+    raw_payload: { id: 'sub_123', status: 'active' },
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-02T00:00:00.000Z',
+    archived_at: null,
+    deleted_at: null,
+    source_updated_at: null,
+    change_source: 'webhook:evt_1',
+    payload_hash: null,
+    payload_valid_from: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// =============================================================================
+// Event Construction Tests
+// =============================================================================
+
+Deno.test('[ChangeFeed] createEntityChangeEvent - reports creates', () => {
+  const event = createEntityChangeEvent(createEntity(), null);
+
+  assertEquals(event.operation, 'create');
+  assertEquals(event.before, null);
+  assertEquals(event.after, { id: 'sub_123', status: 'active' });
+  assertEquals(event.change_source, 'webhook:evt_1');
+  assertEquals(event.occurred_at, '2026-01-02T00:00:00.000Z');
+});
+
+Deno.test('[ChangeFeed] createEntityChangeEvent - reports updates with before and after', () => {
+  const before = createEntity();
+  const after = createEntity({ raw_payload: { id: 'sub_123', status: 'past_due' } });
+
+  const event = createEntityChangeEvent(after, before);
+
+  assertEquals(event.operation, 'update');
+  assertEquals(event.before?.status, 'active');
+  assertEquals(event.after?.status, 'past_due');
+});
+
+Deno.test('[ChangeFeed] createEntityChangeEvent - reports soft and hard deletes', () => {
+  const before = createEntity();
+  const softDeleted = createEntity({ deleted_at: '2026-01-03T00:00:00.000Z' });
+
+  assertEquals(createEntityChangeEvent(softDeleted, before).operation, 'delete');
+
+  const hardDeleted = createEntityChangeEvent(null, before);
+  assertEquals(hardDeleted.operation, 'delete');
+  assertEquals(hardDeleted.after, null);
+});
+
+// =============================================================================
+// Signing Tests
+// =============================================================================
+
+Deno.test('[ChangeFeed] verifyChangeFeedSignature - accepts signed body', async () => {
+  const body = JSON.stringify({ events: [] });
+  const header = await signChangeFeedPayload('secret', Math.floor(Date.now() / 1000), body);
+
+  assertEquals(await verifyChangeFeedSignature('secret', header, body), true);
+});
+
+Deno.test('[ChangeFeed] verifyChangeFeedSignature - rejects tampered body and wrong secret', async () => {
+  const body = JSON.stringify({ events: [] });
+  const header = await signChangeFeedPayload('secret', Math.floor(Date.now() / 1000), body);
+
+  assertEquals(await verifyChangeFeedSignature('secret', header, body + ' '), false);
+  assertEquals(await verifyChangeFeedSignature('other', header, body), false);
+  assertEquals(await verifyChangeFeedSignature('secret', null, body), false);
+});
+
+Deno.test('[ChangeFeed] verifyChangeFeedSignature - rejects old signatures', async () => {
+  const body = JSON.stringify({ events: [] });
+  const header = await signChangeFeedPayload('secret', Math.floor(Date.now() / 1000) - 600, body);
+
+  assertEquals(await verifyChangeFeedSignature('secret', header, body), false);
+});
+
+// =============================================================================
+// HTTP Target Filter Tests
+// =============================================================================
+
+Deno.test('[ChangeFeed] matchesHttpTarget - matches every event without filters', () => {
+  const event = createEntityChangeEvent(createEntity(), null);
+
+  assertEquals(
+    matchesHttpTarget({ name: 'all', url: 'https://example.com', secret_env: 'S' }, event),
+    true,
+  );
+});
+
+Deno.test('[ChangeFeed] matchesHttpTarget - applies app, collection and operation filters', () => {
+  const target = {
+    name: 'filtered',
+    url: 'https://example.com',
+    secret_env: 'S',
+    app_keys: ['stripe_test'],
+    collections: ['stripe_subscription'],
+    operations: ['update' as const, 'delete' as const],
+  };
+  const before = createEntity();
+
+  assertEquals(matchesHttpTarget(target, createEntityChangeEvent(createEntity(), before)), true);
+  assertEquals(matchesHttpTarget(target, createEntityChangeEvent(createEntity(), null)), false);
+  assertEquals(
+    matchesHttpTarget(
+      target,
+      createEntityChangeEvent(createEntity({ app_key: 'stripe_prod' }), before),
+    ),
+    false,
+  );
+  assertEquals(
+    matchesHttpTarget(
+      target,
+      createEntityChangeEvent(createEntity({ collection_key: 'stripe_customer' }), before),
+    ),
+    false,
+  );
+});
+
+// =============================================================================
+// Emission Tests
+// =============================================================================
+
+Deno.test('[ChangeFeed] emitEntityChanges - calls hooks in order despite hook errors', async () => {
+  const received: string[] = [];
+  setConfig({
+    apps: [],
+    change_feed: {
+      hooks: [
+        () => {
+          throw new Error('hook failed');
+        },
+        (event: EntityChangeEvent) => {
+          received.push(event.external_id);
+        },
+      ],
+    },
+  });
+
+  try {
+    await emitEntityChanges([
+      createEntityChangeEvent(createEntity({ external_id: 'sub_1' }), null),
+      createEntityChangeEvent(createEntity({ external_id: 'sub_2' }), null),
+    ]);
+  } finally {
+    clearConfig();
+  }
+
+  assertEquals(received, ['sub_1', 'sub_2']);
+});
+
+Deno.test('[ChangeFeed] deleteEntities - emits a delete event for each deleted entity', async () => {
+  const received: EntityChangeEvent[] = [];
+  const supabase = installMockSupabase();
+  for (const externalId of ['sub_1', 'sub_2']) {
+    supabase.store.upsertEntity({
+      external_id: externalId,
+      app_key: 'stripe_test',
+      collection_key: 'stripe_subscription',
+      raw_payload: { id: externalId },
+    });
+  }
+  supabase.store.upsertEntity({
+    external_id: 'cus_1',
+    app_key: 'stripe_test',
+    collection_key: 'stripe_customer',
+    raw_payload: { id: 'cus_1' },
+  });
+  setConfig({
+    apps: [],
+    change_feed: {
+      hooks: [(event: EntityChangeEvent) => {
+        received.push(event);
+      }],
+    },
+  });
+
+  try {
+    const { count, error } = await deleteEntities('stripe_test', 'stripe_subscription');
+
+    assertEquals(error, null);
+    assertEquals(count, 2);
+  } finally {
+    clearConfig();
+    supabase.restore();
+  }
+
+  assertEquals(received.map((e) => [e.operation, e.external_id]), [
+    ['delete', 'sub_1'],
+    ['delete', 'sub_2'],
+  ]);
+  assertEquals(received[0].before, { id: 'sub_1' });
+  assertEquals(received[0].after, null);
+  assertEquals(supabase.store.getAllEntities().map((e) => e.external_id), ['cus_1']);
+});
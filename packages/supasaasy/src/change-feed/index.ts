@@ -0,0 +1,259 @@
+/**
+ * Change Feed Module
+ *
+ * Emits entity change events to the subscribers configured in `change_feed`:
+ * in-process hooks, and HTTP targets, for which each event is queued in
+ * `supasaasy.outbound_deliveries` and sent by the delivery worker with an
+ * HMAC-SHA256 signature. NOTIFY subscribers are served by the
+ * entities_notify_change database trigger generated by getMigrations instead.
+ */
+
+import { enqueueOutboundDeliveries, type Entity } from '../db/index.ts';
+import type {
+  ChangeFeedConfig,
+  ChangeFeedHttpTarget,
+  EntityChangeEvent,
+  EntityChangeOperation,
+} from '../types/index.ts';
+import { getConfig, hasConfig } from '../connectors/index.ts';
+import { debugLog } from '../connectors/utils.ts';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Header carrying the signature of change feed HTTP requests */
+export const CHANGE_FEED_SIGNATURE_HEADER = 'X-SupaSaaSy-Signature';
+
+/** Header carrying the outbound delivery ID, which stays the same across retries */
+export const CHANGE_FEED_DELIVERY_HEADER = 'X-SupaSaaSy-Delivery';
+
+/** Default age after which a signed request is rejected by verifyChangeFeedSignature */
+const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// =============================================================================
+// Event Construction
+// =============================================================================
+
+/**
+ * Build a change event from an entity's state before and after a write.
+ * Soft deletes (deleted_at being set) are reported as deletes.
+ *
+ * @param after The entity after the write (null when hard deleted)
+ * @param before The entity before the write (null when created)
+ */
+export function createEntityChangeEvent(
+  after: Entity | null,
+  before: Entity | null,
+): EntityChangeEvent {
+  const entity = (after ?? before)!;
+
+  let operation: EntityChangeOperation;
+  if (!before) {
+    operation = 'create';
+  } else if (!after || (after.deleted_at && !before.deleted_at)) {
+    operation = 'delete';
+  } else {
+    operation = 'update';
+  }
+
+  return {
+    entity_id: entity.id,
+    app_key: entity.app_key,
+    collection_key: entity.collection_key,
+    external_id: entity.external_id,
+    operation,
+    before: before?.raw_payload ?? null,
+    after: after?.raw_payload ?? null,
+    change_source: entity.change_source ?? null,
+    occurred_at: after?.updated_at ?? new Date().toISOString(),
+  };
+}
+
+// =============================================================================
+// Signing
+// =============================================================================
+
+/**
+ * Compute HMAC SHA-256 signature as a hex string
+ */
+async function computeHmacSha256(secret: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const keyData = encoder.encode(secret);
+  const bodyData = encoder.encode(body);
+
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    keyData,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+
+  const signature = await crypto.subtle.sign('HMAC', cryptoKey, bodyData);
+  const hashArray = Array.from(new Uint8Array(signature));
+  return hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Constant-time string comparison to prevent timing attacks
+ */
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return result === 0;
+}
+
+/**
+ * Sign a change feed request body. The signature covers the timestamp and the body,
+ * and is sent as `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<timestamp>.<body>">`.
+ *
+ * @param secret The target's signing secret
+ * @param timestamp Unix timestamp in seconds
+ * @param body The request body
+ * @returns The signature header value
+ */
+export async function signChangeFeedPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): Promise<string> {
+  const signature = await computeHmacSha256(secret, `${timestamp}.${body}`);
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Verify the signature header of a change feed request, for receivers written with
+ * SupaSaaSy. Requests signed more than `toleranceSeconds` ago are rejected.
+ *
+ * @param secret The target's signing secret
+ * @param header The X-SupaSaaSy-Signature header value
+ * @param body The raw request body
+ * @param toleranceSeconds Maximum age of the signature (default: 300)
+ * @returns Whether the signature is valid
+ */
+export async function verifyChangeFeedSignature(
+  secret: string,
+  header: string | null,
+  body: string,
+  toleranceSeconds = DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+): Promise<boolean> {
+  if (!header) return false;
+
+  const parts = Object.fromEntries(
+    header.split(',').map((part) => {
+      const [key, ...value] = part.split('=');
+      return [key.trim(), value.join('=')];
+    }),
+  );
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) return false;
+
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = await signChangeFeedPayload(secret, timestamp, body);
+  return constantTimeEqual(expected, `t=${timestamp},v1=${parts.v1}`);
+}
+
+// =============================================================================
+// Emission
+// =============================================================================
+
+/**
+ * Get the change feed config, if a configuration with one has been set
+ */
+function getChangeFeedConfig(): ChangeFeedConfig | undefined {
+  return hasConfig() ? getConfig().change_feed : undefined;
+}
+
+/**
+ * Check whether any in-process or HTTP subscribers are configured
+ */
+export function isChangeFeedEnabled(): boolean {
+  const changeFeed = getChangeFeedConfig();
+  return (changeFeed?.hooks?.length ?? 0) > 0 || (changeFeed?.http_targets?.length ?? 0) > 0;
+}
+
+/**
+ * Check whether a change event passes an HTTP target's filters
+ */
+export function matchesHttpTarget(target: ChangeFeedHttpTarget, event: EntityChangeEvent): boolean {
+  return (!target.app_keys || target.app_keys.includes(event.app_key)) &&
+    (!target.collections || target.collections.includes(event.collection_key)) &&
+    (!target.operations || target.operations.includes(event.operation));
+}
+
+/**
+ * Queue a delivery to each HTTP target for each event that passes its filters.
+ * Failures are logged, not thrown.
+ */
+async function queueHttpDeliveries(
+  changeFeed: ChangeFeedConfig,
+  events: EntityChangeEvent[],
+): Promise<void> {
+  const deliveries = (changeFeed.http_targets ?? []).flatMap((target) =>
+    events
+      .filter((event) => matchesHttpTarget(target, event))
+      .map((event) => ({
+        target_name: target.name,
+        app_key: event.app_key,
+        collection_key: event.collection_key,
+        external_id: event.external_id,
+        operation: event.operation,
+        payload: { events: [event] },
+        max_attempts: changeFeed.delivery?.max_attempts,
+      }))
+  );
+
+  if (deliveries.length === 0) return;
+
+  const { error } = await enqueueOutboundDeliveries(deliveries);
+  if (error) {
+    console.error(`Failed to queue change feed deliveries: ${error.message}`);
+    return;
+  }
+
+  debugLog('change-feed', 'Queued change feed deliveries', { count: deliveries.length });
+}
+
+/**
+ * Emit change events to the configured hooks and HTTP targets. Hooks are called
+ * one event at a time, in order; deliveries to HTTP targets are queued for the
+ * delivery worker. Subscriber errors are logged and never fail the write that
+ * produced the events.
+ *
+ * @param events The change events to emit
+ */
+export async function emitEntityChanges(events: EntityChangeEvent[]): Promise<void> {
+  const changeFeed = getChangeFeedConfig();
+  if (!changeFeed || events.length === 0) return;
+
+  debugLog('change-feed', 'Emitting change events', {
+    count: events.length,
+    hooks: changeFeed.hooks?.length ?? 0,
+    httpTargets: changeFeed.http_targets?.length ?? 0,
+  });
+
+  for (const hook of changeFeed.hooks ?? []) {
+    for (const event of events) {
+      try {
+        await hook(event);
+      } catch (err) {
+        console.error(
+          `Change feed hook failed for ${event.collection_key} ${event.external_id}: ${
+            (err as Error).message
+          }`,
+        );
+      }
+    }
+  }
+
+  await queueHttpDeliveries(changeFeed, events);
+}
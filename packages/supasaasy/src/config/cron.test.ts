@@ -0,0 +1,74 @@
+/**
+ * Cron Expression Unit Tests
+ *
+ * Tests for parseCron and cronMatches.
+ */
+
+import { assertEquals } from '@std/assert';
+import { cronMatches, parseCron } from './cron.ts';
+
+// =============================================================================
+// parseCron Tests
+// =============================================================================
+
+Deno.test('[Cron] parseCron - parses wildcards, lists, ranges and steps', () => {
+  const { data, error } = parseCron('*/15 0-2 1,15 * 1-5');
+
+  assertEquals(error, null);
+  assertEquals([...data!.minutes], [0, 15, 30, 45]);
+  assertEquals([...data!.hours], [0, 1, 2]);
+  assertEquals([...data!.daysOfMonth], [1, 15]);
+  assertEquals(data!.months.size, 12);
+  assertEquals([...data!.daysOfWeek], [1, 2, 3, 4, 5]);
+});
+
+Deno.test('[Cron] parseCron - treats day-of-week 7 as Sunday', () => {
+  const { data } = parseCron('0 0 * * 7');
+
+  assertEquals([...data!.daysOfWeek], [0]);
+});
+
+Deno.test('[Cron] parseCron - rejects wrong number of fields', () => {
+  const { data, error } = parseCron('0 * * *');
+
+  assertEquals(data, null);
+  assertEquals(error?.message.includes('expected 5 fields'), true);
+});
+
+Deno.test('[Cron] parseCron - rejects out of range values', () => {
+  assertEquals(parseCron('60 * * * *').error !== null, true);
+  assertEquals(parseCron('0 24 * * *').error !== null, true);
+  assertEquals(parseCron('0 0 0 * *').error !== null, true);
+  assertEquals(parseCron('0 0 * 13 *').error !== null, true);
+});
+
+Deno.test('[Cron] parseCron - rejects malformed fields', () => {
+  assertEquals(parseCron('a * * * *').error !== null, true);
+  assertEquals(parseCron('*/0 * * * *').error !== null, true);
+  assertEquals(parseCron('5-1 * * * *').error !== null, true);
+});
+
+// =============================================================================
+// cronMatches Tests
+// =============================================================================
+
+Deno.test('[Cron] cronMatches - matches hourly schedule on the hour', () => {
+  assertEquals(cronMatches('0 * * * *', new Date('2024-06-01T13:00:00Z')), true);
+  assertEquals(cronMatches('0 * * * *', new Date('2024-06-01T13:01:00Z')), false);
+});
+
+Deno.test('[Cron] cronMatches - matches step schedules', () => {
+  assertEquals(cronMatches('0 */6 * * *', new Date('2024-06-01T18:00:00Z')), true);
+  assertEquals(cronMatches('0 */6 * * *', new Date('2024-06-01T19:00:00Z')), false);
+});
+
+Deno.test('[Cron] cronMatches - uses either day field when both are restricted', () => {
+  // 2024-06-03 is a Monday, 2024-06-15 is a Saturday
+  assertEquals(cronMatches('0 0 15 * 1', new Date('2024-06-03T00:00:00Z')), true);
+  assertEquals(cronMatches('0 0 15 * 1', new Date('2024-06-15T00:00:00Z')), true);
+  assertEquals(cronMatches('0 0 15 * 1', new Date('2024-06-04T00:00:00Z')), false);
+});
+
+Deno.test('[Cron] cronMatches - returns false for invalid expressions', () => {
+  assertEquals(cronMatches('not a cron', new Date()), false);
+});
@@ -0,0 +1,189 @@
+/**
+ * Cron Expressions
+ *
+ * Minimal parser and matcher for the standard 5-field cron format used by
+ * `sync_schedules` (minute hour day-of-month month day-of-week).
+ *
+ * Supports `*`, single values, ranges (`1-5`), lists (`1,15,30`) and steps
+ * (`*\/15`, `0-30/10`). Day-of-week accepts 0-7 where both 0 and 7 are Sunday.
+ * All matching is done in UTC, which is also what pg_cron uses by default.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A parsed cron expression with the allowed values for each field
+ */
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether day-of-month was restricted (not `*`) */
+  dayOfMonthRestricted: boolean;
+  /** Whether day-of-week was restricted (not `*`) */
+  dayOfWeekRestricted: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day-of-week', min: 0, max: 7 },
+];
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Parse a single cron field into the set of values it allows.
+ * Throws if the field is malformed or out of range.
+ */
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart, ...rest] = part.split('/');
+    if (rest.length > 0 || rangePart === '') {
+      throw new Error(`invalid ${spec.name} field "${field}"`);
+    }
+
+    let step = 1;
+    if (stepPart !== undefined) {
+      if (!/^\d+$/.test(stepPart) || parseInt(stepPart, 10) === 0) {
+        throw new Error(`invalid step "${stepPart}" in ${spec.name} field`);
+      }
+      step = parseInt(stepPart, 10);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else {
+      const match = rangePart.match(/^(\d+)(?:-(\d+))?$/);
+      if (!match) {
+        throw new Error(`invalid ${spec.name} field "${field}"`);
+      }
+      start = parseInt(match[1], 10);
+      // A bare value with a step (e.g. "5/15") runs to the end of the range
+      end = match[2] !== undefined
+        ? parseInt(match[2], 10)
+        : stepPart !== undefined
+        ? spec.max
+        : start;
+    }
+
+    if (start < spec.min || end > spec.max || start > end) {
+      throw new Error(
+        `${spec.name} value "${rangePart}" is out of range (${spec.min}-${spec.max})`,
+      );
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a 5-field cron expression.
+ *
+ * @param expression Cron expression (e.g. '0 *\/6 * * *')
+ * @returns The parsed expression, or an error describing why it is invalid
+ */
+export function parseCron(
+  expression: string,
+): { data: CronExpression | null; error: Error | null } {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== FIELDS.length) {
+    return {
+      data: null,
+      error: new Error(`expected ${FIELDS.length} fields, got ${fields.length}`),
+    };
+  }
+
+  try {
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+      parseField(field, FIELDS[i])
+    );
+
+    // Normalize Sunday to 0
+    if (daysOfWeek.has(7)) {
+      daysOfWeek.delete(7);
+      daysOfWeek.add(0);
+    }
+
+    return {
+      data: {
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        dayOfMonthRestricted: fields[2] !== '*',
+        dayOfWeekRestricted: fields[4] !== '*',
+      },
+      error: null,
+    };
+  } catch (err) {
+    return { data: null, error: err as Error };
+  }
+}
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+/**
+ * Check whether a cron expression fires at the given time (to the minute, UTC).
+ *
+ * Follows standard cron semantics: when both day-of-month and day-of-week are
+ * restricted, the expression matches if either of them matches.
+ *
+ * @param expression Cron expression string or parsed expression
+ * @param date The time to check
+ * @returns true if the expression matches, false if not or if it is invalid
+ */
+export function cronMatches(expression: string | CronExpression, date: Date): boolean {
+  let cron: CronExpression;
+  if (typeof expression === 'string') {
+    const { data, error } = parseCron(expression);
+    if (error || !data) {
+      return false;
+    }
+    cron = data;
+  } else {
+    cron = expression;
+  }
+
+  if (
+    !cron.minutes.has(date.getUTCMinutes()) ||
+    !cron.hours.has(date.getUTCHours()) ||
+    !cron.months.has(date.getUTCMonth() + 1)
+  ) {
+    return false;
+  }
+
+  const dayOfMonthMatches = cron.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeekMatches = cron.daysOfWeek.has(date.getUTCDay());
+
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return dayOfMonthMatches || dayOfWeekMatches;
+  }
+  return dayOfMonthMatches && dayOfWeekMatches;
+}
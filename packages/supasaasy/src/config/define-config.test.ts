@@ -122,6 +122,59 @@ Deno.test('[DefineConfig] auth - rejects non-boolean enabled', () => {
   assertEquals(result.errors[0].path, 'auth.enabled');
 });
 
+Deno.test('[DefineConfig] auth - rejects non-boolean per_app_access', () => {
+  const config = {
+    ...validConfig(),
+    auth: { enabled: true, per_app_access: 'yes' } as unknown as { enabled: boolean },
+  };
+
+  const result = validateConfig(config);
+
+  assertEquals(result.valid, false);
+  assertEquals(result.errors.length, 1);
+  assertEquals(result.errors[0].path, 'auth.per_app_access');
+  assertEquals(result.errors[0].message, 'per_app_access must be a boolean');
+});
+
+Deno.test('[DefineConfig] auth - accepts roles', () => {
+  const config: SupaSaaSyConfig = {
+    ...validConfig(),
+    auth: {
+      enabled: true,
+      roles: {
+        analyst: { tables: ['entities', 'entity_versions'] },
+        support: { tables: ['entities'], collections: ['intercom_*'] },
+      },
+    },
+  };
+
+  const result = validateConfig(config);
+
+  assertEquals(result.valid, true);
+});
+
+Deno.test('[DefineConfig] auth - rejects invalid roles', () => {
+  const config = {
+    ...validConfig(),
+    auth: {
+      enabled: true,
+      roles: {
+        'Support Staff': { tables: ['entities'] },
+        analyst: { tables: ['users'], collections: ["stripe_'"] },
+      },
+    },
+  } as unknown as SupaSaaSyConfig;
+
+  const result = validateConfig(config);
+
+  assertEquals(result.valid, false);
+  assertEquals(result.errors.map((e) => e.path), [
+    'auth.roles.Support Staff',
+    'auth.roles.analyst.tables',
+    'auth.roles.analyst.collections',
+  ]);
+});
+
 // =============================================================================
 // defineConfig Integration Tests
 // =============================================================================
@@ -255,3 +308,354 @@ Deno.test('[DefineConfig] sync_schedules - rejects invalid app_key reference', (
   assertEquals(result.valid, false);
   assertEquals(result.errors[0].message.includes('does not match'), true);
 });
+
+Deno.test('[DefineConfig] sync_schedules - rejects invalid cron expression', () => {
+  const config: SupaSaaSyConfig = {
+    ...validConfig(),
+    sync_schedules: [
+      { app_key: 'test_app', cron: '0 25 * * *', enabled: true },
+    ],
+  };
+
+  const result = validateConfig(config);
+
+  assertEquals(result.valid, false);
+  assertEquals(result.errors[0].path, 'sync_schedules[0].cron');
+});
+
+Deno.test('[DefineConfig] sync_schedules - rejects invalid mode', () => {
+  const config = {
+    ...validConfig(),
+    sync_schedules: [
+      { app_key: 'test_app', cron: '0 * * * *', enabled: true, mode: 'partial' },
+    ],
+  } as unknown as SupaSaaSyConfig;
+
+  const result = validateConfig(config);
+
+  assertEquals(result.valid, false);
+  assertEquals(result.errors[0].path, 'sync_schedules[0].mode');
+});
+
+// =============================================================================
+// Webhook Queue Config Validation Tests
+// =============================================================================
+
+Deno.test('[DefineConfig] webhook_queue - accepts valid queue config', () => {
+  const config: SupaSaaSyConfig = {
+    ...validConfig(),
+    webhook_queue: { enabled: true, max_attempts: 3, retry_base_delay_seconds: 10 },
+  };
+
+  const result = validateConfig(config);
+
+  assertEquals(result.valid, true);
+});
+
+Deno.test('[DefineConfig] webhook_queue - requires enabled', () => {
+  const config = {
+    ...validConfig(),
+    webhook_queue: { max_attempts: 3 },
+  } as unknown as SupaSaaSyConfig;
+
+  const result = validateConfig(config);
+
+  assertEquals(result.valid, false);
+  assertEquals(result.errors[0].path, 'webhook_queue.enabled');
+});
+
+Deno.test('[DefineConfig] webhook_queue - rejects non-positive max_attempts', () => {
+  const config: SupaSaaSyConfig = {
+    ...validConfig(),
+    webhook_queue: { enabled: true, max_attempts: 0 },
+  };
+
+  const result = validateConfig(config);
+
+  assertEquals(result.valid, false);
+  assertEquals(result.errors[0].path, 'webhook_queue.max_attempts');
+});
+
+// =============================================================================
+// Entity History Config Validation Tests
+// =============================================================================
+
+Deno.test('[DefineConfig] entity_history - accepts collection keys', () => {
+  const config: SupaSaaSyConfig = {
+    ...validConfig(),
+    entity_history: { collections: ['stripe_subscription', 'stripe_price'] },
+  };
+
+  const result = validateConfig(config);
+
+  assertEquals(result.valid, true);
+});
+
+Deno.test('[DefineConfig] entity_history - rejects invalid collections', () => {
+  const config = {
+    ...validConfig(),
+    entity_history: { collections: 'stripe_subscription' },
+  } as unknown as SupaSaaSyConfig;
+
+  const result = validateConfig(config);
+
+  assertEquals(result.valid, false);
+  assertEquals(result.errors[0].path, 'entity_history.collections');
+});
+
+// =============================================================================
+// Change Feed Config Validation Tests
+// =============================================================================
+
+Deno.test('[DefineConfig] change_feed - accepts hooks, HTTP targets and a NOTIFY channel', () => {
+  const config: SupaSaaSyConfig = {
+    ...validConfig(),
+    change_feed: {
+      hooks: [() => {}],
+      http_targets: [
+        {
+          name: 'billing',
+          url: 'https://example.com/supasaasy',
+          secret_env: 'CHANGE_FEED_SECRET',
+          collections: ['stripe_subscription'],
+        },
+      ],
+      notify_channel: 'supasaasy_changes',
+    },
+  };
+
+  const result = validateConfig(config);
+
+  assertEquals(result.valid, true);
+});
+
+Deno.test('[DefineConfig] change_feed - rejects HTTP target without secret_env', () => {
+  const config = {
+    ...validConfig(),
+    change_feed: { http_targets: [{ name: 'billing', url: 'https://example.com/supasaasy' }] },
+  } as unknown as SupaSaaSyConfig;
+
+  const result = validateConfig(config);
+
+  assertEquals(result.valid, false);
+  assertEquals(result.errors[0].path, 'change_feed.http_targets[0].secret_env');
+});
+
+Deno.test('[DefineConfig] change_feed - rejects HTTP targets without a unique name', () => {
+  const config = {
+    ...validConfig(),
+    change_feed: {
+      http_targets: [
+        { url: 'https://example.com/a', secret_env: 'SECRET' },
+        { name: 'billing', url: 'https://example.com/b', secret_env: 'SECRET' },
+        { name: 'billing', url: 'https://example.com/c', secret_env: 'SECRET' },
+      ],
+    },
+  } as unknown as SupaSaaSyConfig;
+
+  const result = validateConfig(config);
+
+  assertEquals(result.valid, false);
+  assertEquals(result.errors.map((e) => e.path), [
+    'change_feed.http_targets[0].name',
+    'change_feed.http_targets[2].name',
+  ]);
+  assertEquals(result.errors[1].message, 'Duplicate HTTP target name: billing');
+});
+
+Deno.test('[DefineConfig] change_feed - rejects unknown operations filter', () => {
+  const config = {
+    ...validConfig(),
+    change_feed: {
+      http_targets: [
+        {
+          name: 'billing',
+          url: 'https://example.com/supasaasy',
+          secret_env: 'SECRET',
+          operations: ['upsert'],
+        },
+      ],
+    },
+  } as unknown as SupaSaaSyConfig;
+
+  const result = validateConfig(config);
+
+  assertEquals(result.valid, false);
+  assertEquals(result.errors[0].path, 'change_feed.http_targets[0].operations');
+});
+
+Deno.test('[DefineConfig] change_feed - rejects non-positive delivery max_attempts', () => {
+  const config: SupaSaaSyConfig = {
+    ...validConfig(),
+    change_feed: { delivery: { max_attempts: 0 } },
+  };
+
+  const result = validateConfig(config);
+
+  assertEquals(result.valid, false);
+  assertEquals(result.errors[0].path, 'change_feed.delivery.max_attempts');
+});
+
+Deno.test('[DefineConfig] change_feed - rejects invalid notify_channel', () => {
+  const config: SupaSaaSyConfig = {
+    ...validConfig(),
+    change_feed: { notify_channel: 'changes; DROP TABLE x' },
+  };
+
+  const result = validateConfig(config);
+
+  assertEquals(result.valid, false);
+  assertEquals(result.errors[0].path, 'change_feed.notify_channel');
+});
+
+// =============================================================================
+// Lifecycle Hooks Config Validation Tests
+// =============================================================================
+
+Deno.test('[DefineConfig] lifecycle_hooks - accepts global, app and collection hooks', () => {
+  const base = validConfig();
+  const config: SupaSaaSyConfig = {
+    apps: [
+      {
+        ...base.apps[0],
+        lifecycle_hooks: { collections: { stripe_customer: { beforeDelete: () => false } } },
+      },
+    ],
+    lifecycle_hooks: {
+      beforeUpsert: (entity) => entity,
+      afterUpsert: () => {},
+      collections: { stripe_subscription: { beforeUpsert: () => null } },
+    },
+  };
+
+  const result = validateConfig(config);
+
+  assertEquals(result.valid, true);
+});
+
+Deno.test('[DefineConfig] lifecycle_hooks - rejects hooks that are not functions', () => {
+  const base = validConfig();
+  const config = {
+    apps: [{ ...base.apps[0], lifecycle_hooks: { afterUpsert: 'notify' } }],
+    lifecycle_hooks: { collections: { stripe_customer: { beforeUpsert: true } } },
+  } as unknown as SupaSaaSyConfig;
+
+  const result = validateConfig(config);
+
+  assertEquals(result.valid, false);
+  assertEquals(result.errors.map((e) => e.path), [
+    'apps[0].lifecycle_hooks.afterUpsert',
+    'lifecycle_hooks.collections.stripe_customer.beforeUpsert',
+  ]);
+});
+
+// =============================================================================
+// Redaction Config Validation Tests
+// =============================================================================
+
+Deno.test('[DefineConfig] redaction - accepts collection and webhook log rules', () => {
+  const base = validConfig();
+  const config: SupaSaaSyConfig = {
+    apps: [
+      {
+        ...base.apps[0],
+        redaction: {
+          collections: {
+            stripe_customer: { drop: ['address', 'shipping'], hash: ['email'], mask: ['phone'] },
+          },
+          webhook_logs: { drop: ['data.object.address'] },
+          hash_secret_env: 'REDACTION_SECRET',
+        },
+      },
+    ],
+  };
+
+  const result = validateConfig(config);
+
+  assertEquals(result.valid, true);
+});
+
+Deno.test('[DefineConfig] redaction - rejects invalid paths', () => {
+  const base = validConfig();
+  const config = {
+    apps: [
+      {
+        ...base.apps[0],
+        redaction: {
+          collections: { stripe_customer: { drop: 'address' } },
+          webhook_logs: { mask: ['data..phone'] },
+        },
+      },
+    ],
+  } as unknown as SupaSaaSyConfig;
+
+  const result = validateConfig(config);
+
+  assertEquals(result.valid, false);
+  assertEquals(result.errors.map((e) => e.path), [
+    'apps[0].redaction.collections.stripe_customer.drop',
+    'apps[0].redaction.webhook_logs.mask',
+  ]);
+});
+
+// =============================================================================
+// Worker Config Validation Tests
+// =============================================================================
+
+Deno.test('[DefineConfig] workers - accepts valid worker config', () => {
+  const config: SupaSaaSyConfig = {
+    ...validConfig(),
+    workers: { stuck_task_timeout_seconds: 120, max_task_attempts: 5 },
+  };
+
+  const result = validateConfig(config);
+
+  assertEquals(result.valid, true);
+});
+
+Deno.test('[DefineConfig] workers - rejects non-positive stuck_task_timeout_seconds', () => {
+  const config: SupaSaaSyConfig = {
+    ...validConfig(),
+    workers: { stuck_task_timeout_seconds: 0 },
+  };
+
+  const result = validateConfig(config);
+
+  assertEquals(result.valid, false);
+  assertEquals(result.errors[0].path, 'workers.stuck_task_timeout_seconds');
+});
+
+Deno.test('[DefineConfig] workers - rejects non-integer max_task_attempts', () => {
+  const config: SupaSaaSyConfig = {
+    ...validConfig(),
+    workers: { max_task_attempts: 1.5 },
+  };
+
+  const result = validateConfig(config);
+
+  assertEquals(result.valid, false);
+  assertEquals(result.errors[0].path, 'workers.max_task_attempts');
+});
+
+Deno.test('[DefineConfig] workers - accepts retry delays', () => {
+  const config: SupaSaaSyConfig = {
+    ...validConfig(),
+    workers: { retry_base_delay_seconds: 10, retry_max_delay_seconds: 600 },
+  };
+
+  const result = validateConfig(config);
+
+  assertEquals(result.valid, true);
+});
+
+Deno.test('[DefineConfig] workers - rejects negative retry_base_delay_seconds', () => {
+  const config: SupaSaaSyConfig = {
+    ...validConfig(),
+    workers: { retry_base_delay_seconds: -1 },
+  };
+
+  const result = validateConfig(config);
+
+  assertEquals(result.valid, false);
+  assertEquals(result.errors[0].path, 'workers.retry_base_delay_seconds');
+});
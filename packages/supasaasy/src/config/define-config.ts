@@ -4,7 +4,16 @@
  * Provides type-safe configuration definition with optional runtime validation.
  */
 
-import type { AppConfig, SupaSaaSyConfig } from '../types/index.ts';
+import type {
+  AppConfig,
+  AuthRoleConfig,
+  EntityLifecycleHooks,
+  FieldRedactionRules,
+  LifecycleHooksConfig,
+  RedactionConfig,
+  SupaSaaSyConfig,
+} from '../types/index.ts';
+import { parseCron } from './cron.ts';
 
 // =============================================================================
 // Validation Types
@@ -76,6 +85,214 @@ function validateAppConfig(app: AppConfig, index: number): ConfigValidationError
     }
   }
 
+  // Validate lifecycle_hooks if provided
+  if (app.lifecycle_hooks !== undefined) {
+    errors.push(...validateLifecycleHooks(app.lifecycle_hooks, `${path}.lifecycle_hooks`));
+  }
+
+  // Validate redaction if provided
+  if (app.redaction !== undefined) {
+    errors.push(...validateRedaction(app.redaction, `${path}.redaction`));
+  }
+
+  return errors;
+}
+
+/**
+ * Validate the allow, drop, hash and mask path lists of redaction rules
+ */
+function validateRedactionRules(
+  rules: FieldRedactionRules,
+  path: string,
+): ConfigValidationError[] {
+  if (typeof rules !== 'object' || rules === null) {
+    return [{ path, message: 'redaction rules must be an object' }];
+  }
+
+  const errors: ConfigValidationError[] = [];
+
+  for (const name of ['allow', 'drop', 'hash', 'mask'] as const) {
+    const paths = rules[name];
+    if (
+      paths !== undefined &&
+      (!Array.isArray(paths) ||
+        !paths.every((p) => typeof p === 'string' && p.length > 0 && !p.split('.').includes('')))
+    ) {
+      errors.push({
+        path: `${path}.${name}`,
+        message: `${name} must be an array of dot-separated paths`,
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate app redaction configuration
+ */
+function validateRedaction(redaction: RedactionConfig, path: string): ConfigValidationError[] {
+  if (typeof redaction !== 'object' || redaction === null) {
+    return [{ path, message: 'redaction must be an object' }];
+  }
+
+  const errors: ConfigValidationError[] = [];
+
+  if (redaction.collections !== undefined) {
+    if (typeof redaction.collections !== 'object' || redaction.collections === null) {
+      errors.push({
+        path: `${path}.collections`,
+        message: 'collections must be an object keyed by collection key',
+      });
+    } else {
+      for (const [collectionKey, rules] of Object.entries(redaction.collections)) {
+        errors.push(...validateRedactionRules(rules, `${path}.collections.${collectionKey}`));
+      }
+    }
+  }
+
+  if (redaction.webhook_logs !== undefined) {
+    errors.push(...validateRedactionRules(redaction.webhook_logs, `${path}.webhook_logs`));
+  }
+
+  if (
+    redaction.hash_secret_env !== undefined &&
+    (typeof redaction.hash_secret_env !== 'string' || redaction.hash_secret_env.length === 0)
+  ) {
+    errors.push({
+      path: `${path}.hash_secret_env`,
+      message: 'hash_secret_env must be a string',
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Check that the beforeUpsert, afterUpsert and beforeDelete hooks of an object are functions
+ */
+function validateHookFunctions(
+  hooks: EntityLifecycleHooks,
+  path: string,
+): ConfigValidationError[] {
+  const errors: ConfigValidationError[] = [];
+
+  for (const name of ['beforeUpsert', 'afterUpsert', 'beforeDelete'] as const) {
+    if (hooks[name] !== undefined && typeof hooks[name] !== 'function') {
+      errors.push({
+        path: `${path}.${name}`,
+        message: `${name} must be a function`,
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate lifecycle hooks configuration (global or per app)
+ */
+function validateLifecycleHooks(
+  hooks: LifecycleHooksConfig,
+  path: string,
+): ConfigValidationError[] {
+  if (typeof hooks !== 'object' || hooks === null) {
+    return [{ path, message: 'lifecycle_hooks must be an object' }];
+  }
+
+  const errors = validateHookFunctions(hooks, path);
+
+  if (hooks.collections !== undefined) {
+    if (typeof hooks.collections !== 'object' || hooks.collections === null) {
+      errors.push({
+        path: `${path}.collections`,
+        message: 'collections must be an object keyed by collection key',
+      });
+    } else {
+      for (const [collectionKey, collectionHooks] of Object.entries(hooks.collections)) {
+        const collectionPath = `${path}.collections.${collectionKey}`;
+        if (typeof collectionHooks !== 'object' || collectionHooks === null) {
+          errors.push({
+            path: collectionPath,
+            message: 'collection hooks must be an object',
+          });
+        } else {
+          errors.push(...validateHookFunctions(collectionHooks, collectionPath));
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate auth roles. Role names and collection patterns end up in the generated
+ * policies, so only identifier characters are allowed.
+ */
+function validateAuthRoles(
+  roles: Record<string, AuthRoleConfig>,
+  path: string,
+): ConfigValidationError[] {
+  if (typeof roles !== 'object' || roles === null || Array.isArray(roles)) {
+    return [{ path, message: 'roles must be an object keyed by role name' }];
+  }
+  if (Object.keys(roles).length === 0) {
+    return [{ path, message: 'roles must define at least one role' }];
+  }
+
+  const tables = [
+    'entities',
+    'entity_versions',
+    'sync_state',
+    'webhook_logs',
+    'webhook_events',
+    'webhook_queue',
+    'outbound_deliveries',
+    'sync_jobs',
+    'sync_job_tasks',
+  ];
+  const errors: ConfigValidationError[] = [];
+
+  for (const [roleName, role] of Object.entries(roles)) {
+    const rolePath = `${path}.${roleName}`;
+
+    if (!/^[a-z][a-z0-9_]{0,18}$/.test(roleName)) {
+      errors.push({
+        path: rolePath,
+        message:
+          'role name must start with a lowercase letter, contain only lowercase letters, numbers, and underscores, and be at most 19 characters',
+      });
+    }
+
+    if (typeof role !== 'object' || role === null) {
+      errors.push({ path: rolePath, message: 'role must be an object' });
+      continue;
+    }
+
+    if (
+      !Array.isArray(role.tables) ||
+      !role.tables.every((table) => tables.includes(table))
+    ) {
+      errors.push({
+        path: `${rolePath}.tables`,
+        message: `tables must be an array of: ${tables.join(', ')}`,
+      });
+    }
+
+    if (
+      role.collections !== undefined &&
+      (!Array.isArray(role.collections) ||
+        !role.collections.every((p) => typeof p === 'string' && /^[A-Za-z0-9_*]+$/.test(p)))
+    ) {
+      errors.push({
+        path: `${rolePath}.collections`,
+        message:
+          'collections must be an array of collection key patterns (letters, numbers, underscores and *)',
+      });
+    }
+  }
+
   return errors;
 }
 
@@ -142,6 +359,14 @@ export function validateConfig(config: SupaSaaSyConfig): ConfigValidationResult
             path: `${path}.cron`,
             message: 'cron is required and must be a string',
           });
+        } else {
+          const { error } = parseCron(schedule.cron);
+          if (error) {
+            errors.push({
+              path: `${path}.cron`,
+              message: `cron "${schedule.cron}" is not a valid cron expression: ${error.message}`,
+            });
+          }
         }
 
         if (typeof schedule.enabled !== 'boolean') {
@@ -150,6 +375,27 @@ export function validateConfig(config: SupaSaaSyConfig): ConfigValidationResult
             message: 'enabled is required and must be a boolean',
           });
         }
+
+        if (
+          schedule.mode !== undefined && schedule.mode !== 'full' &&
+          schedule.mode !== 'incremental'
+        ) {
+          errors.push({
+            path: `${path}.mode`,
+            message: 'mode must be "full" or "incremental"',
+          });
+        }
+
+        if (
+          schedule.resource_types !== undefined &&
+          (!Array.isArray(schedule.resource_types) ||
+            !schedule.resource_types.every((r) => typeof r === 'string'))
+        ) {
+          errors.push({
+            path: `${path}.resource_types`,
+            message: 'resource_types must be an array of strings',
+          });
+        }
       });
     }
   }
@@ -171,6 +417,293 @@ export function validateConfig(config: SupaSaaSyConfig): ConfigValidationResult
     }
   }
 
+  // Validate webhook_queue if provided
+  if (config.webhook_queue !== undefined) {
+    if (typeof config.webhook_queue !== 'object' || config.webhook_queue === null) {
+      errors.push({
+        path: 'webhook_queue',
+        message: 'webhook_queue must be an object',
+      });
+    } else {
+      const {
+        enabled,
+        max_attempts,
+        retry_base_delay_seconds,
+        retry_max_delay_seconds,
+      } = config.webhook_queue;
+
+      if (typeof enabled !== 'boolean') {
+        errors.push({
+          path: 'webhook_queue.enabled',
+          message: 'enabled is required and must be a boolean',
+        });
+      }
+
+      if (max_attempts !== undefined && (!Number.isInteger(max_attempts) || max_attempts < 1)) {
+        errors.push({
+          path: 'webhook_queue.max_attempts',
+          message: 'max_attempts must be a positive integer',
+        });
+      }
+
+      if (
+        retry_base_delay_seconds !== undefined &&
+        (typeof retry_base_delay_seconds !== 'number' || !(retry_base_delay_seconds >= 0))
+      ) {
+        errors.push({
+          path: 'webhook_queue.retry_base_delay_seconds',
+          message: 'retry_base_delay_seconds must be a non-negative number',
+        });
+      }
+
+      if (
+        retry_max_delay_seconds !== undefined &&
+        (typeof retry_max_delay_seconds !== 'number' || !(retry_max_delay_seconds >= 0))
+      ) {
+        errors.push({
+          path: 'webhook_queue.retry_max_delay_seconds',
+          message: 'retry_max_delay_seconds must be a non-negative number',
+        });
+      }
+    }
+  }
+
+  // Validate entity_history if provided
+  if (config.entity_history !== undefined) {
+    if (typeof config.entity_history !== 'object' || config.entity_history === null) {
+      errors.push({
+        path: 'entity_history',
+        message: 'entity_history must be an object',
+      });
+    } else if (
+      !Array.isArray(config.entity_history.collections) ||
+      !config.entity_history.collections.every((c) => typeof c === 'string' && c.length > 0)
+    ) {
+      errors.push({
+        path: 'entity_history.collections',
+        message: 'collections is required and must be an array of collection keys',
+      });
+    }
+  }
+
+  // Validate change_feed if provided
+  if (config.change_feed !== undefined) {
+    if (typeof config.change_feed !== 'object' || config.change_feed === null) {
+      errors.push({
+        path: 'change_feed',
+        message: 'change_feed must be an object',
+      });
+    } else {
+      const { hooks, http_targets, delivery, notify_channel } = config.change_feed;
+
+      if (
+        hooks !== undefined &&
+        (!Array.isArray(hooks) || !hooks.every((hook) => typeof hook === 'function'))
+      ) {
+        errors.push({
+          path: 'change_feed.hooks',
+          message: 'hooks must be an array of functions',
+        });
+      }
+
+      if (http_targets !== undefined) {
+        if (!Array.isArray(http_targets)) {
+          errors.push({
+            path: 'change_feed.http_targets',
+            message: 'http_targets must be an array',
+          });
+        } else {
+          const targetNames = new Set<string>();
+          http_targets.forEach((target, index) => {
+            const path = `change_feed.http_targets[${index}]`;
+
+            if (typeof target.name !== 'string' || target.name.length === 0) {
+              errors.push({
+                path: `${path}.name`,
+                message: 'name is required and must be a string',
+              });
+            } else {
+              if (targetNames.has(target.name)) {
+                errors.push({
+                  path: `${path}.name`,
+                  message: `Duplicate HTTP target name: ${target.name}`,
+                });
+              }
+              targetNames.add(target.name);
+            }
+
+            if (typeof target.url !== 'string' || !/^https?:\/\//.test(target.url)) {
+              errors.push({
+                path: `${path}.url`,
+                message: 'url is required and must be an http(s) URL',
+              });
+            }
+
+            if (typeof target.secret_env !== 'string' || target.secret_env.length === 0) {
+              errors.push({
+                path: `${path}.secret_env`,
+                message: 'secret_env is required and must be a string',
+              });
+            }
+
+            if (
+              target.app_keys !== undefined &&
+              (!Array.isArray(target.app_keys) ||
+                !target.app_keys.every((k) => typeof k === 'string' && k.length > 0))
+            ) {
+              errors.push({
+                path: `${path}.app_keys`,
+                message: 'app_keys must be an array of app keys',
+              });
+            }
+
+            if (
+              target.collections !== undefined &&
+              (!Array.isArray(target.collections) ||
+                !target.collections.every((c) => typeof c === 'string' && c.length > 0))
+            ) {
+              errors.push({
+                path: `${path}.collections`,
+                message: 'collections must be an array of collection keys',
+              });
+            }
+
+            if (
+              target.operations !== undefined &&
+              (!Array.isArray(target.operations) ||
+                !target.operations.every((o) => ['create', 'update', 'delete'].includes(o)))
+            ) {
+              errors.push({
+                path: `${path}.operations`,
+                message: 'operations must be an array of create, update or delete',
+              });
+            }
+          });
+        }
+      }
+
+      if (delivery !== undefined) {
+        if (typeof delivery !== 'object' || delivery === null) {
+          errors.push({
+            path: 'change_feed.delivery',
+            message: 'delivery must be an object',
+          });
+        } else {
+          const { max_attempts, retry_base_delay_seconds, retry_max_delay_seconds } = delivery;
+
+          if (
+            max_attempts !== undefined && (!Number.isInteger(max_attempts) || max_attempts < 1)
+          ) {
+            errors.push({
+              path: 'change_feed.delivery.max_attempts',
+              message: 'max_attempts must be a positive integer',
+            });
+          }
+
+          if (
+            retry_base_delay_seconds !== undefined &&
+            (typeof retry_base_delay_seconds !== 'number' || !(retry_base_delay_seconds >= 0))
+          ) {
+            errors.push({
+              path: 'change_feed.delivery.retry_base_delay_seconds',
+              message: 'retry_base_delay_seconds must be a non-negative number',
+            });
+          }
+
+          if (
+            retry_max_delay_seconds !== undefined &&
+            (typeof retry_max_delay_seconds !== 'number' || !(retry_max_delay_seconds >= 0))
+          ) {
+            errors.push({
+              path: 'change_feed.delivery.retry_max_delay_seconds',
+              message: 'retry_max_delay_seconds must be a non-negative number',
+            });
+          }
+        }
+      }
+
+      if (
+        notify_channel !== undefined &&
+        (typeof notify_channel !== 'string' || !/^[a-z_][a-z0-9_]*$/.test(notify_channel))
+      ) {
+        errors.push({
+          path: 'change_feed.notify_channel',
+          message: 'notify_channel must be lowercase letters, numbers and underscores',
+        });
+      }
+    }
+  }
+
+  // Validate lifecycle_hooks if provided
+  if (config.lifecycle_hooks !== undefined) {
+    errors.push(...validateLifecycleHooks(config.lifecycle_hooks, 'lifecycle_hooks'));
+  }
+
+  // Validate workers if provided
+  if (config.workers !== undefined) {
+    if (typeof config.workers !== 'object' || config.workers === null) {
+      errors.push({
+        path: 'workers',
+        message: 'workers must be an object',
+      });
+    } else {
+      const {
+        stuck_task_timeout_seconds,
+        max_task_attempts,
+        retry_base_delay_seconds,
+        retry_max_delay_seconds,
+        pg_cron,
+      } = config.workers;
+
+      if (
+        stuck_task_timeout_seconds !== undefined &&
+        (typeof stuck_task_timeout_seconds !== 'number' || !(stuck_task_timeout_seconds > 0))
+      ) {
+        errors.push({
+          path: 'workers.stuck_task_timeout_seconds',
+          message: 'stuck_task_timeout_seconds must be a positive number',
+        });
+      }
+
+      if (
+        max_task_attempts !== undefined &&
+        (!Number.isInteger(max_task_attempts) || max_task_attempts < 1)
+      ) {
+        errors.push({
+          path: 'workers.max_task_attempts',
+          message: 'max_task_attempts must be a positive integer',
+        });
+      }
+
+      if (
+        retry_base_delay_seconds !== undefined &&
+        (typeof retry_base_delay_seconds !== 'number' || !(retry_base_delay_seconds >= 0))
+      ) {
+        errors.push({
+          path: 'workers.retry_base_delay_seconds',
+          message: 'retry_base_delay_seconds must be a non-negative number',
+        });
+      }
+
+      if (
+        retry_max_delay_seconds !== undefined &&
+        (typeof retry_max_delay_seconds !== 'number' || !(retry_max_delay_seconds >= 0))
+      ) {
+        errors.push({
+          path: 'workers.retry_max_delay_seconds',
+          message: 'retry_max_delay_seconds must be a non-negative number',
+        });
+      }
+
+      if (pg_cron !== undefined && typeof pg_cron !== 'boolean') {
+        errors.push({
+          path: 'workers.pg_cron',
+          message: 'pg_cron must be a boolean',
+        });
+      }
+    }
+  }
+
   // Validate auth if provided
   if (config.auth !== undefined) {
     if (typeof config.auth !== 'object' || config.auth === null) {
@@ -185,6 +718,17 @@ export function validateConfig(config: SupaSaaSyConfig): ConfigValidationResult
           message: 'enabled is required and must be a boolean',
         });
       }
+      if (
+        config.auth.per_app_access !== undefined && typeof config.auth.per_app_access !== 'boolean'
+      ) {
+        errors.push({
+          path: 'auth.per_app_access',
+          message: 'per_app_access must be a boolean',
+        });
+      }
+      if (config.auth.roles !== undefined) {
+        errors.push(...validateAuthRoles(config.auth.roles, 'auth.roles'));
+      }
     }
   }
 
@@ -150,7 +150,7 @@ export function testConnectorConformance(options: ConformanceTestOptions): void
       assertExists(event);
       assertExists(event.eventType);
       assertEquals(
-        ['create', 'update', 'delete', 'archive'].includes(event.eventType),
+        ['create', 'update', 'delete', 'archive', 'undelete'].includes(event.eventType),
         true,
         `eventType should be valid, got: ${event.eventType}`,
       );
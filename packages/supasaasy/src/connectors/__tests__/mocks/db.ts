@@ -4,12 +4,14 @@
  * Provides mock implementations of database functions from db.ts
  */
 
-import type {
-  DeleteResult,
-  Entity,
-  SyncState,
-  UpsertEntityData,
-  UpsertResult,
+import {
+  type DeleteResult,
+  type Entity,
+  resetClient,
+  type SyncState,
+  type UpsertEntitiesResult,
+  type UpsertEntityData,
+  type UpsertResult,
 } from '../../../db/index.ts';
 
 // =============================================================================
@@ -61,6 +63,25 @@ export class MockEntityStore {
     return Array.from(this.entities.values());
   }
 
+  /**
+   * Canonical payload text (sorted keys), standing in for the database's payload_hash
+   */
+  private payloadHash(payload: Record<string, unknown>): string {
+    const canonical = (value: unknown): unknown => {
+      if (Array.isArray(value)) return value.map(canonical);
+      if (value && typeof value === 'object') {
+        return Object.fromEntries(
+          Object.keys(value).sort().map((key) => [
+            key,
+            canonical((value as Record<string, unknown>)[key]),
+          ]),
+        );
+      }
+      return value;
+    };
+    return JSON.stringify(canonical(payload));
+  }
+
   /**
    * Mock upsertEntity implementation
    */
@@ -68,15 +89,48 @@ export class MockEntityStore {
     const key = this.entityKey(data.app_key, data.collection_key, data.external_id);
     const existing = this.entities.get(key);
     const now = new Date().toISOString();
+    const payloadHash = this.payloadHash(data.raw_payload);
 
     if (existing) {
+      // Skip writes older than the stored source timestamp (like the stale update trigger)
+      if (
+        data.source_updated_at && existing.source_updated_at &&
+        new Date(data.source_updated_at) < new Date(existing.source_updated_at)
+      ) {
+        return { data: null, error: null, created: false, skipped: true };
+      }
+
+      // Keep the archived_at of an entity that stays archived (like upsert_entities)
+      const archivedAt = data.archived_at ? existing.archived_at ?? data.archived_at : null;
+
+      // Skip writes that change nothing (like the payload_hash trigger)
+      const deletedAt = data.deleted_at !== undefined ? data.deleted_at : existing.deleted_at;
+      if (
+        existing.payload_hash === payloadHash &&
+        existing.api_version === (data.api_version ?? null) &&
+        existing.archived_at === archivedAt &&
+        existing.deleted_at === deletedAt
+      ) {
+        return { data: null, error: null, created: false, skipped: true };
+      }
+
       // Update existing
       const updated: Entity = {
         ...existing,
         raw_payload: data.raw_payload,
         api_version: data.api_version ?? null,
-        archived_at: data.archived_at ?? null,
+        archived_at: archivedAt,
         updated_at: now,
+        source_updated_at: data.source_updated_at ?? existing.source_updated_at,
+        change_source: data.change_source ?? null,
+        payload_hash: payloadHash,
+        // Like the payload_hash trigger, the version starts when the payload changes
+        // or the entity is deleted or restored
+        payload_valid_from: existing.payload_hash !== payloadHash ||
+            (existing.deleted_at === null) !== (deletedAt === null)
+          ? now
+          : existing.payload_valid_from,
+        deleted_at: deletedAt,
       };
       this.entities.set(key, updated);
       return { data: updated, error: null, created: false };
@@ -93,6 +147,10 @@ export class MockEntityStore {
         updated_at: now,
         archived_at: data.archived_at ?? null,
         deleted_at: null,
+        source_updated_at: data.source_updated_at ?? null,
+        change_source: data.change_source ?? null,
+        payload_hash: payloadHash,
+        payload_valid_from: now,
       };
       this.entities.set(key, entity);
       return { data: entity, error: null, created: true };
@@ -102,22 +160,28 @@ export class MockEntityStore {
   /**
    * Mock upsertEntities implementation
    */
-  upsertEntities(
-    entities: UpsertEntityData[],
-  ): { data: Entity[] | null; error: Error | null } {
+  upsertEntities(entities: UpsertEntityData[]): UpsertEntitiesResult {
     const results: Entity[] = [];
+    let created = 0;
 
     for (const entityData of entities) {
       const result = this.upsertEntity(entityData);
       if (result.error) {
-        return { data: null, error: result.error };
+        return { data: null, error: result.error, created: 0, updated: 0, unchanged: 0 };
       }
       if (result.data) {
         results.push(result.data);
+        if (result.created) created++;
       }
     }
 
-    return { data: results, error: null };
+    return {
+      data: results,
+      error: null,
+      created,
+      updated: results.length - created,
+      unchanged: entities.length - results.length,
+    };
   }
 
   /**
@@ -188,6 +252,32 @@ export class MockEntityStore {
     return { data: ids, error: null };
   }
 
+  /**
+   * Mock getEntityExternalIdsByPayloadField implementation
+   */
+  getEntityExternalIdsByPayloadField(
+    appKey: string,
+    collectionKey: string,
+    field: string,
+    value: string | null,
+    createdGte?: number,
+  ): { data: Set<string> | null; error: Error | null } {
+    const ids = new Set<string>();
+
+    for (const entity of this.entities.values()) {
+      if (entity.app_key === appKey && entity.collection_key === collectionKey) {
+        if ((entity.raw_payload?.[field] ?? null) !== value) continue;
+        const created = entity.raw_payload?.created;
+        if (createdGte !== undefined && !(typeof created === 'number' && created >= createdGte)) {
+          continue;
+        }
+        ids.add(entity.external_id);
+      }
+    }
+
+    return { data: ids, error: null };
+  }
+
   /**
    * Mock getEntityExternalIdsCreatedAfter implementation
    */
@@ -295,6 +385,17 @@ export function createMockDatabase() {
     getEntityExternalIds: (appKey: string, collectionKey: string) =>
       Promise.resolve(store.getEntityExternalIds(appKey, collectionKey)),
 
+    getEntityExternalIdsByPayloadField: (
+      appKey: string,
+      collectionKey: string,
+      field: string,
+      value: string | null,
+      createdGte?: number,
+    ) =>
+      Promise.resolve(
+        store.getEntityExternalIdsByPayloadField(appKey, collectionKey, field, value, createdGte),
+      ),
+
     getEntityExternalIdsCreatedAfter: (
       appKey: string,
       collectionKey: string,
@@ -321,3 +422,146 @@ export function createMockDatabase() {
  * Type for the mock database
  */
 export type MockDatabase = ReturnType<typeof createMockDatabase>;
+
+// =============================================================================
+// Supabase Fetch Mock
+// =============================================================================
+
+/**
+ * URL the mocked Supabase client is pointed at
+ */
+const MOCK_SUPABASE_URL = 'http://supabase.test';
+
+/**
+ * A request made by the Supabase client while the mock is installed
+ */
+export interface MockSupabaseRequest {
+  method: string;
+  /** Path below /rest/v1, e.g. 'entities' or 'rpc/upsert_entities' */
+  path: string;
+  params: URLSearchParams;
+  body: unknown;
+}
+
+/**
+ * Check an entity against the PostgREST eq./is.null filters of a request
+ */
+function matchesFilters(entity: Entity, params: URLSearchParams): boolean {
+  for (const [column, filter] of params.entries()) {
+    const value = (entity as unknown as Record<string, unknown>)[column];
+    if (filter.startsWith('eq.') && String(value) !== filter.slice(3)) return false;
+    if (filter === 'is.null' && value !== null) return false;
+  }
+  return true;
+}
+
+/**
+ * Answer a Supabase REST request from the in-memory store.
+ * Entity upserts (upsert_entities) and entity reads and deletes go to the store;
+ * other paths get their canned response, if one was set, and otherwise succeed
+ * with an empty result.
+ */
+function handleSupabaseRequest(
+  store: MockEntityStore,
+  responses: Map<string, unknown[]>,
+  request: MockSupabaseRequest,
+): Response {
+  const json = (data: unknown, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(data), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', ...headers },
+    });
+
+  if (request.path === 'rpc/upsert_entities') {
+    const records = (request.body as { p_entities: UpsertEntityData[] }).p_entities;
+    const rows = [];
+    for (const record of records) {
+      const previous =
+        store.getEntity(record.app_key, record.collection_key, record.external_id).data;
+      const result = store.upsertEntity(record);
+      if (result.data) {
+        rows.push({ entity: result.data, created: result.created, previous });
+      }
+    }
+    return json(rows);
+  }
+
+  if (request.path === 'entities') {
+    const matched = store.getAllEntities().filter((entity) =>
+      matchesFilters(entity, request.params)
+    );
+    if (request.method === 'DELETE') {
+      for (const entity of matched) {
+        store.deleteEntity(entity.app_key, entity.collection_key, entity.external_id);
+      }
+    }
+    return json(matched, {
+      'Content-Range': `0-${Math.max(matched.length - 1, 0)}/${matched.length}`,
+    });
+  }
+
+  return json(responses.get(request.path) ?? []);
+}
+
+/**
+ * Point the db module at a mocked Supabase backed by a MockEntityStore.
+ * Requests are recorded; paths added to failingPaths (e.g. 'rpc/upsert_entities')
+ * fail with a 500, and paths set in responses (e.g. 'sync_jobs') return those rows.
+ * Call restore() to put back fetch and the environment.
+ */
+export function installMockSupabase(store: MockEntityStore = new MockEntityStore()) {
+  const originalFetch = globalThis.fetch;
+  const originalUrl = Deno.env.get('SUPABASE_URL');
+  const originalKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  const requests: MockSupabaseRequest[] = [];
+  const failingPaths = new Set<string>();
+  const responses = new Map<string, unknown[]>();
+
+  Deno.env.set('SUPABASE_URL', MOCK_SUPABASE_URL);
+  Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', 'test-service-role-key');
+  resetClient();
+
+  globalThis.fetch = async (input: string | URL | Request, init?: RequestInit) => {
+    const httpRequest = new Request(input, init);
+    const url = new URL(httpRequest.url);
+    if (url.origin !== MOCK_SUPABASE_URL) {
+      return await originalFetch(input, init);
+    }
+
+    const text = await httpRequest.text();
+    const request: MockSupabaseRequest = {
+      method: httpRequest.method,
+      path: url.pathname.replace(/^\/rest\/v1\//, ''),
+      params: url.searchParams,
+      body: text ? JSON.parse(text) : null,
+    };
+    requests.push(request);
+    if (failingPaths.has(request.path)) {
+      return new Response(JSON.stringify({ message: `Mock failure: ${request.path}` }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    return handleSupabaseRequest(store, responses, request);
+  };
+
+  return {
+    store,
+    requests,
+    failingPaths,
+    responses,
+    restore: () => {
+      globalThis.fetch = originalFetch;
+      const restoreEnv = (name: string, value: string | undefined) =>
+        value === undefined ? Deno.env.delete(name) : Deno.env.set(name, value);
+      restoreEnv('SUPABASE_URL', originalUrl);
+      restoreEnv('SUPABASE_SERVICE_ROLE_KEY', originalKey);
+      resetClient();
+    },
+  };
+}
+
+/**
+ * Type for the installed Supabase mock
+ */
+export type MockSupabase = ReturnType<typeof installMockSupabase>;
@@ -189,3 +189,25 @@ export function getRetryAfterSeconds(error: unknown): number | undefined {
   }
   return undefined;
 }
+
+/**
+ * Parse a Retry-After header value into seconds.
+ * Accepts either a number of seconds or an HTTP date; falls back to the
+ * given default when the header is missing or malformed.
+ */
+export function parseRetryAfterHeader(value: string | null, fallbackSeconds = 60): number {
+  if (!value) {
+    return fallbackSeconds;
+  }
+
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value, 10);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+
+  return fallbackSeconds;
+}
@@ -228,6 +228,13 @@ export function getConfig(): SupaSaaSyConfig {
   return currentConfig;
 }
 
+/**
+ * Check whether a configuration has been set
+ */
+export function hasConfig(): boolean {
+  return currentConfig !== null;
+}
+
 /**
  * Clear the current configuration (useful for testing)
  */
@@ -7,6 +7,7 @@
 
 import type { AppConfig } from '../../types/index.ts';
 import type { ConfigValidationError, ConfigValidationResult } from '../index.ts';
+import { ApiError, parseRetryAfterHeader, RateLimitError } from '../errors.ts';
 import { createConnectorLogger } from '../utils.ts';
 import type {
   IntercomAdmin,
@@ -284,7 +285,14 @@ export function createIntercomClient(appConfig: AppConfig): IntercomClient {
           errorMessage += ` - ${errorText}`;
         }
       }
-      throw new Error(errorMessage);
+      if (response.status === 429) {
+        throw new RateLimitError(
+          CONNECTOR_NAME,
+          parseRetryAfterHeader(response.headers.get('Retry-After')),
+          errorMessage,
+        );
+      }
+      throw new ApiError(CONNECTOR_NAME, errorMessage, response.status, errorText);
     }
 
     return await response.json() as T;
@@ -84,5 +84,8 @@ export function normalizeIntercomEntity(
     rawPayload: data,
     apiVersion: DEFAULT_API_VERSION,
     archivedAt,
+    sourceUpdatedAt: typeof data.updated_at === 'number'
+      ? new Date(data.updated_at * 1000)
+      : undefined,
   });
 }
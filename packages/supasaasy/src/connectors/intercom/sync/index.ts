@@ -115,6 +115,11 @@ export async function fullSync(
     }
 
     results.push(syncResult);
+
+    // Don't start the next resource if the sync was cancelled
+    if (syncResult.cancelled) {
+      break;
+    }
   }
 
   const merged = mergeSyncResults(results);
@@ -183,6 +188,11 @@ export async function incrementalSync(
     }
 
     results.push(syncResult);
+
+    // Don't start the next resource if the sync was cancelled
+    if (syncResult.cancelled) {
+      break;
+    }
   }
 
   const merged = mergeSyncResults(results);
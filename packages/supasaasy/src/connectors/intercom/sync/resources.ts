@@ -5,11 +5,30 @@
  */
 
 import type { AppConfig, NormalizedEntity, SyncOptions, SyncResult } from '../../../types/index.ts';
-import { deleteEntity, upsertEntities, type UpsertEntityData } from '../../../db/index.ts';
-import { createTimer, emptySyncResult } from '../../utils.ts';
+import {
+  deleteEntity,
+  type DeleteResult,
+  upsertEntities,
+  type UpsertEntitiesResult,
+  type UpsertEntityData,
+} from '../../../db/index.ts';
+import {
+  type EntityHookSource,
+  runAfterUpsertHooks,
+  runBeforeDeleteHooks,
+  runBeforeUpsertHooks,
+  selectWrittenEntities,
+} from '../../../lifecycle/index.ts';
+import {
+  addUpsertCounts,
+  countProcessed,
+  createTimer,
+  emptySyncResult,
+  setRetryInfo,
+} from '../../utils.ts';
 import { DEFAULT_PAGE_SIZE, type IntercomClient, logger } from '../client.ts';
 import { normalizeIntercomEntity } from '../normalization.ts';
-import { INTERCOM_COLLECTION_KEYS } from '../types.ts';
+import { INTERCOM_COLLECTION_KEYS, type IntercomCompanyListResponse } from '../types.ts';
 
 // =============================================================================
 // Helper Functions
@@ -26,15 +45,60 @@ function toUpsertData(entity: NormalizedEntity): UpsertEntityData {
     raw_payload: entity.rawPayload,
     api_version: entity.apiVersion,
     archived_at: entity.archivedAt?.toISOString() ?? null,
+    source_updated_at: entity.sourceUpdatedAt?.toISOString() ?? null,
   };
 }
 
+/**
+ * Upsert a page of entities. The beforeUpsert lifecycle hooks run first and may
+ * change or skip entities; the afterUpsert hooks run for the entities written.
+ */
+async function upsertPage(
+  entities: NormalizedEntity[],
+  options: SyncOptions,
+): Promise<UpsertEntitiesResult> {
+  const hookSource: EntityHookSource = { source: 'sync', changeSource: options.changeSource };
+  const toWrite = await runBeforeUpsertHooks(entities, hookSource);
+  if (toWrite.length === 0) {
+    return { data: [], error: null, created: 0, updated: 0, unchanged: 0 };
+  }
+
+  const result = await upsertEntities(toWrite.map(toUpsertData), options.changeSource);
+  if (!result.error) {
+    await runAfterUpsertHooks(selectWrittenEntities(toWrite, result.data), hookSource);
+  }
+  return result;
+}
+
+/**
+ * Delete an entity that Intercom no longer returns, unless a beforeDelete lifecycle hook
+ * keeps it (skipped: true).
+ */
+async function deleteMissingEntity(
+  appKey: string,
+  collectionKey: string,
+  externalId: string,
+  options: SyncOptions,
+): Promise<DeleteResult & { skipped?: boolean }> {
+  const shouldDelete = await runBeforeDeleteHooks(
+    { appKey, collectionKey, externalId },
+    { source: 'sync', changeSource: options.changeSource },
+  );
+  if (!shouldDelete) {
+    return { count: 0, error: null, skipped: true };
+  }
+
+  return await deleteEntity(appKey, collectionKey, externalId);
+}
+
 // =============================================================================
 // Company Sync
 // =============================================================================
 
 /**
- * Sync companies from Intercom
+ * Sync companies from Intercom.
+ * Intercom expires scroll params after a minute, so a resumed scroll whose param
+ * has expired starts over from the first page.
  */
 export async function syncCompanies(
   client: IntercomClient,
@@ -45,16 +109,30 @@ export async function syncCompanies(
 ): Promise<SyncResult> {
   const result = emptySyncResult();
   const timer = createTimer();
-  let scrollParam: string | undefined;
+  let scrollParam = options.cursor;
   const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
   const seenIds = new Set<string>();
 
   try {
     let hasMore = true;
     while (hasMore) {
-      const response = await client.listCompanies(scrollParam, pageSize);
+      // Stop before fetching the next page if the sync was cancelled
+      if (options.isCancelled && (await options.isCancelled())) {
+        result.cancelled = true;
+        break;
+      }
 
-      const entities: UpsertEntityData[] = [];
+      let response: IntercomCompanyListResponse;
+      try {
+        response = await client.listCompanies(scrollParam, pageSize);
+      } catch (error) {
+        if (!scrollParam || scrollParam !== options.cursor) throw error;
+        logger.warn('sync', 'Could not resume the company scroll, starting over');
+        scrollParam = undefined;
+        response = await client.listCompanies(scrollParam, pageSize);
+      }
+
+      const entities: NormalizedEntity[] = [];
       for (const company of response.data) {
         // Filter by sync_from if configured (only for full sync)
         if (syncFromTimestamp && !options.since && company.created_at < syncFromTimestamp) {
@@ -67,17 +145,17 @@ export async function syncCompanies(
           company as unknown as Record<string, unknown>,
           appConfig,
         );
-        entities.push(toUpsertData(entity));
+        entities.push(entity);
       }
 
       if (entities.length > 0) {
-        const { error } = await upsertEntities(entities);
+        const { created, updated, unchanged, error } = await upsertPage(entities, options);
         if (error) {
           result.errors++;
           result.errorMessages = result.errorMessages || [];
           result.errorMessages.push(error.message);
         } else {
-          result.created += entities.length;
+          addUpsertCounts(result, { created, updated, unchanged });
         }
       }
 
@@ -86,6 +164,10 @@ export async function syncCompanies(
       hasMore = response.scroll_param !== undefined && response.data.length > 0;
       if (hasMore) {
         scrollParam = response.scroll_param;
+        // Checkpoint the next page so an interrupted sync can resume from here
+        if (scrollParam && options.onCursor) {
+          await options.onCursor(scrollParam, countProcessed(result));
+        }
       }
 
       // Check limit
@@ -94,18 +176,19 @@ export async function syncCompanies(
       }
     }
 
-    // Detect deletions during full sync (only for records in sync window)
-    if (!options.since && existingIds) {
+    // Detect deletions during full sync (sync window only, not when resuming)
+    if (!result.cancelled && !options.since && !options.cursor && existingIds) {
       for (const existingId of existingIds) {
         if (!seenIds.has(existingId)) {
-          const { error } = await deleteEntity(
+          const { error, skipped } = await deleteMissingEntity(
             appConfig.app_key,
             INTERCOM_COLLECTION_KEYS.company,
             existingId,
+            options,
           );
           if (error) {
             result.errors++;
-          } else {
+          } else if (!skipped) {
             result.deleted++;
           }
         }
@@ -118,6 +201,7 @@ export async function syncCompanies(
     result.success = false;
     result.errors++;
     result.errorMessages = [message];
+    setRetryInfo(result, error);
     logger.error('sync', `Company sync failed: ${message}`);
   }
 
@@ -140,16 +224,22 @@ export async function syncContacts(
 ): Promise<SyncResult> {
   const result = emptySyncResult();
   const timer = createTimer();
-  let cursor: string | undefined;
+  let cursor = options.cursor;
   const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
   const seenIds = new Set<string>();
 
   try {
     let hasMore = true;
     while (hasMore) {
+      // Stop before fetching the next page if the sync was cancelled
+      if (options.isCancelled && (await options.isCancelled())) {
+        result.cancelled = true;
+        break;
+      }
+
       const response = await client.listContacts(cursor, pageSize);
 
-      const entities: UpsertEntityData[] = [];
+      const entities: NormalizedEntity[] = [];
       for (const contact of response.data) {
         // Filter by sync_from if configured (only for full sync)
         if (syncFromTimestamp && !options.since && contact.created_at < syncFromTimestamp) {
@@ -162,17 +252,17 @@ export async function syncContacts(
           contact as unknown as Record<string, unknown>,
           appConfig,
         );
-        entities.push(toUpsertData(entity));
+        entities.push(entity);
       }
 
       if (entities.length > 0) {
-        const { error } = await upsertEntities(entities);
+        const { created, updated, unchanged, error } = await upsertPage(entities, options);
         if (error) {
           result.errors++;
           result.errorMessages = result.errorMessages || [];
           result.errorMessages.push(error.message);
         } else {
-          result.created += entities.length;
+          addUpsertCounts(result, { created, updated, unchanged });
         }
       }
 
@@ -180,6 +270,10 @@ export async function syncContacts(
       hasMore = response.pages?.next?.starting_after !== undefined;
       if (hasMore) {
         cursor = response.pages?.next?.starting_after;
+        // Checkpoint the next page so an interrupted sync can resume from here
+        if (cursor && options.onCursor) {
+          await options.onCursor(cursor, countProcessed(result));
+        }
       }
 
       // Check limit
@@ -188,18 +282,19 @@ export async function syncContacts(
       }
     }
 
-    // Detect deletions during full sync
-    if (!options.since && existingIds) {
+    // Detect deletions during full sync (not when resuming)
+    if (!result.cancelled && !options.since && !options.cursor && existingIds) {
       for (const existingId of existingIds) {
         if (!seenIds.has(existingId)) {
-          const { error } = await deleteEntity(
+          const { error, skipped } = await deleteMissingEntity(
             appConfig.app_key,
             INTERCOM_COLLECTION_KEYS.contact,
             existingId,
+            options,
           );
           if (error) {
             result.errors++;
-          } else {
+          } else if (!skipped) {
             result.deleted++;
           }
         }
@@ -212,6 +307,7 @@ export async function syncContacts(
     result.success = false;
     result.errors++;
     result.errorMessages = [message];
+    setRetryInfo(result, error);
     logger.error('sync', `Contact sync failed: ${message}`);
   }
 
@@ -239,7 +335,7 @@ export async function syncAdmins(
   try {
     const response = await client.listAdmins();
 
-    const entities: UpsertEntityData[] = [];
+    const entities: NormalizedEntity[] = [];
     for (const admin of response.admins) {
       seenIds.add(admin.id);
       const entity = normalizeIntercomEntity(
@@ -247,7 +343,7 @@ export async function syncAdmins(
         admin as unknown as Record<string, unknown>,
         appConfig,
       );
-      entities.push(toUpsertData(entity));
+      entities.push(entity);
 
       // Check limit
       if (options.limit && seenIds.size >= options.limit) {
@@ -256,28 +352,29 @@ export async function syncAdmins(
     }
 
     if (entities.length > 0) {
-      const { error } = await upsertEntities(entities);
+      const { created, updated, unchanged, error } = await upsertPage(entities, options);
       if (error) {
         result.errors++;
         result.errorMessages = result.errorMessages || [];
         result.errorMessages.push(error.message);
       } else {
-        result.created += entities.length;
+        addUpsertCounts(result, { created, updated, unchanged });
       }
     }
 
     // Detect deletions during full sync
-    if (!options.since && existingIds) {
+    if (!result.cancelled && !options.since && existingIds) {
       for (const existingId of existingIds) {
         if (!seenIds.has(existingId)) {
-          const { error } = await deleteEntity(
+          const { error, skipped } = await deleteMissingEntity(
             appConfig.app_key,
             INTERCOM_COLLECTION_KEYS.admin,
             existingId,
+            options,
           );
           if (error) {
             result.errors++;
-          } else {
+          } else if (!skipped) {
             result.deleted++;
           }
         }
@@ -290,6 +387,7 @@ export async function syncAdmins(
     result.success = false;
     result.errors++;
     result.errorMessages = [message];
+    setRetryInfo(result, error);
     logger.error('sync', `Admin sync failed: ${message}`);
   }
 
@@ -313,7 +411,7 @@ export async function syncConversations(
 ): Promise<SyncResult> {
   const result = emptySyncResult();
   const timer = createTimer();
-  let cursor: string | undefined;
+  let cursor = options.cursor;
   const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
   const seenIds = new Set<string>();
   const seenPartIds = new Set<string>();
@@ -327,10 +425,16 @@ export async function syncConversations(
       const sinceTimestamp = Math.floor(since.getTime() / 1000);
 
       while (hasMore) {
+        // Stop before fetching the next page if the sync was cancelled
+        if (options.isCancelled && (await options.isCancelled())) {
+          result.cancelled = true;
+          break;
+        }
+
         const response = await client.searchConversations(sinceTimestamp, cursor, pageSize);
 
-        const convEntities: UpsertEntityData[] = [];
-        const partEntities: UpsertEntityData[] = [];
+        const convEntities: NormalizedEntity[] = [];
+        const partEntities: NormalizedEntity[] = [];
 
         for (const conversation of response.conversations) {
           seenIds.add(conversation.id);
@@ -343,7 +447,7 @@ export async function syncConversations(
             fullConversation as unknown as Record<string, unknown>,
             appConfig,
           );
-          convEntities.push(toUpsertData(convEntity));
+          convEntities.push(convEntity);
 
           // Extract conversation parts
           const parts = fullConversation.conversation_parts?.conversation_parts;
@@ -359,32 +463,32 @@ export async function syncConversations(
                 partData as Record<string, unknown>,
                 appConfig,
               );
-              partEntities.push(toUpsertData(partEntity));
+              partEntities.push(partEntity);
             }
           }
         }
 
         // Upsert conversations
         if (convEntities.length > 0) {
-          const { error } = await upsertEntities(convEntities);
+          const { created, updated, unchanged, error } = await upsertPage(convEntities, options);
           if (error) {
             result.errors++;
             result.errorMessages = result.errorMessages || [];
             result.errorMessages.push(`Failed to upsert conversations: ${error.message}`);
           } else {
-            result.created += convEntities.length;
+            addUpsertCounts(result, { created, updated, unchanged });
           }
         }
 
         // Upsert conversation parts
         if (partEntities.length > 0) {
-          const { error } = await upsertEntities(partEntities);
+          const { created, updated, unchanged, error } = await upsertPage(partEntities, options);
           if (error) {
             result.errors++;
             result.errorMessages = result.errorMessages || [];
             result.errorMessages.push(`Failed to upsert conversation parts: ${error.message}`);
           } else {
-            result.created += partEntities.length;
+            addUpsertCounts(result, { created, updated, unchanged });
             logger.info('sync', `Synced ${partEntities.length} conversation part(s)`);
           }
         }
@@ -393,6 +497,10 @@ export async function syncConversations(
         hasMore = response.pages?.next?.starting_after !== undefined;
         if (hasMore) {
           cursor = response.pages?.next?.starting_after;
+          // Checkpoint the next page so an interrupted sync can resume from here
+          if (cursor && options.onCursor) {
+            await options.onCursor(cursor, countProcessed(result));
+          }
         }
 
         // Check limit
@@ -403,10 +511,16 @@ export async function syncConversations(
     } else {
       // Full sync using list endpoint
       while (hasMore) {
+        // Stop before fetching the next page if the sync was cancelled
+        if (options.isCancelled && (await options.isCancelled())) {
+          result.cancelled = true;
+          break;
+        }
+
         const response = await client.listConversations(cursor, pageSize);
 
-        const convEntities: UpsertEntityData[] = [];
-        const partEntities: UpsertEntityData[] = [];
+        const convEntities: NormalizedEntity[] = [];
+        const partEntities: NormalizedEntity[] = [];
 
         for (const conversation of response.conversations) {
           // Filter by sync_from if configured
@@ -424,7 +538,7 @@ export async function syncConversations(
             fullConversation as unknown as Record<string, unknown>,
             appConfig,
           );
-          convEntities.push(toUpsertData(convEntity));
+          convEntities.push(convEntity);
 
           // Extract conversation parts
           const parts = fullConversation.conversation_parts?.conversation_parts;
@@ -441,32 +555,32 @@ export async function syncConversations(
                 partData as Record<string, unknown>,
                 appConfig,
               );
-              partEntities.push(toUpsertData(partEntity));
+              partEntities.push(partEntity);
             }
           }
         }
 
         // Upsert conversations
         if (convEntities.length > 0) {
-          const { error } = await upsertEntities(convEntities);
+          const { created, updated, unchanged, error } = await upsertPage(convEntities, options);
           if (error) {
             result.errors++;
             result.errorMessages = result.errorMessages || [];
             result.errorMessages.push(`Failed to upsert conversations: ${error.message}`);
           } else {
-            result.created += convEntities.length;
+            addUpsertCounts(result, { created, updated, unchanged });
           }
         }
 
         // Upsert conversation parts
         if (partEntities.length > 0) {
-          const { error } = await upsertEntities(partEntities);
+          const { created, updated, unchanged, error } = await upsertPage(partEntities, options);
           if (error) {
             result.errors++;
             result.errorMessages = result.errorMessages || [];
             result.errorMessages.push(`Failed to upsert conversation parts: ${error.message}`);
           } else {
-            result.created += partEntities.length;
+            addUpsertCounts(result, { created, updated, unchanged });
             logger.info('sync', `Synced ${partEntities.length} conversation part(s)`);
           }
         }
@@ -475,6 +589,10 @@ export async function syncConversations(
         hasMore = response.pages?.next?.starting_after !== undefined;
         if (hasMore) {
           cursor = response.pages?.next?.starting_after;
+          // Checkpoint the next page so an interrupted sync can resume from here
+          if (cursor && options.onCursor) {
+            await options.onCursor(cursor, countProcessed(result));
+          }
         }
 
         // Check limit
@@ -483,36 +601,38 @@ export async function syncConversations(
         }
       }
 
-      // Detect deleted conversations during full sync
-      if (existingIds) {
+      // Detect deleted conversations during full sync (not when resuming)
+      if (!result.cancelled && !options.cursor && existingIds) {
         for (const existingId of existingIds) {
           if (!seenIds.has(existingId)) {
-            const { error } = await deleteEntity(
+            const { error, skipped } = await deleteMissingEntity(
               appConfig.app_key,
               INTERCOM_COLLECTION_KEYS.conversation,
               existingId,
+              options,
             );
             if (error) {
               result.errors++;
-            } else {
+            } else if (!skipped) {
               result.deleted++;
             }
           }
         }
       }
 
-      // Detect deleted conversation parts during full sync
-      if (existingPartIds) {
+      // Detect deleted conversation parts during full sync (not when resuming)
+      if (!result.cancelled && !options.cursor && existingPartIds) {
         for (const existingId of existingPartIds) {
           if (!seenPartIds.has(existingId)) {
-            const { error } = await deleteEntity(
+            const { error, skipped } = await deleteMissingEntity(
               appConfig.app_key,
               INTERCOM_COLLECTION_KEYS.conversation_part,
               existingId,
+              options,
             );
             if (error) {
               result.errors++;
-            } else {
+            } else if (!skipped) {
               result.deleted++;
             }
           }
@@ -526,6 +646,7 @@ export async function syncConversations(
     result.success = false;
     result.errors++;
     result.errorMessages = [message];
+    setRetryInfo(result, error);
     logger.error('sync', `Conversation sync failed: ${message}`);
   }
 
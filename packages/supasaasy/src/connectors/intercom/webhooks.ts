@@ -134,6 +134,7 @@ export async function parseWebhookEvent(
   if (!mapping) {
     logger.warn('webhook', `Unknown event type: ${topic}`);
     return {
+      eventId: event.id,
       eventType: 'update',
       originalEventType: topic,
       resourceType: 'unknown',
@@ -151,6 +152,7 @@ export async function parseWebhookEvent(
   const externalId = (data.id as string) ?? '';
 
   return {
+    eventId: event.id,
     eventType: mapping.eventType as WebhookEventType,
     originalEventType: topic,
     resourceType: mapping.resourceType,
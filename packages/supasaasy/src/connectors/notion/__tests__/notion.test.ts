@@ -8,6 +8,7 @@
  * - archived_at detection
  * - Notion UUID as entity ID
  * - Property extraction
+ * - Lifecycle hooks during sync
  * - Conformance suite
  */
 
@@ -31,9 +32,14 @@ import {
   testConnectorConformance,
 } from '../../__tests__/conformance.test.ts';
 import { createMockRequest } from '../../__tests__/mocks/index.ts';
+import { installMockSupabase } from '../../__tests__/mocks/db.ts';
+import { clearConfig, setConfig } from '../../index.ts';
+import type { EntityHookContext } from '../../../types/index.ts';
+import type { NotionClient } from '../client.ts';
 import { notionConnector } from '../index.ts';
 import { extractDataSourceProperties } from '../normalization.ts';
-import { NOTION_COLLECTION_KEYS } from '../types.ts';
+import { syncPages, syncUsers } from '../sync/resources.ts';
+import { NOTION_COLLECTION_KEYS, type NotionUser } from '../types.ts';
 
 // =============================================================================
 // Test Helpers
@@ -158,6 +164,27 @@ Deno.test('[Notion] Webhook Parse - data_source.created event', async () => {
   assertInstanceOf(parsed.timestamp, Date);
 });
 
+Deno.test('[Notion] Webhook Parse - includes the event ID', async () => {
+  const mockEvent = createMockDataSourceCreatedEvent({ id: 'ds-123' });
+
+  const parsed = await notionConnector.parseWebhookEvent(mockEvent, mockAppConfig);
+
+  assertEquals(parsed.eventId, mockEvent.id);
+});
+
+Deno.test('[Notion] Webhook Parse - page.undeleted event', async () => {
+  const mockEvent = createMockWebhookPayload({
+    type: 'page.undeleted',
+    entity: { id: 'page-789', type: 'page' },
+  });
+
+  const parsed = await notionConnector.parseWebhookEvent(mockEvent, mockAppConfig);
+
+  assertEquals(parsed.eventType, 'undelete');
+  assertEquals(parsed.resourceType, 'page');
+  assertEquals(parsed.externalId, 'page-789');
+});
+
 Deno.test('[Notion] Webhook Parse - data_source.schema_updated event', async () => {
   const mockEvent = createMockDataSourceUpdatedEvent({ id: 'ds-456' });
 
@@ -309,6 +336,18 @@ Deno.test('[Notion] Normalize - page entity uses Notion UUID as id and externalI
   assertEquals(entity.collectionKey, NOTION_COLLECTION_KEYS.page);
 });
 
+Deno.test('[Notion] Normalize - page entity uses last_edited_time as source timestamp', () => {
+  const pageData = createMockPage({ last_edited_time: '2024-06-01T12:00:00.000Z' });
+
+  const entity = notionConnector.normalizeEntity(
+    'page',
+    pageData as unknown as Record<string, unknown>,
+    mockAppConfig,
+  );
+
+  assertEquals(entity.sourceUpdatedAt, new Date('2024-06-01T12:00:00.000Z'));
+});
+
 Deno.test('[Notion] Normalize - user entity uses Notion UUID as id and externalId', () => {
   const userData = createMockUser({ id: '4g48gg80-fg52-6473-ccf6-0ffd642e6ed5' });
 
@@ -587,3 +626,171 @@ Deno.test('[Notion] Raw Payload - preserves all original data', () => {
   assertExists(entity.rawPayload.properties);
   assertExists(entity.rawPayload.parent);
 });
+
+// =============================================================================
+// Lifecycle Hook Tests
+// =============================================================================
+
+/**
+ * Create a Notion client that lists the given users as a single page
+ */
+function createUserListClient(users: NotionUser[]): NotionClient {
+  return {
+    listUsers: () =>
+      Promise.resolve({ object: 'list', results: users, next_cursor: null, has_more: false }),
+  } as unknown as NotionClient;
+}
+
+Deno.test('[Notion] Sync - runs lifecycle hooks for synced and deleted users', async () => {
+  const supabase = installMockSupabase();
+  supabase.store.upsertEntity({
+    external_id: 'gone-user',
+    app_key: mockAppConfig.app_key,
+    collection_key: NOTION_COLLECTION_KEYS.user,
+    raw_payload: { id: 'gone-user' },
+  });
+
+  const contexts: EntityHookContext[] = [];
+  const afterUpsert: string[] = [];
+  const beforeDelete: string[] = [];
+  setConfig({
+    apps: [mockAppConfig],
+    lifecycle_hooks: {
+      beforeUpsert: (entity, context) => {
+        contexts.push(context);
+        if (entity.externalId === 'skipped-user') return null;
+        return { ...entity, rawPayload: { ...entity.rawPayload, tagged: true } };
+      },
+      afterUpsert: (entity) => {
+        afterUpsert.push(entity.externalId);
+      },
+      beforeDelete: (target) => {
+        beforeDelete.push(target.externalId);
+      },
+    },
+  });
+
+  try {
+    const result = await syncUsers(
+      createUserListClient([
+        createMockUser({ id: 'kept-user' }),
+        createMockUser({ id: 'skipped-user' }),
+      ]),
+      mockAppConfig,
+      { changeSource: 'sync_job:job_1' },
+      new Set(['gone-user']),
+    );
+
+    assertEquals(result.success, true);
+    assertEquals(result.created, 1);
+    assertEquals(result.deleted, 1);
+  } finally {
+    clearConfig();
+    supabase.restore();
+  }
+
+  assertEquals(contexts.length, 2);
+  assertEquals(contexts[0].source, 'sync');
+  assertEquals(contexts[0].changeSource, 'sync_job:job_1');
+  assertEquals(afterUpsert, ['kept-user']);
+  assertEquals(beforeDelete, ['gone-user']);
+
+  const stored = supabase.store.getAllEntities().map((entity) => entity.external_id);
+  assertEquals(stored, ['kept-user']);
+  assertEquals(supabase.store.getAllEntities()[0].raw_payload.tagged, true);
+});
+
+Deno.test('[Notion] Sync - resumes users from the cursor and checkpoints the next page', async () => {
+  const supabase = installMockSupabase();
+  supabase.store.upsertEntity({
+    external_id: 'earlier-user',
+    app_key: mockAppConfig.app_key,
+    collection_key: NOTION_COLLECTION_KEYS.user,
+    raw_payload: { id: 'earlier-user' },
+  });
+  const requested: (string | undefined)[] = [];
+  const client = {
+    listUsers: (cursor?: string) => {
+      requested.push(cursor);
+      return Promise.resolve(
+        cursor === 'page-2'
+          ? {
+            object: 'list',
+            results: [createMockUser({ id: 'user-2' })],
+            next_cursor: 'page-3',
+            has_more: true,
+          }
+          : {
+            object: 'list',
+            results: [createMockUser({ id: 'user-3' })],
+            next_cursor: null,
+            has_more: false,
+          },
+      );
+    },
+  } as unknown as NotionClient;
+  const checkpoints: [string, number | undefined][] = [];
+
+  try {
+    const result = await syncUsers(
+      client,
+      mockAppConfig,
+      {
+        cursor: 'page-2',
+        onCursor: (cursor, processed) => {
+          checkpoints.push([cursor, processed]);
+        },
+      },
+      new Set(['earlier-user']),
+    );
+
+    assertEquals(result.created, 2);
+    // Users on earlier pages weren't seen again, so they aren't deleted
+    assertEquals(result.deleted, 0);
+  } finally {
+    supabase.restore();
+  }
+
+  assertEquals(requested, ['page-2', 'page-3']);
+  assertEquals(checkpoints, [['page-3', 1]]);
+});
+
+Deno.test('[Notion] Sync - resumes pages in the checkpointed data source', async () => {
+  const supabase = installMockSupabase();
+  const queried: [string, unknown][] = [];
+  const client = {
+    queryDataSource: (dataSourceId: string, body: Record<string, unknown>) => {
+      queried.push([dataSourceId, body.start_cursor]);
+      return Promise.resolve({
+        object: 'list',
+        results: [createMockPage({ id: `${dataSourceId}-page`, dataSourceId })],
+        next_cursor: null,
+        has_more: false,
+      });
+    },
+  } as unknown as NotionClient;
+  const checkpoints: string[] = [];
+
+  try {
+    const result = await syncPages(
+      client,
+      mockAppConfig,
+      {
+        cursor: 'ds-2:page-cursor',
+        onCursor: (cursor) => {
+          checkpoints.push(cursor);
+        },
+      },
+      undefined,
+      undefined,
+      ['ds-1', 'ds-2', 'ds-3'],
+    );
+
+    assertEquals(result.created, 2);
+  } finally {
+    supabase.restore();
+  }
+
+  assertEquals(queried, [['ds-2', 'page-cursor'], ['ds-3', undefined]]);
+  assertEquals(checkpoints, ['ds-3:']);
+});
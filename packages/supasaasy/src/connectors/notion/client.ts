@@ -7,6 +7,7 @@
 
 import type { AppConfig } from '../../types/index.ts';
 import type { ConfigValidationError, ConfigValidationResult } from '../index.ts';
+import { ApiError, parseRetryAfterHeader, RateLimitError } from '../errors.ts';
 import { createConnectorLogger } from '../utils.ts';
 import type {
   NotionAppConfig,
@@ -288,7 +289,14 @@ export function createNotionClient(appConfig: AppConfig): NotionClient {
           errorMessage += ` - ${errorText}`;
         }
       }
-      throw new Error(errorMessage);
+      if (response.status === 429) {
+        throw new RateLimitError(
+          CONNECTOR_NAME,
+          parseRetryAfterHeader(response.headers.get('Retry-After')),
+          errorMessage,
+        );
+      }
+      throw new ApiError(CONNECTOR_NAME, errorMessage, response.status, errorText);
     }
 
     return await response.json() as T;
@@ -101,6 +101,7 @@ function createEntityWithNotionId(params: {
   collectionKey: string;
   rawPayload: Record<string, unknown>;
   archivedAt?: Date;
+  sourceUpdatedAt?: Date;
 }): NormalizedEntity {
   return {
     id: params.notionId, // Use Notion UUID as the entity id
@@ -110,6 +111,7 @@ function createEntityWithNotionId(params: {
     rawPayload: params.rawPayload,
     apiVersion: DEFAULT_API_VERSION,
     archivedAt: params.archivedAt,
+    sourceUpdatedAt: params.sourceUpdatedAt,
   };
 }
 
@@ -124,6 +126,7 @@ function createEntityWithGeneratedId(params: {
   collectionKey: string;
   rawPayload: Record<string, unknown>;
   archivedAt?: Date;
+  sourceUpdatedAt?: Date;
 }): NormalizedEntity {
   return {
     // id is not set - database will generate UUID
@@ -133,9 +136,21 @@ function createEntityWithGeneratedId(params: {
     rawPayload: params.rawPayload,
     apiVersion: DEFAULT_API_VERSION,
     archivedAt: params.archivedAt,
+    sourceUpdatedAt: params.sourceUpdatedAt,
   };
 }
 
+/**
+ * Parse a Notion `last_edited_time`, if present
+ */
+function parseLastEditedTime(lastEditedTime: string | undefined): Date | undefined {
+  if (!lastEditedTime) {
+    return undefined;
+  }
+  const date = new Date(lastEditedTime);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
 /**
  * Normalize a Notion Data Source to the canonical entity format
  */
@@ -154,6 +169,7 @@ export function normalizeDataSource(
     collectionKey: NOTION_COLLECTION_KEYS.data_source,
     rawPayload: dataSource as unknown as Record<string, unknown>,
     archivedAt,
+    sourceUpdatedAt: parseLastEditedTime(dataSource.last_edited_time),
   });
 }
 
@@ -166,6 +182,7 @@ export function extractDataSourceProperties(
   appConfig: AppConfig,
 ): NormalizedEntity[] {
   const entities: NormalizedEntity[] = [];
+  const sourceUpdatedAt = parseLastEditedTime(dataSource.last_edited_time);
 
   for (const [propName, propSchema] of Object.entries(dataSource.properties)) {
     // Create composite external_id: {data_source_id}:{property_id}
@@ -185,6 +202,7 @@ export function extractDataSourceProperties(
         appKey: appConfig.app_key,
         collectionKey: NOTION_COLLECTION_KEYS.data_source_property,
         rawPayload: propertyData as unknown as Record<string, unknown>,
+        sourceUpdatedAt,
       }),
     );
   }
@@ -207,6 +225,7 @@ export function normalizePage(
     collectionKey: NOTION_COLLECTION_KEYS.page,
     rawPayload: page as unknown as Record<string, unknown>,
     archivedAt,
+    sourceUpdatedAt: parseLastEditedTime(page.last_edited_time),
   });
 }
 
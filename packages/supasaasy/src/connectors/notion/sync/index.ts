@@ -130,6 +130,11 @@ export async function fullSync(
     }
 
     results.push(syncResult);
+
+    // Don't start the next resource if the sync was cancelled
+    if (syncResult.cancelled) {
+      break;
+    }
   }
 
   const merged = mergeSyncResults(results);
@@ -196,6 +201,11 @@ export async function incrementalSync(
     }
 
     results.push(syncResult);
+
+    // Don't start the next resource if the sync was cancelled
+    if (syncResult.cancelled) {
+      break;
+    }
   }
 
   const merged = mergeSyncResults(results);
@@ -5,8 +5,27 @@
  */
 
 import type { AppConfig, NormalizedEntity, SyncOptions, SyncResult } from '../../../types/index.ts';
-import { deleteEntity, upsertEntities, type UpsertEntityData } from '../../../db/index.ts';
-import { createTimer, emptySyncResult } from '../../utils.ts';
+import {
+  deleteEntity,
+  type DeleteResult,
+  upsertEntities,
+  type UpsertEntitiesResult,
+  type UpsertEntityData,
+} from '../../../db/index.ts';
+import {
+  type EntityHookSource,
+  runAfterUpsertHooks,
+  runBeforeDeleteHooks,
+  runBeforeUpsertHooks,
+  selectWrittenEntities,
+} from '../../../lifecycle/index.ts';
+import {
+  addUpsertCounts,
+  countProcessed,
+  createTimer,
+  emptySyncResult,
+  setRetryInfo,
+} from '../../utils.ts';
 import { DEFAULT_PAGE_SIZE, logger, type NotionClient } from '../client.ts';
 import {
   extractDataSourceProperties,
@@ -32,6 +51,7 @@ function toUpsertData(entity: NormalizedEntity): UpsertEntityData {
     raw_payload: entity.rawPayload,
     api_version: entity.apiVersion,
     archived_at: entity.archivedAt?.toISOString() ?? null,
+    source_updated_at: entity.sourceUpdatedAt?.toISOString() ?? null,
   };
 
   // Include custom id if present (Notion UUIDs for data sources, pages, users)
@@ -42,6 +62,73 @@ function toUpsertData(entity: NormalizedEntity): UpsertEntityData {
   return data;
 }
 
+/**
+ * Upsert a page of entities. The beforeUpsert lifecycle hooks run first and may
+ * change or skip entities; the afterUpsert hooks run for the entities written.
+ */
+async function upsertPage(
+  entities: NormalizedEntity[],
+  options: SyncOptions,
+): Promise<UpsertEntitiesResult> {
+  const hookSource: EntityHookSource = { source: 'sync', changeSource: options.changeSource };
+  const toWrite = await runBeforeUpsertHooks(entities, hookSource);
+  if (toWrite.length === 0) {
+    return { data: [], error: null, created: 0, updated: 0, unchanged: 0 };
+  }
+
+  const result = await upsertEntities(toWrite.map(toUpsertData), options.changeSource);
+  if (!result.error) {
+    await runAfterUpsertHooks(selectWrittenEntities(toWrite, result.data), hookSource);
+  }
+  return result;
+}
+
+/**
+ * Delete an entity that Notion no longer returns, unless a beforeDelete lifecycle hook
+ * keeps it (skipped: true).
+ */
+async function deleteMissingEntity(
+  appKey: string,
+  collectionKey: string,
+  externalId: string,
+  options: SyncOptions,
+): Promise<DeleteResult & { skipped?: boolean }> {
+  const shouldDelete = await runBeforeDeleteHooks(
+    { appKey, collectionKey, externalId },
+    { source: 'sync', changeSource: options.changeSource },
+  );
+  if (!shouldDelete) {
+    return { count: 0, error: null, skipped: true };
+  }
+
+  return await deleteEntity(appKey, collectionKey, externalId);
+}
+
+/**
+ * Build the cursor checkpointed while syncing pages: the data source being queried
+ * and the page cursor within it. Without a page cursor the data source starts from
+ * the top.
+ */
+function toPageCursor(dataSourceId: string, cursor?: string): string {
+  return `${dataSourceId}:${cursor ?? ''}`;
+}
+
+/**
+ * Parse a cursor checkpointed while syncing pages
+ */
+function parsePageCursor(
+  cursor?: string,
+): { dataSourceId: string; cursor: string | undefined } | null {
+  const separator = cursor?.indexOf(':') ?? -1;
+  if (!cursor || separator < 0) {
+    return null;
+  }
+  return {
+    dataSourceId: cursor.slice(0, separator),
+    cursor: cursor.slice(separator + 1) || undefined,
+  };
+}
+
 /**
  * Check if a timestamp is on or after the sync_from timestamp
  */
@@ -67,7 +154,7 @@ export async function syncDataSources(
 ): Promise<SyncResult> {
   const result = emptySyncResult();
   const timer = createTimer();
-  let cursor: string | undefined;
+  let cursor = options.cursor;
   const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
   const seenIds = new Set<string>();
   const seenPropertyExternalIds = new Set<string>();
@@ -75,10 +162,16 @@ export async function syncDataSources(
   try {
     let hasMore = true;
     while (hasMore) {
+      // Stop before fetching the next page if the sync was cancelled
+      if (options.isCancelled && (await options.isCancelled())) {
+        result.cancelled = true;
+        break;
+      }
+
       const response = await client.searchDataSources(cursor, pageSize);
 
-      const dataSourceEntities: UpsertEntityData[] = [];
-      const propertyEntities: UpsertEntityData[] = [];
+      const dataSourceEntities: NormalizedEntity[] = [];
+      const propertyEntities: NormalizedEntity[] = [];
 
       for (const dataSource of response.results) {
         // Filter by sync_from if configured (only for full sync)
@@ -95,13 +188,13 @@ export async function syncDataSources(
 
         // Normalize the data source
         const dsEntity = normalizeDataSource(fullDataSource, appConfig);
-        dataSourceEntities.push(toUpsertData(dsEntity));
+        dataSourceEntities.push(dsEntity);
 
         // Extract and normalize properties
         const properties = extractDataSourceProperties(fullDataSource, appConfig);
         for (const propEntity of properties) {
           seenPropertyExternalIds.add(propEntity.externalId);
-          propertyEntities.push(toUpsertData(propEntity));
+          propertyEntities.push(propEntity);
         }
 
         logger.info(
@@ -112,25 +205,28 @@ export async function syncDataSources(
 
       // Upsert data sources
       if (dataSourceEntities.length > 0) {
-        const { error } = await upsertEntities(dataSourceEntities);
+        const { created, updated, unchanged, error } = await upsertPage(
+          dataSourceEntities,
+          options,
+        );
         if (error) {
           result.errors++;
           result.errorMessages = result.errorMessages || [];
           result.errorMessages.push(`Failed to upsert data sources: ${error.message}`);
         } else {
-          result.created += dataSourceEntities.length;
+          addUpsertCounts(result, { created, updated, unchanged });
         }
       }
 
       // Upsert properties
       if (propertyEntities.length > 0) {
-        const { error } = await upsertEntities(propertyEntities);
+        const { created, updated, unchanged, error } = await upsertPage(propertyEntities, options);
         if (error) {
           result.errors++;
           result.errorMessages = result.errorMessages || [];
           result.errorMessages.push(`Failed to upsert properties: ${error.message}`);
         } else {
-          result.created += propertyEntities.length;
+          addUpsertCounts(result, { created, updated, unchanged });
           logger.info('sync', `Synced ${propertyEntities.length} data source properties`);
         }
       }
@@ -139,42 +235,51 @@ export async function syncDataSources(
       hasMore = response.has_more;
       cursor = response.next_cursor ?? undefined;
 
+      // Checkpoint the next page so an interrupted sync can resume from here
+      if (hasMore && cursor && options.onCursor) {
+        await options.onCursor(cursor, countProcessed(result));
+      }
+
       // Check limit
       if (options.limit && seenIds.size >= options.limit) {
         break;
       }
     }
 
-    // Detect deleted data sources during full sync
-    if (!options.since && existingIds) {
+    // Detect deleted data sources during full sync (not when resuming)
+    if (!result.cancelled && !options.since && !options.cursor && existingIds) {
       for (const existingId of existingIds) {
         if (!seenIds.has(existingId)) {
-          const { error } = await deleteEntity(
+          const { error, skipped } = await deleteMissingEntity(
             appConfig.app_key,
             NOTION_COLLECTION_KEYS.data_source,
             existingId,
+            options,
           );
           if (error) {
             result.errors++;
-          } else {
+          } else if (!skipped) {
             result.deleted++;
           }
         }
       }
     }
 
-    // Detect deleted properties during full sync
-    if (!options.since && existingPropertyExternalIds) {
+    // Detect deleted properties during full sync (not when resuming)
+    if (
+      !result.cancelled && !options.since && !options.cursor && existingPropertyExternalIds
+    ) {
       for (const existingExternalId of existingPropertyExternalIds) {
         if (!seenPropertyExternalIds.has(existingExternalId)) {
-          const { error } = await deleteEntity(
+          const { error, skipped } = await deleteMissingEntity(
             appConfig.app_key,
             NOTION_COLLECTION_KEYS.data_source_property,
             existingExternalId,
+            options,
           );
           if (error) {
             result.errors++;
-          } else {
+          } else if (!skipped) {
             result.deleted++;
           }
         }
@@ -187,6 +292,7 @@ export async function syncDataSources(
     result.success = false;
     result.errors++;
     result.errorMessages = [message];
+    setRetryInfo(result, error);
     logger.error('sync', `Data source sync failed: ${message}`);
   }
 
@@ -198,7 +304,8 @@ export async function syncDataSources(
 // =============================================================================
 
 /**
- * Sync pages from Notion data sources
+ * Sync pages from Notion data sources. Checkpoints record the data source and its
+ * page cursor, so an interrupted sync resumes in the data source it stopped in.
  */
 export async function syncPages(
   client: NotionClient,
@@ -224,12 +331,28 @@ export async function syncPages(
       logger.info('sync', `Discovered ${dsIds.length} data sources for page sync`);
     }
 
+    // Resume in the checkpointed data source, or start over if it's no longer synced
+    const resumeFrom = parsePageCursor(options.cursor);
+    const resumeIndex = resumeFrom ? dsIds.indexOf(resumeFrom.dataSourceId) : -1;
+
     // Sync pages from each data source
-    for (const dataSourceId of dsIds) {
-      let cursor: string | undefined;
+    for (const [index, dataSourceId] of dsIds.entries()) {
+      if (index < resumeIndex) continue;
+
+      let cursor = index === resumeIndex ? resumeFrom?.cursor : undefined;
       let hasMore = true;
 
+      if (!cursor && options.onCursor) {
+        await options.onCursor(toPageCursor(dataSourceId), countProcessed(result));
+      }
+
       while (hasMore) {
+        // Stop before fetching the next page if the sync was cancelled
+        if (options.isCancelled && (await options.isCancelled())) {
+          result.cancelled = true;
+          break;
+        }
+
         // Build query with optional last_edited_time filter for incremental sync
         const queryBody: Record<string, unknown> = {
           page_size: pageSize,
@@ -257,7 +380,7 @@ export async function syncPages(
 
         const response = await client.queryDataSource(dataSourceId, queryBody);
 
-        const entities: UpsertEntityData[] = [];
+        const entities: NormalizedEntity[] = [];
 
         for (const page of response.results) {
           // Filter by sync_from if configured (only for full sync)
@@ -269,17 +392,17 @@ export async function syncPages(
 
           seenIds.add(page.id);
           const entity = normalizePage(page, appConfig);
-          entities.push(toUpsertData(entity));
+          entities.push(entity);
         }
 
         if (entities.length > 0) {
-          const { error } = await upsertEntities(entities);
+          const { created, updated, unchanged, error } = await upsertPage(entities, options);
           if (error) {
             result.errors++;
             result.errorMessages = result.errorMessages || [];
             result.errorMessages.push(`Failed to upsert pages: ${error.message}`);
           } else {
-            result.created += entities.length;
+            addUpsertCounts(result, { created, updated, unchanged });
           }
         }
 
@@ -287,26 +410,37 @@ export async function syncPages(
         hasMore = response.has_more;
         cursor = response.next_cursor ?? undefined;
 
+        // Checkpoint the next page so an interrupted sync can resume from here
+        if (hasMore && cursor && options.onCursor) {
+          await options.onCursor(toPageCursor(dataSourceId, cursor), countProcessed(result));
+        }
+
         // Check limit
         if (options.limit && seenIds.size >= options.limit) {
           hasMore = false;
           break;
         }
       }
+
+      // Don't start the next data source if the sync was cancelled
+      if (result.cancelled) {
+        break;
+      }
     }
 
-    // Detect deleted pages during full sync (only if not incremental)
-    if (!since && existingIds) {
+    // Detect deleted pages during full sync (only if not incremental or resuming)
+    if (!result.cancelled && !since && !options.cursor && existingIds) {
       for (const existingId of existingIds) {
         if (!seenIds.has(existingId)) {
-          const { error } = await deleteEntity(
+          const { error, skipped } = await deleteMissingEntity(
             appConfig.app_key,
             NOTION_COLLECTION_KEYS.page,
             existingId,
+            options,
           );
           if (error) {
             result.errors++;
-          } else {
+          } else if (!skipped) {
             result.deleted++;
           }
         }
@@ -319,6 +453,7 @@ export async function syncPages(
     result.success = false;
     result.errors++;
     result.errorMessages = [message];
+    setRetryInfo(result, error);
     logger.error('sync', `Page sync failed: ${message}`);
   }
 
@@ -341,20 +476,26 @@ export async function syncUsers(
 ): Promise<SyncResult> {
   const result = emptySyncResult();
   const timer = createTimer();
-  let cursor: string | undefined;
+  let cursor = options.cursor;
   const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
   const seenIds = new Set<string>();
 
   try {
     let hasMore = true;
     while (hasMore) {
+      // Stop before fetching the next page if the sync was cancelled
+      if (options.isCancelled && (await options.isCancelled())) {
+        result.cancelled = true;
+        break;
+      }
+
       const response = await client.listUsers(cursor, pageSize);
 
-      const entities: UpsertEntityData[] = [];
+      const entities: NormalizedEntity[] = [];
       for (const user of response.results) {
         seenIds.add(user.id);
         const entity = normalizeUser(user, appConfig);
-        entities.push(toUpsertData(entity));
+        entities.push(entity);
 
         // Check limit
         if (options.limit && seenIds.size >= options.limit) {
@@ -363,13 +504,13 @@ export async function syncUsers(
       }
 
       if (entities.length > 0) {
-        const { error } = await upsertEntities(entities);
+        const { created, updated, unchanged, error } = await upsertPage(entities, options);
         if (error) {
           result.errors++;
           result.errorMessages = result.errorMessages || [];
           result.errorMessages.push(error.message);
         } else {
-          result.created += entities.length;
+          addUpsertCounts(result, { created, updated, unchanged });
         }
       }
 
@@ -377,24 +518,30 @@ export async function syncUsers(
       hasMore = response.has_more;
       cursor = response.next_cursor ?? undefined;
 
+      // Checkpoint the next page so an interrupted sync can resume from here
+      if (hasMore && cursor && options.onCursor) {
+        await options.onCursor(cursor, countProcessed(result));
+      }
+
       // Check limit
       if (options.limit && seenIds.size >= options.limit) {
         break;
       }
     }
 
-    // Detect deleted users during full sync
-    if (!options.since && existingIds) {
+    // Detect deleted users during full sync (not when resuming)
+    if (!result.cancelled && !options.since && !options.cursor && existingIds) {
       for (const existingId of existingIds) {
         if (!seenIds.has(existingId)) {
-          const { error } = await deleteEntity(
+          const { error, skipped } = await deleteMissingEntity(
             appConfig.app_key,
             NOTION_COLLECTION_KEYS.user,
             existingId,
+            options,
           );
           if (error) {
             result.errors++;
-          } else {
+          } else if (!skipped) {
             result.deleted++;
           }
         }
@@ -407,6 +554,7 @@ export async function syncUsers(
     result.success = false;
     result.errors++;
     result.errorMessages = [message];
+    setRetryInfo(result, error);
     logger.error('sync', `User sync failed: ${message}`);
   }
 
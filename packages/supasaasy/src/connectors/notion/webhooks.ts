@@ -145,6 +145,7 @@ export async function parseWebhookEvent(
   if (!mapping) {
     logger.warn('webhook', `Unknown event type: ${eventType}`);
     return {
+      eventId: event.id ?? event.event_id,
       eventType: 'update',
       originalEventType: eventType,
       resourceType: 'unknown',
@@ -201,11 +202,11 @@ export async function parseWebhookEvent(
   } else if (mapping.eventType === 'delete') {
     webhookEventType = 'delete';
   } else if (mapping.eventType === 'undelete') {
-    // Treat undelete as an update that clears archived_at
-    webhookEventType = 'update';
+    webhookEventType = 'undelete';
   }
 
   return {
+    eventId: event.id ?? event.event_id,
     eventType: webhookEventType,
     originalEventType: eventType,
     resourceType: mapping.resourceType,
@@ -216,7 +217,6 @@ export async function parseWebhookEvent(
       workspace_id: event.workspace_id,
       integration_id: event.integration_id,
       event_id: event.event_id,
-      is_undelete: mapping.eventType === 'undelete',
     },
   };
 }
@@ -272,12 +272,15 @@ export async function extractEntities(
   const resourceType = event.resourceType as NotionResourceType;
   const client = createNotionClient(appConfig);
 
+  // Undeleted objects are always refetched, since the event doesn't carry their current state
+  const useEventData = event.eventType !== 'undelete' && hasFullObjectData(event.data);
+
   // Handle data source events - also extract properties
   if (resourceType === 'data_source') {
     let dataSource: NotionDataSource;
 
     // Check if we have full data or need to fetch
-    if (hasFullObjectData(event.data)) {
+    if (useEventData) {
       dataSource = event.data as unknown as NotionDataSource;
     } else {
       // Fetch the full data source from the API
@@ -305,7 +308,7 @@ export async function extractEntities(
     let page: NotionPage;
 
     // Check if we have full data or need to fetch
-    if (hasFullObjectData(event.data)) {
+    if (useEventData) {
       page = event.data as unknown as NotionPage;
     } else {
       // Fetch the full page from the API
@@ -323,7 +326,7 @@ export async function extractEntities(
     let user: NotionUser;
 
     // Check if we have full data or need to fetch
-    if (hasFullObjectData(event.data)) {
+    if (useEventData) {
       user = event.data as unknown as NotionUser;
     } else {
       // Fetch the full user from the API
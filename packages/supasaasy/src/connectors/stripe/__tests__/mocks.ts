@@ -4,7 +4,7 @@
  * Creates realistic Stripe API response mocks for testing.
  */
 
-import type { StripeResourceType, StripeWebhookEventType } from '../types.ts';
+import type { StripeConnectConfig, StripeResourceType, StripeWebhookEventType } from '../types.ts';
 
 // =============================================================================
 // Timestamp Helpers
@@ -411,6 +411,301 @@ export function createMockSubscription(
   };
 }
 
+// =============================================================================
+// Billing Mocks
+// =============================================================================
+
+export interface MockInvoiceLineItemOptions {
+  id?: string;
+  invoiceId?: string;
+  amount?: number;
+  priceId?: string;
+  quantity?: number;
+}
+
+/**
+ * Create a mock Stripe invoice line item object
+ */
+export function createMockInvoiceLineItem(
+  options: MockInvoiceLineItemOptions = {},
+): Record<string, unknown> {
+  const {
+    id = `il_${randomId()}`,
+    invoiceId = `in_${randomId()}`,
+    amount = 2000,
+    priceId = `price_${randomId()}`,
+    quantity = 1,
+  } = options;
+
+  return {
+    id,
+    object: 'line_item',
+    amount,
+    currency: 'usd',
+    description: '1 × Test Product',
+    discountable: true,
+    invoice: invoiceId,
+    livemode: false,
+    metadata: {},
+    period: {
+      start: nowTimestamp(),
+      end: nowTimestamp() + 30 * 24 * 60 * 60,
+    },
+    price: createMockPrice({ id: priceId }),
+    proration: false,
+    quantity,
+    subscription: null,
+    type: 'subscription',
+  };
+}
+
+export interface MockInvoiceOptions {
+  id?: string;
+  customerId?: string;
+  status?: 'draft' | 'open' | 'paid' | 'uncollectible' | 'void';
+  created?: number;
+  voidedAt?: number | null;
+  lines?: MockInvoiceLineItemOptions[];
+  hasMoreLines?: boolean;
+}
+
+/**
+ * Create a mock Stripe invoice object
+ */
+export function createMockInvoice(options: MockInvoiceOptions = {}): Record<string, unknown> {
+  const {
+    id = `in_${randomId()}`,
+    customerId = `cus_${randomId()}`,
+    status = 'open',
+    created = nowTimestamp(),
+    voidedAt = null,
+    lines = [{}],
+    hasMoreLines = false,
+  } = options;
+
+  const lineItems = lines.map((lineOptions) =>
+    createMockInvoiceLineItem({
+      invoiceId: id,
+      ...lineOptions,
+    })
+  );
+  const total = lineItems.reduce((sum, line) => sum + (line.amount as number), 0);
+
+  return {
+    id,
+    object: 'invoice',
+    amount_due: total,
+    amount_paid: status === 'paid' ? total : 0,
+    amount_remaining: status === 'paid' ? 0 : total,
+    billing_reason: 'subscription_cycle',
+    collection_method: 'charge_automatically',
+    created,
+    currency: 'usd',
+    customer: customerId,
+    due_date: null,
+    hosted_invoice_url: null,
+    invoice_pdf: null,
+    lines: {
+      object: 'list',
+      data: lineItems,
+      has_more: hasMoreLines,
+      url: `/v1/invoices/${id}/lines`,
+    },
+    livemode: false,
+    metadata: {},
+    number: null,
+    period_end: created,
+    period_start: created,
+    status,
+    status_transitions: {
+      finalized_at: status === 'draft' ? null : created,
+      marked_uncollectible_at: null,
+      paid_at: status === 'paid' ? created : null,
+      voided_at: voidedAt,
+    },
+    subscription: null,
+    subtotal: total,
+    total,
+  };
+}
+
+export interface MockPaymentIntentOptions {
+  id?: string;
+  customerId?: string;
+  amount?: number;
+  status?:
+    | 'requires_payment_method'
+    | 'requires_confirmation'
+    | 'requires_action'
+    | 'processing'
+    | 'requires_capture'
+    | 'canceled'
+    | 'succeeded';
+  created?: number;
+  canceledAt?: number | null;
+}
+
+/**
+ * Create a mock Stripe payment intent object
+ */
+export function createMockPaymentIntent(
+  options: MockPaymentIntentOptions = {},
+): Record<string, unknown> {
+  const {
+    id = `pi_${randomId()}`,
+    customerId = `cus_${randomId()}`,
+    amount = 2000,
+    status = 'succeeded',
+    created = nowTimestamp(),
+    canceledAt = null,
+  } = options;
+
+  return {
+    id,
+    object: 'payment_intent',
+    amount,
+    amount_capturable: 0,
+    amount_received: status === 'succeeded' ? amount : 0,
+    canceled_at: canceledAt,
+    cancellation_reason: canceledAt ? 'requested_by_customer' : null,
+    capture_method: 'automatic',
+    created,
+    currency: 'usd',
+    customer: customerId,
+    description: null,
+    invoice: null,
+    latest_charge: status === 'succeeded' ? `ch_${randomId()}` : null,
+    livemode: false,
+    metadata: {},
+    payment_method: `pm_${randomId()}`,
+    status,
+  };
+}
+
+// =============================================================================
+// Reconciliation Mocks
+// =============================================================================
+
+export interface MockPayoutOptions {
+  id?: string;
+  amount?: number;
+  status?: 'paid' | 'pending' | 'in_transit' | 'canceled' | 'failed';
+  automatic?: boolean;
+  reconciliationStatus?: 'completed' | 'in_progress' | 'not_applicable';
+  created?: number;
+}
+
+/**
+ * Create a mock Stripe payout object
+ */
+export function createMockPayout(options: MockPayoutOptions = {}): Record<string, unknown> {
+  const {
+    id = `po_${randomId()}`,
+    amount = 10000,
+    status = 'paid',
+    automatic = true,
+    reconciliationStatus = 'in_progress',
+    created = nowTimestamp(),
+  } = options;
+
+  return {
+    id,
+    object: 'payout',
+    amount,
+    arrival_date: created + 2 * 24 * 60 * 60,
+    automatic,
+    balance_transaction: `txn_${randomId()}`,
+    created,
+    currency: 'usd',
+    description: 'STRIPE PAYOUT',
+    destination: `ba_${randomId()}`,
+    failure_code: null,
+    failure_message: null,
+    livemode: false,
+    metadata: {},
+    method: 'standard',
+    reconciliation_status: reconciliationStatus,
+    statement_descriptor: null,
+    status,
+    type: 'bank_account',
+  };
+}
+
+// =============================================================================
+// Discount Mocks
+// =============================================================================
+
+export interface MockCouponOptions {
+  id?: string;
+  percentOff?: number | null;
+  amountOff?: number | null;
+  duration?: 'forever' | 'once' | 'repeating';
+}
+
+/**
+ * Create a mock Stripe coupon object
+ */
+export function createMockCoupon(options: MockCouponOptions = {}): Record<string, unknown> {
+  const {
+    id = `coupon_${randomId()}`,
+    percentOff = 25,
+    amountOff = null,
+    duration = 'once',
+  } = options;
+
+  return {
+    id,
+    object: 'coupon',
+    amount_off: amountOff,
+    created: nowTimestamp(),
+    currency: amountOff ? 'usd' : null,
+    duration,
+    duration_in_months: null,
+    livemode: false,
+    max_redemptions: null,
+    metadata: {},
+    name: 'Test Coupon',
+    percent_off: percentOff,
+    redeem_by: null,
+    times_redeemed: 0,
+    valid: true,
+  };
+}
+
+export interface MockDiscountOptions {
+  id?: string;
+  customerId?: string;
+  subscriptionId?: string | null;
+  coupon?: MockCouponOptions;
+  promotionCodeId?: string | null;
+}
+
+/**
+ * Create a mock Stripe discount object
+ */
+export function createMockDiscount(options: MockDiscountOptions = {}): Record<string, unknown> {
+  const {
+    id = `di_${randomId()}`,
+    customerId = `cus_${randomId()}`,
+    subscriptionId = null,
+    coupon = {},
+    promotionCodeId = null,
+  } = options;
+
+  return {
+    id,
+    object: 'discount',
+    coupon: createMockCoupon(coupon),
+    customer: customerId,
+    end: null,
+    invoice: null,
+    invoice_item: null,
+    promotion_code: promotionCodeId,
+    start: nowTimestamp(),
+    subscription: subscriptionId,
+  };
+}
+
 // =============================================================================
 // Webhook Event Mocks
 // =============================================================================
@@ -419,9 +714,13 @@ export interface MockWebhookEventOptions {
   id?: string;
   type: StripeWebhookEventType;
   data: Record<string, unknown>;
+  /** Previous values of changed attributes (for update events) */
+  previousAttributes?: Record<string, unknown>;
   created?: number;
   livemode?: boolean;
   apiVersion?: string;
+  /** Connected account the event comes from (Connect events) */
+  account?: string;
 }
 
 /**
@@ -432,18 +731,22 @@ export function createMockStripeEvent(options: MockWebhookEventOptions): Record<
     id = `evt_${randomId()}`,
     type,
     data,
+    previousAttributes,
     created = nowTimestamp(),
     livemode = false,
     apiVersion = '2025-02-24.acacia',
+    account,
   } = options;
 
   return {
     id,
     object: 'event',
+    ...(account && { account }),
     api_version: apiVersion,
     created,
     data: {
       object: data,
+      ...(previousAttributes && { previous_attributes: previousAttributes }),
     },
     livemode,
     pending_webhooks: 1,
@@ -546,6 +849,7 @@ export interface MockStripeAppConfigOptions {
   webhookSecret?: string;
   syncResources?: StripeResourceType[];
   syncFrom?: string;
+  connect?: StripeConnectConfig;
 }
 
 /**
@@ -558,6 +862,7 @@ export function createMockStripeAppConfig(options: MockStripeAppConfigOptions =
     webhookSecret = 'whsec_test_mock',
     syncResources,
     syncFrom,
+    connect,
   } = options;
 
   return {
@@ -569,6 +874,7 @@ export function createMockStripeAppConfig(options: MockStripeAppConfigOptions =
       webhook_secret: webhookSecret,
       ...(syncResources && { sync_resources: syncResources }),
       ...(syncFrom && { sync_from: syncFrom }),
+      ...(connect && { connect }),
     },
     ...(syncFrom && { sync_from: syncFrom }),
   };
@@ -7,15 +7,23 @@
  * - Entity normalization
  * - archived_at detection
  * - sync_from filtering
+ * - Events-based incremental sync
+ * - Connect account scopes
+ * - Error mapping
  * - Conformance suite
  */
 
 import { assertEquals, assertExists, assertInstanceOf } from '@std/assert';
+import Stripe from 'stripe';
 import {
   createMockCustomer,
   createMockCustomerCreatedEvent,
   createMockCustomerDeletedEvent,
   createMockCustomerUpdatedEvent,
+  createMockDiscount,
+  createMockInvoice,
+  createMockPaymentIntent,
+  createMockPayout,
   createMockPlan,
   createMockPrice,
   createMockProduct,
@@ -33,7 +41,18 @@ import {
 } from '../../__tests__/conformance.test.ts';
 import { createMockRequest } from '../../__tests__/mocks/index.ts';
 import { stripeConnector } from '../index.ts';
+import { getResourceTypesToSync, toConnectorError, withStripeAccount } from '../client.ts';
+import { ApiError, isRetryableError, RateLimitError } from '../../errors.ts';
 import { STRIPE_COLLECTION_KEYS } from '../types.ts';
+import {
+  EVENT_OVERLAP_SECONDS,
+  getStripeEventTypes,
+  isWithinEventRetention,
+  syncEvents,
+} from '../sync/events.ts';
+import { fullSync, incrementalSync } from '../sync/index.ts';
+import { installMockSupabase } from '../../__tests__/mocks/db.ts';
+import { hasReconciledBalanceTransactions } from '../sync/resources.ts';
 
 // =============================================================================
 // Test Helpers
@@ -41,6 +60,27 @@ import { STRIPE_COLLECTION_KEYS } from '../types.ts';
 
 const mockAppConfig = createMockStripeAppConfig();
 
+/**
+ * Create a Stripe client whose events.list returns the given pages in turn
+ * and records the params it was called with
+ */
+function createEventListClient(
+  pages: Record<string, unknown>[][],
+  calls: Stripe.EventListParams[],
+): Stripe {
+  return {
+    events: {
+      list: (params: Stripe.EventListParams) => {
+        calls.push(params);
+        return Promise.resolve({
+          data: pages[calls.length - 1] ?? [],
+          has_more: calls.length < pages.length,
+        });
+      },
+    },
+  } as unknown as Stripe;
+}
+
 // =============================================================================
 // Conformance Suite
 // =============================================================================
@@ -78,6 +118,18 @@ Deno.test('[Stripe] Metadata - supports expected resources', () => {
   assertEquals(resourceTypes.includes('plan'), true);
   assertEquals(resourceTypes.includes('subscription'), true);
   assertEquals(resourceTypes.includes('subscription_item'), true);
+  assertEquals(resourceTypes.includes('invoice'), true);
+  assertEquals(resourceTypes.includes('invoice_line_item'), true);
+  assertEquals(resourceTypes.includes('charge'), true);
+  assertEquals(resourceTypes.includes('payment_intent'), true);
+  assertEquals(resourceTypes.includes('refund'), true);
+  assertEquals(resourceTypes.includes('dispute'), true);
+  assertEquals(resourceTypes.includes('payout'), true);
+  assertEquals(resourceTypes.includes('balance_transaction'), true);
+  assertEquals(resourceTypes.includes('coupon'), true);
+  assertEquals(resourceTypes.includes('promotion_code'), true);
+  assertEquals(resourceTypes.includes('tax_rate'), true);
+  assertEquals(resourceTypes.includes('account'), true);
 });
 
 Deno.test('[Stripe] Metadata - has migrations defined', () => {
@@ -215,6 +267,19 @@ Deno.test('[Stripe] Webhook Parse - product events', async () => {
   assertEquals(parsed.externalId, 'prod_123');
 });
 
+Deno.test('[Stripe] Webhook Parse - reactivated product is an undelete event', async () => {
+  const mockProductRestored = createMockStripeEvent({
+    type: 'product.updated',
+    data: createMockProduct({ id: 'prod_123', active: true }),
+    previousAttributes: { active: false },
+  });
+
+  const parsed = await stripeConnector.parseWebhookEvent(mockProductRestored, mockAppConfig);
+
+  assertEquals(parsed.eventType, 'undelete');
+  assertEquals(parsed.resourceType, 'product');
+});
+
 Deno.test('[Stripe] Webhook Parse - price events', async () => {
   const mockPriceCreated = createMockStripeEvent({
     type: 'price.created',
@@ -241,6 +306,18 @@ Deno.test('[Stripe] Webhook Parse - plan events', async () => {
   assertEquals(parsed.externalId, 'plan_123');
 });
 
+Deno.test('[Stripe] Webhook Parse - includes the event ID', async () => {
+  const mockEvent = createMockStripeEvent({
+    id: 'evt_123',
+    type: 'customer.updated',
+    data: createMockCustomer({ id: 'cus_123' }),
+  });
+
+  const parsed = await stripeConnector.parseWebhookEvent(mockEvent, mockAppConfig);
+
+  assertEquals(parsed.eventId, 'evt_123');
+});
+
 Deno.test('[Stripe] Webhook Parse - unknown event type returns update', async () => {
   const mockUnknownEvent = {
     id: 'evt_unknown',
@@ -316,6 +393,142 @@ Deno.test('[Stripe] Extract Entity - subscription with items extracts multiple e
   }
 });
 
+Deno.test('[Stripe] Extract Entity - invoice with lines extracts line items', async () => {
+  const mockEvent = createMockStripeEvent({
+    type: 'invoice.finalized',
+    data: createMockInvoice({ id: 'in_with_lines', lines: [{ id: 'il_1' }, { id: 'il_2' }] }),
+  });
+  const parsed = await stripeConnector.parseWebhookEvent(mockEvent, mockAppConfig);
+  const entities = await stripeConnector.extractEntities!(parsed, mockAppConfig);
+
+  assertEquals(parsed.eventType, 'update');
+  assertEquals(entities.map((e) => [e.collectionKey, e.externalId]), [
+    [STRIPE_COLLECTION_KEYS.invoice, 'in_with_lines'],
+    [STRIPE_COLLECTION_KEYS.invoice_line_item, 'il_1'],
+    [STRIPE_COLLECTION_KEYS.invoice_line_item, 'il_2'],
+  ]);
+  assertEquals(entities[1].rawPayload.invoice, 'in_with_lines');
+});
+
+Deno.test('[Stripe] Webhook Parse - billing events', async () => {
+  const cases = [
+    ['charge.succeeded', 'charge', 'create'],
+    ['charge.refunded', 'charge', 'update'],
+    ['payment_intent.canceled', 'payment_intent', 'archive'],
+    ['refund.created', 'refund', 'create'],
+    ['invoice.voided', 'invoice', 'archive'],
+    ['invoice.deleted', 'invoice', 'delete'],
+  ] as const;
+
+  for (const [type, resourceType, eventType] of cases) {
+    const mockEvent = createMockStripeEvent({ type, data: { id: `obj_${type}` } });
+    const parsed = await stripeConnector.parseWebhookEvent(mockEvent, mockAppConfig);
+
+    assertEquals(parsed.resourceType, resourceType);
+    assertEquals(parsed.eventType, eventType);
+  }
+});
+
+Deno.test('[Stripe] Webhook Parse - dispute and payout events', async () => {
+  const cases = [
+    ['charge.dispute.created', 'dispute', 'create'],
+    ['charge.dispute.closed', 'dispute', 'update'],
+    ['payout.paid', 'payout', 'update'],
+    ['payout.reconciliation_completed', 'payout', 'update'],
+    ['payout.canceled', 'payout', 'archive'],
+  ] as const;
+
+  for (const [type, resourceType, eventType] of cases) {
+    const mockEvent = createMockStripeEvent({ type, data: { id: `obj_${type}` } });
+    const parsed = await stripeConnector.parseWebhookEvent(mockEvent, mockAppConfig);
+
+    assertEquals(parsed.resourceType, resourceType);
+    assertEquals(parsed.eventType, eventType);
+  }
+});
+
+Deno.test('[Stripe] Extract Entity - payout before reconciliation has no balance transactions', async () => {
+  const mockEvent = createMockStripeEvent({
+    type: 'payout.paid',
+    data: createMockPayout({ id: 'po_unreconciled', reconciliationStatus: 'in_progress' }),
+  });
+  const parsed = await stripeConnector.parseWebhookEvent(mockEvent, mockAppConfig);
+  const entities = await stripeConnector.extractEntities!(parsed, mockAppConfig);
+
+  assertEquals(entities.map((e) => [e.collectionKey, e.externalId]), [
+    [STRIPE_COLLECTION_KEYS.payout, 'po_unreconciled'],
+  ]);
+});
+
+Deno.test('[Stripe] Payouts - balance transactions are listed for reconciled automatic payouts', () => {
+  assertEquals(
+    hasReconciledBalanceTransactions(createMockPayout({ reconciliationStatus: 'completed' })),
+    true,
+  );
+  assertEquals(
+    hasReconciledBalanceTransactions(createMockPayout({ reconciliationStatus: 'in_progress' })),
+    false,
+  );
+  assertEquals(
+    hasReconciledBalanceTransactions(
+      createMockPayout({ automatic: false, reconciliationStatus: 'not_applicable' }),
+    ),
+    false,
+  );
+});
+
+Deno.test('[Stripe] Webhook Parse - coupon, promotion code and tax rate events', async () => {
+  const cases = [
+    ['coupon.created', 'coupon', 'create'],
+    ['coupon.deleted', 'coupon', 'delete'],
+    ['promotion_code.updated', 'promotion_code', 'update'],
+    ['tax_rate.created', 'tax_rate', 'create'],
+  ] as const;
+
+  for (const [type, resourceType, eventType] of cases) {
+    const mockEvent = createMockStripeEvent({ type, data: { id: `obj_${type}` } });
+    const parsed = await stripeConnector.parseWebhookEvent(mockEvent, mockAppConfig);
+
+    assertEquals(parsed.resourceType, resourceType);
+    assertEquals(parsed.eventType, eventType);
+  }
+});
+
+Deno.test('[Stripe] Webhook Parse - reactivated promotion code is an undelete event', async () => {
+  const mockEvent = createMockStripeEvent({
+    type: 'promotion_code.updated',
+    data: { id: 'promo_123', active: true },
+    previousAttributes: { active: false },
+  });
+  const parsed = await stripeConnector.parseWebhookEvent(mockEvent, mockAppConfig);
+
+  assertEquals(parsed.eventType, 'undelete');
+});
+
+Deno.test('[Stripe] Webhook Parse - discount events update the discounted object', async () => {
+  const subscriptionDiscount = createMockStripeEvent({
+    type: 'customer.discount.created',
+    data: createMockDiscount({ customerId: 'cus_123', subscriptionId: 'sub_123' }),
+  });
+  const customerDiscount = createMockStripeEvent({
+    type: 'customer.discount.deleted',
+    data: createMockDiscount({ customerId: 'cus_123' }),
+  });
+
+  const subscriptionParsed = await stripeConnector.parseWebhookEvent(
+    subscriptionDiscount,
+    mockAppConfig,
+  );
+  const customerParsed = await stripeConnector.parseWebhookEvent(customerDiscount, mockAppConfig);
+
+  assertEquals(subscriptionParsed.resourceType, 'subscription');
+  assertEquals(subscriptionParsed.externalId, 'sub_123');
+  assertEquals(subscriptionParsed.eventType, 'update');
+  assertEquals(customerParsed.resourceType, 'customer');
+  assertEquals(customerParsed.externalId, 'cus_123');
+  assertEquals(customerParsed.eventType, 'update');
+});
+
 // =============================================================================
 // Entity Normalization Tests
 // =============================================================================
@@ -503,6 +716,65 @@ Deno.test('[Stripe] ArchivedAt - canceled subscription without canceledAt uses c
   assertEquals(entity.archivedAt.getTime() <= afterTest.getTime(), true);
 });
 
+Deno.test('[Stripe] ArchivedAt - void invoice has archivedAt from voided_at', () => {
+  const voidedAt = pastTimestamp(2);
+  const open = createMockInvoice({ status: 'open' });
+  const voided = createMockInvoice({ status: 'void', voidedAt });
+
+  assertEquals(
+    stripeConnector.normalizeEntity('invoice', open, mockAppConfig).archivedAt,
+    undefined,
+  );
+  assertEquals(
+    stripeConnector.normalizeEntity('invoice', voided, mockAppConfig).archivedAt,
+    new Date(voidedAt * 1000),
+  );
+});
+
+Deno.test('[Stripe] ArchivedAt - canceled payment intent has archivedAt', () => {
+  const canceledAt = pastTimestamp(1);
+  const succeeded = createMockPaymentIntent();
+  const canceled = createMockPaymentIntent({ status: 'canceled', canceledAt });
+
+  assertEquals(
+    stripeConnector.normalizeEntity('payment_intent', succeeded, mockAppConfig).archivedAt,
+    undefined,
+  );
+  assertEquals(
+    stripeConnector.normalizeEntity('payment_intent', canceled, mockAppConfig).archivedAt,
+    new Date(canceledAt * 1000),
+  );
+});
+
+Deno.test('[Stripe] ArchivedAt - canceled payout has archivedAt', () => {
+  const paid = createMockPayout();
+  const canceled = createMockPayout({ status: 'canceled' });
+
+  assertEquals(
+    stripeConnector.normalizeEntity('payout', paid, mockAppConfig).archivedAt,
+    undefined,
+  );
+  assertExists(stripeConnector.normalizeEntity('payout', canceled, mockAppConfig).archivedAt);
+});
+
+Deno.test('[Stripe] ArchivedAt - inactive promotion codes and tax rates have archivedAt', () => {
+  const inactivePromotionCode = { id: 'promo_123', object: 'promotion_code', active: false };
+  const activeTaxRate = { id: 'txr_123', object: 'tax_rate', active: true };
+  const inactiveTaxRate = { id: 'txr_456', object: 'tax_rate', active: false };
+
+  assertExists(
+    stripeConnector.normalizeEntity('promotion_code', inactivePromotionCode, mockAppConfig)
+      .archivedAt,
+  );
+  assertEquals(
+    stripeConnector.normalizeEntity('tax_rate', activeTaxRate, mockAppConfig).archivedAt,
+    undefined,
+  );
+  assertExists(
+    stripeConnector.normalizeEntity('tax_rate', inactiveTaxRate, mockAppConfig).archivedAt,
+  );
+});
+
 // =============================================================================
 // Collection Key Tests
 // =============================================================================
@@ -515,6 +787,18 @@ Deno.test('[Stripe] Collection Keys - all resource types have correct keys', ()
     'plan',
     'subscription',
     'subscription_item',
+    'invoice',
+    'invoice_line_item',
+    'charge',
+    'payment_intent',
+    'refund',
+    'dispute',
+    'payout',
+    'balance_transaction',
+    'coupon',
+    'promotion_code',
+    'tax_rate',
+    'account',
   ] as const;
 
   for (const resourceType of resourceTypes) {
@@ -589,3 +873,478 @@ Deno.test('[Stripe] Created - entity data includes created timestamp', () => {
 
   assertEquals(entity.rawPayload.created, created);
 });
+
+// =============================================================================
+// Events Sync Tests
+// =============================================================================
+
+Deno.test('[Stripe] Events Sync - lists the webhook event types of a resource', () => {
+  assertEquals(getStripeEventTypes('subscription'), [
+    'customer.subscription.created',
+    'customer.subscription.updated',
+    'customer.subscription.deleted',
+  ]);
+  assertEquals(getStripeEventTypes('subscription_item'), []);
+});
+
+Deno.test('[Stripe] Events Sync - only uses events within the 30-day retention', () => {
+  assertEquals(isWithinEventRetention(new Date(pastTimestamp(29) * 1000)), true);
+  assertEquals(isWithinEventRetention(new Date(pastTimestamp(31) * 1000)), false);
+});
+
+Deno.test('[Stripe] Events Sync - applies only the newest event for each object', async () => {
+  const supabase = installMockSupabase();
+  const calls: Stripe.EventListParams[] = [];
+  // Events are listed newest first
+  const stripe = createEventListClient([[
+    createMockStripeEvent({
+      type: 'customer.updated',
+      data: createMockCustomer({ id: 'cus_1', name: 'Newest' }),
+    }),
+    createMockStripeEvent({
+      type: 'customer.updated',
+      data: createMockCustomer({ id: 'cus_1', name: 'Older' }),
+      created: pastTimestamp(1),
+    }),
+    createMockStripeEvent({
+      type: 'customer.created',
+      data: createMockCustomer({ id: 'cus_1', name: 'Oldest' }),
+      created: pastTimestamp(2),
+    }),
+  ]], calls);
+
+  try {
+    const result = await syncEvents(stripe, mockAppConfig, 'customer', {
+      since: new Date(pastTimestamp(3) * 1000),
+    });
+
+    assertEquals(result.success, true);
+    assertEquals(result.created, 1);
+    assertEquals(supabase.store.getAllEntities().length, 1);
+    assertEquals(supabase.store.getAllEntities()[0].raw_payload.name, 'Newest');
+  } finally {
+    supabase.restore();
+  }
+});
+
+Deno.test('[Stripe] Events Sync - delete events remove the entity', async () => {
+  const supabase = installMockSupabase();
+  supabase.store.upsertEntity({
+    external_id: 'cus_gone',
+    app_key: mockAppConfig.app_key,
+    collection_key: STRIPE_COLLECTION_KEYS.customer,
+    raw_payload: { id: 'cus_gone' },
+  });
+  const calls: Stripe.EventListParams[] = [];
+  const stripe = createEventListClient([[
+    createMockCustomerDeletedEvent({ id: 'cus_gone' }),
+    // An older update to the deleted customer doesn't bring it back
+    createMockStripeEvent({
+      type: 'customer.updated',
+      data: createMockCustomer({ id: 'cus_gone' }),
+      created: pastTimestamp(1),
+    }),
+  ]], calls);
+
+  try {
+    const result = await syncEvents(stripe, mockAppConfig, 'customer', {
+      since: new Date(pastTimestamp(2) * 1000),
+    });
+
+    assertEquals(result.success, true);
+    assertEquals(result.deleted, 1);
+    assertEquals(result.created, 0);
+    assertEquals(supabase.store.getAllEntities().length, 0);
+  } finally {
+    supabase.restore();
+  }
+});
+
+Deno.test('[Stripe] Events Sync - lists events from since with an overlap and applies them oldest first', async () => {
+  const supabase = installMockSupabase();
+  const calls: Stripe.EventListParams[] = [];
+  // Events are listed newest first
+  const firstPage = [
+    createMockStripeEvent({
+      type: 'customer.updated',
+      data: createMockCustomer({ id: 'cus_1', name: 'Newest' }),
+    }),
+  ];
+  const secondPage = [
+    createMockStripeEvent({
+      type: 'customer.created',
+      data: createMockCustomer({ id: 'cus_1', name: 'Oldest' }),
+      created: pastTimestamp(1),
+    }),
+  ];
+  const stripe = createEventListClient([firstPage, secondPage], calls);
+  const since = new Date(pastTimestamp(1) * 1000 + 500);
+  const cursors: string[] = [];
+
+  try {
+    const result = await syncEvents(stripe, mockAppConfig, 'customer', {
+      since,
+      pageSize: 1,
+      onCursor: (cursor) => {
+        cursors.push(cursor);
+      },
+    });
+
+    assertEquals(result.success, true);
+    assertEquals(result.created, 1);
+    assertEquals(result.updated, 1);
+    assertEquals(supabase.store.getAllEntities()[0].raw_payload.name, 'Newest');
+  } finally {
+    supabase.restore();
+  }
+
+  const createdGte = Math.floor(since.getTime() / 1000) - EVENT_OVERLAP_SECONDS;
+  assertEquals(calls.length, 2);
+  assertEquals(calls[0].created, { gte: createdGte });
+  assertEquals(calls[0].starting_after, undefined);
+  assertEquals(calls[0].types, getStripeEventTypes('customer'));
+  assertEquals(calls[1].starting_after, firstPage[0].id);
+  // The oldest page was applied first and checkpointed
+  assertEquals(cursors, [secondPage[0].id]);
+});
+
+Deno.test('[Stripe] Events Sync - resuming after a delete does not bring the object back', async () => {
+  const supabase = installMockSupabase();
+  supabase.store.upsertEntity({
+    external_id: 'cus_gone',
+    app_key: mockAppConfig.app_key,
+    collection_key: STRIPE_COLLECTION_KEYS.customer,
+    raw_payload: { id: 'cus_gone' },
+  });
+  const update = createMockStripeEvent({
+    type: 'customer.updated',
+    data: createMockCustomer({ id: 'cus_gone' }),
+    created: pastTimestamp(2),
+  });
+  const deletion = createMockStripeEvent({
+    type: 'customer.deleted',
+    data: createMockCustomer({ id: 'cus_gone', deleted: true }),
+    created: pastTimestamp(1),
+  });
+  const later = createMockCustomerUpdatedEvent({ id: 'cus_new' });
+  const since = new Date(pastTimestamp(3) * 1000);
+  const cursors: string[] = [];
+  let checks = 0;
+
+  try {
+    // The first run applies the update and the delete, then is interrupted
+    const first = await syncEvents(
+      createEventListClient([[later, deletion, update]], []),
+      mockAppConfig,
+      'customer',
+      {
+        since,
+        pageSize: 1,
+        isCancelled: () => ++checks > 2,
+        onCursor: (cursor) => {
+          cursors.push(cursor);
+        },
+      },
+    );
+
+    assertEquals(first.cancelled, true);
+    assertEquals(first.deleted, 1);
+    assertEquals(cursors, [update.id, deletion.id]);
+
+    // The resumed run only lists the events after the delete
+    const calls: Stripe.EventListParams[] = [];
+    const resumed = await syncEvents(
+      createEventListClient([[later]], calls),
+      mockAppConfig,
+      'customer',
+      { since, pageSize: 1, cursor: cursors[cursors.length - 1] },
+    );
+
+    assertEquals(resumed.success, true);
+    assertEquals(resumed.created, 1);
+    assertEquals(calls[0].ending_before, deletion.id);
+    assertEquals(calls[0].created, undefined);
+    assertEquals(supabase.store.getAllEntities().map((e) => e.external_id), ['cus_new']);
+  } finally {
+    supabase.restore();
+  }
+});
+
+Deno.test('[Stripe] Events Sync - a page that fails to write fails the sync without a checkpoint', async () => {
+  const supabase = installMockSupabase();
+  supabase.failingPaths.add('rpc/upsert_entities');
+  const cursors: string[] = [];
+  const stripe = createEventListClient([[
+    createMockCustomerUpdatedEvent({ id: 'cus_2' }),
+    createMockStripeEvent({
+      type: 'customer.updated',
+      data: createMockCustomer({ id: 'cus_1' }),
+      created: pastTimestamp(1),
+    }),
+  ]], []);
+
+  try {
+    const result = await syncEvents(stripe, mockAppConfig, 'customer', {
+      since: new Date(pastTimestamp(2) * 1000),
+      pageSize: 1,
+      onCursor: (cursor) => {
+        cursors.push(cursor);
+      },
+    });
+
+    assertEquals(result.success, false);
+    assertEquals(result.retryable, true);
+    assertEquals(result.errors, 1);
+    assertEquals(cursors, []);
+  } finally {
+    supabase.restore();
+  }
+});
+
+Deno.test('[Stripe] Events Sync - discount events are deduplicated by the entity they update', async () => {
+  const supabase = installMockSupabase();
+  const stripe = createEventListClient([[
+    createMockStripeEvent({
+      type: 'customer.updated',
+      data: createMockCustomer({ id: 'cus_1', name: 'Latest' }),
+    }),
+    // Superseded by the customer update, so the customer isn't refetched for it
+    createMockStripeEvent({
+      type: 'customer.discount.created',
+      data: { id: 'di_1', object: 'discount', customer: 'cus_1', subscription: null },
+      created: pastTimestamp(1),
+    }),
+  ]], []);
+
+  try {
+    const result = await syncEvents(stripe, mockAppConfig, 'customer', {
+      since: new Date(pastTimestamp(2) * 1000),
+    });
+
+    assertEquals(result.success, true);
+    assertEquals(result.created, 1);
+    assertEquals(supabase.store.getAllEntities()[0].raw_payload.name, 'Latest');
+  } finally {
+    supabase.restore();
+  }
+});
+
+Deno.test('[Stripe] Events Sync - falls back to a full sync beyond the event retention', async () => {
+  const supabase = installMockSupabase();
+  const listed: string[] = [];
+  const stripe = {
+    events: {
+      list: () => {
+        listed.push('events');
+        return Promise.resolve({ data: [], has_more: false });
+      },
+    },
+    customers: {
+      list: () => {
+        listed.push('customers');
+        return Promise.resolve({ data: [createMockCustomer({ id: 'cus_1' })], has_more: false });
+      },
+    },
+  } as unknown as Stripe;
+
+  try {
+    const result = await incrementalSync(
+      mockAppConfig,
+      new Date(pastTimestamp(31) * 1000),
+      { resourceTypes: ['customer'] },
+      stripe,
+    );
+
+    assertEquals(result.success, true);
+    assertEquals(result.created, 1);
+  } finally {
+    supabase.restore();
+  }
+
+  assertEquals(listed, ['customers']);
+});
+
+Deno.test('[Stripe] Sync - repeated syncs keep the archived_at of inactive products', async () => {
+  const supabase = installMockSupabase();
+  const stripe = {
+    products: {
+      list: () =>
+        Promise.resolve({
+          data: [createMockProduct({ id: 'prod_old', active: false })],
+          has_more: false,
+        }),
+    },
+  } as unknown as Stripe;
+
+  try {
+    const first = await fullSync(mockAppConfig, { resourceTypes: ['product'] }, stripe);
+    const archivedAt = supabase.store.getAllEntities()[0].archived_at;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = await fullSync(mockAppConfig, { resourceTypes: ['product'] }, stripe);
+
+    assertEquals(first.created, 1);
+    assertExists(archivedAt);
+    assertEquals(second.updated, 0);
+    assertEquals(second.unchanged, 1);
+    assertEquals(supabase.store.getAllEntities()[0].archived_at, archivedAt);
+  } finally {
+    supabase.restore();
+  }
+});
+
+// =============================================================================
+// Connect Tests
+// =============================================================================
+
+Deno.test('[Stripe] Connect - accounts are synced by default in Connect mode', () => {
+  const platformConfig = createMockStripeAppConfig();
+  const connectConfig = createMockStripeAppConfig({ connect: { enabled: true } });
+
+  assertEquals(getResourceTypesToSync(platformConfig).includes('account'), false);
+  assertEquals(getResourceTypesToSync(connectConfig).includes('account'), true);
+});
+
+Deno.test('[Stripe] Connect - entities of a connected account record the account ID', () => {
+  const accountConfig = withStripeAccount(mockAppConfig, 'acct_123');
+  const customer = createMockCustomer({ id: 'cus_connected' });
+
+  const entity = stripeConnector.normalizeEntity('customer', customer, accountConfig);
+  const platformEntity = stripeConnector.normalizeEntity('customer', customer, mockAppConfig);
+  const account = stripeConnector.normalizeEntity(
+    'account',
+    { id: 'acct_123', object: 'account' },
+    accountConfig,
+  );
+
+  assertEquals(entity.rawPayload.stripe_account, 'acct_123');
+  assertEquals(entity.externalId, 'cus_connected');
+  assertEquals(platformEntity.rawPayload.stripe_account, undefined);
+  assertEquals(account.rawPayload.stripe_account, undefined);
+  // The original payload is left as it was
+  assertEquals(customer.stripe_account, undefined);
+});
+
+Deno.test('[Stripe] Connect - webhook events are handled in their account scope', async () => {
+  const mockEvent = createMockStripeEvent({
+    type: 'customer.created',
+    data: createMockCustomer({ id: 'cus_connected' }),
+    account: 'acct_123',
+  });
+  const parsed = await stripeConnector.parseWebhookEvent(mockEvent, mockAppConfig);
+  const entities = await stripeConnector.extractEntities!(parsed, mockAppConfig);
+
+  assertEquals(parsed.metadata?.account, 'acct_123');
+  assertEquals(entities.length, 1);
+  assertEquals(entities[0].rawPayload.stripe_account, 'acct_123');
+});
+
+Deno.test('[Stripe] Connect - validates Connect options', () => {
+  const valid = stripeConnector.validateConfig(
+    createMockStripeAppConfig({
+      connect: { enabled: true, sync_connected_accounts: true, account_ids: ['acct_123'] },
+    }),
+  );
+  const invalid = stripeConnector.validateConfig(
+    createMockStripeAppConfig({
+      connect: { enabled: true, account_ids: ['cus_123'] },
+    }),
+  );
+
+  assertEquals(valid.valid, true);
+  assertEquals(invalid.valid, false);
+  assertEquals(invalid.errors[0].field, 'connect.account_ids');
+});
+
+Deno.test('[Stripe] Connect - resumes a sync in the checkpointed connected account', async () => {
+  const supabase = installMockSupabase();
+  const connectConfig = createMockStripeAppConfig({
+    connect: { enabled: true, sync_connected_accounts: true, account_ids: ['acct_b', 'acct_a'] },
+  });
+  const platform = {
+    customers: {
+      list: () => Promise.reject(new Error('The platform was already synced')),
+    },
+  } as unknown as Stripe;
+
+  // Cancel each scope before its first page, so no account is fetched from Stripe
+  const resume = async (cursor: string) => {
+    const checkpoints: string[] = [];
+    let scopes = 0;
+    const result = await fullSync(connectConfig, {
+      resourceTypes: ['customer'],
+      cursor,
+      onCursor: (checkpoint) => {
+        checkpoints.push(checkpoint);
+      },
+      isCancelled: () => {
+        scopes++;
+        return Promise.resolve(true);
+      },
+    }, platform);
+    return { result, checkpoints, scopes };
+  };
+
+  try {
+    const second = await resume('connect:acct_b:cus_9');
+    assertEquals(second.result.cancelled, true);
+    assertEquals(second.scopes, 1);
+    assertEquals(second.checkpoints, []);
+
+    const first = await resume('connect:acct_a:');
+    assertEquals(first.scopes, 1);
+    assertEquals(first.checkpoints, ['connect:acct_a:']);
+
+    // An account that's no longer synced resumes with the account after it
+    const removed = await resume('connect:acct_ab:cus_9');
+    assertEquals(removed.scopes, 1);
+    assertEquals(removed.checkpoints, ['connect:acct_b:']);
+
+    const removedLast = await resume('connect:acct_c:cus_9');
+    assertEquals(removedLast.result.success, true);
+    assertEquals(removedLast.scopes, 0);
+    assertEquals(removedLast.checkpoints, []);
+  } finally {
+    supabase.restore();
+  }
+});
+
+// =============================================================================
+// Error Mapping Tests
+// =============================================================================
+
+Deno.test('[Stripe] Errors - rate limit errors map to RateLimitError with Retry-After', () => {
+  const error = toConnectorError(
+    new Stripe.errors.StripeRateLimitError({
+      type: 'rate_limit_error',
+      message: 'Too many requests',
+      statusCode: 429,
+      headers: { 'retry-after': '12' },
+    }),
+  );
+
+  assertInstanceOf(error, RateLimitError);
+  assertEquals(error.retryAfterSeconds, 12);
+});
+
+Deno.test('[Stripe] Errors - server errors are retryable, invalid requests are not', () => {
+  const serverError = toConnectorError(
+    new Stripe.errors.StripeAPIError({ type: 'api_error', message: 'Oops', statusCode: 500 }),
+  );
+  const invalidRequest = toConnectorError(
+    new Stripe.errors.StripeInvalidRequestError({
+      type: 'invalid_request_error',
+      message: 'No such customer',
+      statusCode: 404,
+    }),
+  );
+
+  assertInstanceOf(serverError, ApiError);
+  assertEquals(isRetryableError(serverError), true);
+  assertEquals(isRetryableError(invalidRequest), false);
+});
+
+Deno.test('[Stripe] Errors - non-Stripe errors are returned unchanged', () => {
+  const original = new Error('boom');
+
+  assertEquals(toConnectorError(original), original);
+});
@@ -7,6 +7,7 @@
 import Stripe from 'stripe';
 import type { AppConfig } from '../../types/index.ts';
 import type { ConfigValidationError, ConfigValidationResult } from '../index.ts';
+import { ApiError, ConnectorError, parseRetryAfterHeader, RateLimitError } from '../errors.ts';
 import { createConnectorLogger } from '../utils.ts';
 import type { StripeAppConfig, StripeResourceType } from './types.ts';
 
@@ -18,6 +19,18 @@ const VALID_RESOURCE_TYPES: StripeResourceType[] = [
   'plan',
   'subscription',
   'subscription_item',
+  'invoice',
+  'invoice_line_item',
+  'charge',
+  'payment_intent',
+  'refund',
+  'dispute',
+  'payout',
+  'balance_transaction',
+  'coupon',
+  'promotion_code',
+  'tax_rate',
+  'account',
 ];
 
 // =============================================================================
@@ -142,9 +155,11 @@ export function getWebhookSecret(appConfig: AppConfig): string {
  */
 export function createStripeClient(appConfig: AppConfig): Stripe {
   const apiKey = getApiKey(appConfig);
+  const stripeAccount = getStripeAccount(appConfig);
   return new Stripe(apiKey, {
     apiVersion: DEFAULT_API_VERSION,
     typescript: true,
+    ...(stripeAccount && { stripeAccount }),
   });
 }
 
@@ -156,8 +171,65 @@ export function getResourceTypesToSync(appConfig: AppConfig): StripeResourceType
   if (config.sync_resources && config.sync_resources.length > 0) {
     return config.sync_resources;
   }
-  // Default to all resources except subscription_item (synced with subscriptions)
-  return ['customer', 'product', 'price', 'plan', 'subscription'];
+  // Default to all resources except subscription_item, invoice_line_item and
+  // balance_transaction (synced with their subscription, invoice and payout),
+  // plus connected accounts in Connect mode
+  const resourceTypes: StripeResourceType[] = [
+    'customer',
+    'product',
+    'price',
+    'plan',
+    'subscription',
+    'invoice',
+    'charge',
+    'payment_intent',
+    'refund',
+    'dispute',
+    'payout',
+    'coupon',
+    'promotion_code',
+    'tax_rate',
+  ];
+  if (config.connect?.enabled) {
+    resourceTypes.push('account');
+  }
+  return resourceTypes;
+}
+
+/**
+ * Get the connected account an app config makes requests as, if any
+ */
+export function getStripeAccount(appConfig: AppConfig): string | undefined {
+  return getStripeConfig(appConfig).stripe_account;
+}
+
+/**
+ * Scope an app config to a connected account: clients created from it make
+ * requests as the account, and the entities normalized with it record the account ID
+ */
+export function withStripeAccount(appConfig: AppConfig, accountId: string): AppConfig {
+  return {
+    ...appConfig,
+    config: { ...appConfig.config, stripe_account: accountId },
+  };
+}
+
+/**
+ * Check whether the resources of connected accounts are synced, in which case each
+ * account (and the platform) is synced as a separate scope
+ */
+export function isConnectScoped(appConfig: AppConfig): boolean {
+  const config = getStripeConfig(appConfig);
+  return !!config.connect?.enabled || !!config.stripe_account;
+}
+
+/**
+ * Check whether the resources of connected accounts should be synced
+ */
+export function shouldSyncConnectedAccounts(appConfig: AppConfig): boolean {
+  const config = getStripeConfig(appConfig);
+  return !!config.connect?.enabled && !!config.connect.sync_connected_accounts &&
+    !config.stripe_account;
 }
 
 /**
@@ -191,13 +263,49 @@ export function getSyncFromTimestamp(appConfig: AppConfig): number | undefined {
   return undefined;
 }
 
+// =============================================================================
+// Error Mapping
+// =============================================================================
+
+/**
+ * Convert an error thrown by the Stripe SDK into a ConnectorError so callers
+ * can tell retryable failures (rate limits, connection problems, 5xx) apart
+ * from permanent ones. Non-Stripe errors are returned unchanged.
+ */
+export function toConnectorError(error: unknown): unknown {
+  if (!(error instanceof Stripe.errors.StripeError)) {
+    return error;
+  }
+
+  if (error.type === 'StripeRateLimitError' || error.statusCode === 429) {
+    return new RateLimitError(
+      CONNECTOR_NAME,
+      parseRetryAfterHeader(error.headers?.['retry-after'] ?? null),
+      error.message,
+    );
+  }
+
+  if (error.type === 'StripeConnectionError') {
+    return new ConnectorError(error.message, CONNECTOR_NAME, true);
+  }
+
+  return new ApiError(CONNECTOR_NAME, error.message, error.statusCode, error.raw);
+}
+
 // =============================================================================
 // Configuration Validation
 // =============================================================================
 
+/**
+ * Check whether a value looks like a connected account ID
+ */
+function isAccountId(value: unknown): boolean {
+  return typeof value === 'string' && value.startsWith('acct_');
+}
+
 /**
  * Validate Stripe connector configuration.
- * Checks for required API keys, valid resource types, and date formats.
+ * Checks for required API keys, valid resource types, Connect options, and date formats.
  */
 export function validateStripeConfig(appConfig: AppConfig): ConfigValidationResult {
   const errors: ConfigValidationError[] = [];
@@ -295,6 +403,52 @@ export function validateStripeConfig(appConfig: AppConfig): ConfigValidationResu
     }
   }
 
+  // Validate Connect options if provided
+  if (config.connect) {
+    if (typeof config.connect.enabled !== 'boolean') {
+      errors.push({
+        field: 'connect.enabled',
+        message: 'connect.enabled must be a boolean',
+      });
+    }
+    if (
+      config.connect.sync_connected_accounts !== undefined &&
+      typeof config.connect.sync_connected_accounts !== 'boolean'
+    ) {
+      errors.push({
+        field: 'connect.sync_connected_accounts',
+        message: 'connect.sync_connected_accounts must be a boolean',
+      });
+    }
+    if (config.connect.account_ids !== undefined) {
+      if (!Array.isArray(config.connect.account_ids)) {
+        errors.push({
+          field: 'connect.account_ids',
+          message: 'connect.account_ids must be an array',
+        });
+      } else {
+        for (const accountId of config.connect.account_ids) {
+          if (!isAccountId(accountId)) {
+            errors.push({
+              field: 'connect.account_ids',
+              message: `Invalid connected account ID: ${accountId}`,
+              suggestion: 'Connected account IDs start with "acct_"',
+            });
+          }
+        }
+      }
+    }
+  }
+
+  // Validate stripe_account if provided
+  if (config.stripe_account !== undefined && !isAccountId(config.stripe_account)) {
+    errors.push({
+      field: 'stripe_account',
+      message: `Invalid connected account ID: ${config.stripe_account}`,
+      suggestion: 'Connected account IDs start with "acct_"',
+    });
+  }
+
   // Also check AppConfig.sync_from
   if (appConfig.sync_from) {
     const date = typeof appConfig.sync_from === 'string'
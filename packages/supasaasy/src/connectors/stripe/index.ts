@@ -9,6 +9,21 @@
  * - Plans (legacy)
  * - Subscriptions
  * - Subscription Items
+ * - Invoices
+ * - Invoice Line Items
+ * - Charges
+ * - Payment Intents
+ * - Refunds
+ * - Disputes
+ * - Payouts
+ * - Balance Transactions
+ * - Coupons
+ * - Promotion Codes
+ * - Tax Rates
+ * - Connected Accounts (Connect)
+ *
+ * In Connect mode, the resources of each connected account can be synced too,
+ * making requests as the account with the Stripe-Account header.
  */
 
 import type {
@@ -84,6 +99,92 @@ const SUPPORTED_RESOURCES: SupportedResource[] = [
     supportsWebhooks: false,
     syncedWithParent: 'subscription',
   },
+  {
+    resourceType: 'invoice',
+    collectionKey: STRIPE_COLLECTION_KEYS.invoice,
+    description: 'Stripe invoices',
+    supportsIncrementalSync: true,
+    supportsWebhooks: true,
+  },
+  {
+    resourceType: 'invoice_line_item',
+    collectionKey: STRIPE_COLLECTION_KEYS.invoice_line_item,
+    description: 'Stripe invoice line items',
+    supportsIncrementalSync: false,
+    supportsWebhooks: false,
+    syncedWithParent: 'invoice',
+  },
+  {
+    resourceType: 'charge',
+    collectionKey: STRIPE_COLLECTION_KEYS.charge,
+    description: 'Stripe charges',
+    supportsIncrementalSync: true,
+    supportsWebhooks: true,
+  },
+  {
+    resourceType: 'payment_intent',
+    collectionKey: STRIPE_COLLECTION_KEYS.payment_intent,
+    description: 'Stripe payment intents',
+    supportsIncrementalSync: true,
+    supportsWebhooks: true,
+  },
+  {
+    resourceType: 'refund',
+    collectionKey: STRIPE_COLLECTION_KEYS.refund,
+    description: 'Stripe refunds',
+    supportsIncrementalSync: true,
+    supportsWebhooks: true,
+  },
+  {
+    resourceType: 'dispute',
+    collectionKey: STRIPE_COLLECTION_KEYS.dispute,
+    description: 'Stripe disputes',
+    supportsIncrementalSync: true,
+    supportsWebhooks: true,
+  },
+  {
+    resourceType: 'payout',
+    collectionKey: STRIPE_COLLECTION_KEYS.payout,
+    description: 'Stripe payouts',
+    supportsIncrementalSync: true,
+    supportsWebhooks: true,
+  },
+  {
+    resourceType: 'balance_transaction',
+    collectionKey: STRIPE_COLLECTION_KEYS.balance_transaction,
+    description: 'Stripe balance transactions paid out in payouts',
+    supportsIncrementalSync: false,
+    supportsWebhooks: false,
+    syncedWithParent: 'payout',
+  },
+  {
+    resourceType: 'coupon',
+    collectionKey: STRIPE_COLLECTION_KEYS.coupon,
+    description: 'Stripe coupons',
+    supportsIncrementalSync: true,
+    supportsWebhooks: true,
+  },
+  {
+    resourceType: 'promotion_code',
+    collectionKey: STRIPE_COLLECTION_KEYS.promotion_code,
+    description: 'Stripe promotion codes',
+    supportsIncrementalSync: true,
+    supportsWebhooks: true,
+  },
+  {
+    resourceType: 'tax_rate',
+    collectionKey: STRIPE_COLLECTION_KEYS.tax_rate,
+    description: 'Stripe tax rates',
+    supportsIncrementalSync: true,
+    supportsWebhooks: true,
+  },
+  {
+    resourceType: 'account',
+    collectionKey: STRIPE_COLLECTION_KEYS.account,
+    description: 'Stripe Connect connected accounts',
+    supportsIncrementalSync: true,
+    supportsWebhooks: true,
+  },
 ];
 
 // =============================================================================
@@ -97,6 +198,10 @@ const SUPPORTED_RESOURCES: SupportedResource[] = [
  */
 const MIGRATION_FILES = [
   '001_views.sql',
+  '002_billing_views.sql',
+  '003_reconciliation_views.sql',
+  '004_discount_views.sql',
+  '005_connect_views.sql',
 ];
 
 // =============================================================================
@@ -110,7 +215,7 @@ const metadata: ConnectorMetadata = {
   apiVersion: DEFAULT_API_VERSION,
   supportedResources: SUPPORTED_RESOURCES,
   description:
-    'Syncs customers, products, prices, plans, subscriptions, and subscription items from Stripe',
+    'Syncs customers, products, prices, plans, subscriptions, subscription items, invoices, invoice line items, charges, payment intents, refunds, disputes, payouts, balance transactions, coupons, promotion codes, tax rates, and Connect accounts from Stripe',
   migrations: MIGRATION_FILES,
 };
 
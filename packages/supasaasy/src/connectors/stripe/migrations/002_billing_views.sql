@@ -0,0 +1,220 @@
+-- ============================================================================
+-- Stripe Connector Migrations - Billing
+-- ============================================================================
+-- Convenience views for the Stripe billing resources: invoices, invoice line
+-- items, charges, payment intents and refunds.
+--
+-- All statements must be idempotent (CREATE OR REPLACE, IF NOT EXISTS, etc.)
+-- to support re-running the assembly process safely.
+-- ============================================================================
+
+-- ============================================================================
+-- Invoices View
+-- ============================================================================
+
+CREATE OR REPLACE VIEW supasaasy.stripe_invoices
+WITH (security_invoker = true) AS
+SELECT
+    e.id,
+    e.external_id,
+    e.app_key,
+    e.raw_payload->>'customer' AS customer_id,
+    e.raw_payload->>'subscription' AS subscription_id,
+    e.raw_payload->>'number' AS number,
+    e.raw_payload->>'status' AS status,
+    e.raw_payload->>'billing_reason' AS billing_reason,
+    e.raw_payload->>'collection_method' AS collection_method,
+    e.raw_payload->>'currency' AS currency,
+    (e.raw_payload->>'subtotal')::bigint AS subtotal,
+    (e.raw_payload->>'total')::bigint AS total,
+    (e.raw_payload->>'amount_due')::bigint AS amount_due,
+    (e.raw_payload->>'amount_paid')::bigint AS amount_paid,
+    (e.raw_payload->>'amount_remaining')::bigint AS amount_remaining,
+    to_timestamp((e.raw_payload->>'period_start')::bigint) AS period_start,
+    to_timestamp((e.raw_payload->>'period_end')::bigint) AS period_end,
+    to_timestamp((e.raw_payload->>'due_date')::bigint) AS due_date,
+    to_timestamp((e.raw_payload->'status_transitions'->>'finalized_at')::bigint) AS finalized_at,
+    to_timestamp((e.raw_payload->'status_transitions'->>'paid_at')::bigint) AS paid_at,
+    to_timestamp((e.raw_payload->'status_transitions'->>'voided_at')::bigint) AS voided_at,
+    e.raw_payload->>'hosted_invoice_url' AS hosted_invoice_url,
+    e.raw_payload->>'invoice_pdf' AS invoice_pdf,
+    e.raw_payload->'metadata' AS metadata,
+    (e.raw_payload->>'livemode')::boolean AS livemode,
+    to_timestamp((e.raw_payload->>'created')::bigint) AS stripe_created_at,
+    e.created_at,
+    e.updated_at,
+    e.archived_at
+FROM supasaasy.entities e
+WHERE e.collection_key = 'stripe_invoice'
+  AND e.deleted_at IS NULL;
+
+COMMENT ON VIEW supasaasy.stripe_invoices IS 'Convenience view for Stripe invoices with commonly used fields extracted from raw_payload';
+
+-- ============================================================================
+-- Invoice Line Items View
+-- ============================================================================
+
+CREATE OR REPLACE VIEW supasaasy.stripe_invoice_line_items
+WITH (security_invoker = true) AS
+SELECT
+    e.id,
+    e.external_id,
+    e.app_key,
+    e.raw_payload->>'invoice' AS invoice_id,
+    e.raw_payload->>'type' AS line_type,
+    e.raw_payload->>'description' AS description,
+    (e.raw_payload->>'amount')::bigint AS amount,
+    e.raw_payload->>'currency' AS currency,
+    (e.raw_payload->>'quantity')::int AS quantity,
+    e.raw_payload->'price'->>'id' AS price_id,
+    e.raw_payload->>'subscription' AS subscription_id,
+    e.raw_payload->>'subscription_item' AS subscription_item_id,
+    (e.raw_payload->>'proration')::boolean AS proration,
+    to_timestamp((e.raw_payload->'period'->>'start')::bigint) AS period_start,
+    to_timestamp((e.raw_payload->'period'->>'end')::bigint) AS period_end,
+    e.raw_payload->'metadata' AS metadata,
+    (e.raw_payload->>'livemode')::boolean AS livemode,
+    e.created_at,
+    e.updated_at
+FROM supasaasy.entities e
+WHERE e.collection_key = 'stripe_invoice_line_item'
+  AND e.deleted_at IS NULL;
+
+COMMENT ON VIEW supasaasy.stripe_invoice_line_items IS 'Convenience view for Stripe invoice line items with commonly used fields extracted from raw_payload';
+
+-- ============================================================================
+-- Charges View
+-- ============================================================================
+
+CREATE OR REPLACE VIEW supasaasy.stripe_charges
+WITH (security_invoker = true) AS
+SELECT
+    e.id,
+    e.external_id,
+    e.app_key,
+    e.raw_payload->>'customer' AS customer_id,
+    e.raw_payload->>'payment_intent' AS payment_intent_id,
+    e.raw_payload->>'invoice' AS invoice_id,
+    (e.raw_payload->>'amount')::bigint AS amount,
+    (e.raw_payload->>'amount_captured')::bigint AS amount_captured,
+    (e.raw_payload->>'amount_refunded')::bigint AS amount_refunded,
+    e.raw_payload->>'currency' AS currency,
+    e.raw_payload->>'status' AS status,
+    (e.raw_payload->>'paid')::boolean AS paid,
+    (e.raw_payload->>'captured')::boolean AS captured,
+    (e.raw_payload->>'refunded')::boolean AS refunded,
+    (e.raw_payload->>'disputed')::boolean AS disputed,
+    e.raw_payload->>'failure_code' AS failure_code,
+    e.raw_payload->>'failure_message' AS failure_message,
+    e.raw_payload->>'payment_method' AS payment_method,
+    e.raw_payload->>'balance_transaction' AS balance_transaction_id,
+    e.raw_payload->>'receipt_url' AS receipt_url,
+    e.raw_payload->>'description' AS description,
+    e.raw_payload->'metadata' AS metadata,
+    (e.raw_payload->>'livemode')::boolean AS livemode,
+    to_timestamp((e.raw_payload->>'created')::bigint) AS stripe_created_at,
+    e.created_at,
+    e.updated_at
+FROM supasaasy.entities e
+WHERE e.collection_key = 'stripe_charge'
+  AND e.deleted_at IS NULL;
+
+COMMENT ON VIEW supasaasy.stripe_charges IS 'Convenience view for Stripe charges with commonly used fields extracted from raw_payload';
+
+-- ============================================================================
+-- Payment Intents View
+-- ============================================================================
+
+CREATE OR REPLACE VIEW supasaasy.stripe_payment_intents
+WITH (security_invoker = true) AS
+SELECT
+    e.id,
+    e.external_id,
+    e.app_key,
+    e.raw_payload->>'customer' AS customer_id,
+    e.raw_payload->>'invoice' AS invoice_id,
+    e.raw_payload->>'latest_charge' AS latest_charge_id,
+    (e.raw_payload->>'amount')::bigint AS amount,
+    (e.raw_payload->>'amount_received')::bigint AS amount_received,
+    (e.raw_payload->>'amount_capturable')::bigint AS amount_capturable,
+    e.raw_payload->>'currency' AS currency,
+    e.raw_payload->>'status' AS status,
+    e.raw_payload->>'capture_method' AS capture_method,
+    e.raw_payload->>'payment_method' AS payment_method,
+    e.raw_payload->>'cancellation_reason' AS cancellation_reason,
+    to_timestamp((e.raw_payload->>'canceled_at')::bigint) AS canceled_at,
+    e.raw_payload->>'description' AS description,
+    e.raw_payload->'metadata' AS metadata,
+    (e.raw_payload->>'livemode')::boolean AS livemode,
+    to_timestamp((e.raw_payload->>'created')::bigint) AS stripe_created_at,
+    e.created_at,
+    e.updated_at,
+    e.archived_at
+FROM supasaasy.entities e
+WHERE e.collection_key = 'stripe_payment_intent'
+  AND e.deleted_at IS NULL;
+
+COMMENT ON VIEW supasaasy.stripe_payment_intents IS 'Convenience view for Stripe payment intents with commonly used fields extracted from raw_payload';
+
+-- ============================================================================
+-- Refunds View
+-- ============================================================================
+
+CREATE OR REPLACE VIEW supasaasy.stripe_refunds
+WITH (security_invoker = true) AS
+SELECT
+    e.id,
+    e.external_id,
+    e.app_key,
+    e.raw_payload->>'charge' AS charge_id,
+    e.raw_payload->>'payment_intent' AS payment_intent_id,
+    (e.raw_payload->>'amount')::bigint AS amount,
+    e.raw_payload->>'currency' AS currency,
+    e.raw_payload->>'status' AS status,
+    e.raw_payload->>'reason' AS reason,
+    e.raw_payload->>'failure_reason' AS failure_reason,
+    e.raw_payload->>'receipt_number' AS receipt_number,
+    e.raw_payload->>'balance_transaction' AS balance_transaction_id,
+    e.raw_payload->'metadata' AS metadata,
+    to_timestamp((e.raw_payload->>'created')::bigint) AS stripe_created_at,
+    e.created_at,
+    e.updated_at
+FROM supasaasy.entities e
+WHERE e.collection_key = 'stripe_refund'
+  AND e.deleted_at IS NULL;
+
+COMMENT ON VIEW supasaasy.stripe_refunds IS 'Convenience view for Stripe refunds with commonly used fields extracted from raw_payload';
+
+-- ============================================================================
+-- Indexes for View Performance
+-- ============================================================================
+
+-- Index for customer ID lookups on invoices
+CREATE INDEX IF NOT EXISTS idx_entities_stripe_invoice_customer
+ON supasaasy.entities ((raw_payload->>'customer'))
+WHERE collection_key = 'stripe_invoice' AND deleted_at IS NULL;
+
+-- Index for invoice status filtering
+CREATE INDEX IF NOT EXISTS idx_entities_stripe_invoice_status
+ON supasaasy.entities ((raw_payload->>'status'))
+WHERE collection_key = 'stripe_invoice' AND deleted_at IS NULL;
+
+-- Index for invoice ID lookups on invoice line items
+CREATE INDEX IF NOT EXISTS idx_entities_stripe_invoice_line_item_invoice
+ON supasaasy.entities ((raw_payload->>'invoice'))
+WHERE collection_key = 'stripe_invoice_line_item' AND deleted_at IS NULL;
+
+-- Index for customer ID lookups on charges
+CREATE INDEX IF NOT EXISTS idx_entities_stripe_charge_customer
+ON supasaasy.entities ((raw_payload->>'customer'))
+WHERE collection_key = 'stripe_charge' AND deleted_at IS NULL;
+
+-- Index for customer ID lookups on payment intents
+CREATE INDEX IF NOT EXISTS idx_entities_stripe_payment_intent_customer
+ON supasaasy.entities ((raw_payload->>'customer'))
+WHERE collection_key = 'stripe_payment_intent' AND deleted_at IS NULL;
+
+-- Index for charge ID lookups on refunds
+CREATE INDEX IF NOT EXISTS idx_entities_stripe_refund_charge
+ON supasaasy.entities ((raw_payload->>'charge'))
+WHERE collection_key = 'stripe_refund' AND deleted_at IS NULL;
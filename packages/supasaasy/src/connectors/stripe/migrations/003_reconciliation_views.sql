@@ -0,0 +1,172 @@
+-- ============================================================================
+-- Stripe Connector Migrations - Reconciliation
+-- ============================================================================
+-- Convenience views for reconciling Stripe payouts: disputes, payouts, the
+-- balance transactions paid out in each payout, and the charges and refunds
+-- behind those balance transactions.
+--
+-- All statements must be idempotent (CREATE OR REPLACE, IF NOT EXISTS, etc.)
+-- to support re-running the assembly process safely.
+-- ============================================================================
+
+-- ============================================================================
+-- Disputes View
+-- ============================================================================
+
+CREATE OR REPLACE VIEW supasaasy.stripe_disputes
+WITH (security_invoker = true) AS
+SELECT
+    e.id,
+    e.external_id,
+    e.app_key,
+    e.raw_payload->>'charge' AS charge_id,
+    e.raw_payload->>'payment_intent' AS payment_intent_id,
+    (e.raw_payload->>'amount')::bigint AS amount,
+    e.raw_payload->>'currency' AS currency,
+    e.raw_payload->>'status' AS status,
+    e.raw_payload->>'reason' AS reason,
+    (e.raw_payload->>'is_charge_refundable')::boolean AS is_charge_refundable,
+    to_timestamp((e.raw_payload->'evidence_details'->>'due_by')::bigint) AS evidence_due_by,
+    e.raw_payload->'metadata' AS metadata,
+    (e.raw_payload->>'livemode')::boolean AS livemode,
+    to_timestamp((e.raw_payload->>'created')::bigint) AS stripe_created_at,
+    e.created_at,
+    e.updated_at
+FROM supasaasy.entities e
+WHERE e.collection_key = 'stripe_dispute'
+  AND e.deleted_at IS NULL;
+
+COMMENT ON VIEW supasaasy.stripe_disputes IS 'Convenience view for Stripe disputes with commonly used fields extracted from raw_payload';
+
+-- ============================================================================
+-- Payouts View
+-- ============================================================================
+
+CREATE OR REPLACE VIEW supasaasy.stripe_payouts
+WITH (security_invoker = true) AS
+SELECT
+    e.id,
+    e.external_id,
+    e.app_key,
+    (e.raw_payload->>'amount')::bigint AS amount,
+    e.raw_payload->>'currency' AS currency,
+    e.raw_payload->>'status' AS status,
+    e.raw_payload->>'type' AS payout_type,
+    e.raw_payload->>'method' AS method,
+    (e.raw_payload->>'automatic')::boolean AS automatic,
+    e.raw_payload->>'reconciliation_status' AS reconciliation_status,
+    to_timestamp((e.raw_payload->>'arrival_date')::bigint) AS arrival_date,
+    e.raw_payload->>'destination' AS destination,
+    e.raw_payload->>'balance_transaction' AS balance_transaction_id,
+    e.raw_payload->>'statement_descriptor' AS statement_descriptor,
+    e.raw_payload->>'failure_code' AS failure_code,
+    e.raw_payload->>'failure_message' AS failure_message,
+    e.raw_payload->>'description' AS description,
+    e.raw_payload->'metadata' AS metadata,
+    (e.raw_payload->>'livemode')::boolean AS livemode,
+    to_timestamp((e.raw_payload->>'created')::bigint) AS stripe_created_at,
+    e.created_at,
+    e.updated_at,
+    e.archived_at
+FROM supasaasy.entities e
+WHERE e.collection_key = 'stripe_payout'
+  AND e.deleted_at IS NULL;
+
+COMMENT ON VIEW supasaasy.stripe_payouts IS 'Convenience view for Stripe payouts with commonly used fields extracted from raw_payload';
+
+-- ============================================================================
+-- Balance Transactions View
+-- ============================================================================
+
+CREATE OR REPLACE VIEW supasaasy.stripe_balance_transactions
+WITH (security_invoker = true) AS
+SELECT
+    e.id,
+    e.external_id,
+    e.app_key,
+    e.raw_payload->>'payout' AS payout_id,
+    e.raw_payload->>'source' AS source_id,
+    e.raw_payload->>'type' AS transaction_type,
+    e.raw_payload->>'reporting_category' AS reporting_category,
+    (e.raw_payload->>'amount')::bigint AS amount,
+    (e.raw_payload->>'fee')::bigint AS fee,
+    (e.raw_payload->>'net')::bigint AS net,
+    e.raw_payload->>'currency' AS currency,
+    (e.raw_payload->>'exchange_rate')::numeric AS exchange_rate,
+    e.raw_payload->>'status' AS status,
+    to_timestamp((e.raw_payload->>'available_on')::bigint) AS available_on,
+    e.raw_payload->>'description' AS description,
+    to_timestamp((e.raw_payload->>'created')::bigint) AS stripe_created_at,
+    e.created_at,
+    e.updated_at
+FROM supasaasy.entities e
+WHERE e.collection_key = 'stripe_balance_transaction'
+  AND e.deleted_at IS NULL;
+
+COMMENT ON VIEW supasaasy.stripe_balance_transactions IS 'Convenience view for Stripe balance transactions with commonly used fields extracted from raw_payload';
+
+-- ============================================================================
+-- Payout Reconciliation View
+-- ============================================================================
+
+-- Each balance transaction of a payout with the refund or dispute it comes from
+-- and the charge behind it. Charge transactions join their charge directly.
+CREATE OR REPLACE VIEW supasaasy.stripe_payout_reconciliation
+WITH (security_invoker = true) AS
+SELECT
+    bt.app_key,
+    bt.payout_id,
+    p.arrival_date AS payout_arrival_date,
+    p.status AS payout_status,
+    bt.external_id AS balance_transaction_id,
+    bt.transaction_type,
+    bt.reporting_category,
+    bt.amount,
+    bt.fee,
+    bt.net,
+    bt.currency,
+    bt.source_id,
+    c.external_id AS charge_id,
+    r.external_id AS refund_id,
+    d.external_id AS dispute_id,
+    c.customer_id,
+    c.payment_intent_id,
+    c.invoice_id,
+    bt.description,
+    bt.stripe_created_at
+FROM supasaasy.stripe_balance_transactions bt
+LEFT JOIN supasaasy.stripe_payouts p
+    ON p.app_key = bt.app_key AND p.external_id = bt.payout_id
+LEFT JOIN supasaasy.stripe_refunds r
+    ON r.app_key = bt.app_key AND r.external_id = bt.source_id
+LEFT JOIN supasaasy.stripe_disputes d
+    ON d.app_key = bt.app_key AND d.external_id = bt.source_id
+LEFT JOIN supasaasy.stripe_charges c
+    ON c.app_key = bt.app_key
+    AND c.external_id = COALESCE(r.charge_id, d.charge_id, bt.source_id);
+
+COMMENT ON VIEW supasaasy.stripe_payout_reconciliation IS 'Balance transactions of Stripe payouts joined to their source charges, refunds and disputes';
+
+-- ============================================================================
+-- Indexes for View Performance
+-- ============================================================================
+
+-- Index for charge ID lookups on disputes
+CREATE INDEX IF NOT EXISTS idx_entities_stripe_dispute_charge
+ON supasaasy.entities ((raw_payload->>'charge'))
+WHERE collection_key = 'stripe_dispute' AND deleted_at IS NULL;
+
+-- Index for payout status filtering
+CREATE INDEX IF NOT EXISTS idx_entities_stripe_payout_status
+ON supasaasy.entities ((raw_payload->>'status'))
+WHERE collection_key = 'stripe_payout' AND deleted_at IS NULL;
+
+-- Index for payout ID lookups on balance transactions
+CREATE INDEX IF NOT EXISTS idx_entities_stripe_balance_transaction_payout
+ON supasaasy.entities ((raw_payload->>'payout'))
+WHERE collection_key = 'stripe_balance_transaction' AND deleted_at IS NULL;
+
+-- Index for source ID lookups on balance transactions
+CREATE INDEX IF NOT EXISTS idx_entities_stripe_balance_transaction_source
+ON supasaasy.entities ((raw_payload->>'source'))
+WHERE collection_key = 'stripe_balance_transaction' AND deleted_at IS NULL;
@@ -0,0 +1,187 @@
+-- ============================================================================
+-- Stripe Connector Migrations - Discounts
+-- ============================================================================
+-- Convenience views for Stripe coupons, promotion codes and tax rates, and for
+-- the discounts applied to subscriptions and customers.
+--
+-- All statements must be idempotent (CREATE OR REPLACE, IF NOT EXISTS, etc.)
+-- to support re-running the assembly process safely.
+-- ============================================================================
+
+-- ============================================================================
+-- Coupons View
+-- ============================================================================
+
+CREATE OR REPLACE VIEW supasaasy.stripe_coupons
+WITH (security_invoker = true) AS
+SELECT
+    e.id,
+    e.external_id,
+    e.app_key,
+    e.raw_payload->>'name' AS name,
+    (e.raw_payload->>'percent_off')::numeric AS percent_off,
+    (e.raw_payload->>'amount_off')::bigint AS amount_off,
+    e.raw_payload->>'currency' AS currency,
+    e.raw_payload->>'duration' AS duration,
+    (e.raw_payload->>'duration_in_months')::int AS duration_in_months,
+    (e.raw_payload->>'max_redemptions')::int AS max_redemptions,
+    (e.raw_payload->>'times_redeemed')::int AS times_redeemed,
+    to_timestamp((e.raw_payload->>'redeem_by')::bigint) AS redeem_by,
+    (e.raw_payload->>'valid')::boolean AS valid,
+    e.raw_payload->'metadata' AS metadata,
+    (e.raw_payload->>'livemode')::boolean AS livemode,
+    to_timestamp((e.raw_payload->>'created')::bigint) AS stripe_created_at,
+    e.created_at,
+    e.updated_at
+FROM supasaasy.entities e
+WHERE e.collection_key = 'stripe_coupon'
+  AND e.deleted_at IS NULL;
+
+COMMENT ON VIEW supasaasy.stripe_coupons IS 'Convenience view for Stripe coupons with commonly used fields extracted from raw_payload';
+
+-- ============================================================================
+-- Promotion Codes View
+-- ============================================================================
+
+CREATE OR REPLACE VIEW supasaasy.stripe_promotion_codes
+WITH (security_invoker = true) AS
+SELECT
+    e.id,
+    e.external_id,
+    e.app_key,
+    e.raw_payload->>'code' AS code,
+    e.raw_payload->'coupon'->>'id' AS coupon_id,
+    e.raw_payload->>'customer' AS customer_id,
+    (e.raw_payload->>'active')::boolean AS active,
+    (e.raw_payload->>'max_redemptions')::int AS max_redemptions,
+    (e.raw_payload->>'times_redeemed')::int AS times_redeemed,
+    to_timestamp((e.raw_payload->>'expires_at')::bigint) AS expires_at,
+    (e.raw_payload->'restrictions'->>'first_time_transaction')::boolean AS first_time_transaction,
+    (e.raw_payload->'restrictions'->>'minimum_amount')::bigint AS minimum_amount,
+    e.raw_payload->'metadata' AS metadata,
+    (e.raw_payload->>'livemode')::boolean AS livemode,
+    to_timestamp((e.raw_payload->>'created')::bigint) AS stripe_created_at,
+    e.created_at,
+    e.updated_at,
+    e.archived_at
+FROM supasaasy.entities e
+WHERE e.collection_key = 'stripe_promotion_code'
+  AND e.deleted_at IS NULL;
+
+COMMENT ON VIEW supasaasy.stripe_promotion_codes IS 'Convenience view for Stripe promotion codes with commonly used fields extracted from raw_payload';
+
+-- ============================================================================
+-- Tax Rates View
+-- ============================================================================
+
+CREATE OR REPLACE VIEW supasaasy.stripe_tax_rates
+WITH (security_invoker = true) AS
+SELECT
+    e.id,
+    e.external_id,
+    e.app_key,
+    e.raw_payload->>'display_name' AS display_name,
+    e.raw_payload->>'description' AS description,
+    (e.raw_payload->>'percentage')::numeric AS percentage,
+    (e.raw_payload->>'inclusive')::boolean AS inclusive,
+    e.raw_payload->>'tax_type' AS tax_type,
+    e.raw_payload->>'country' AS country,
+    e.raw_payload->>'state' AS state,
+    e.raw_payload->>'jurisdiction' AS jurisdiction,
+    (e.raw_payload->>'active')::boolean AS active,
+    e.raw_payload->'metadata' AS metadata,
+    (e.raw_payload->>'livemode')::boolean AS livemode,
+    to_timestamp((e.raw_payload->>'created')::bigint) AS stripe_created_at,
+    e.created_at,
+    e.updated_at,
+    e.archived_at
+FROM supasaasy.entities e
+WHERE e.collection_key = 'stripe_tax_rate'
+  AND e.deleted_at IS NULL;
+
+COMMENT ON VIEW supasaasy.stripe_tax_rates IS 'Convenience view for Stripe tax rates with commonly used fields extracted from raw_payload';
+
+-- ============================================================================
+-- Subscription Discounts View
+-- ============================================================================
+
+-- Subscriptions with a discount applied, joined to the synced coupon and
+-- promotion code. The coupon fields fall back to the copy embedded in the
+-- discount when the coupon itself isn't synced (or has been deleted).
+CREATE OR REPLACE VIEW supasaasy.stripe_subscription_discounts
+WITH (security_invoker = true) AS
+SELECT
+    s.app_key,
+    s.external_id AS subscription_id,
+    s.raw_payload->>'customer' AS customer_id,
+    s.raw_payload->>'status' AS subscription_status,
+    s.raw_payload->'discount'->>'id' AS discount_id,
+    s.raw_payload->'discount'->'coupon'->>'id' AS coupon_id,
+    COALESCE(c.name, s.raw_payload->'discount'->'coupon'->>'name') AS coupon_name,
+    COALESCE(c.percent_off, (s.raw_payload->'discount'->'coupon'->>'percent_off')::numeric) AS percent_off,
+    COALESCE(c.amount_off, (s.raw_payload->'discount'->'coupon'->>'amount_off')::bigint) AS amount_off,
+    COALESCE(c.duration, s.raw_payload->'discount'->'coupon'->>'duration') AS duration,
+    s.raw_payload->'discount'->>'promotion_code' AS promotion_code_id,
+    pc.code AS promotion_code,
+    to_timestamp((s.raw_payload->'discount'->>'start')::bigint) AS discount_start,
+    to_timestamp((s.raw_payload->'discount'->>'end')::bigint) AS discount_end
+FROM supasaasy.entities s
+LEFT JOIN supasaasy.stripe_coupons c
+    ON c.app_key = s.app_key
+    AND c.external_id = s.raw_payload->'discount'->'coupon'->>'id'
+LEFT JOIN supasaasy.stripe_promotion_codes pc
+    ON pc.app_key = s.app_key
+    AND pc.external_id = s.raw_payload->'discount'->>'promotion_code'
+WHERE s.collection_key = 'stripe_subscription'
+  AND s.deleted_at IS NULL
+  AND jsonb_typeof(s.raw_payload->'discount') = 'object';
+
+COMMENT ON VIEW supasaasy.stripe_subscription_discounts IS 'Stripe subscriptions with an applied discount, joined to their coupon and promotion code';
+
+-- ============================================================================
+-- Customer Discounts View
+-- ============================================================================
+
+-- Customers with a discount applied, joined to the synced coupon and promotion code
+CREATE OR REPLACE VIEW supasaasy.stripe_customer_discounts
+WITH (security_invoker = true) AS
+SELECT
+    cu.app_key,
+    cu.external_id AS customer_id,
+    cu.raw_payload->>'email' AS customer_email,
+    cu.raw_payload->'discount'->>'id' AS discount_id,
+    cu.raw_payload->'discount'->'coupon'->>'id' AS coupon_id,
+    COALESCE(c.name, cu.raw_payload->'discount'->'coupon'->>'name') AS coupon_name,
+    COALESCE(c.percent_off, (cu.raw_payload->'discount'->'coupon'->>'percent_off')::numeric) AS percent_off,
+    COALESCE(c.amount_off, (cu.raw_payload->'discount'->'coupon'->>'amount_off')::bigint) AS amount_off,
+    COALESCE(c.duration, cu.raw_payload->'discount'->'coupon'->>'duration') AS duration,
+    cu.raw_payload->'discount'->>'promotion_code' AS promotion_code_id,
+    pc.code AS promotion_code,
+    to_timestamp((cu.raw_payload->'discount'->>'start')::bigint) AS discount_start,
+    to_timestamp((cu.raw_payload->'discount'->>'end')::bigint) AS discount_end
+FROM supasaasy.entities cu
+LEFT JOIN supasaasy.stripe_coupons c
+    ON c.app_key = cu.app_key
+    AND c.external_id = cu.raw_payload->'discount'->'coupon'->>'id'
+LEFT JOIN supasaasy.stripe_promotion_codes pc
+    ON pc.app_key = cu.app_key
+    AND pc.external_id = cu.raw_payload->'discount'->>'promotion_code'
+WHERE cu.collection_key = 'stripe_customer'
+  AND cu.deleted_at IS NULL
+  AND jsonb_typeof(cu.raw_payload->'discount') = 'object';
+
+COMMENT ON VIEW supasaasy.stripe_customer_discounts IS 'Stripe customers with an applied discount, joined to their coupon and promotion code';
+
+-- ============================================================================
+-- Indexes for View Performance
+-- ============================================================================
+
+-- Index for coupon ID lookups on promotion codes
+CREATE INDEX IF NOT EXISTS idx_entities_stripe_promotion_code_coupon
+ON supasaasy.entities ((raw_payload->'coupon'->>'id'))
+WHERE collection_key = 'stripe_promotion_code' AND deleted_at IS NULL;
+
+-- Index for coupon ID lookups on discounted subscriptions
+CREATE INDEX IF NOT EXISTS idx_entities_stripe_subscription_coupon
+ON supasaasy.entities ((raw_payload->'discount'->'coupon'->>'id'))
+WHERE collection_key = 'stripe_subscription' AND deleted_at IS NULL;
@@ -0,0 +1,50 @@
+-- ============================================================================
+-- Stripe Connector Migrations - Connect
+-- ============================================================================
+-- Convenience view for the connected accounts of a Stripe Connect platform.
+-- Entities synced for a connected account record its ID in
+-- raw_payload->>'stripe_account'; the platform's own entities don't have it.
+--
+-- All statements must be idempotent (CREATE OR REPLACE, IF NOT EXISTS, etc.)
+-- to support re-running the assembly process safely.
+-- ============================================================================
+
+-- ============================================================================
+-- Connected Accounts View
+-- ============================================================================
+
+CREATE OR REPLACE VIEW supasaasy.stripe_accounts
+WITH (security_invoker = true) AS
+SELECT
+    e.id,
+    e.external_id,
+    e.app_key,
+    e.raw_payload->>'type' AS account_type,
+    e.raw_payload->>'email' AS email,
+    e.raw_payload->>'country' AS country,
+    e.raw_payload->>'default_currency' AS default_currency,
+    e.raw_payload->>'business_type' AS business_type,
+    e.raw_payload->'business_profile'->>'name' AS business_name,
+    e.raw_payload->'business_profile'->>'url' AS business_url,
+    (e.raw_payload->>'charges_enabled')::boolean AS charges_enabled,
+    (e.raw_payload->>'payouts_enabled')::boolean AS payouts_enabled,
+    (e.raw_payload->>'details_submitted')::boolean AS details_submitted,
+    e.raw_payload->'requirements'->>'disabled_reason' AS disabled_reason,
+    e.raw_payload->'metadata' AS metadata,
+    to_timestamp((e.raw_payload->>'created')::bigint) AS stripe_created_at,
+    e.created_at,
+    e.updated_at
+FROM supasaasy.entities e
+WHERE e.collection_key = 'stripe_account'
+  AND e.deleted_at IS NULL;
+
+COMMENT ON VIEW supasaasy.stripe_accounts IS 'Convenience view for Stripe Connect connected accounts with commonly used fields extracted from raw_payload';
+
+-- ============================================================================
+-- Indexes for View Performance
+-- ============================================================================
+
+-- Index for connected account lookups on the entities synced for each account
+CREATE INDEX IF NOT EXISTS idx_entities_stripe_connected_account
+ON supasaasy.entities (app_key, collection_key, (raw_payload->>'stripe_account'))
+WHERE raw_payload ? 'stripe_account';
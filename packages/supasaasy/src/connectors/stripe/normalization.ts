@@ -6,7 +6,7 @@
 
 import type { AppConfig, NormalizedEntity } from '../../types/index.ts';
 import { createNormalizedEntity } from '../utils.ts';
-import { DEFAULT_API_VERSION } from './client.ts';
+import { DEFAULT_API_VERSION, getStripeAccount } from './client.ts';
 import { STRIPE_COLLECTION_KEYS, type StripeResourceType } from './types.ts';
 
 // =============================================================================
@@ -14,7 +14,9 @@ import { STRIPE_COLLECTION_KEYS, type StripeResourceType } from './types.ts';
 // =============================================================================
 
 /**
- * Detect archived state for a Stripe object based on resource type
+ * Detect archived state for a Stripe object based on resource type.
+ * Objects that don't record when they were archived are archived at the current
+ * time; upserts keep the archived_at of an entity that was already archived.
  */
 export function detectArchivedAt(
   resourceType: StripeResourceType,
@@ -22,13 +24,16 @@ export function detectArchivedAt(
 ): Date | undefined {
   switch (resourceType) {
     case 'customer':
-      // Customers with deleted: true should be physically deleted, not archived
+    case 'coupon':
+      // Customers and coupons with deleted: true should be physically deleted, not archived
       return undefined;
 
     case 'product':
     case 'price':
     case 'plan':
-      // Products, prices, and plans use active: false for soft delete
+    case 'promotion_code':
+    case 'tax_rate':
+      // Products, prices, plans, promotion codes, and tax rates use active: false for soft delete
       if (data.active === false) {
         return new Date();
       }
@@ -46,7 +51,43 @@ export function detectArchivedAt(
       }
       return undefined;
 
+    case 'invoice':
+      // Voided invoices can't be paid or changed any more
+      if (data.status === 'void') {
+        const voidedAt = (data.status_transitions as { voided_at?: unknown } | undefined)
+          ?.voided_at;
+        if (typeof voidedAt === 'number') {
+          return new Date(voidedAt * 1000);
+        }
+        return new Date();
+      }
+      return undefined;
+
+    case 'payment_intent':
+      // Canceled payment intents can't be confirmed any more
+      if (data.status === 'canceled') {
+        const canceledAt = data.canceled_at;
+        if (typeof canceledAt === 'number') {
+          return new Date(canceledAt * 1000);
+        }
+        return new Date();
+      }
+      return undefined;
+
+    case 'payout':
+      // Canceled payouts are never paid out; the payout has no cancellation time
+      if (data.status === 'canceled') {
+        return new Date();
+      }
+      return undefined;
+
     case 'subscription_item':
+    case 'invoice_line_item':
+    case 'charge':
+    case 'refund':
+    case 'dispute':
+    case 'balance_transaction':
+    case 'account':
       return undefined;
 
     default:
@@ -59,7 +100,9 @@ export function detectArchivedAt(
 // =============================================================================
 
 /**
- * Normalize a Stripe object to the canonical entity format
+ * Normalize a Stripe object to the canonical entity format.
+ * When the app config is scoped to a connected account, its ID is recorded in
+ * `raw_payload.stripe_account` (except on the account itself).
  */
 export function normalizeStripeEntity(
   resourceType: StripeResourceType,
@@ -69,12 +112,15 @@ export function normalizeStripeEntity(
   const externalId = data.id as string;
   const collectionKey = STRIPE_COLLECTION_KEYS[resourceType];
   const archivedAt = detectArchivedAt(resourceType, data);
+  const stripeAccount = getStripeAccount(appConfig);
 
   return createNormalizedEntity({
     externalId,
     appKey: appConfig.app_key,
     collectionKey,
-    rawPayload: data,
+    rawPayload: stripeAccount && resourceType !== 'account'
+      ? { ...data, stripe_account: stripeAccount }
+      : data,
     apiVersion: DEFAULT_API_VERSION,
     archivedAt,
   });
@@ -0,0 +1,281 @@
+/**
+ * Stripe Events Sync
+ *
+ * Incremental sync driven by the Stripe Events API. Events created since the last
+ * sync are mapped through STRIPE_WEBHOOK_EVENTS and applied with the same parsing
+ * and extraction the webhook handler uses, so updates and deletions are picked up
+ * and missed webhooks are recovered.
+ */
+
+import type Stripe from 'stripe';
+import type {
+  AppConfig,
+  NormalizedEntity,
+  ParsedWebhookEvent,
+  SyncOptions,
+  SyncResult,
+} from '../../../types/index.ts';
+import { deleteEntity, upsertEntities, type UpsertEntityData } from '../../../db/index.ts';
+import {
+  type EntityHookSource,
+  runAfterUpsertHooks,
+  runBeforeDeleteHooks,
+  runBeforeUpsertHooks,
+  selectWrittenEntities,
+} from '../../../lifecycle/index.ts';
+import {
+  addUpsertCounts,
+  countProcessed,
+  createTimer,
+  emptySyncResult,
+  eventEntityToUpsertData,
+  failedSyncResult,
+  setRetryInfo,
+} from '../../utils.ts';
+import { DEFAULT_PAGE_SIZE, logger, toConnectorError } from '../client.ts';
+import { extractEntities, parseWebhookEvent } from '../webhooks.ts';
+import {
+  STRIPE_COLLECTION_KEYS,
+  STRIPE_WEBHOOK_EVENTS,
+  type StripeResourceType,
+  type StripeWebhookEventType,
+} from '../types.ts';
+
+/** Stripe only returns events from the last 30 days */
+export const STRIPE_EVENT_RETENTION_DAYS = 30;
+
+/**
+ * Seconds before the last sync from which events are listed again, so events created
+ * in the same second as the last sync (or listed late) aren't missed. Events applied
+ * twice are skipped as unchanged.
+ */
+export const EVENT_OVERLAP_SECONDS = 60;
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Get the event types in STRIPE_WEBHOOK_EVENTS for a resource type
+ */
+export function getStripeEventTypes(resourceType: StripeResourceType): StripeWebhookEventType[] {
+  return (Object.keys(STRIPE_WEBHOOK_EVENTS) as StripeWebhookEventType[]).filter(
+    (eventType) => STRIPE_WEBHOOK_EVENTS[eventType].resourceType === resourceType,
+  );
+}
+
+/**
+ * Check whether the events since a time are still available from Stripe
+ */
+export function isWithinEventRetention(since: Date): boolean {
+  const retentionMs = STRIPE_EVENT_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  return since.getTime() > Date.now() - retentionMs;
+}
+
+// =============================================================================
+// Events Sync
+// =============================================================================
+
+/**
+ * List every event since `createdGte`, oldest first. Stripe lists events newest
+ * first, so all pages are read before any event is applied.
+ */
+async function listEventsOldestFirst(
+  stripe: Stripe,
+  eventTypes: StripeWebhookEventType[],
+  createdGte: number,
+  pageSize: number,
+): Promise<Stripe.Event[]> {
+  const events: Stripe.Event[] = [];
+  let startingAfter: string | undefined;
+  let hasMore = true;
+
+  while (hasMore) {
+    const page = await stripe.events.list({
+      limit: pageSize,
+      types: eventTypes,
+      created: { gte: createdGte },
+      ...(startingAfter && { starting_after: startingAfter }),
+    });
+    events.push(...page.data);
+    hasMore = page.has_more && page.data.length > 0;
+    startingAfter = page.data[page.data.length - 1]?.id;
+  }
+
+  return events.reverse();
+}
+
+/**
+ * Sync a resource type by applying the Stripe events created since `options.since`
+ * (less EVENT_OVERLAP_SECONDS). Entities are written the way the webhook handler
+ * writes them.
+ *
+ * Events are applied oldest first, a page at a time, so an older update can't bring
+ * back an object deleted later, even when a resumed sync applies a page again. Within
+ * a page only the latest event for each entity is applied (discount events count
+ * towards the customer or subscription discounted). The checkpointed cursor is the
+ * newest applied event; a resumed sync pages through the events after it with
+ * `ending_before`. A page that fails to write fails the sync before its cursor is
+ * checkpointed, so its events are applied again on retry. Objects created before
+ * sync_from are skipped.
+ */
+export async function syncEvents(
+  stripe: Stripe,
+  appConfig: AppConfig,
+  resourceType: StripeResourceType,
+  options: SyncOptions,
+  syncFromTimestamp?: number,
+): Promise<SyncResult> {
+  const eventTypes = getStripeEventTypes(resourceType);
+  if (eventTypes.length === 0 || !options.since) {
+    return failedSyncResult(`Resource type ${resourceType} can't be synced from events`);
+  }
+
+  const result = emptySyncResult();
+  const timer = createTimer();
+  const hookSource: EntityHookSource = { source: 'sync', changeSource: options.changeSource };
+  let cursor = options.cursor;
+  const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
+  const createdGte = Math.floor(options.since.getTime() / 1000) - EVENT_OVERLAP_SECONDS;
+  let appliedCount = 0;
+
+  try {
+    // Without a cursor, the events since createdGte are listed up front
+    const backlog = cursor
+      ? undefined
+      : await listEventsOldestFirst(stripe, eventTypes, createdGte, pageSize);
+
+    let hasMore = true;
+    while (hasMore) {
+      // Stop before applying the next page if the sync was cancelled
+      if (options.isCancelled && (await options.isCancelled())) {
+        result.cancelled = true;
+        break;
+      }
+
+      let events: Stripe.Event[];
+      if (backlog) {
+        events = backlog.splice(0, pageSize);
+        hasMore = backlog.length > 0;
+      } else {
+        // ending_before returns the page of events just after the cursor, newest first
+        const page = await stripe.events.list({
+          limit: pageSize,
+          types: eventTypes,
+          ending_before: cursor,
+        });
+        events = [...page.data].reverse();
+        hasMore = page.has_more;
+      }
+
+      if (events.length === 0) {
+        break;
+      }
+
+      // Keep the latest event for each entity in the page
+      const latestEvents = new Map<string, ParsedWebhookEvent>();
+      for (const event of events) {
+        const object = event.data.object as { id?: string; created?: number };
+        if (!object.id) continue;
+
+        if (
+          syncFromTimestamp && typeof object.created === 'number' &&
+          object.created < syncFromTimestamp
+        ) {
+          continue;
+        }
+
+        const parsed = await parseWebhookEvent(event, appConfig);
+        const key = `${parsed.resourceType}:${parsed.externalId}`;
+        latestEvents.delete(key);
+        latestEvents.set(key, parsed);
+      }
+
+      const entities: NormalizedEntity[] = [];
+      const upsertData: UpsertEntityData[] = [];
+      const deletedIds: string[] = [];
+
+      for (const parsed of latestEvents.values()) {
+        if (parsed.eventType === 'delete') {
+          deletedIds.push(parsed.externalId);
+          continue;
+        }
+
+        const extracted = await runBeforeUpsertHooks(
+          await extractEntities(parsed, appConfig),
+          hookSource,
+        );
+        for (const entity of extracted) {
+          entities.push(entity);
+          upsertData.push(eventEntityToUpsertData(entity, parsed));
+        }
+      }
+
+      const writeErrors: string[] = [];
+
+      if (upsertData.length > 0) {
+        const { data, created, updated, unchanged, error } = await upsertEntities(
+          upsertData,
+          options.changeSource,
+        );
+        if (error) {
+          writeErrors.push(error.message);
+        } else {
+          addUpsertCounts(result, { created, updated, unchanged });
+          await runAfterUpsertHooks(selectWrittenEntities(entities, data), hookSource);
+        }
+      }
+
+      for (const externalId of deletedIds) {
+        const target = {
+          appKey: appConfig.app_key,
+          collectionKey: STRIPE_COLLECTION_KEYS[resourceType],
+          externalId,
+        };
+        if (!(await runBeforeDeleteHooks(target, hookSource))) continue;
+
+        const { count, error } = await deleteEntity(
+          target.appKey,
+          target.collectionKey,
+          externalId,
+        );
+        if (error) {
+          writeErrors.push(error.message);
+        } else {
+          result.deleted += count;
+        }
+      }
+
+      // Fail without checkpointing, so the page is applied again when the task is retried
+      if (writeErrors.length > 0) {
+        result.success = false;
+        result.errors += writeErrors.length;
+        result.errorMessages = writeErrors;
+        result.retryable = true;
+        break;
+      }
+
+      appliedCount += latestEvents.size;
+      cursor = events[events.length - 1].id;
+      // Checkpoint the applied page so an interrupted sync resumes after it
+      if (hasMore && options.onCursor) {
+        await options.onCursor(cursor, countProcessed(result));
+      }
+
+      if (options.limit && appliedCount >= options.limit) {
+        break;
+      }
+    }
+
+    logger.info('sync', `Applied events for ${appliedCount} ${resourceType} object(s)`);
+    result.durationMs = timer.elapsed();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    result.success = false;
+    result.errors++;
+    result.errorMessages = [message];
+    setRetryInfo(result, toConnectorError(error));
+  }
+
+  return result;
+}
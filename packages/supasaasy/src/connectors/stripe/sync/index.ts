@@ -4,37 +4,271 @@
  * Orchestrates full and incremental sync operations across all resource types.
  */
 
+import type Stripe from 'stripe';
 import type { AppConfig, SyncOptions, SyncResult } from '../../../types/index.ts';
-import { getEntityExternalIds, getEntityExternalIdsCreatedAfter } from '../../../db/index.ts';
-import { createTimer, failedSyncResult, mergeSyncResults } from '../../utils.ts';
+import {
+  getEntityExternalIds,
+  getEntityExternalIdsByPayloadField,
+  getEntityExternalIdsCreatedAfter,
+} from '../../../db/index.ts';
+import { countProcessed, createTimer, failedSyncResult, mergeSyncResults } from '../../utils.ts';
 import {
   createStripeClient,
   getResourceTypesToSync,
+  getStripeAccount,
+  getStripeConfig,
   getSyncFromTimestamp,
+  isConnectScoped,
   logger,
+  shouldSyncConnectedAccounts,
+  withStripeAccount,
 } from '../client.ts';
 import { STRIPE_COLLECTION_KEYS, type StripeResourceType } from '../types.ts';
 import {
+  fetchConnectedAccountIds,
+  syncAccounts,
+  syncCharges,
+  syncCoupons,
   syncCustomers,
+  syncDisputes,
+  syncInvoices,
+  syncPaymentIntents,
+  syncPayouts,
   syncPlans,
   syncPrices,
   syncProducts,
+  syncPromotionCodes,
+  syncRefunds,
   syncSubscriptions,
+  syncTaxRates,
 } from './resources.ts';
+import { isWithinEventRetention, STRIPE_EVENT_RETENTION_DAYS, syncEvents } from './events.ts';
+
+/** Prefix of the cursors checkpointed while syncing connected accounts */
+const ACCOUNT_CURSOR_PREFIX = 'connect:';
+
+/** Syncs one scope: the platform (or a standard account), or one connected account */
+type ScopeSync = (
+  stripe: Stripe,
+  appConfig: AppConfig,
+  resourceTypes: string[],
+  options: SyncOptions,
+) => Promise<SyncResult[]>;
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Get existing entity IDs of a collection for deletion detection.
+ * When sync_from is configured, only get IDs of records created after that timestamp.
+ * In Connect mode, only get IDs of the app config's scope: the records of its
+ * connected account, or the platform's own records.
+ */
+async function getExistingIds(
+  appConfig: AppConfig,
+  collectionKey: string,
+  syncFromTimestamp?: number,
+): Promise<Set<string> | undefined> {
+  if (isConnectScoped(appConfig)) {
+    const { data } = await getEntityExternalIdsByPayloadField(
+      appConfig.app_key,
+      collectionKey,
+      'stripe_account',
+      getStripeAccount(appConfig) ?? null,
+      syncFromTimestamp,
+    );
+    return data ?? undefined;
+  }
+
+  const { data } = syncFromTimestamp
+    ? await getEntityExternalIdsCreatedAfter(appConfig.app_key, collectionKey, syncFromTimestamp)
+    : await getEntityExternalIds(appConfig.app_key, collectionKey);
+  return data ?? undefined;
+}
+
+/**
+ * Get the connected accounts whose resources are synced: the configured account IDs,
+ * or else every connected account of the platform
+ */
+async function getConnectedAccountIds(stripe: Stripe, appConfig: AppConfig): Promise<string[]> {
+  const accountIds = getStripeConfig(appConfig).connect?.account_ids;
+  if (accountIds && accountIds.length > 0) {
+    return accountIds;
+  }
+  return await fetchConnectedAccountIds(stripe);
+}
+
+/**
+ * Build the cursor checkpointed while syncing a connected account: the account and
+ * the page cursor within it. Without a page cursor the account starts from the top.
+ */
+function toAccountCursor(accountId: string, cursor?: string): string {
+  return `${ACCOUNT_CURSOR_PREFIX}${accountId}:${cursor ?? ''}`;
+}
+
+/**
+ * Parse a cursor checkpointed while syncing a connected account.
+ * Returns null for a cursor of the platform's own sync.
+ */
+function parseAccountCursor(
+  cursor?: string,
+): { accountId: string; cursor: string | undefined } | null {
+  if (!cursor?.startsWith(ACCOUNT_CURSOR_PREFIX)) {
+    return null;
+  }
+  const rest = cursor.slice(ACCOUNT_CURSOR_PREFIX.length);
+  const separator = rest.indexOf(':');
+  if (separator < 0) {
+    return null;
+  }
+  return { accountId: rest.slice(0, separator), cursor: rest.slice(separator + 1) || undefined };
+}
+
+/**
+ * Sync the platform's scope, then the connected accounts when they're synced.
+ * A sync resuming from a connected account's cursor skips the platform, which
+ * was finished before the accounts were started.
+ */
+async function syncScopes(
+  stripe: Stripe,
+  appConfig: AppConfig,
+  resourceTypes: string[],
+  options: SyncOptions,
+  syncScope: ScopeSync,
+): Promise<SyncResult[]> {
+  const syncAccounts = shouldSyncConnectedAccounts(appConfig);
+  const accountCursor = parseAccountCursor(options.cursor);
+
+  // Connected accounts are no longer synced, so their checkpoint can't be resumed
+  if (accountCursor && !syncAccounts) {
+    logger.warn(
+      'sync',
+      `Connected accounts are no longer synced, dropping the cursor for ${accountCursor.accountId}`,
+    );
+  }
+
+  const results: SyncResult[] = [];
+  if (!accountCursor || !syncAccounts) {
+    const platformOptions = accountCursor ? { ...options, cursor: undefined } : options;
+    results.push(...await syncScope(stripe, appConfig, resourceTypes, platformOptions));
+  }
+
+  if (syncAccounts && !results.some((result) => result.cancelled)) {
+    const processed = results.reduce((total, result) => total + countProcessed(result), 0);
+    results.push(
+      ...await syncConnectedAccounts(
+        stripe,
+        appConfig,
+        resourceTypes,
+        options,
+        syncScope,
+        processed,
+      ),
+    );
+  }
+
+  return results;
+}
+
+/**
+ * Sync the resources of each connected account, in a scope with its own client.
+ * Accounts themselves are only synced from the platform. Accounts are synced in ID
+ * order, and checkpoints record the account and its page cursor, so an interrupted
+ * sync resumes in the account it stopped in, or with the next one if that account
+ * is no longer synced. Processed counts reported with them include the platform's
+ * (processedBefore) and earlier accounts'.
+ */
+async function syncConnectedAccounts(
+  stripe: Stripe,
+  appConfig: AppConfig,
+  resourceTypes: string[],
+  options: SyncOptions,
+  syncScope: ScopeSync,
+  processedBefore = 0,
+): Promise<SyncResult[]> {
+  const accountResourceTypes = resourceTypes.filter((resourceType) => resourceType !== 'account');
+  if (accountResourceTypes.length === 0) {
+    return [];
+  }
+
+  let accountIds: string[];
+  try {
+    accountIds = [...await getConnectedAccountIds(stripe, appConfig)].sort();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return [failedSyncResult(`Failed to list connected accounts: ${message}`)];
+  }
+
+  // Resume from the checkpointed account, or with the next one if it's no longer synced
+  const resumeFrom = parseAccountCursor(options.cursor);
+  let resumeIndex = 0;
+  if (resumeFrom) {
+    resumeIndex = accountIds.findIndex((accountId) => accountId >= resumeFrom.accountId);
+    if (resumeIndex < 0) resumeIndex = accountIds.length;
+
+    if (accountIds[resumeIndex] !== resumeFrom.accountId) {
+      logger.warn(
+        'sync',
+        `Connected account ${resumeFrom.accountId} is no longer synced, dropping its cursor`,
+        { resumeWith: accountIds[resumeIndex] ?? null },
+      );
+    }
+  }
+
+  const results: SyncResult[] = [];
+  let processed = processedBefore;
+
+  for (const [index, accountId] of accountIds.entries()) {
+    if (index < resumeIndex) continue;
+
+    const cursor = accountId === resumeFrom?.accountId ? resumeFrom.cursor : undefined;
+    const onCursor = options.onCursor;
+    if (onCursor && !cursor) {
+      await onCursor(toAccountCursor(accountId), processed);
+    }
+
+    logger.info('sync', `Syncing connected account ${accountId}`);
+    const accountConfig = withStripeAccount(appConfig, accountId);
+    const accountResults = await syncScope(
+      createStripeClient(accountConfig),
+      accountConfig,
+      accountResourceTypes,
+      {
+        ...options,
+        cursor,
+        onCursor: onCursor &&
+          ((pageCursor: string, accountProcessed?: number) =>
+            onCursor(toAccountCursor(accountId, pageCursor), processed + (accountProcessed ?? 0))),
+      },
+    );
+    results.push(...accountResults);
+    processed += accountResults.reduce((total, result) => total + countProcessed(result), 0);
+
+    // Don't start the next account if the sync was cancelled
+    if (accountResults.some((result) => result.cancelled)) {
+      break;
+    }
+  }
+
+  return results;
+}
 
 // =============================================================================
 // Full Sync
 // =============================================================================
 
 /**
- * Perform a full sync of all configured resources
+ * Perform a full sync of all configured resources. In Connect mode with
+ * sync_connected_accounts, the resources of each connected account are synced too.
+ * The Stripe client defaults to one created from the app config.
  */
 export async function fullSync(
   appConfig: AppConfig,
   options: SyncOptions = {},
+  stripe: Stripe = createStripeClient(appConfig),
 ): Promise<SyncResult> {
   const timer = createTimer();
-  const stripe = createStripeClient(appConfig);
   const resourceTypes = options.resourceTypes || getResourceTypesToSync(appConfig);
   const syncFromTimestamp = getSyncFromTimestamp(appConfig);
 
@@ -49,15 +283,34 @@ export async function fullSync(
 
   logger.syncStarted('full', resourceTypes);
 
+  const syncScope: ScopeSync = (scopeStripe, scopeConfig, scopeResourceTypes, scopeOptions) =>
+    syncResources(scopeStripe, scopeConfig, scopeResourceTypes, scopeOptions, syncFromTimestamp);
+
+  const results = await syncScopes(stripe, appConfig, resourceTypes, options, syncScope);
+
+  const merged = mergeSyncResults(results);
+  merged.durationMs = timer.elapsed();
+
+  logger.syncCompleted(merged);
+  return merged;
+}
+
+/**
+ * Fully sync resource types in one scope
+ */
+async function syncResources(
+  stripe: Stripe,
+  appConfig: AppConfig,
+  resourceTypes: string[],
+  options: SyncOptions,
+  syncFromTimestamp?: number,
+): Promise<SyncResult[]> {
   const results: SyncResult[] = [];
 
   for (const resourceType of resourceTypes) {
     // Get existing IDs for deletion detection
-    // When sync_from is configured, only get IDs of records created after that timestamp
     const collectionKey = STRIPE_COLLECTION_KEYS[resourceType as StripeResourceType];
-    const { data: existingIds } = syncFromTimestamp
-      ? await getEntityExternalIdsCreatedAfter(appConfig.app_key, collectionKey, syncFromTimestamp)
-      : await getEntityExternalIds(appConfig.app_key, collectionKey);
+    const existingIds = await getExistingIds(appConfig, collectionKey, syncFromTimestamp);
 
     let syncResult: SyncResult;
 
@@ -67,7 +320,7 @@ export async function fullSync(
           stripe,
           appConfig,
           options,
-          existingIds ?? undefined,
+          existingIds,
           syncFromTimestamp,
         );
         break;
@@ -76,7 +329,7 @@ export async function fullSync(
           stripe,
           appConfig,
           options,
-          existingIds ?? undefined,
+          existingIds,
           syncFromTimestamp,
         );
         break;
@@ -85,7 +338,7 @@ export async function fullSync(
           stripe,
           appConfig,
           options,
-          existingIds ?? undefined,
+          existingIds,
           syncFromTimestamp,
         );
         break;
@@ -94,45 +347,148 @@ export async function fullSync(
           stripe,
           appConfig,
           options,
-          existingIds ?? undefined,
+          existingIds,
           syncFromTimestamp,
         );
         break;
       case 'subscription': {
         // Also get existing subscription item IDs (filtered by sync_from if configured)
         // Note: subscription items don't have their own 'created' field, so we filter by parent subscription
-        const { data: existingItemIds } = syncFromTimestamp
-          ? await getEntityExternalIdsCreatedAfter(
-            appConfig.app_key,
-            STRIPE_COLLECTION_KEYS.subscription_item,
-            syncFromTimestamp,
-          )
-          : await getEntityExternalIds(
-            appConfig.app_key,
-            STRIPE_COLLECTION_KEYS.subscription_item,
-          );
+        const existingItemIds = await getExistingIds(
+          appConfig,
+          STRIPE_COLLECTION_KEYS.subscription_item,
+          syncFromTimestamp,
+        );
         syncResult = await syncSubscriptions(
           stripe,
           appConfig,
           options,
-          existingIds ?? undefined,
-          existingItemIds ?? undefined,
+          existingIds,
+          existingItemIds,
           syncFromTimestamp,
         );
         break;
       }
+      case 'invoice': {
+        // Also get existing invoice line item IDs. Line items have no 'created' field,
+        // so with sync_from none are returned and their deletion detection is skipped.
+        const existingLineItemIds = await getExistingIds(
+          appConfig,
+          STRIPE_COLLECTION_KEYS.invoice_line_item,
+          syncFromTimestamp,
+        );
+        syncResult = await syncInvoices(
+          stripe,
+          appConfig,
+          options,
+          existingIds,
+          existingLineItemIds,
+          syncFromTimestamp,
+        );
+        break;
+      }
+      case 'charge':
+        syncResult = await syncCharges(
+          stripe,
+          appConfig,
+          options,
+          existingIds,
+          syncFromTimestamp,
+        );
+        break;
+      case 'payment_intent':
+        syncResult = await syncPaymentIntents(
+          stripe,
+          appConfig,
+          options,
+          existingIds,
+          syncFromTimestamp,
+        );
+        break;
+      case 'refund':
+        syncResult = await syncRefunds(
+          stripe,
+          appConfig,
+          options,
+          existingIds,
+          syncFromTimestamp,
+        );
+        break;
+      case 'dispute':
+        syncResult = await syncDisputes(
+          stripe,
+          appConfig,
+          options,
+          existingIds,
+          syncFromTimestamp,
+        );
+        break;
+      case 'payout': {
+        // Also get existing balance transaction IDs (filtered by sync_from if configured)
+        const existingTransactionIds = await getExistingIds(
+          appConfig,
+          STRIPE_COLLECTION_KEYS.balance_transaction,
+          syncFromTimestamp,
+        );
+        syncResult = await syncPayouts(
+          stripe,
+          appConfig,
+          options,
+          existingIds,
+          existingTransactionIds,
+          syncFromTimestamp,
+        );
+        break;
+      }
+      case 'coupon':
+        syncResult = await syncCoupons(
+          stripe,
+          appConfig,
+          options,
+          existingIds,
+          syncFromTimestamp,
+        );
+        break;
+      case 'promotion_code':
+        syncResult = await syncPromotionCodes(
+          stripe,
+          appConfig,
+          options,
+          existingIds,
+          syncFromTimestamp,
+        );
+        break;
+      case 'tax_rate':
+        syncResult = await syncTaxRates(
+          stripe,
+          appConfig,
+          options,
+          existingIds,
+          syncFromTimestamp,
+        );
+        break;
+      case 'account':
+        syncResult = await syncAccounts(
+          stripe,
+          appConfig,
+          options,
+          existingIds,
+          syncFromTimestamp,
+        );
+        break;
       default:
         syncResult = failedSyncResult(`Unknown resource type: ${resourceType}`);
     }
 
     results.push(syncResult);
-  }
 
-  const merged = mergeSyncResults(results);
-  merged.durationMs = timer.elapsed();
+    // Don't start the next resource if the sync was cancelled
+    if (syncResult.cancelled) {
+      break;
+    }
+  }
 
-  logger.syncCompleted(merged);
-  return merged;
+  return results;
 }
 
 // =============================================================================
@@ -140,16 +496,29 @@ export async function fullSync(
 // =============================================================================
 
 /**
- * Perform an incremental sync since the last sync time
+ * Perform an incremental sync since the last sync time by applying the Stripe events
+ * created since then. Stripe only keeps events for 30 days, so when the last sync is
+ * older than that a full sync is run instead. In Connect mode with
+ * sync_connected_accounts, the events of each connected account are applied too.
+ * The Stripe client defaults to one created from the app config.
  */
 export async function incrementalSync(
   appConfig: AppConfig,
   since: Date,
   options: SyncOptions = {},
+  stripe: Stripe = createStripeClient(appConfig),
 ): Promise<SyncResult> {
+  if (!isWithinEventRetention(since)) {
+    logger.info(
+      'sync',
+      `Last sync at ${since.toISOString()} is older than the ${STRIPE_EVENT_RETENTION_DAYS}-day event retention, running a full sync`,
+    );
+    return await fullSync(appConfig, options, stripe);
+  }
+
   const timer = createTimer();
-  const stripe = createStripeClient(appConfig);
   const resourceTypes = options.resourceTypes || getResourceTypesToSync(appConfig);
+  const syncFromTimestamp = getSyncFromTimestamp(appConfig);
 
   logger.syncStarted('incremental', resourceTypes);
 
@@ -158,33 +527,16 @@ export async function incrementalSync(
     since,
   };
 
-  const results: SyncResult[] = [];
-
-  for (const resourceType of resourceTypes) {
-    let syncResult: SyncResult;
-
-    switch (resourceType) {
-      case 'customer':
-        syncResult = await syncCustomers(stripe, appConfig, syncOptions);
-        break;
-      case 'product':
-        syncResult = await syncProducts(stripe, appConfig, syncOptions);
-        break;
-      case 'price':
-        syncResult = await syncPrices(stripe, appConfig, syncOptions);
-        break;
-      case 'plan':
-        syncResult = await syncPlans(stripe, appConfig, syncOptions);
-        break;
-      case 'subscription':
-        syncResult = await syncSubscriptions(stripe, appConfig, syncOptions);
-        break;
-      default:
-        syncResult = failedSyncResult(`Unknown resource type: ${resourceType}`);
-    }
+  const syncScope: ScopeSync = (scopeStripe, scopeConfig, scopeResourceTypes, scopeOptions) =>
+    syncResourceEvents(
+      scopeStripe,
+      scopeConfig,
+      scopeResourceTypes,
+      scopeOptions,
+      syncFromTimestamp,
+    );
 
-    results.push(syncResult);
-  }
+  const results = await syncScopes(stripe, appConfig, resourceTypes, syncOptions, syncScope);
 
   const merged = mergeSyncResults(results);
   merged.durationMs = timer.elapsed();
@@ -192,3 +544,35 @@ export async function incrementalSync(
   logger.syncCompleted(merged);
   return merged;
 }
+
+/**
+ * Apply the events of resource types in one scope
+ */
+async function syncResourceEvents(
+  stripe: Stripe,
+  appConfig: AppConfig,
+  resourceTypes: string[],
+  options: SyncOptions,
+  syncFromTimestamp?: number,
+): Promise<SyncResult[]> {
+  const results: SyncResult[] = [];
+
+  for (const resourceType of resourceTypes) {
+    const syncResult = await syncEvents(
+      stripe,
+      appConfig,
+      resourceType as StripeResourceType,
+      options,
+      syncFromTimestamp,
+    );
+
+    results.push(syncResult);
+
+    // Don't start the next resource if the sync was cancelled
+    if (syncResult.cancelled) {
+      break;
+    }
+  }
+
+  return results;
+}
@@ -6,9 +6,28 @@
 
 import type Stripe from 'stripe';
 import type { AppConfig, NormalizedEntity, SyncOptions, SyncResult } from '../../../types/index.ts';
-import { deleteEntity, upsertEntities, type UpsertEntityData } from '../../../db/index.ts';
-import { createTimer, emptySyncResult } from '../../utils.ts';
-import { DEFAULT_PAGE_SIZE, logger } from '../client.ts';
+import {
+  deleteEntity,
+  type DeleteResult,
+  upsertEntities,
+  type UpsertEntitiesResult,
+  type UpsertEntityData,
+} from '../../../db/index.ts';
+import {
+  type EntityHookSource,
+  runAfterUpsertHooks,
+  runBeforeDeleteHooks,
+  runBeforeUpsertHooks,
+  selectWrittenEntities,
+} from '../../../lifecycle/index.ts';
+import {
+  addUpsertCounts,
+  countProcessed,
+  createTimer,
+  emptySyncResult,
+  setRetryInfo,
+} from '../../utils.ts';
+import { DEFAULT_PAGE_SIZE, logger, toConnectorError } from '../client.ts';
 import { normalizeStripeEntity } from '../normalization.ts';
 import { STRIPE_COLLECTION_KEYS } from '../types.ts';
 
@@ -17,9 +36,11 @@ import { STRIPE_COLLECTION_KEYS } from '../types.ts';
 // =============================================================================
 
 /**
- * Convert NormalizedEntity to UpsertEntityData
+ * Convert NormalizedEntity to UpsertEntityData.
+ * Stripe objects have no modification time, so the time the page was fetched is
+ * used as the source timestamp: the synced data is at least that fresh.
  */
-function toUpsertData(entity: NormalizedEntity): UpsertEntityData {
+function toUpsertData(entity: NormalizedEntity, fetchedAt: Date): UpsertEntityData {
   return {
     external_id: entity.externalId,
     app_key: entity.appKey,
@@ -27,9 +48,56 @@ function toUpsertData(entity: NormalizedEntity): UpsertEntityData {
     raw_payload: entity.rawPayload,
     api_version: entity.apiVersion,
     archived_at: entity.archivedAt?.toISOString() ?? null,
+    source_updated_at: (entity.sourceUpdatedAt ?? fetchedAt).toISOString(),
   };
 }
 
+/**
+ * Upsert a page of entities. The beforeUpsert lifecycle hooks run first and may
+ * change or skip entities; the afterUpsert hooks run for the entities written.
+ */
+async function upsertPage(
+  entities: NormalizedEntity[],
+  fetchedAt: Date,
+  options: SyncOptions,
+): Promise<UpsertEntitiesResult> {
+  const hookSource: EntityHookSource = { source: 'sync', changeSource: options.changeSource };
+  const toWrite = await runBeforeUpsertHooks(entities, hookSource);
+  if (toWrite.length === 0) {
+    return { data: [], error: null, created: 0, updated: 0, unchanged: 0 };
+  }
+
+  const result = await upsertEntities(
+    toWrite.map((entity) => toUpsertData(entity, fetchedAt)),
+    options.changeSource,
+  );
+  if (!result.error) {
+    await runAfterUpsertHooks(selectWrittenEntities(toWrite, result.data), hookSource);
+  }
+  return result;
+}
+
+/**
+ * Delete an entity that Stripe no longer returns, unless a beforeDelete lifecycle hook
+ * keeps it (skipped: true).
+ */
+async function deleteMissingEntity(
+  appKey: string,
+  collectionKey: string,
+  externalId: string,
+  options: SyncOptions,
+): Promise<DeleteResult & { skipped?: boolean }> {
+  const shouldDelete = await runBeforeDeleteHooks(
+    { appKey, collectionKey, externalId },
+    { source: 'sync', changeSource: options.changeSource },
+  );
+  if (!shouldDelete) {
+    return { count: 0, error: null, skipped: true };
+  }
+
+  return await deleteEntity(appKey, collectionKey, externalId);
+}
+
 // =============================================================================
 // Resource Sync Functions
 // =============================================================================
@@ -57,15 +125,22 @@ export async function syncCustomers(
   try {
     let hasMore = true;
     while (hasMore) {
+      // Stop before fetching the next page if the sync was cancelled
+      if (options.isCancelled && (await options.isCancelled())) {
+        result.cancelled = true;
+        break;
+      }
+
       const params: Stripe.CustomerListParams = {
         limit: pageSize,
         ...(cursor && { starting_after: cursor }),
         ...(createdGte && { created: { gte: createdGte } }),
       };
 
+      const fetchedAt = new Date();
       const customers = await stripe.customers.list(params);
 
-      const entities: UpsertEntityData[] = [];
+      const entities: NormalizedEntity[] = [];
       for (const customer of customers.data) {
         seenIds.add(customer.id);
         const entity = normalizeStripeEntity(
@@ -73,23 +148,31 @@ export async function syncCustomers(
           customer as unknown as Record<string, unknown>,
           appConfig,
         );
-        entities.push(toUpsertData(entity));
+        entities.push(entity);
       }
 
       if (entities.length > 0) {
-        const { data: upserted, error } = await upsertEntities(entities);
+        const { created, updated, unchanged, error } = await upsertPage(
+          entities,
+          fetchedAt,
+          options,
+        );
         if (error) {
           result.errors++;
           result.errorMessages = result.errorMessages || [];
           result.errorMessages.push(error.message);
-        } else if (upserted) {
-          result.created += entities.length; // Simplified count
+        } else {
+          addUpsertCounts(result, { created, updated, unchanged });
         }
       }
 
       hasMore = customers.has_more;
       if (hasMore && customers.data.length > 0) {
         cursor = customers.data[customers.data.length - 1].id;
+        // Checkpoint the next page so an interrupted sync can resume from here
+        if (options.onCursor) {
+          await options.onCursor(cursor, countProcessed(result));
+        }
       }
 
       // Check limit
@@ -98,18 +181,19 @@ export async function syncCustomers(
       }
     }
 
-    // Detect deletions during full sync (only for records in sync window)
-    if (!since && existingIds) {
+    // Detect deletions during full sync (sync window only, not when resuming)
+    if (!result.cancelled && !since && !options.cursor && existingIds) {
       for (const existingId of existingIds) {
         if (!seenIds.has(existingId)) {
-          const { error } = await deleteEntity(
+          const { error, skipped } = await deleteMissingEntity(
             appConfig.app_key,
             STRIPE_COLLECTION_KEYS.customer,
             existingId,
+            options,
           );
           if (error) {
             result.errors++;
-          } else {
+          } else if (!skipped) {
             result.deleted++;
           }
         }
@@ -122,6 +206,7 @@ export async function syncCustomers(
     result.success = false;
     result.errors++;
     result.errorMessages = [message];
+    setRetryInfo(result, toConnectorError(error));
   }
 
   return result;
@@ -150,6 +235,12 @@ export async function syncProducts(
   try {
     let hasMore = true;
     while (hasMore) {
+      // Stop before fetching the next page if the sync was cancelled
+      if (options.isCancelled && (await options.isCancelled())) {
+        result.cancelled = true;
+        break;
+      }
+
       const params: Stripe.ProductListParams = {
         limit: pageSize,
         ...(cursor && { starting_after: cursor }),
@@ -158,9 +249,10 @@ export async function syncProducts(
         active: undefined,
       };
 
+      const fetchedAt = new Date();
       const products = await stripe.products.list(params);
 
-      const entities: UpsertEntityData[] = [];
+      const entities: NormalizedEntity[] = [];
       for (const product of products.data) {
         seenIds.add(product.id);
         const entity = normalizeStripeEntity(
@@ -168,23 +260,31 @@ export async function syncProducts(
           product as unknown as Record<string, unknown>,
           appConfig,
         );
-        entities.push(toUpsertData(entity));
+        entities.push(entity);
       }
 
       if (entities.length > 0) {
-        const { error } = await upsertEntities(entities);
+        const { created, updated, unchanged, error } = await upsertPage(
+          entities,
+          fetchedAt,
+          options,
+        );
         if (error) {
           result.errors++;
           result.errorMessages = result.errorMessages || [];
           result.errorMessages.push(error.message);
         } else {
-          result.created += entities.length;
+          addUpsertCounts(result, { created, updated, unchanged });
         }
       }
 
       hasMore = products.has_more;
       if (hasMore && products.data.length > 0) {
         cursor = products.data[products.data.length - 1].id;
+        // Checkpoint the next page so an interrupted sync can resume from here
+        if (options.onCursor) {
+          await options.onCursor(cursor, countProcessed(result));
+        }
       }
 
       if (options.limit && seenIds.size >= options.limit) {
@@ -192,18 +292,19 @@ export async function syncProducts(
       }
     }
 
-    // Detect deletions during full sync (only for records in sync window)
-    if (!since && existingIds) {
+    // Detect deletions during full sync (sync window only, not when resuming)
+    if (!result.cancelled && !since && !options.cursor && existingIds) {
       for (const existingId of existingIds) {
         if (!seenIds.has(existingId)) {
-          const { error } = await deleteEntity(
+          const { error, skipped } = await deleteMissingEntity(
             appConfig.app_key,
             STRIPE_COLLECTION_KEYS.product,
             existingId,
+            options,
           );
           if (error) {
             result.errors++;
-          } else {
+          } else if (!skipped) {
             result.deleted++;
           }
         }
@@ -216,6 +317,7 @@ export async function syncProducts(
     result.success = false;
     result.errors++;
     result.errorMessages = [message];
+    setRetryInfo(result, toConnectorError(error));
   }
 
   return result;
@@ -244,6 +346,12 @@ export async function syncPrices(
   try {
     let hasMore = true;
     while (hasMore) {
+      // Stop before fetching the next page if the sync was cancelled
+      if (options.isCancelled && (await options.isCancelled())) {
+        result.cancelled = true;
+        break;
+      }
+
       const params: Stripe.PriceListParams = {
         limit: pageSize,
         ...(cursor && { starting_after: cursor }),
@@ -252,9 +360,10 @@ export async function syncPrices(
         active: undefined,
       };
 
+      const fetchedAt = new Date();
       const prices = await stripe.prices.list(params);
 
-      const entities: UpsertEntityData[] = [];
+      const entities: NormalizedEntity[] = [];
       for (const price of prices.data) {
         seenIds.add(price.id);
         const entity = normalizeStripeEntity(
@@ -262,23 +371,31 @@ export async function syncPrices(
           price as unknown as Record<string, unknown>,
           appConfig,
         );
-        entities.push(toUpsertData(entity));
+        entities.push(entity);
       }
 
       if (entities.length > 0) {
-        const { error } = await upsertEntities(entities);
+        const { created, updated, unchanged, error } = await upsertPage(
+          entities,
+          fetchedAt,
+          options,
+        );
         if (error) {
           result.errors++;
           result.errorMessages = result.errorMessages || [];
           result.errorMessages.push(error.message);
         } else {
-          result.created += entities.length;
+          addUpsertCounts(result, { created, updated, unchanged });
         }
       }
 
       hasMore = prices.has_more;
       if (hasMore && prices.data.length > 0) {
         cursor = prices.data[prices.data.length - 1].id;
+        // Checkpoint the next page so an interrupted sync can resume from here
+        if (options.onCursor) {
+          await options.onCursor(cursor, countProcessed(result));
+        }
       }
 
       if (options.limit && seenIds.size >= options.limit) {
@@ -286,18 +403,19 @@ export async function syncPrices(
       }
     }
 
-    // Detect deletions during full sync (only for records in sync window)
-    if (!since && existingIds) {
+    // Detect deletions during full sync (sync window only, not when resuming)
+    if (!result.cancelled && !since && !options.cursor && existingIds) {
       for (const existingId of existingIds) {
         if (!seenIds.has(existingId)) {
-          const { error } = await deleteEntity(
+          const { error, skipped } = await deleteMissingEntity(
             appConfig.app_key,
             STRIPE_COLLECTION_KEYS.price,
             existingId,
+            options,
           );
           if (error) {
             result.errors++;
-          } else {
+          } else if (!skipped) {
             result.deleted++;
           }
         }
@@ -310,6 +428,7 @@ export async function syncPrices(
     result.success = false;
     result.errors++;
     result.errorMessages = [message];
+    setRetryInfo(result, toConnectorError(error));
   }
 
   return result;
@@ -338,6 +457,12 @@ export async function syncPlans(
   try {
     let hasMore = true;
     while (hasMore) {
+      // Stop before fetching the next page if the sync was cancelled
+      if (options.isCancelled && (await options.isCancelled())) {
+        result.cancelled = true;
+        break;
+      }
+
       const params: Stripe.PlanListParams = {
         limit: pageSize,
         ...(cursor && { starting_after: cursor }),
@@ -346,9 +471,10 @@ export async function syncPlans(
         active: undefined,
       };
 
+      const fetchedAt = new Date();
       const plans = await stripe.plans.list(params);
 
-      const entities: UpsertEntityData[] = [];
+      const entities: NormalizedEntity[] = [];
       for (const plan of plans.data) {
         seenIds.add(plan.id);
         const entity = normalizeStripeEntity(
@@ -356,23 +482,31 @@ export async function syncPlans(
           plan as unknown as Record<string, unknown>,
           appConfig,
         );
-        entities.push(toUpsertData(entity));
+        entities.push(entity);
       }
 
       if (entities.length > 0) {
-        const { error } = await upsertEntities(entities);
+        const { created, updated, unchanged, error } = await upsertPage(
+          entities,
+          fetchedAt,
+          options,
+        );
         if (error) {
           result.errors++;
           result.errorMessages = result.errorMessages || [];
           result.errorMessages.push(error.message);
         } else {
-          result.created += entities.length;
+          addUpsertCounts(result, { created, updated, unchanged });
         }
       }
 
       hasMore = plans.has_more;
       if (hasMore && plans.data.length > 0) {
         cursor = plans.data[plans.data.length - 1].id;
+        // Checkpoint the next page so an interrupted sync can resume from here
+        if (options.onCursor) {
+          await options.onCursor(cursor, countProcessed(result));
+        }
       }
 
       if (options.limit && seenIds.size >= options.limit) {
@@ -380,18 +514,19 @@ export async function syncPlans(
       }
     }
 
-    // Detect deletions during full sync (only for records in sync window)
-    if (!since && existingIds) {
+    // Detect deletions during full sync (sync window only, not when resuming)
+    if (!result.cancelled && !since && !options.cursor && existingIds) {
       for (const existingId of existingIds) {
         if (!seenIds.has(existingId)) {
-          const { error } = await deleteEntity(
+          const { error, skipped } = await deleteMissingEntity(
             appConfig.app_key,
             STRIPE_COLLECTION_KEYS.plan,
             existingId,
+            options,
           );
           if (error) {
             result.errors++;
-          } else {
+          } else if (!skipped) {
             result.deleted++;
           }
         }
@@ -404,6 +539,7 @@ export async function syncPlans(
     result.success = false;
     result.errors++;
     result.errorMessages = [message];
+    setRetryInfo(result, toConnectorError(error));
   }
 
   return result;
@@ -490,6 +626,12 @@ export async function syncSubscriptions(
   try {
     let hasMore = true;
     while (hasMore) {
+      // Stop before fetching the next page if the sync was cancelled
+      if (options.isCancelled && (await options.isCancelled())) {
+        result.cancelled = true;
+        break;
+      }
+
       const params: Stripe.SubscriptionListParams = {
         limit: pageSize,
         ...(cursor && { starting_after: cursor }),
@@ -498,10 +640,11 @@ export async function syncSubscriptions(
         status: 'all',
       };
 
+      const fetchedAt = new Date();
       const subscriptions = await stripe.subscriptions.list(params);
 
-      const subEntities: UpsertEntityData[] = [];
-      const itemEntities: UpsertEntityData[] = [];
+      const subEntities: NormalizedEntity[] = [];
+      const itemEntities: NormalizedEntity[] = [];
 
       for (const subscription of subscriptions.data) {
         seenIds.add(subscription.id);
@@ -512,7 +655,7 @@ export async function syncSubscriptions(
           subscription as unknown as Record<string, unknown>,
           appConfig,
         );
-        subEntities.push(toUpsertData(subEntity));
+        subEntities.push(subEntity);
 
         // Fetch and normalize subscription items
         const items = await getSubscriptionItems(stripe, subscription);
@@ -530,33 +673,41 @@ export async function syncSubscriptions(
             item as unknown as Record<string, unknown>,
             appConfig,
           );
-          itemEntities.push(toUpsertData(itemEntity));
+          itemEntities.push(itemEntity);
         }
       }
 
       // Upsert subscriptions
       if (subEntities.length > 0) {
-        const { error } = await upsertEntities(subEntities);
+        const { created, updated, unchanged, error } = await upsertPage(
+          subEntities,
+          fetchedAt,
+          options,
+        );
         if (error) {
           result.errors++;
           result.errorMessages = result.errorMessages || [];
           result.errorMessages.push(`Failed to upsert subscriptions: ${error.message}`);
           logger.error('sync', `Failed to upsert subscriptions: ${error.message}`);
         } else {
-          result.created += subEntities.length;
+          addUpsertCounts(result, { created, updated, unchanged });
         }
       }
 
       // Upsert subscription items
       if (itemEntities.length > 0) {
-        const { error } = await upsertEntities(itemEntities);
+        const { created, updated, unchanged, error } = await upsertPage(
+          itemEntities,
+          fetchedAt,
+          options,
+        );
         if (error) {
           result.errors++;
           result.errorMessages = result.errorMessages || [];
           result.errorMessages.push(`Failed to upsert subscription items: ${error.message}`);
           logger.error('sync', `Failed to upsert subscription items: ${error.message}`);
         } else {
-          result.created += itemEntities.length;
+          addUpsertCounts(result, { created, updated, unchanged });
           logger.info('sync', `Successfully synced ${itemEntities.length} subscription item(s)`);
         }
       }
@@ -564,6 +715,10 @@ export async function syncSubscriptions(
       hasMore = subscriptions.has_more;
       if (hasMore && subscriptions.data.length > 0) {
         cursor = subscriptions.data[subscriptions.data.length - 1].id;
+        // Checkpoint the next page so an interrupted sync can resume from here
+        if (options.onCursor) {
+          await options.onCursor(cursor, countProcessed(result));
+        }
       }
 
       if (options.limit && seenIds.size >= options.limit) {
@@ -571,36 +726,38 @@ export async function syncSubscriptions(
       }
     }
 
-    // Detect deletions during full sync (only for records in sync window)
-    if (!since && existingIds) {
+    // Detect deletions during full sync (sync window only, not when resuming)
+    if (!result.cancelled && !since && !options.cursor && existingIds) {
       for (const existingId of existingIds) {
         if (!seenIds.has(existingId)) {
-          const { error } = await deleteEntity(
+          const { error, skipped } = await deleteMissingEntity(
             appConfig.app_key,
             STRIPE_COLLECTION_KEYS.subscription,
             existingId,
+            options,
           );
           if (error) {
             result.errors++;
-          } else {
+          } else if (!skipped) {
             result.deleted++;
           }
         }
       }
     }
 
-    // Detect deleted subscription items during full sync (only for records in sync window)
-    if (!since && existingItemIds) {
+    // Detect deleted subscription items during full sync (sync window only, not when resuming)
+    if (!result.cancelled && !since && !options.cursor && existingItemIds) {
       for (const existingId of existingItemIds) {
         if (!seenItemIds.has(existingId)) {
-          const { error } = await deleteEntity(
+          const { error, skipped } = await deleteMissingEntity(
             appConfig.app_key,
             STRIPE_COLLECTION_KEYS.subscription_item,
             existingId,
+            options,
           );
           if (error) {
             result.errors++;
-          } else {
+          } else if (!skipped) {
             result.deleted++;
           }
         }
@@ -613,8 +770,1361 @@ export async function syncSubscriptions(
     result.success = false;
     result.errors++;
     result.errorMessages = [message];
+    setRetryInfo(result, toConnectorError(error));
     logger.error('sync', `Subscription sync failed: ${message}`);
   }
 
   return result;
 }
+
+/**
+ * Fetch all line items of an invoice, handling pagination
+ */
+async function fetchAllInvoiceLineItems(
+  stripe: Stripe,
+  invoiceId: string,
+): Promise<Stripe.InvoiceLineItem[]> {
+  const lineItems: Stripe.InvoiceLineItem[] = [];
+  let cursor: string | undefined;
+  let hasMore = true;
+
+  while (hasMore) {
+    const params: Stripe.InvoiceListLineItemsParams = {
+      limit: DEFAULT_PAGE_SIZE,
+      ...(cursor && { starting_after: cursor }),
+    };
+
+    const response = await stripe.invoices.listLineItems(invoiceId, params);
+    lineItems.push(...response.data);
+
+    hasMore = response.has_more;
+    if (hasMore && response.data.length > 0) {
+      cursor = response.data[response.data.length - 1].id;
+    }
+  }
+
+  return lineItems;
+}
+
+/**
+ * Extract invoice line items from embedded data or fetch separately if needed
+ */
+async function getInvoiceLineItems(
+  stripe: Stripe,
+  invoice: Stripe.Invoice,
+): Promise<Stripe.InvoiceLineItem[]> {
+  // Check if line items are embedded in the invoice response
+  if (invoice.lines && invoice.lines.data && invoice.lines.data.length > 0) {
+    // If there are more line items than returned, fetch all line items separately
+    if (invoice.lines.has_more) {
+      logger.info(
+        'sync',
+        `Invoice ${invoice.id} has more line items than initially returned, fetching all line items`,
+      );
+      return await fetchAllInvoiceLineItems(stripe, invoice.id);
+    }
+    return invoice.lines.data;
+  }
+
+  // Line items not embedded or empty - fetch them separately
+  // This handles edge cases where line items might not be returned with the invoice
+  logger.info('sync', `Invoice ${invoice.id} has no embedded line items, fetching separately`);
+  return await fetchAllInvoiceLineItems(stripe, invoice.id);
+}
+
+/**
+ * Sync invoices from Stripe (also syncs invoice line items)
+ */
+export async function syncInvoices(
+  stripe: Stripe,
+  appConfig: AppConfig,
+  options: SyncOptions,
+  existingIds?: Set<string>,
+  existingLineItemIds?: Set<string>,
+  syncFromTimestamp?: number,
+): Promise<SyncResult> {
+  const result = emptySyncResult();
+  const timer = createTimer();
+  let cursor = options.cursor;
+  const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
+  const since = options.since;
+  const seenIds = new Set<string>();
+  const seenLineItemIds = new Set<string>();
+
+  // For full sync, use syncFromTimestamp as the floor if configured
+  const createdGte = since ? Math.floor(since.getTime() / 1000) : syncFromTimestamp;
+
+  try {
+    let hasMore = true;
+    while (hasMore) {
+      // Stop before fetching the next page if the sync was cancelled
+      if (options.isCancelled && (await options.isCancelled())) {
+        result.cancelled = true;
+        break;
+      }
+
+      const params: Stripe.InvoiceListParams = {
+        limit: pageSize,
+        ...(cursor && { starting_after: cursor }),
+        ...(createdGte && { created: { gte: createdGte } }),
+      };
+
+      const fetchedAt = new Date();
+      const invoices = await stripe.invoices.list(params);
+
+      const invoiceEntities: NormalizedEntity[] = [];
+      const lineItemEntities: NormalizedEntity[] = [];
+
+      for (const invoice of invoices.data) {
+        seenIds.add(invoice.id);
+
+        // Normalize invoice
+        const invoiceEntity = normalizeStripeEntity(
+          'invoice',
+          invoice as unknown as Record<string, unknown>,
+          appConfig,
+        );
+        invoiceEntities.push(invoiceEntity);
+
+        // Fetch and normalize invoice line items
+        const lineItems = await getInvoiceLineItems(stripe, invoice);
+
+        if (lineItems.length === 0) {
+          logger.warn('sync', `Invoice ${invoice.id} has no line items`);
+        } else {
+          logger.info('sync', `Invoice ${invoice.id} has ${lineItems.length} line item(s)`);
+        }
+
+        for (const lineItem of lineItems) {
+          seenLineItemIds.add(lineItem.id);
+          const lineItemEntity = normalizeStripeEntity(
+            'invoice_line_item',
+            lineItem as unknown as Record<string, unknown>,
+            appConfig,
+          );
+          lineItemEntities.push(lineItemEntity);
+        }
+      }
+
+      // Upsert invoices
+      if (invoiceEntities.length > 0) {
+        const { created, updated, unchanged, error } = await upsertPage(
+          invoiceEntities,
+          fetchedAt,
+          options,
+        );
+        if (error) {
+          result.errors++;
+          result.errorMessages = result.errorMessages || [];
+          result.errorMessages.push(`Failed to upsert invoices: ${error.message}`);
+          logger.error('sync', `Failed to upsert invoices: ${error.message}`);
+        } else {
+          addUpsertCounts(result, { created, updated, unchanged });
+        }
+      }
+
+      // Upsert invoice line items
+      if (lineItemEntities.length > 0) {
+        const { created, updated, unchanged, error } = await upsertPage(
+          lineItemEntities,
+          fetchedAt,
+          options,
+        );
+        if (error) {
+          result.errors++;
+          result.errorMessages = result.errorMessages || [];
+          result.errorMessages.push(`Failed to upsert invoice line items: ${error.message}`);
+          logger.error('sync', `Failed to upsert invoice line items: ${error.message}`);
+        } else {
+          addUpsertCounts(result, { created, updated, unchanged });
+          logger.info(
+            'sync',
+            `Successfully synced ${lineItemEntities.length} invoice line item(s)`,
+          );
+        }
+      }
+
+      hasMore = invoices.has_more;
+      if (hasMore && invoices.data.length > 0) {
+        cursor = invoices.data[invoices.data.length - 1].id;
+        // Checkpoint the next page so an interrupted sync can resume from here
+        if (options.onCursor) {
+          await options.onCursor(cursor, countProcessed(result));
+        }
+      }
+
+      if (options.limit && seenIds.size >= options.limit) {
+        break;
+      }
+    }
+
+    // Detect deletions during full sync (sync window only, not when resuming)
+    if (!result.cancelled && !since && !options.cursor && existingIds) {
+      for (const existingId of existingIds) {
+        if (!seenIds.has(existingId)) {
+          const { error, skipped } = await deleteMissingEntity(
+            appConfig.app_key,
+            STRIPE_COLLECTION_KEYS.invoice,
+            existingId,
+            options,
+          );
+          if (error) {
+            result.errors++;
+          } else if (!skipped) {
+            result.deleted++;
+          }
+        }
+      }
+    }
+
+    // Detect deleted invoice line items during full sync (sync window only, not when resuming)
+    if (!result.cancelled && !since && !options.cursor && existingLineItemIds) {
+      for (const existingId of existingLineItemIds) {
+        if (!seenLineItemIds.has(existingId)) {
+          const { error, skipped } = await deleteMissingEntity(
+            appConfig.app_key,
+            STRIPE_COLLECTION_KEYS.invoice_line_item,
+            existingId,
+            options,
+          );
+          if (error) {
+            result.errors++;
+          } else if (!skipped) {
+            result.deleted++;
+          }
+        }
+      }
+    }
+
+    result.durationMs = timer.elapsed();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    result.success = false;
+    result.errors++;
+    result.errorMessages = [message];
+    setRetryInfo(result, toConnectorError(error));
+    logger.error('sync', `Invoice sync failed: ${message}`);
+  }
+
+  return result;
+}
+
+/**
+ * Sync charges from Stripe
+ */
+export async function syncCharges(
+  stripe: Stripe,
+  appConfig: AppConfig,
+  options: SyncOptions,
+  existingIds?: Set<string>,
+  syncFromTimestamp?: number,
+): Promise<SyncResult> {
+  const result = emptySyncResult();
+  const timer = createTimer();
+  let cursor = options.cursor;
+  const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
+  const since = options.since;
+  const seenIds = new Set<string>();
+
+  // For full sync, use syncFromTimestamp as the floor if configured
+  const createdGte = since ? Math.floor(since.getTime() / 1000) : syncFromTimestamp;
+
+  try {
+    let hasMore = true;
+    while (hasMore) {
+      // Stop before fetching the next page if the sync was cancelled
+      if (options.isCancelled && (await options.isCancelled())) {
+        result.cancelled = true;
+        break;
+      }
+
+      const params: Stripe.ChargeListParams = {
+        limit: pageSize,
+        ...(cursor && { starting_after: cursor }),
+        ...(createdGte && { created: { gte: createdGte } }),
+      };
+
+      const fetchedAt = new Date();
+      const charges = await stripe.charges.list(params);
+
+      const entities: NormalizedEntity[] = [];
+      for (const charge of charges.data) {
+        seenIds.add(charge.id);
+        const entity = normalizeStripeEntity(
+          'charge',
+          charge as unknown as Record<string, unknown>,
+          appConfig,
+        );
+        entities.push(entity);
+      }
+
+      if (entities.length > 0) {
+        const { created, updated, unchanged, error } = await upsertPage(
+          entities,
+          fetchedAt,
+          options,
+        );
+        if (error) {
+          result.errors++;
+          result.errorMessages = result.errorMessages || [];
+          result.errorMessages.push(error.message);
+        } else {
+          addUpsertCounts(result, { created, updated, unchanged });
+        }
+      }
+
+      hasMore = charges.has_more;
+      if (hasMore && charges.data.length > 0) {
+        cursor = charges.data[charges.data.length - 1].id;
+        // Checkpoint the next page so an interrupted sync can resume from here
+        if (options.onCursor) {
+          await options.onCursor(cursor, countProcessed(result));
+        }
+      }
+
+      // Check limit
+      if (options.limit && seenIds.size >= options.limit) {
+        break;
+      }
+    }
+
+    // Detect deletions during full sync (sync window only, not when resuming)
+    if (!result.cancelled && !since && !options.cursor && existingIds) {
+      for (const existingId of existingIds) {
+        if (!seenIds.has(existingId)) {
+          const { error, skipped } = await deleteMissingEntity(
+            appConfig.app_key,
+            STRIPE_COLLECTION_KEYS.charge,
+            existingId,
+            options,
+          );
+          if (error) {
+            result.errors++;
+          } else if (!skipped) {
+            result.deleted++;
+          }
+        }
+      }
+    }
+
+    result.durationMs = timer.elapsed();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    result.success = false;
+    result.errors++;
+    result.errorMessages = [message];
+    setRetryInfo(result, toConnectorError(error));
+  }
+
+  return result;
+}
+
+/**
+ * Sync payment intents from Stripe
+ */
+export async function syncPaymentIntents(
+  stripe: Stripe,
+  appConfig: AppConfig,
+  options: SyncOptions,
+  existingIds?: Set<string>,
+  syncFromTimestamp?: number,
+): Promise<SyncResult> {
+  const result = emptySyncResult();
+  const timer = createTimer();
+  let cursor = options.cursor;
+  const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
+  const since = options.since;
+  const seenIds = new Set<string>();
+
+  // For full sync, use syncFromTimestamp as the floor if configured
+  const createdGte = since ? Math.floor(since.getTime() / 1000) : syncFromTimestamp;
+
+  try {
+    let hasMore = true;
+    while (hasMore) {
+      // Stop before fetching the next page if the sync was cancelled
+      if (options.isCancelled && (await options.isCancelled())) {
+        result.cancelled = true;
+        break;
+      }
+
+      const params: Stripe.PaymentIntentListParams = {
+        limit: pageSize,
+        ...(cursor && { starting_after: cursor }),
+        ...(createdGte && { created: { gte: createdGte } }),
+      };
+
+      const fetchedAt = new Date();
+      const paymentIntents = await stripe.paymentIntents.list(params);
+
+      const entities: NormalizedEntity[] = [];
+      for (const paymentIntent of paymentIntents.data) {
+        seenIds.add(paymentIntent.id);
+        const entity = normalizeStripeEntity(
+          'payment_intent',
+          paymentIntent as unknown as Record<string, unknown>,
+          appConfig,
+        );
+        entities.push(entity);
+      }
+
+      if (entities.length > 0) {
+        const { created, updated, unchanged, error } = await upsertPage(
+          entities,
+          fetchedAt,
+          options,
+        );
+        if (error) {
+          result.errors++;
+          result.errorMessages = result.errorMessages || [];
+          result.errorMessages.push(error.message);
+        } else {
+          addUpsertCounts(result, { created, updated, unchanged });
+        }
+      }
+
+      hasMore = paymentIntents.has_more;
+      if (hasMore && paymentIntents.data.length > 0) {
+        cursor = paymentIntents.data[paymentIntents.data.length - 1].id;
+        // Checkpoint the next page so an interrupted sync can resume from here
+        if (options.onCursor) {
+          await options.onCursor(cursor, countProcessed(result));
+        }
+      }
+
+      // Check limit
+      if (options.limit && seenIds.size >= options.limit) {
+        break;
+      }
+    }
+
+    // Detect deletions during full sync (sync window only, not when resuming)
+    if (!result.cancelled && !since && !options.cursor && existingIds) {
+      for (const existingId of existingIds) {
+        if (!seenIds.has(existingId)) {
+          const { error, skipped } = await deleteMissingEntity(
+            appConfig.app_key,
+            STRIPE_COLLECTION_KEYS.payment_intent,
+            existingId,
+            options,
+          );
+          if (error) {
+            result.errors++;
+          } else if (!skipped) {
+            result.deleted++;
+          }
+        }
+      }
+    }
+
+    result.durationMs = timer.elapsed();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    result.success = false;
+    result.errors++;
+    result.errorMessages = [message];
+    setRetryInfo(result, toConnectorError(error));
+  }
+
+  return result;
+}
+
+/**
+ * Sync refunds from Stripe
+ */
+export async function syncRefunds(
+  stripe: Stripe,
+  appConfig: AppConfig,
+  options: SyncOptions,
+  existingIds?: Set<string>,
+  syncFromTimestamp?: number,
+): Promise<SyncResult> {
+  const result = emptySyncResult();
+  const timer = createTimer();
+  let cursor = options.cursor;
+  const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
+  const since = options.since;
+  const seenIds = new Set<string>();
+
+  // For full sync, use syncFromTimestamp as the floor if configured
+  const createdGte = since ? Math.floor(since.getTime() / 1000) : syncFromTimestamp;
+
+  try {
+    let hasMore = true;
+    while (hasMore) {
+      // Stop before fetching the next page if the sync was cancelled
+      if (options.isCancelled && (await options.isCancelled())) {
+        result.cancelled = true;
+        break;
+      }
+
+      const params: Stripe.RefundListParams = {
+        limit: pageSize,
+        ...(cursor && { starting_after: cursor }),
+        ...(createdGte && { created: { gte: createdGte } }),
+      };
+
+      const fetchedAt = new Date();
+      const refunds = await stripe.refunds.list(params);
+
+      const entities: NormalizedEntity[] = [];
+      for (const refund of refunds.data) {
+        seenIds.add(refund.id);
+        const entity = normalizeStripeEntity(
+          'refund',
+          refund as unknown as Record<string, unknown>,
+          appConfig,
+        );
+        entities.push(entity);
+      }
+
+      if (entities.length > 0) {
+        const { created, updated, unchanged, error } = await upsertPage(
+          entities,
+          fetchedAt,
+          options,
+        );
+        if (error) {
+          result.errors++;
+          result.errorMessages = result.errorMessages || [];
+          result.errorMessages.push(error.message);
+        } else {
+          addUpsertCounts(result, { created, updated, unchanged });
+        }
+      }
+
+      hasMore = refunds.has_more;
+      if (hasMore && refunds.data.length > 0) {
+        cursor = refunds.data[refunds.data.length - 1].id;
+        // Checkpoint the next page so an interrupted sync can resume from here
+        if (options.onCursor) {
+          await options.onCursor(cursor, countProcessed(result));
+        }
+      }
+
+      // Check limit
+      if (options.limit && seenIds.size >= options.limit) {
+        break;
+      }
+    }
+
+    // Detect deletions during full sync (sync window only, not when resuming)
+    if (!result.cancelled && !since && !options.cursor && existingIds) {
+      for (const existingId of existingIds) {
+        if (!seenIds.has(existingId)) {
+          const { error, skipped } = await deleteMissingEntity(
+            appConfig.app_key,
+            STRIPE_COLLECTION_KEYS.refund,
+            existingId,
+            options,
+          );
+          if (error) {
+            result.errors++;
+          } else if (!skipped) {
+            result.deleted++;
+          }
+        }
+      }
+    }
+
+    result.durationMs = timer.elapsed();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    result.success = false;
+    result.errors++;
+    result.errorMessages = [message];
+    setRetryInfo(result, toConnectorError(error));
+  }
+
+  return result;
+}
+
+/**
+ * Sync disputes from Stripe
+ */
+export async function syncDisputes(
+  stripe: Stripe,
+  appConfig: AppConfig,
+  options: SyncOptions,
+  existingIds?: Set<string>,
+  syncFromTimestamp?: number,
+): Promise<SyncResult> {
+  const result = emptySyncResult();
+  const timer = createTimer();
+  let cursor = options.cursor;
+  const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
+  const since = options.since;
+  const seenIds = new Set<string>();
+
+  // For full sync, use syncFromTimestamp as the floor if configured
+  const createdGte = since ? Math.floor(since.getTime() / 1000) : syncFromTimestamp;
+
+  try {
+    let hasMore = true;
+    while (hasMore) {
+      // Stop before fetching the next page if the sync was cancelled
+      if (options.isCancelled && (await options.isCancelled())) {
+        result.cancelled = true;
+        break;
+      }
+
+      const params: Stripe.DisputeListParams = {
+        limit: pageSize,
+        ...(cursor && { starting_after: cursor }),
+        ...(createdGte && { created: { gte: createdGte } }),
+      };
+
+      const fetchedAt = new Date();
+      const disputes = await stripe.disputes.list(params);
+
+      const entities: NormalizedEntity[] = [];
+      for (const dispute of disputes.data) {
+        seenIds.add(dispute.id);
+        const entity = normalizeStripeEntity(
+          'dispute',
+          dispute as unknown as Record<string, unknown>,
+          appConfig,
+        );
+        entities.push(entity);
+      }
+
+      if (entities.length > 0) {
+        const { created, updated, unchanged, error } = await upsertPage(
+          entities,
+          fetchedAt,
+          options,
+        );
+        if (error) {
+          result.errors++;
+          result.errorMessages = result.errorMessages || [];
+          result.errorMessages.push(error.message);
+        } else {
+          addUpsertCounts(result, { created, updated, unchanged });
+        }
+      }
+
+      hasMore = disputes.has_more;
+      if (hasMore && disputes.data.length > 0) {
+        cursor = disputes.data[disputes.data.length - 1].id;
+        // Checkpoint the next page so an interrupted sync can resume from here
+        if (options.onCursor) {
+          await options.onCursor(cursor, countProcessed(result));
+        }
+      }
+
+      // Check limit
+      if (options.limit && seenIds.size >= options.limit) {
+        break;
+      }
+    }
+
+    // Detect deletions during full sync (sync window only, not when resuming)
+    if (!result.cancelled && !since && !options.cursor && existingIds) {
+      for (const existingId of existingIds) {
+        if (!seenIds.has(existingId)) {
+          const { error, skipped } = await deleteMissingEntity(
+            appConfig.app_key,
+            STRIPE_COLLECTION_KEYS.dispute,
+            existingId,
+            options,
+          );
+          if (error) {
+            result.errors++;
+          } else if (!skipped) {
+            result.deleted++;
+          }
+        }
+      }
+    }
+
+    result.durationMs = timer.elapsed();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    result.success = false;
+    result.errors++;
+    result.errorMessages = [message];
+    setRetryInfo(result, toConnectorError(error));
+  }
+
+  return result;
+}
+
+/**
+ * Check whether the balance transactions paid out in a payout can be listed.
+ * Stripe only lists them for automatic payouts, once reconciliation has completed.
+ */
+export function hasReconciledBalanceTransactions(payout: Record<string, unknown>): boolean {
+  return payout.automatic === true && payout.reconciliation_status === 'completed';
+}
+
+/**
+ * Fetch all balance transactions paid out in a payout, handling pagination.
+ * Balance transactions don't reference their payout, so the payout ID is added
+ * to each one as `payout`.
+ */
+export async function fetchAllPayoutBalanceTransactions(
+  stripe: Stripe,
+  payoutId: string,
+): Promise<Record<string, unknown>[]> {
+  const transactions: Record<string, unknown>[] = [];
+  let cursor: string | undefined;
+  let hasMore = true;
+
+  while (hasMore) {
+    const params: Stripe.BalanceTransactionListParams = {
+      limit: DEFAULT_PAGE_SIZE,
+      payout: payoutId,
+      ...(cursor && { starting_after: cursor }),
+    };
+
+    const response = await stripe.balanceTransactions.list(params);
+    for (const transaction of response.data) {
+      transactions.push({ ...transaction, payout: payoutId });
+    }
+
+    hasMore = response.has_more;
+    if (hasMore && response.data.length > 0) {
+      cursor = response.data[response.data.length - 1].id;
+    }
+  }
+
+  return transactions;
+}
+
+/**
+ * Sync payouts from Stripe (also syncs the balance transactions of reconciled payouts)
+ */
+export async function syncPayouts(
+  stripe: Stripe,
+  appConfig: AppConfig,
+  options: SyncOptions,
+  existingIds?: Set<string>,
+  existingTransactionIds?: Set<string>,
+  syncFromTimestamp?: number,
+): Promise<SyncResult> {
+  const result = emptySyncResult();
+  const timer = createTimer();
+  let cursor = options.cursor;
+  const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
+  const since = options.since;
+  const seenIds = new Set<string>();
+  const seenTransactionIds = new Set<string>();
+
+  // For full sync, use syncFromTimestamp as the floor if configured
+  const createdGte = since ? Math.floor(since.getTime() / 1000) : syncFromTimestamp;
+
+  try {
+    let hasMore = true;
+    while (hasMore) {
+      // Stop before fetching the next page if the sync was cancelled
+      if (options.isCancelled && (await options.isCancelled())) {
+        result.cancelled = true;
+        break;
+      }
+
+      const params: Stripe.PayoutListParams = {
+        limit: pageSize,
+        ...(cursor && { starting_after: cursor }),
+        ...(createdGte && { created: { gte: createdGte } }),
+      };
+
+      const fetchedAt = new Date();
+      const payouts = await stripe.payouts.list(params);
+
+      const payoutEntities: NormalizedEntity[] = [];
+      const transactionEntities: NormalizedEntity[] = [];
+
+      for (const payout of payouts.data) {
+        seenIds.add(payout.id);
+
+        // Normalize payout
+        const payoutData = payout as unknown as Record<string, unknown>;
+        payoutEntities.push(normalizeStripeEntity('payout', payoutData, appConfig));
+
+        // Fetch and normalize the balance transactions paid out, once they can be listed
+        if (!hasReconciledBalanceTransactions(payoutData)) {
+          continue;
+        }
+
+        const transactions = await fetchAllPayoutBalanceTransactions(stripe, payout.id);
+        logger.info(
+          'sync',
+          `Payout ${payout.id} has ${transactions.length} balance transaction(s)`,
+        );
+
+        for (const transaction of transactions) {
+          seenTransactionIds.add(transaction.id as string);
+          transactionEntities.push(
+            normalizeStripeEntity('balance_transaction', transaction, appConfig),
+          );
+        }
+      }
+
+      // Upsert payouts
+      if (payoutEntities.length > 0) {
+        const { created, updated, unchanged, error } = await upsertPage(
+          payoutEntities,
+          fetchedAt,
+          options,
+        );
+        if (error) {
+          result.errors++;
+          result.errorMessages = result.errorMessages || [];
+          result.errorMessages.push(`Failed to upsert payouts: ${error.message}`);
+          logger.error('sync', `Failed to upsert payouts: ${error.message}`);
+        } else {
+          addUpsertCounts(result, { created, updated, unchanged });
+        }
+      }
+
+      // Upsert balance transactions
+      if (transactionEntities.length > 0) {
+        const { created, updated, unchanged, error } = await upsertPage(
+          transactionEntities,
+          fetchedAt,
+          options,
+        );
+        if (error) {
+          result.errors++;
+          result.errorMessages = result.errorMessages || [];
+          result.errorMessages.push(`Failed to upsert balance transactions: ${error.message}`);
+          logger.error('sync', `Failed to upsert balance transactions: ${error.message}`);
+        } else {
+          addUpsertCounts(result, { created, updated, unchanged });
+          logger.info(
+            'sync',
+            `Successfully synced ${transactionEntities.length} balance transaction(s)`,
+          );
+        }
+      }
+
+      hasMore = payouts.has_more;
+      if (hasMore && payouts.data.length > 0) {
+        cursor = payouts.data[payouts.data.length - 1].id;
+        // Checkpoint the next page so an interrupted sync can resume from here
+        if (options.onCursor) {
+          await options.onCursor(cursor, countProcessed(result));
+        }
+      }
+
+      if (options.limit && seenIds.size >= options.limit) {
+        break;
+      }
+    }
+
+    // Detect deletions during full sync (sync window only, not when resuming)
+    if (!result.cancelled && !since && !options.cursor && existingIds) {
+      for (const existingId of existingIds) {
+        if (!seenIds.has(existingId)) {
+          const { error, skipped } = await deleteMissingEntity(
+            appConfig.app_key,
+            STRIPE_COLLECTION_KEYS.payout,
+            existingId,
+            options,
+          );
+          if (error) {
+            result.errors++;
+          } else if (!skipped) {
+            result.deleted++;
+          }
+        }
+      }
+    }
+
+    // Detect deleted balance transactions during full sync (sync window only, not when resuming)
+    if (!result.cancelled && !since && !options.cursor && existingTransactionIds) {
+      for (const existingId of existingTransactionIds) {
+        if (!seenTransactionIds.has(existingId)) {
+          const { error, skipped } = await deleteMissingEntity(
+            appConfig.app_key,
+            STRIPE_COLLECTION_KEYS.balance_transaction,
+            existingId,
+            options,
+          );
+          if (error) {
+            result.errors++;
+          } else if (!skipped) {
+            result.deleted++;
+          }
+        }
+      }
+    }
+
+    result.durationMs = timer.elapsed();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    result.success = false;
+    result.errors++;
+    result.errorMessages = [message];
+    setRetryInfo(result, toConnectorError(error));
+    logger.error('sync', `Payout sync failed: ${message}`);
+  }
+
+  return result;
+}
+
+/**
+ * Sync coupons from Stripe
+ */
+export async function syncCoupons(
+  stripe: Stripe,
+  appConfig: AppConfig,
+  options: SyncOptions,
+  existingIds?: Set<string>,
+  syncFromTimestamp?: number,
+): Promise<SyncResult> {
+  const result = emptySyncResult();
+  const timer = createTimer();
+  let cursor = options.cursor;
+  const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
+  const since = options.since;
+  const seenIds = new Set<string>();
+
+  // For full sync, use syncFromTimestamp as the floor if configured
+  const createdGte = since ? Math.floor(since.getTime() / 1000) : syncFromTimestamp;
+
+  try {
+    let hasMore = true;
+    while (hasMore) {
+      // Stop before fetching the next page if the sync was cancelled
+      if (options.isCancelled && (await options.isCancelled())) {
+        result.cancelled = true;
+        break;
+      }
+
+      const params: Stripe.CouponListParams = {
+        limit: pageSize,
+        ...(cursor && { starting_after: cursor }),
+        ...(createdGte && { created: { gte: createdGte } }),
+      };
+
+      const fetchedAt = new Date();
+      const coupons = await stripe.coupons.list(params);
+
+      const entities: NormalizedEntity[] = [];
+      for (const coupon of coupons.data) {
+        seenIds.add(coupon.id);
+        const entity = normalizeStripeEntity(
+          'coupon',
+          coupon as unknown as Record<string, unknown>,
+          appConfig,
+        );
+        entities.push(entity);
+      }
+
+      if (entities.length > 0) {
+        const { created, updated, unchanged, error } = await upsertPage(
+          entities,
+          fetchedAt,
+          options,
+        );
+        if (error) {
+          result.errors++;
+          result.errorMessages = result.errorMessages || [];
+          result.errorMessages.push(error.message);
+        } else {
+          addUpsertCounts(result, { created, updated, unchanged });
+        }
+      }
+
+      hasMore = coupons.has_more;
+      if (hasMore && coupons.data.length > 0) {
+        cursor = coupons.data[coupons.data.length - 1].id;
+        // Checkpoint the next page so an interrupted sync can resume from here
+        if (options.onCursor) {
+          await options.onCursor(cursor, countProcessed(result));
+        }
+      }
+
+      // Check limit
+      if (options.limit && seenIds.size >= options.limit) {
+        break;
+      }
+    }
+
+    // Detect deletions during full sync (sync window only, not when resuming)
+    if (!result.cancelled && !since && !options.cursor && existingIds) {
+      for (const existingId of existingIds) {
+        if (!seenIds.has(existingId)) {
+          const { error, skipped } = await deleteMissingEntity(
+            appConfig.app_key,
+            STRIPE_COLLECTION_KEYS.coupon,
+            existingId,
+            options,
+          );
+          if (error) {
+            result.errors++;
+          } else if (!skipped) {
+            result.deleted++;
+          }
+        }
+      }
+    }
+
+    result.durationMs = timer.elapsed();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    result.success = false;
+    result.errors++;
+    result.errorMessages = [message];
+    setRetryInfo(result, toConnectorError(error));
+  }
+
+  return result;
+}
+
+/**
+ * Sync promotion codes from Stripe
+ */
+export async function syncPromotionCodes(
+  stripe: Stripe,
+  appConfig: AppConfig,
+  options: SyncOptions,
+  existingIds?: Set<string>,
+  syncFromTimestamp?: number,
+): Promise<SyncResult> {
+  const result = emptySyncResult();
+  const timer = createTimer();
+  let cursor = options.cursor;
+  const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
+  const since = options.since;
+  const seenIds = new Set<string>();
+
+  // For full sync, use syncFromTimestamp as the floor if configured
+  const createdGte = since ? Math.floor(since.getTime() / 1000) : syncFromTimestamp;
+
+  try {
+    let hasMore = true;
+    while (hasMore) {
+      // Stop before fetching the next page if the sync was cancelled
+      if (options.isCancelled && (await options.isCancelled())) {
+        result.cancelled = true;
+        break;
+      }
+
+      const params: Stripe.PromotionCodeListParams = {
+        limit: pageSize,
+        ...(cursor && { starting_after: cursor }),
+        ...(createdGte && { created: { gte: createdGte } }),
+      };
+
+      const fetchedAt = new Date();
+      const promotionCodes = await stripe.promotionCodes.list(params);
+
+      const entities: NormalizedEntity[] = [];
+      for (const promotionCode of promotionCodes.data) {
+        seenIds.add(promotionCode.id);
+        const entity = normalizeStripeEntity(
+          'promotion_code',
+          promotionCode as unknown as Record<string, unknown>,
+          appConfig,
+        );
+        entities.push(entity);
+      }
+
+      if (entities.length > 0) {
+        const { created, updated, unchanged, error } = await upsertPage(
+          entities,
+          fetchedAt,
+          options,
+        );
+        if (error) {
+          result.errors++;
+          result.errorMessages = result.errorMessages || [];
+          result.errorMessages.push(error.message);
+        } else {
+          addUpsertCounts(result, { created, updated, unchanged });
+        }
+      }
+
+      hasMore = promotionCodes.has_more;
+      if (hasMore && promotionCodes.data.length > 0) {
+        cursor = promotionCodes.data[promotionCodes.data.length - 1].id;
+        // Checkpoint the next page so an interrupted sync can resume from here
+        if (options.onCursor) {
+          await options.onCursor(cursor, countProcessed(result));
+        }
+      }
+
+      // Check limit
+      if (options.limit && seenIds.size >= options.limit) {
+        break;
+      }
+    }
+
+    // Detect deletions during full sync (sync window only, not when resuming)
+    if (!result.cancelled && !since && !options.cursor && existingIds) {
+      for (const existingId of existingIds) {
+        if (!seenIds.has(existingId)) {
+          const { error, skipped } = await deleteMissingEntity(
+            appConfig.app_key,
+            STRIPE_COLLECTION_KEYS.promotion_code,
+            existingId,
+            options,
+          );
+          if (error) {
+            result.errors++;
+          } else if (!skipped) {
+            result.deleted++;
+          }
+        }
+      }
+    }
+
+    result.durationMs = timer.elapsed();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    result.success = false;
+    result.errors++;
+    result.errorMessages = [message];
+    setRetryInfo(result, toConnectorError(error));
+  }
+
+  return result;
+}
+
+/**
+ * Sync tax rates from Stripe
+ */
+export async function syncTaxRates(
+  stripe: Stripe,
+  appConfig: AppConfig,
+  options: SyncOptions,
+  existingIds?: Set<string>,
+  syncFromTimestamp?: number,
+): Promise<SyncResult> {
+  const result = emptySyncResult();
+  const timer = createTimer();
+  let cursor = options.cursor;
+  const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
+  const since = options.since;
+  const seenIds = new Set<string>();
+
+  // For full sync, use syncFromTimestamp as the floor if configured
+  const createdGte = since ? Math.floor(since.getTime() / 1000) : syncFromTimestamp;
+
+  try {
+    let hasMore = true;
+    while (hasMore) {
+      // Stop before fetching the next page if the sync was cancelled
+      if (options.isCancelled && (await options.isCancelled())) {
+        result.cancelled = true;
+        break;
+      }
+
+      const params: Stripe.TaxRateListParams = {
+        limit: pageSize,
+        ...(cursor && { starting_after: cursor }),
+        ...(createdGte && { created: { gte: createdGte } }),
+      };
+
+      const fetchedAt = new Date();
+      const taxRates = await stripe.taxRates.list(params);
+
+      const entities: NormalizedEntity[] = [];
+      for (const taxRate of taxRates.data) {
+        seenIds.add(taxRate.id);
+        const entity = normalizeStripeEntity(
+          'tax_rate',
+          taxRate as unknown as Record<string, unknown>,
+          appConfig,
+        );
+        entities.push(entity);
+      }
+
+      if (entities.length > 0) {
+        const { created, updated, unchanged, error } = await upsertPage(
+          entities,
+          fetchedAt,
+          options,
+        );
+        if (error) {
+          result.errors++;
+          result.errorMessages = result.errorMessages || [];
+          result.errorMessages.push(error.message);
+        } else {
+          addUpsertCounts(result, { created, updated, unchanged });
+        }
+      }
+
+      hasMore = taxRates.has_more;
+      if (hasMore && taxRates.data.length > 0) {
+        cursor = taxRates.data[taxRates.data.length - 1].id;
+        // Checkpoint the next page so an interrupted sync can resume from here
+        if (options.onCursor) {
+          await options.onCursor(cursor, countProcessed(result));
+        }
+      }
+
+      // Check limit
+      if (options.limit && seenIds.size >= options.limit) {
+        break;
+      }
+    }
+
+    // Detect deletions during full sync (sync window only, not when resuming)
+    if (!result.cancelled && !since && !options.cursor && existingIds) {
+      for (const existingId of existingIds) {
+        if (!seenIds.has(existingId)) {
+          const { error, skipped } = await deleteMissingEntity(
+            appConfig.app_key,
+            STRIPE_COLLECTION_KEYS.tax_rate,
+            existingId,
+            options,
+          );
+          if (error) {
+            result.errors++;
+          } else if (!skipped) {
+            result.deleted++;
+          }
+        }
+      }
+    }
+
+    result.durationMs = timer.elapsed();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    result.success = false;
+    result.errors++;
+    result.errorMessages = [message];
+    setRetryInfo(result, toConnectorError(error));
+  }
+
+  return result;
+}
+
+/**
+ * Fetch the IDs of all connected accounts of a Connect platform, handling pagination
+ */
+export async function fetchConnectedAccountIds(stripe: Stripe): Promise<string[]> {
+  const accountIds: string[] = [];
+  let cursor: string | undefined;
+  let hasMore = true;
+
+  while (hasMore) {
+    const params: Stripe.AccountListParams = {
+      limit: DEFAULT_PAGE_SIZE,
+      ...(cursor && { starting_after: cursor }),
+    };
+
+    const response = await stripe.accounts.list(params);
+    accountIds.push(...response.data.map((account) => account.id));
+
+    hasMore = response.has_more;
+    if (hasMore && response.data.length > 0) {
+      cursor = response.data[response.data.length - 1].id;
+    }
+  }
+
+  return accountIds;
+}
+
+/**
+ * Sync the connected accounts of a Connect platform from Stripe
+ */
+export async function syncAccounts(
+  stripe: Stripe,
+  appConfig: AppConfig,
+  options: SyncOptions,
+  existingIds?: Set<string>,
+  syncFromTimestamp?: number,
+): Promise<SyncResult> {
+  const result = emptySyncResult();
+  const timer = createTimer();
+  let cursor = options.cursor;
+  const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
+  const since = options.since;
+  const seenIds = new Set<string>();
+
+  // For full sync, use syncFromTimestamp as the floor if configured
+  const createdGte = since ? Math.floor(since.getTime() / 1000) : syncFromTimestamp;
+
+  try {
+    let hasMore = true;
+    while (hasMore) {
+      // Stop before fetching the next page if the sync was cancelled
+      if (options.isCancelled && (await options.isCancelled())) {
+        result.cancelled = true;
+        break;
+      }
+
+      const params: Stripe.AccountListParams = {
+        limit: pageSize,
+        ...(cursor && { starting_after: cursor }),
+        ...(createdGte && { created: { gte: createdGte } }),
+      };
+
+      const fetchedAt = new Date();
+      const accounts = await stripe.accounts.list(params);
+
+      const entities: NormalizedEntity[] = [];
+      for (const account of accounts.data) {
+        seenIds.add(account.id);
+        const entity = normalizeStripeEntity(
+          'account',
+          account as unknown as Record<string, unknown>,
+          appConfig,
+        );
+        entities.push(entity);
+      }
+
+      if (entities.length > 0) {
+        const { created, updated, unchanged, error } = await upsertPage(
+          entities,
+          fetchedAt,
+          options,
+        );
+        if (error) {
+          result.errors++;
+          result.errorMessages = result.errorMessages || [];
+          result.errorMessages.push(error.message);
+        } else {
+          addUpsertCounts(result, { created, updated, unchanged });
+        }
+      }
+
+      hasMore = accounts.has_more;
+      if (hasMore && accounts.data.length > 0) {
+        cursor = accounts.data[accounts.data.length - 1].id;
+        // Checkpoint the next page so an interrupted sync can resume from here
+        if (options.onCursor) {
+          await options.onCursor(cursor, countProcessed(result));
+        }
+      }
+
+      // Check limit
+      if (options.limit && seenIds.size >= options.limit) {
+        break;
+      }
+    }
+
+    // Detect deletions during full sync (sync window only, not when resuming)
+    if (!result.cancelled && !since && !options.cursor && existingIds) {
+      for (const existingId of existingIds) {
+        if (!seenIds.has(existingId)) {
+          const { error, skipped } = await deleteMissingEntity(
+            appConfig.app_key,
+            STRIPE_COLLECTION_KEYS.account,
+            existingId,
+            options,
+          );
+          if (error) {
+            result.errors++;
+          } else if (!skipped) {
+            result.deleted++;
+          }
+        }
+      }
+    }
+
+    result.durationMs = timer.elapsed();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    result.success = false;
+    result.errors++;
+    result.errorMessages = [message];
+    setRetryInfo(result, toConnectorError(error));
+  }
+
+  return result;
+}
@@ -19,7 +19,19 @@ export type StripeResourceType =
   | 'price'
   | 'plan'
   | 'subscription'
-  | 'subscription_item';
+  | 'subscription_item'
+  | 'invoice'
+  | 'invoice_line_item'
+  | 'charge'
+  | 'payment_intent'
+  | 'refund'
+  | 'dispute'
+  | 'payout'
+  | 'balance_transaction'
+  | 'coupon'
+  | 'promotion_code'
+  | 'tax_rate'
+  | 'account';
 
 /**
  * Mapping of Stripe resource types to collection keys
@@ -31,6 +43,18 @@ export const STRIPE_COLLECTION_KEYS: Record<StripeResourceType, string> = {
   plan: 'stripe_plan',
   subscription: 'stripe_subscription',
   subscription_item: 'stripe_subscription_item',
+  invoice: 'stripe_invoice',
+  invoice_line_item: 'stripe_invoice_line_item',
+  charge: 'stripe_charge',
+  payment_intent: 'stripe_payment_intent',
+  refund: 'stripe_refund',
+  dispute: 'stripe_dispute',
+  payout: 'stripe_payout',
+  balance_transaction: 'stripe_balance_transaction',
+  coupon: 'stripe_coupon',
+  promotion_code: 'stripe_promotion_code',
+  tax_rate: 'stripe_tax_rate',
+  account: 'stripe_account',
 };
 
 // =============================================================================
@@ -65,6 +89,80 @@ export const STRIPE_WEBHOOK_EVENTS = {
   'customer.subscription.created': { resourceType: 'subscription', eventType: 'create' },
   'customer.subscription.updated': { resourceType: 'subscription', eventType: 'update' },
   'customer.subscription.deleted': { resourceType: 'subscription', eventType: 'archive' },
+
+  // Invoice events (only draft invoices can be deleted)
+  'invoice.created': { resourceType: 'invoice', eventType: 'create' },
+  'invoice.updated': { resourceType: 'invoice', eventType: 'update' },
+  'invoice.finalized': { resourceType: 'invoice', eventType: 'update' },
+  'invoice.paid': { resourceType: 'invoice', eventType: 'update' },
+  'invoice.payment_failed': { resourceType: 'invoice', eventType: 'update' },
+  'invoice.marked_uncollectible': { resourceType: 'invoice', eventType: 'update' },
+  'invoice.voided': { resourceType: 'invoice', eventType: 'archive' },
+  'invoice.deleted': { resourceType: 'invoice', eventType: 'delete' },
+
+  // Charge events (charges have no created event; they start out pending, succeeded or failed)
+  'charge.pending': { resourceType: 'charge', eventType: 'create' },
+  'charge.succeeded': { resourceType: 'charge', eventType: 'create' },
+  'charge.failed': { resourceType: 'charge', eventType: 'create' },
+  'charge.captured': { resourceType: 'charge', eventType: 'update' },
+  'charge.expired': { resourceType: 'charge', eventType: 'update' },
+  'charge.refunded': { resourceType: 'charge', eventType: 'update' },
+  'charge.updated': { resourceType: 'charge', eventType: 'update' },
+
+  // Payment intent events
+  'payment_intent.created': { resourceType: 'payment_intent', eventType: 'create' },
+  'payment_intent.processing': { resourceType: 'payment_intent', eventType: 'update' },
+  'payment_intent.requires_action': { resourceType: 'payment_intent', eventType: 'update' },
+  'payment_intent.amount_capturable_updated': {
+    resourceType: 'payment_intent',
+    eventType: 'update',
+  },
+  'payment_intent.partially_funded': { resourceType: 'payment_intent', eventType: 'update' },
+  'payment_intent.succeeded': { resourceType: 'payment_intent', eventType: 'update' },
+  'payment_intent.payment_failed': { resourceType: 'payment_intent', eventType: 'update' },
+  'payment_intent.canceled': { resourceType: 'payment_intent', eventType: 'archive' },
+
+  // Refund events
+  'refund.created': { resourceType: 'refund', eventType: 'create' },
+  'refund.updated': { resourceType: 'refund', eventType: 'update' },
+  'refund.failed': { resourceType: 'refund', eventType: 'update' },
+
+  // Dispute events (closed disputes are kept, their status says whether they were won or lost)
+  'charge.dispute.created': { resourceType: 'dispute', eventType: 'create' },
+  'charge.dispute.updated': { resourceType: 'dispute', eventType: 'update' },
+  'charge.dispute.closed': { resourceType: 'dispute', eventType: 'update' },
+  'charge.dispute.funds_withdrawn': { resourceType: 'dispute', eventType: 'update' },
+  'charge.dispute.funds_reinstated': { resourceType: 'dispute', eventType: 'update' },
+
+  // Payout events
+  'payout.created': { resourceType: 'payout', eventType: 'create' },
+  'payout.updated': { resourceType: 'payout', eventType: 'update' },
+  'payout.paid': { resourceType: 'payout', eventType: 'update' },
+  'payout.failed': { resourceType: 'payout', eventType: 'update' },
+  'payout.reconciliation_completed': { resourceType: 'payout', eventType: 'update' },
+  'payout.canceled': { resourceType: 'payout', eventType: 'archive' },
+
+  // Coupon events
+  'coupon.created': { resourceType: 'coupon', eventType: 'create' },
+  'coupon.updated': { resourceType: 'coupon', eventType: 'update' },
+  'coupon.deleted': { resourceType: 'coupon', eventType: 'delete' },
+
+  // Promotion code events
+  'promotion_code.created': { resourceType: 'promotion_code', eventType: 'create' },
+  'promotion_code.updated': { resourceType: 'promotion_code', eventType: 'update' },
+
+  // Tax rate events
+  'tax_rate.created': { resourceType: 'tax_rate', eventType: 'create' },
+  'tax_rate.updated': { resourceType: 'tax_rate', eventType: 'update' },
+
+  // Discount events: the discounted customer, or subscription when the discount
+  // belongs to one, is refetched so its discount state is up to date
+  'customer.discount.created': { resourceType: 'customer', eventType: 'update' },
+  'customer.discount.updated': { resourceType: 'customer', eventType: 'update' },
+  'customer.discount.deleted': { resourceType: 'customer', eventType: 'update' },
+
+  // Connected account events (Connect)
+  'account.updated': { resourceType: 'account', eventType: 'update' },
 } as const;
 
 export type StripeWebhookEventType = keyof typeof STRIPE_WEBHOOK_EVENTS;
@@ -93,6 +191,30 @@ export interface StripeAppConfig {
    * Example: "2024-01-01T00:00:00Z"
    */
   sync_from?: string;
+  /** Stripe Connect options, for platforms syncing their connected accounts */
+  connect?: StripeConnectConfig;
+  /**
+   * Connected account to make requests as (the `Stripe-Account` header).
+   * Entities synced for it record the account ID in `raw_payload.stripe_account`.
+   * Set on the scoped app configs used for connected accounts; it can also be set
+   * directly to sync a single connected account.
+   */
+  stripe_account?: string;
+}
+
+/**
+ * Stripe Connect configuration
+ */
+export interface StripeConnectConfig {
+  /** Sync the platform's connected accounts as `account` entities */
+  enabled: boolean;
+  /**
+   * Also sync the resources of each connected account, making the requests as that
+   * account (default: false)
+   */
+  sync_connected_accounts?: boolean;
+  /** Connected accounts whose resources are synced (default: every connected account) */
+  account_ids?: string[];
 }
 
 // =============================================================================
@@ -118,4 +240,16 @@ export type StripeObject =
   | Stripe.Price
   | Stripe.Plan
   | Stripe.Subscription
-  | Stripe.SubscriptionItem;
+  | Stripe.SubscriptionItem
+  | Stripe.Invoice
+  | Stripe.InvoiceLineItem
+  | Stripe.Charge
+  | Stripe.PaymentIntent
+  | Stripe.Refund
+  | Stripe.Dispute
+  | Stripe.Payout
+  | Stripe.BalanceTransaction
+  | Stripe.Coupon
+  | Stripe.PromotionCode
+  | Stripe.TaxRate
+  | Stripe.Account;
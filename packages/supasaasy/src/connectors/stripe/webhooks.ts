@@ -12,8 +12,12 @@ import type {
   WebhookEventType,
   WebhookVerificationResult,
 } from '../../types/index.ts';
-import { createStripeClient, getWebhookSecret, logger } from './client.ts';
+import { createStripeClient, getWebhookSecret, logger, withStripeAccount } from './client.ts';
 import { normalizeStripeEntity } from './normalization.ts';
+import {
+  fetchAllPayoutBalanceTransactions,
+  hasReconciledBalanceTransactions,
+} from './sync/resources.ts';
 import {
   STRIPE_WEBHOOK_EVENTS,
   type StripeResourceType,
@@ -69,7 +73,39 @@ export async function verifyWebhook(
 // =============================================================================
 
 /**
- * Parse a verified webhook event into our normalized format
+ * Check whether an update event restores an archived object: products, prices,
+ * plans, promotion codes and tax rates are archived with `active: false` and
+ * restored by reactivating them.
+ */
+function isRestoreEvent(event: Stripe.Event, data: Record<string, unknown>): boolean {
+  const previous = (event.data as { previous_attributes?: Record<string, unknown> })
+    .previous_attributes;
+  return previous?.active === false && data.active === true;
+}
+
+/**
+ * Check whether an event is about the discount of a customer or subscription
+ */
+function isDiscountEvent(eventType: string): boolean {
+  return eventType.startsWith('customer.discount.');
+}
+
+/**
+ * Get the object a discount applies to: its subscription, or else its customer
+ */
+function getDiscountTarget(
+  discount: Record<string, unknown>,
+): { resourceType: StripeResourceType; externalId: string } {
+  if (typeof discount.subscription === 'string') {
+    return { resourceType: 'subscription', externalId: discount.subscription };
+  }
+  return { resourceType: 'customer', externalId: discount.customer as string };
+}
+
+/**
+ * Parse a verified webhook event into our normalized format.
+ * Discount events are parsed as updates of the customer or subscription discounted.
+ * Connect events keep the connected account they come from in `metadata.account`.
  */
 // deno-lint-ignore require-await
 export async function parseWebhookEvent(
@@ -85,6 +121,7 @@ export async function parseWebhookEvent(
     // Unknown event type, treat as update
     logger.warn('webhook', `Unknown event type: ${eventType}`);
     return {
+      eventId: event.id,
       eventType: 'update',
       originalEventType: eventType,
       resourceType: 'unknown',
@@ -96,18 +133,22 @@ export async function parseWebhookEvent(
   }
 
   const data = event.data.object as unknown as Record<string, unknown>;
-  const externalId = data.id as string;
+  const target = isDiscountEvent(eventType)
+    ? getDiscountTarget(data)
+    : { resourceType: mapping.resourceType, externalId: data.id as string };
 
   return {
-    eventType: mapping.eventType as WebhookEventType,
+    eventId: event.id,
+    eventType: isRestoreEvent(event, data) ? 'undelete' : mapping.eventType as WebhookEventType,
     originalEventType: eventType,
-    resourceType: mapping.resourceType,
-    externalId,
+    resourceType: target.resourceType,
+    externalId: target.externalId,
     data,
     timestamp: new Date(event.created * 1000),
     metadata: {
       livemode: event.livemode,
       api_version: event.api_version,
+      ...(event.account && { account: event.account }),
     },
   };
 }
@@ -116,10 +157,77 @@ export async function parseWebhookEvent(
 // Entity Extraction
 // =============================================================================
 
+/**
+ * Refetch an object so its current state is stored, rather than the snapshot
+ * in the event
+ */
+async function fetchCurrentObject(
+  resourceType: StripeResourceType,
+  externalId: string,
+  appConfig: AppConfig,
+): Promise<Record<string, unknown> | null> {
+  const stripe = createStripeClient(appConfig);
+
+  logger.info('webhook', `Fetching current ${resourceType}: ${externalId}`);
+
+  switch (resourceType) {
+    case 'customer':
+      return await stripe.customers.retrieve(externalId) as unknown as Record<string, unknown>;
+    case 'subscription':
+      return await stripe.subscriptions.retrieve(externalId) as unknown as Record<
+        string,
+        unknown
+      >;
+    case 'product':
+      return await stripe.products.retrieve(externalId) as unknown as Record<string, unknown>;
+    case 'price':
+      return await stripe.prices.retrieve(externalId) as unknown as Record<string, unknown>;
+    case 'plan':
+      return await stripe.plans.retrieve(externalId) as unknown as Record<string, unknown>;
+    case 'promotion_code':
+      return await stripe.promotionCodes.retrieve(externalId) as unknown as Record<
+        string,
+        unknown
+      >;
+    case 'tax_rate':
+      return await stripe.taxRates.retrieve(externalId) as unknown as Record<string, unknown>;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Get the app config to handle an event with: Connect events from a connected
+ * account are handled in that account's scope, so refetches are made as the
+ * account and the entities record its ID
+ */
+function getEventAppConfig(event: ParsedWebhookEvent, appConfig: AppConfig): AppConfig {
+  const account = event.metadata?.account;
+  if (typeof account !== 'string' || event.resourceType === 'account') {
+    return appConfig;
+  }
+  return withStripeAccount(appConfig, account);
+}
+
+/**
+ * Get the object data for an event, refetching it for undelete events and for
+ * discount events (whose data is the discount, not the object discounted)
+ */
+async function getEventObject(
+  event: ParsedWebhookEvent,
+  appConfig: AppConfig,
+): Promise<Record<string, unknown>> {
+  if (event.eventType !== 'undelete' && !isDiscountEvent(event.originalEventType)) {
+    return event.data;
+  }
+
+  const resourceType = event.resourceType as StripeResourceType;
+  return (await fetchCurrentObject(resourceType, event.externalId, appConfig)) ?? event.data;
+}
+
 /**
  * Extract and normalize entity from webhook event
  */
-// deno-lint-ignore require-await
 export async function extractEntity(
   event: ParsedWebhookEvent,
   appConfig: AppConfig,
@@ -134,15 +242,85 @@ export async function extractEntity(
     return null;
   }
 
+  const scopedConfig = getEventAppConfig(event, appConfig);
   const resourceType = event.resourceType as StripeResourceType;
-  return normalizeStripeEntity(resourceType, event.data, appConfig);
+  return normalizeStripeEntity(
+    resourceType,
+    await getEventObject(event, scopedConfig),
+    scopedConfig,
+  );
+}
+
+/**
+ * Normalize the objects embedded in a list field of an event object, such as the
+ * items of a subscription or the lines of an invoice
+ */
+function extractEmbeddedEntities(
+  data: Record<string, unknown>,
+  field: string,
+  resourceType: StripeResourceType,
+  appConfig: AppConfig,
+  names: { parent: string; child: string },
+): NormalizedEntity[] {
+  // Lists come as { object: 'list', data: [...], has_more: boolean, url: string }
+  const list = data[field] as {
+    object?: string;
+    data?: Array<Record<string, unknown>>;
+    has_more?: boolean;
+  } | undefined;
+
+  if (!list || !list.data || !Array.isArray(list.data)) {
+    logger.warn(
+      'webhook',
+      `${names.parent} ${data.id} has no embedded ${names.child}s in webhook payload`,
+    );
+    return [];
+  }
+
+  logger.info(
+    'webhook',
+    `${names.parent} ${data.id} has ${list.data.length} embedded ${names.child}(s)`,
+  );
+
+  // Warn if there are more entries than what's embedded (pagination issue)
+  if (list.has_more) {
+    logger.warn(
+      'webhook',
+      `${names.parent} ${data.id} has more ${names.child}s than embedded in webhook. ` +
+        `Consider running a full sync to capture all ${names.child}s.`,
+    );
+  }
+
+  return list.data.map((item) => normalizeStripeEntity(resourceType, item, appConfig));
+}
+
+/**
+ * Fetch and normalize the balance transactions paid out in a payout. Payout events
+ * don't embed them, so they are listed once the payout has been reconciled.
+ */
+async function extractPayoutBalanceTransactions(
+  data: Record<string, unknown>,
+  appConfig: AppConfig,
+): Promise<NormalizedEntity[]> {
+  if (!hasReconciledBalanceTransactions(data)) {
+    return [];
+  }
+
+  const stripe = createStripeClient(appConfig);
+  const transactions = await fetchAllPayoutBalanceTransactions(stripe, data.id as string);
+
+  logger.info('webhook', `Payout ${data.id} has ${transactions.length} balance transaction(s)`);
+
+  return transactions.map((transaction) =>
+    normalizeStripeEntity('balance_transaction', transaction, appConfig)
+  );
 }
 
 /**
  * Extract and normalize multiple entities from webhook event.
- * Handles nested resources like subscription items within subscriptions.
+ * Handles nested resources like subscription items within subscriptions and
+ * the balance transactions of payouts.
  */
-// deno-lint-ignore require-await
 export async function extractEntities(
   event: ParsedWebhookEvent,
   appConfig: AppConfig,
@@ -159,49 +337,31 @@ export async function extractEntities(
     return entities;
   }
 
+  const scopedConfig = getEventAppConfig(event, appConfig);
   const resourceType = event.resourceType as StripeResourceType;
 
   // Add the main entity
-  const mainEntity = normalizeStripeEntity(resourceType, event.data, appConfig);
+  const data = await getEventObject(event, scopedConfig);
+  const mainEntity = normalizeStripeEntity(resourceType, data, scopedConfig);
   entities.push(mainEntity);
 
-  // For subscription events, also extract subscription items
+  // For subscription and invoice events, also extract their items and line items
   if (resourceType === 'subscription') {
-    const subscriptionData = event.data;
-
-    // Check if items are embedded in the subscription data
-    // Items come as { object: 'list', data: [...], has_more: boolean, url: string }
-    const items = subscriptionData.items as {
-      object?: string;
-      data?: Array<Record<string, unknown>>;
-      has_more?: boolean;
-    } | undefined;
-
-    if (items && items.data && Array.isArray(items.data)) {
-      logger.info(
-        'webhook',
-        `Subscription ${subscriptionData.id} has ${items.data.length} embedded item(s)`,
-      );
-
-      for (const item of items.data) {
-        const itemEntity = normalizeStripeEntity('subscription_item', item, appConfig);
-        entities.push(itemEntity);
-      }
-
-      // Warn if there are more items than what's embedded (pagination issue)
-      if (items.has_more) {
-        logger.warn(
-          'webhook',
-          `Subscription ${subscriptionData.id} has more items than embedded in webhook. ` +
-            `Consider running a full sync to capture all items.`,
-        );
-      }
-    } else {
-      logger.warn(
-        'webhook',
-        `Subscription ${subscriptionData.id} has no embedded items in webhook payload`,
-      );
-    }
+    entities.push(
+      ...extractEmbeddedEntities(data, 'items', 'subscription_item', scopedConfig, {
+        parent: 'Subscription',
+        child: 'item',
+      }),
+    );
+  } else if (resourceType === 'invoice') {
+    entities.push(
+      ...extractEmbeddedEntities(data, 'lines', 'invoice_line_item', scopedConfig, {
+        parent: 'Invoice',
+        child: 'line item',
+      }),
+    );
+  } else if (resourceType === 'payout') {
+    entities.push(...await extractPayoutBalanceTransactions(data, scopedConfig));
   }
 
   return entities;
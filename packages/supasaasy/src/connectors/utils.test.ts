@@ -6,10 +6,12 @@
  * - Sync result helpers
  * - Collection key builders
  * - Archive detection
+ * - Paginated sync (including lifecycle hooks)
  */
 
 import { assertEquals, assertExists, assertInstanceOf } from '@std/assert';
 import {
+  addUpsertCounts,
   buildCollectionKey,
   createConnectorLogger,
   createNormalizedEntity,
@@ -21,8 +23,14 @@ import {
   failedSyncResult,
   getCollectionKey,
   mergeSyncResults,
+  type PaginatedResponse,
+  paginatedSync,
   rowToEntity,
+  setRetryInfo,
 } from './utils.ts';
+import { ApiError, RateLimitError } from './errors.ts';
+import { clearConfig, setConfig } from './index.ts';
+import { MockEntityStore } from './__tests__/mocks/db.ts';
 import type { EntityRow, NormalizedEntity, SupportedResource, SyncResult } from '../types/index.ts';
 
 // =============================================================================
@@ -60,6 +68,22 @@ Deno.test('[Utils] entityToRow - handles undefined archivedAt', () => {
   const row = entityToRow(entity);
 
   assertEquals(row.archived_at, null);
+  assertEquals(row.source_updated_at, null);
+});
+
+Deno.test('[Utils] entityToRow - converts sourceUpdatedAt', () => {
+  const entity: NormalizedEntity = {
+    externalId: 'ext_123',
+    appKey: 'test_app',
+    collectionKey: 'test_collection',
+    rawPayload: { id: 'ext_123' },
+    sourceUpdatedAt: new Date('2024-06-01T12:00:00Z'),
+  };
+
+  const row = entityToRow(entity);
+
+  assertEquals(row.source_updated_at, '2024-06-01T12:00:00.000Z');
+  assertEquals(rowToEntity(row).sourceUpdatedAt, new Date('2024-06-01T12:00:00Z'));
 });
 
 Deno.test('[Utils] rowToEntity - converts EntityRow to NormalizedEntity', () => {
@@ -299,6 +323,27 @@ Deno.test('[Utils] mergeSyncResults - combines multiple results', () => {
   assertEquals(merged.errors, 0);
 });
 
+Deno.test('[Utils] mergeSyncResults - sums unchanged counts', () => {
+  const merged = mergeSyncResults([
+    { success: true, created: 1, updated: 0, unchanged: 4, deleted: 0, errors: 0 },
+    { success: true, created: 0, updated: 2, deleted: 0, errors: 0 },
+    { success: true, created: 0, updated: 0, unchanged: 3, deleted: 0, errors: 0 },
+  ]);
+
+  assertEquals(merged.unchanged, 7);
+});
+
+Deno.test('[Utils] addUpsertCounts - adds batch counts to a sync result', () => {
+  const result = emptySyncResult();
+
+  addUpsertCounts(result, { created: 2, updated: 1, unchanged: 3 });
+  addUpsertCounts(result, { created: 1, updated: 0 });
+
+  assertEquals(result.created, 3);
+  assertEquals(result.updated, 1);
+  assertEquals(result.unchanged, 3);
+});
+
 Deno.test('[Utils] mergeSyncResults - sets success to false if any failed', () => {
   const results: SyncResult[] = [
     { success: true, created: 5, updated: 0, deleted: 0, errors: 0 },
@@ -314,6 +359,54 @@ Deno.test('[Utils] mergeSyncResults - sets success to false if any failed', () =
   assertEquals(merged.errorMessages!.includes('Error 1'), true);
 });
 
+Deno.test('[Utils] mergeSyncResults - retryable only if every failure is retryable', () => {
+  const failure = { success: false, created: 0, updated: 0, deleted: 0, errors: 1 };
+
+  const allRetryable = mergeSyncResults([
+    { ...failure, retryable: true, retryAfterSeconds: 10 },
+    { success: true, created: 1, updated: 0, deleted: 0, errors: 0 },
+    { ...failure, retryable: true, retryAfterSeconds: 30 },
+  ]);
+  assertEquals(allRetryable.retryable, true);
+  assertEquals(allRetryable.retryAfterSeconds, 30);
+
+  const mixed = mergeSyncResults([
+    { ...failure, retryable: true },
+    { ...failure, retryable: false },
+  ]);
+  assertEquals(mixed.retryable, false);
+});
+
+Deno.test('[Utils] mergeSyncResults - marks merged result cancelled if any was', () => {
+  const merged = mergeSyncResults([
+    { success: true, created: 1, updated: 0, deleted: 0, errors: 0 },
+    { success: true, created: 1, updated: 0, deleted: 0, errors: 0, cancelled: true },
+  ]);
+
+  assertEquals(merged.cancelled, true);
+  assertEquals(merged.success, true);
+});
+
+Deno.test('[Utils] setRetryInfo - records retry information from errors', () => {
+  const rateLimited = failedSyncResult('rate limited');
+  setRetryInfo(rateLimited, new RateLimitError('test', 42));
+  assertEquals(rateLimited.retryable, true);
+  assertEquals(rateLimited.retryAfterSeconds, 42);
+
+  const serverError = failedSyncResult('server error');
+  setRetryInfo(serverError, new ApiError('test', 'server error', 503));
+  assertEquals(serverError.retryable, true);
+  assertEquals(serverError.retryAfterSeconds, undefined);
+
+  const badRequest = failedSyncResult('bad request');
+  setRetryInfo(badRequest, new ApiError('test', 'bad request', 400));
+  assertEquals(badRequest.retryable, false);
+
+  const unknown = failedSyncResult('boom');
+  setRetryInfo(unknown, new Error('boom'));
+  assertEquals(unknown.retryable, false);
+});
+
 Deno.test('[Utils] mergeSyncResults - preserves last cursor', () => {
   const results: SyncResult[] = [
     { success: true, created: 0, updated: 0, deleted: 0, errors: 0, nextCursor: 'cursor_1' },
@@ -405,3 +498,199 @@ Deno.test('[Utils] createTimer - elapsed increases over time', async () => {
 
   assertEquals(elapsed2 >= elapsed1, true);
 });
+
+// =============================================================================
+// Paginated Sync Tests
+// =============================================================================
+
+interface TestItem {
+  id: string;
+}
+
+/**
+ * Build paginatedSync callbacks over fixed pages keyed by cursor
+ */
+function createPagedSource(pages: Record<string, PaginatedResponse<TestItem>>) {
+  const deleted: string[] = [];
+  return {
+    deleted,
+    config: {
+      connectorName: 'test',
+      resourceType: 'item',
+      collectionKey: 'test_item',
+      appKey: 'test_app',
+      listPage: (cursor?: string) => Promise.resolve(pages[cursor ?? 'start']),
+      getId: (item: TestItem) => item.id,
+      normalize: (item: TestItem) =>
+        createNormalizedEntity({
+          externalId: item.id,
+          appKey: 'test_app',
+          collectionKey: 'test_item',
+          rawPayload: { ...item },
+        }),
+      upsertBatch: () => Promise.resolve({}),
+      deleteEntity: (externalId: string) => {
+        deleted.push(externalId);
+        return Promise.resolve({});
+      },
+    },
+  };
+}
+
+const TEST_PAGES: Record<string, PaginatedResponse<TestItem>> = {
+  start: { data: [{ id: 'a' }, { id: 'b' }], hasMore: true, nextCursor: 'b' },
+  b: { data: [{ id: 'c' }, { id: 'd' }], hasMore: true, nextCursor: 'd' },
+  d: { data: [{ id: 'e' }], hasMore: false },
+};
+
+Deno.test('[Utils] paginatedSync - reports cursor after each page with more results', async () => {
+  const { config } = createPagedSource(TEST_PAGES);
+  const cursors: string[] = [];
+  const processed: (number | undefined)[] = [];
+
+  const result = await paginatedSync({
+    ...config,
+    onCursor: (cursor, count) => {
+      cursors.push(cursor);
+      processed.push(count);
+    },
+  });
+
+  assertEquals(result.success, true);
+  assertEquals(result.created, 5);
+  assertEquals(cursors, ['b', 'd']);
+  assertEquals(processed, [2, 4]);
+});
+
+Deno.test('[Utils] paginatedSync - resumes from starting cursor', async () => {
+  const { config } = createPagedSource(TEST_PAGES);
+
+  const result = await paginatedSync({ ...config, cursor: 'b' });
+
+  assertEquals(result.created, 3);
+});
+
+Deno.test('[Utils] paginatedSync - uses counts reported by upsertBatch', async () => {
+  const { config } = createPagedSource(TEST_PAGES);
+
+  const result = await paginatedSync({
+    ...config,
+    upsertBatch: (entities: NormalizedEntity[]) =>
+      Promise.resolve({ created: 0, updated: 1, unchanged: entities.length - 1 }),
+  });
+
+  assertEquals(result.created, 0);
+  assertEquals(result.updated, 3);
+  assertEquals(result.unchanged, 2);
+});
+
+Deno.test('[Utils] paginatedSync - skips deletion detection when resuming', async () => {
+  const { config, deleted } = createPagedSource(TEST_PAGES);
+
+  const result = await paginatedSync({
+    ...config,
+    cursor: 'b',
+    existingIds: new Set(['a', 'c', 'z']),
+  });
+
+  assertEquals(result.deleted, 0);
+  assertEquals(deleted, []);
+});
+
+Deno.test('[Utils] paginatedSync - detects deletions on a full pass', async () => {
+  const { config, deleted } = createPagedSource(TEST_PAGES);
+
+  const result = await paginatedSync({
+    ...config,
+    existingIds: new Set(['a', 'c', 'z']),
+  });
+
+  assertEquals(result.deleted, 1);
+  assertEquals(deleted, ['z']);
+});
+
+Deno.test('[Utils] paginatedSync - repeated syncs leave an archived entity unchanged', async () => {
+  const { config } = createPagedSource({ start: { data: [{ id: 'a' }], hasMore: false } });
+  const store = new MockEntityStore();
+  const archivedSync = {
+    ...config,
+    // Archived at the time of each sync, like objects without an archive time
+    normalize: (item: TestItem) => ({ ...config.normalize(item), archivedAt: new Date() }),
+    upsertBatch: (entities: NormalizedEntity[]) =>
+      Promise.resolve(store.upsertEntities(entities.map(entityToRow))),
+  };
+
+  const first = await paginatedSync(archivedSync);
+  const archivedAt = store.getAllEntities()[0].archived_at;
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  const second = await paginatedSync(archivedSync);
+
+  assertEquals(first.created, 1);
+  assertEquals(second.updated, 0);
+  assertEquals(second.unchanged, 1);
+  assertEquals(store.getAllEntities()[0].archived_at, archivedAt);
+});
+
+Deno.test('[Utils] paginatedSync - stops between pages when cancelled', async () => {
+  const { config, deleted } = createPagedSource(TEST_PAGES);
+  let checks = 0;
+
+  const result = await paginatedSync({
+    ...config,
+    existingIds: new Set(['a', 'z']),
+    // Cancel after the first page has been written
+    isCancelled: () => ++checks > 1,
+  });
+
+  assertEquals(result.cancelled, true);
+  assertEquals(result.created, 2);
+  assertEquals(result.deleted, 0);
+  assertEquals(deleted, []);
+});
+
+Deno.test('[Utils] paginatedSync - runs lifecycle hooks around writes and deletes', async () => {
+  const { config, deleted } = createPagedSource(TEST_PAGES);
+  const written: string[] = [];
+  const afterUpsert: string[] = [];
+  const changeSources: (string | undefined)[] = [];
+  setConfig({
+    apps: [],
+    lifecycle_hooks: {
+      collections: {
+        test_item: {
+          beforeUpsert: (entity, context) => {
+            changeSources.push(context.changeSource);
+            return entity.externalId === 'b' ? null : entity;
+          },
+          afterUpsert: (entity) => {
+            afterUpsert.push(entity.externalId);
+          },
+          beforeDelete: (target) => target.externalId !== 'y',
+        },
+      },
+    },
+  });
+
+  try {
+    const result = await paginatedSync({
+      ...config,
+      existingIds: new Set(['a', 'y', 'z']),
+      changeSource: 'sync_job:job_1',
+      upsertBatch: (entities: NormalizedEntity[]) => {
+        written.push(...entities.map((e) => e.externalId));
+        return Promise.resolve({});
+      },
+    });
+
+    assertEquals(result.created, 4);
+    assertEquals(result.deleted, 1);
+  } finally {
+    clearConfig();
+  }
+
+  assertEquals(written, ['a', 'c', 'd', 'e']);
+  assertEquals(afterUpsert, ['a', 'c', 'd', 'e']);
+  assertEquals(new Set(changeSources), new Set(['sync_job:job_1']));
+  // Skipped entities were still seen, so they aren't detected as deleted
+  assertEquals(deleted, ['z']);
+});
@@ -4,7 +4,22 @@
  * Helper functions for entity normalization, logging, and common operations.
  */
 
-import type { EntityRow, NormalizedEntity, SupportedResource, SyncResult } from '../types/index.ts';
+import type {
+  EntityRow,
+  NormalizedEntity,
+  ParsedWebhookEvent,
+  SupportedResource,
+  SyncResult,
+} from '../types/index.ts';
+import type { UpsertEntityData } from '../db/index.ts';
+import { getRetryAfterSeconds, isRetryableError } from './errors.ts';
+import {
+  type EntityHookSource,
+  runAfterUpsertHooks,
+  runBeforeDeleteHooks,
+  runBeforeUpsertHooks,
+  selectWrittenEntities,
+} from '../lifecycle/index.ts';
 
 // =============================================================================
 // Debug Mode Utilities
@@ -86,6 +101,7 @@ export function entityToRow(entity: NormalizedEntity): EntityRow {
     api_version: entity.apiVersion,
     raw_payload: entity.rawPayload,
     archived_at: entity.archivedAt?.toISOString() ?? null,
+    source_updated_at: entity.sourceUpdatedAt?.toISOString() ?? null,
   };
 }
 
@@ -102,9 +118,45 @@ export function rowToEntity(row: EntityRow): NormalizedEntity {
     apiVersion: row.api_version,
     rawPayload: row.raw_payload,
     archivedAt: row.archived_at ? new Date(row.archived_at) : undefined,
+    sourceUpdatedAt: row.source_updated_at ? new Date(row.source_updated_at) : undefined,
   };
 }
 
+/**
+ * Convert an entity extracted from a webhook event to the database upsert format.
+ * The source timestamp falls back to the event time when the payload has none, so an
+ * older event can't overwrite data from a newer one. Archive events set archived_at;
+ * undelete events clear archived_at and deleted_at.
+ * Used by the webhook handlers and by events-based syncs, so both apply events alike.
+ *
+ * @param entity An entity extracted from the event
+ * @param event The parsed event
+ * @returns Upsert data for the entity
+ */
+export function eventEntityToUpsertData(
+  entity: NormalizedEntity,
+  event: ParsedWebhookEvent,
+): UpsertEntityData {
+  const data: UpsertEntityData = {
+    external_id: entity.externalId,
+    app_key: entity.appKey,
+    collection_key: entity.collectionKey,
+    raw_payload: entity.rawPayload,
+    api_version: entity.apiVersion,
+    archived_at: entity.archivedAt?.toISOString() ?? null,
+    source_updated_at: (entity.sourceUpdatedAt ?? event.timestamp).toISOString(),
+  };
+
+  if (event.eventType === 'archive') {
+    data.archived_at = event.timestamp.toISOString();
+  } else if (event.eventType === 'undelete') {
+    data.archived_at = null;
+    data.deleted_at = null;
+  }
+
+  return data;
+}
+
 /**
  * Create a NormalizedEntity from raw API data
  * @param params Entity creation parameters
@@ -117,6 +169,7 @@ export function createNormalizedEntity(params: {
   rawPayload: Record<string, unknown>;
   apiVersion?: string;
   archivedAt?: Date;
+  sourceUpdatedAt?: Date;
 }): NormalizedEntity {
   return {
     externalId: params.externalId,
@@ -125,6 +178,7 @@ export function createNormalizedEntity(params: {
     rawPayload: params.rawPayload,
     apiVersion: params.apiVersion,
     archivedAt: params.archivedAt,
+    sourceUpdatedAt: params.sourceUpdatedAt,
   };
 }
 
@@ -240,6 +294,7 @@ export function emptySyncResult(): SyncResult {
     success: true,
     created: 0,
     updated: 0,
+    unchanged: 0,
     deleted: 0,
     errors: 0,
   };
@@ -254,12 +309,50 @@ export function failedSyncResult(errorMessage: string): SyncResult {
     success: false,
     created: 0,
     updated: 0,
+    unchanged: 0,
     deleted: 0,
     errors: 1,
     errorMessages: [errorMessage],
   };
 }
 
+/**
+ * Add the counts of a batch upsert to a sync result
+ *
+ * @param result The sync result to update
+ * @param counts Created, updated and unchanged counts (e.g. from upsertEntities)
+ */
+export function addUpsertCounts(
+  result: SyncResult,
+  counts: { created: number; updated: number; unchanged?: number },
+): void {
+  result.created += counts.created;
+  result.updated += counts.updated;
+  result.unchanged = (result.unchanged ?? 0) + (counts.unchanged ?? 0);
+}
+
+/**
+ * Count the entities a sync has processed: created, updated, unchanged and deleted
+ *
+ * @param result The sync result
+ * @returns The number of processed entities
+ */
+export function countProcessed(result: SyncResult): number {
+  return result.created + result.updated + (result.unchanged ?? 0) + result.deleted;
+}
+
+/**
+ * Record on a failed sync result whether the error that stopped it is retryable,
+ * and how long the provider asked us to wait, so the worker can reschedule the task.
+ *
+ * @param result The sync result to update
+ * @param error The error that stopped the sync
+ */
+export function setRetryInfo(result: SyncResult, error: unknown): void {
+  result.retryable = isRetryableError(error);
+  result.retryAfterSeconds = getRetryAfterSeconds(error);
+}
+
 /**
  * Merge multiple sync results into one
  * @param results Array of sync results to merge
@@ -270,6 +363,7 @@ export function mergeSyncResults(results: SyncResult[]): SyncResult {
     success: true,
     created: 0,
     updated: 0,
+    unchanged: 0,
     deleted: 0,
     errors: 0,
     errorMessages: [],
@@ -278,13 +372,21 @@ export function mergeSyncResults(results: SyncResult[]): SyncResult {
   for (const result of results) {
     merged.created += result.created;
     merged.updated += result.updated;
+    merged.unchanged = (merged.unchanged ?? 0) + (result.unchanged ?? 0);
     merged.deleted += result.deleted;
     merged.errors += result.errors;
 
     if (!result.success) {
+      // The merged result is only retryable if every failure was
+      merged.retryable = (merged.success || merged.retryable === true) &&
+        result.retryable === true;
       merged.success = false;
     }
 
+    if (result.retryAfterSeconds !== undefined) {
+      merged.retryAfterSeconds = Math.max(merged.retryAfterSeconds ?? 0, result.retryAfterSeconds);
+    }
+
     if (result.errorMessages) {
       merged.errorMessages = [
         ...(merged.errorMessages || []),
@@ -299,6 +401,9 @@ export function mergeSyncResults(results: SyncResult[]): SyncResult {
     if (result.hasMore !== undefined) {
       merged.hasMore = result.hasMore;
     }
+    if (result.cancelled) {
+      merged.cancelled = true;
+    }
   }
 
   // Clean up empty error messages array
@@ -363,8 +468,21 @@ export interface PaginatedSyncConfig<T> {
   /** Function to normalize an item to a NormalizedEntity */
   normalize: (item: T) => NormalizedEntity;
 
-  /** Function to upsert entities to the database */
-  upsertBatch: (entities: NormalizedEntity[]) => Promise<{ error?: Error }>;
+  /**
+   * Function to upsert entities to the database. When it reports created/updated/unchanged
+   * counts they are used for the sync result; otherwise every entity counts as created.
+   * When it returns the written rows (as upsertEntities does), afterUpsert hooks only run
+   * for those; otherwise they run for every entity in the batch.
+   */
+  upsertBatch: (
+    entities: NormalizedEntity[],
+  ) => Promise<{
+    error?: Error | null;
+    created?: number;
+    updated?: number;
+    unchanged?: number;
+    data?: { app_key: string; collection_key: string; external_id: string }[] | null;
+  }>;
 
   /** Function to delete an entity from the database */
   deleteEntity: (externalId: string) => Promise<{ error?: Error }>;
@@ -375,15 +493,27 @@ export interface PaginatedSyncConfig<T> {
   /** Maximum total records to sync */
   limit?: number;
 
-  /** Starting cursor for pagination */
+  /** Starting cursor for pagination (resuming skips deletion detection) */
   cursor?: string;
 
+  /**
+   * Called after each page is written with the cursor for the next page and the
+   * number of entities processed so far
+   */
+  onCursor?: (cursor: string, processed?: number) => void | Promise<void>;
+
+  /** Called before each page; returning true stops the sync (skips deletion detection) */
+  isCancelled?: () => boolean | Promise<boolean>;
+
   /** Existing IDs for deletion detection (full sync only) */
   existingIds?: Set<string>;
 
   /** Progress callback */
   onProgress?: (progress: SyncProgressInfo) => void;
 
+  /** What made these writes (e.g. 'sync_job:<job id>'), passed to the lifecycle hooks */
+  changeSource?: string;
+
   /** Dry run mode - don't write to database */
   dryRun?: boolean;
 
@@ -394,6 +524,60 @@ export interface PaginatedSyncConfig<T> {
   logger?: ReturnType<typeof createConnectorLogger>;
 }
 
+/**
+ * Upsert a page of entities that passed the beforeUpsert hooks, add the counts to the
+ * result and run the afterUpsert hooks for the entities written.
+ */
+async function upsertPage<T>(
+  config: PaginatedSyncConfig<T>,
+  entities: NormalizedEntity[],
+  result: SyncResult,
+  log: ConnectorLogger,
+  hookSource: EntityHookSource,
+): Promise<void> {
+  if (entities.length === 0) {
+    debugLog('paginatedSync', 'All entities in batch skipped by beforeUpsert hooks', {
+      resourceType: config.resourceType,
+    });
+    return;
+  }
+
+  debugLog('paginatedSync', `Upserting batch of ${entities.length} entities`, {
+    resourceType: config.resourceType,
+    collectionKey: config.collectionKey,
+    externalIds: entities.map((e) => e.externalId),
+  });
+
+  const { error, created, updated, unchanged, data } = await config.upsertBatch(entities);
+  if (error) {
+    result.errors++;
+    result.errorMessages = result.errorMessages || [];
+    result.errorMessages.push(error.message);
+    log.error('sync', `Failed to upsert ${config.resourceType}(s): ${error.message}`);
+    debugLog('paginatedSync', 'Batch upsert failed', {
+      resourceType: config.resourceType,
+      error: error.message,
+    });
+    return;
+  }
+
+  addUpsertCounts(result, {
+    created: created ?? entities.length,
+    updated: updated ?? 0,
+    unchanged,
+  });
+  debugLog('paginatedSync', 'Batch upsert succeeded', {
+    resourceType: config.resourceType,
+    count: entities.length,
+    cumulativeCount: result.created,
+  });
+
+  await runAfterUpsertHooks(
+    data !== undefined ? selectWrittenEntities(entities, data) : entities,
+    hookSource,
+  );
+}
+
 /**
  * Generic paginated sync utility for any API with cursor-based pagination.
  *
@@ -404,6 +588,8 @@ export interface PaginatedSyncConfig<T> {
  * - Deletion detection for full syncs
  * - Batch upserts to database
  * - Progress callbacks
+ * - Cursor checkpoints for resumable syncs
+ * - Lifecycle hooks (skipped in dry-run mode)
  * - Dry-run mode
  *
  * @param config Configuration for the sync operation
@@ -419,6 +605,7 @@ export async function paginatedSync<T>(
   let page = 0;
 
   const log = config.logger ?? createConnectorLogger(config.connectorName);
+  const hookSource: EntityHookSource = { source: 'sync', changeSource: config.changeSource };
 
   // Enable verbose mode if debug mode is enabled (unless explicitly disabled)
   const verboseEnabled = config.verbose ?? isDebugEnabled();
@@ -440,6 +627,13 @@ export async function paginatedSync<T>(
     let hasMore = true;
 
     while (hasMore) {
+      // Stop before fetching the next page if the sync was cancelled
+      if (config.isCancelled && (await config.isCancelled())) {
+        result.cancelled = true;
+        log.info('sync', `${config.resourceType} sync cancelled after ${page} page(s)`);
+        break;
+      }
+
       page++;
 
       debugLog('paginatedSync', `Fetching page ${page}`, {
@@ -487,30 +681,8 @@ export async function paginatedSync<T>(
           );
           result.created += entities.length;
         } else {
-          debugLog('paginatedSync', `Upserting batch of ${entities.length} entities`, {
-            resourceType: config.resourceType,
-            collectionKey: config.collectionKey,
-            externalIds: entities.map((e) => e.externalId),
-          });
-
-          const { error } = await config.upsertBatch(entities);
-          if (error) {
-            result.errors++;
-            result.errorMessages = result.errorMessages || [];
-            result.errorMessages.push(error.message);
-            log.error('sync', `Failed to upsert ${config.resourceType}(s): ${error.message}`);
-            debugLog('paginatedSync', 'Batch upsert failed', {
-              resourceType: config.resourceType,
-              error: error.message,
-            });
-          } else {
-            result.created += entities.length;
-            debugLog('paginatedSync', 'Batch upsert succeeded', {
-              resourceType: config.resourceType,
-              count: entities.length,
-              cumulativeCount: result.created,
-            });
-          }
+          const toWrite = await runBeforeUpsertHooks(entities, hookSource);
+          await upsertPage(config, toWrite, result, log, hookSource);
         }
       }
 
@@ -528,6 +700,11 @@ export async function paginatedSync<T>(
       hasMore = response.hasMore;
       cursor = response.nextCursor;
 
+      // Report the cursor for the next page so the sync can resume from here
+      if (hasMore && cursor && config.onCursor) {
+        await config.onCursor(cursor, countProcessed(result));
+      }
+
       // Check limit
       if (config.limit && seenIds.size >= config.limit) {
         log.info('sync', `Reached limit of ${config.limit} ${config.resourceType}(s)`);
@@ -540,8 +717,17 @@ export async function paginatedSync<T>(
       }
     }
 
-    // Detect deletions during full sync
-    if (config.existingIds) {
+    // Detect deletions during full sync (skipped if resumed or cancelled: not every page was seen)
+    if (result.cancelled) {
+      debugLog('paginatedSync', 'Skipping deletion detection for cancelled sync', {
+        resourceType: config.resourceType,
+      });
+    } else if (config.existingIds && config.cursor) {
+      debugLog('paginatedSync', 'Skipping deletion detection for resumed sync', {
+        resourceType: config.resourceType,
+        startingCursor: config.cursor,
+      });
+    } else if (config.existingIds) {
       debugLog('paginatedSync', 'Starting deletion detection', {
         resourceType: config.resourceType,
         existingCount: config.existingIds.size,
@@ -564,6 +750,15 @@ export async function paginatedSync<T>(
             );
             result.deleted++;
           } else {
+            const target = {
+              appKey: config.appKey,
+              collectionKey: config.collectionKey,
+              externalId: existingId,
+            };
+            if (!(await runBeforeDeleteHooks(target, hookSource))) {
+              continue;
+            }
+
             const { error } = await config.deleteEntity(existingId);
             if (error) {
               result.errors++;
@@ -608,6 +803,7 @@ export async function paginatedSync<T>(
     result.errors++;
     result.errorMessages = result.errorMessages || [];
     result.errorMessages.push(message);
+    setRetryInfo(result, error);
     log.error('sync', `${config.resourceType} sync failed: ${message}`);
 
     debugLog('paginatedSync', 'Paginated sync failed with error', {
@@ -719,6 +915,7 @@ export function createConnectorLogger(connectorName: string): ConnectorLogger {
         success: result.success,
         created: result.created,
         updated: result.updated,
+        unchanged: result.unchanged,
         deleted: result.deleted,
         errors: result.errors,
       }),
@@ -0,0 +1,47 @@
+/**
+ * Database Unit Tests
+ *
+ * Tests for the writes made by the webhook queue functions.
+ */
+
+import { assertEquals } from '@std/assert';
+import { failQueuedWebhook } from './index.ts';
+import { installMockSupabase } from '../connectors/__tests__/mocks/db.ts';
+
+// =============================================================================
+// Webhook Queue Tests
+// =============================================================================
+
+Deno.test('[DB] failQueuedWebhook - clears the payload of dead-lettered webhooks', async () => {
+  const supabase = installMockSupabase();
+
+  try {
+    await failQueuedWebhook('queue_1', 'Connector failed', null);
+
+    const update = supabase.requests.find((r) => r.path === 'webhook_queue');
+    assertEquals(update?.method, 'PATCH');
+    assertEquals(update?.params.get('id'), 'eq.queue_1');
+    const body = update?.body as Record<string, unknown>;
+    assertEquals(body.status, 'dead_letter');
+    assertEquals(body.payload, null);
+    assertEquals(body.last_error, 'Connector failed');
+  } finally {
+    supabase.restore();
+  }
+});
+
+Deno.test('[DB] failQueuedWebhook - keeps the payload of webhooks that are retried', async () => {
+  const supabase = installMockSupabase();
+
+  try {
+    await failQueuedWebhook('queue_1', 'Rate limited', new Date('2026-01-01T00:05:00.000Z'));
+
+    const update = supabase.requests.find((r) => r.path === 'webhook_queue');
+    const body = update?.body as Record<string, unknown>;
+    assertEquals(body.status, 'pending');
+    assertEquals(body.next_attempt_at, '2026-01-01T00:05:00.000Z');
+    assertEquals('payload' in body, false);
+  } finally {
+    supabase.restore();
+  }
+});
@@ -7,6 +7,17 @@
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { debugLog } from '../connectors/utils.ts';
+import {
+  createEntityChangeEvent,
+  emitEntityChanges,
+  isChangeFeedEnabled,
+} from '../change-feed/index.ts';
+import {
+  hasWebhookBodyRedaction,
+  redactEntityPayload,
+  redactWebhookBody,
+} from '../redaction/index.ts';
+import type { EntityChangeOperation, WebhookLogEntry } from '../types/index.ts';
 
 let supabaseClient: SupabaseClient | null = null;
 
@@ -67,6 +78,14 @@ export interface Entity {
   updated_at: string;
   archived_at: string | null;
   deleted_at: string | null;
+  /** When the provider last changed this data (writes older than this are skipped) */
+  source_updated_at: string | null;
+  /** What made the latest write (e.g. 'webhook:evt_123', 'sync_job:<job id>') */
+  change_source: string | null;
+  /** MD5 of the canonical raw_payload, used to skip writes that change nothing */
+  payload_hash: string | null;
+  /** When the current payload was written, or the entity deleted or restored */
+  payload_valid_from: string | null;
 }
 
 /**
@@ -85,6 +104,19 @@ export interface UpsertEntityData {
   raw_payload: Record<string, unknown>;
   api_version?: string;
   archived_at?: string | null;
+  /**
+   * When the provider last changed this data. If the stored entity has a newer
+   * source timestamp, the write is skipped (out-of-order protection). When omitted,
+   * the write is applied and the stored timestamp is kept.
+   */
+  source_updated_at?: string | null;
+  /** Set to null to clear a soft delete (e.g., when an entity is restored). Omitted = unchanged */
+  deleted_at?: string | null;
+  /**
+   * What made this write (e.g. 'webhook:evt_123', 'sync_job:<job id>'). Recorded as
+   * the source of the change in entity_versions for collections with history enabled.
+   */
+  change_source?: string | null;
 }
 
 /**
@@ -95,6 +127,23 @@ export interface UpsertResult {
   error: Error | null;
   /** Whether a new record was created (true) or existing was updated (false) */
   created: boolean;
+  /** Whether the write was skipped because nothing changed or the stored entity is newer */
+  skipped?: boolean;
+}
+
+/**
+ * Result of a batch upsert operation
+ */
+export interface UpsertEntitiesResult {
+  /** The written entities (skipped entities are not included) */
+  data: Entity[] | null;
+  error: Error | null;
+  /** Number of new records */
+  created: number;
+  /** Number of existing records that were updated */
+  updated: number;
+  /** Number of records left as they were (nothing changed, or the stored entity is newer) */
+  unchanged: number;
 }
 
 /**
@@ -110,6 +159,34 @@ export interface DeleteResult {
 // Entity Helper Functions
 // =============================================================================
 
+/**
+ * Build the record sent to the upsert_entities function for an entity.
+ */
+function toEntityRecord(data: UpsertEntityData, changeSource?: string): Record<string, unknown> {
+  const record: Record<string, unknown> = {
+    external_id: data.external_id,
+    app_key: data.app_key,
+    collection_key: data.collection_key,
+    raw_payload: data.raw_payload,
+    api_version: data.api_version ?? null,
+    archived_at: data.archived_at ?? null,
+    source_updated_at: data.source_updated_at ?? null,
+    change_source: data.change_source ?? changeSource ?? null,
+  };
+
+  // Include custom id if provided (e.g., Notion UUIDs)
+  if (data.id) {
+    record.id = data.id;
+  }
+
+  // Only touch deleted_at when explicitly set
+  if (data.deleted_at !== undefined) {
+    record.deleted_at = data.deleted_at;
+  }
+
+  return record;
+}
+
 /**
  * Upsert an entity using the unique constraint for conflict resolution.
  * If an entity with the same (app_key, collection_key, external_id) exists,
@@ -119,8 +196,6 @@ export interface DeleteResult {
  * @returns The upserted entity and whether it was created or updated
  */
 export async function upsertEntity(data: UpsertEntityData): Promise<UpsertResult> {
-  const client = getSupabaseClient();
-
   debugLog('db', 'Upserting entity', {
     appKey: data.app_key,
     collectionKey: data.collection_key,
@@ -128,82 +203,44 @@ export async function upsertEntity(data: UpsertEntityData): Promise<UpsertResult
     hasCustomId: !!data.id,
   });
 
-  try {
-    // First, try to get existing record to determine if this is create or update
-    const { data: existing } = await client
-      .from('entities')
-      .select('id')
-      .eq('app_key', data.app_key)
-      .eq('collection_key', data.collection_key)
-      .eq('external_id', data.external_id)
-      .maybeSingle();
-
-    const isCreate = !existing;
-
-    debugLog('db', 'Entity lookup result', {
-      externalId: data.external_id,
-      exists: !isCreate,
-    });
-
-    // Build the record, including id if provided
-    const record: Record<string, unknown> = {
-      external_id: data.external_id,
-      app_key: data.app_key,
-      collection_key: data.collection_key,
-      raw_payload: data.raw_payload,
-      api_version: data.api_version ?? null,
-      archived_at: data.archived_at ?? null,
-    };
-
-    // Include custom id if provided (e.g., Notion UUIDs)
-    if (data.id) {
-      record.id = data.id;
-    }
-
-    // Perform the upsert using the unique constraint
-    const { data: result, error } = await client
-      .from('entities')
-      .upsert(record, {
-        onConflict: 'app_key,collection_key,external_id',
-      })
-      .select()
-      .single();
-
-    if (error) {
-      debugLog('db', 'Entity upsert failed', {
-        externalId: data.external_id,
-        error: error.message,
-      });
-      return { data: null, error: new Error(error.message), created: false };
-    }
+  const result = await upsertEntities([data]);
 
-    debugLog('db', 'Entity upsert succeeded', {
-      externalId: data.external_id,
-      created: isCreate,
-    });
+  if (result.error) {
+    return { data: null, error: result.error, created: false };
+  }
 
-    return { data: result as Entity, error: null, created: isCreate };
-  } catch (err) {
-    debugLog('db', 'Entity upsert exception', {
+  // No row is returned when the update changed nothing or the stored entity is newer
+  if (!result.data || result.data.length === 0) {
+    debugLog('db', 'Entity upsert skipped (unchanged or stored entity is newer)', {
       externalId: data.external_id,
-      error: (err as Error).message,
+      sourceUpdatedAt: data.source_updated_at,
     });
-    return { data: null, error: err as Error, created: false };
+    return { data: null, error: null, created: false, skipped: true };
   }
+
+  return { data: result.data[0], error: null, created: result.created === 1 };
 }
 
 /**
  * Upsert multiple entities in a single batch operation.
+ * Entities whose payload is unchanged, or whose stored source timestamp is newer,
+ * are skipped and not returned.
+ *
+ * Uses the supasaasy.upsert_entities database function, which reports in the same
+ * round trip whether each row was created or updated. Each app's redaction rules are
+ * applied to the raw payloads first. Written entities are emitted to the change feed.
  *
  * @param entities Array of entity data to upsert
- * @returns Array of upserted entities
+ * @param changeSource Change source for entities that don't set their own (optional)
+ * @returns Array of upserted entities, with created/updated/unchanged counts
  */
 export async function upsertEntities(
   entities: UpsertEntityData[],
-): Promise<{ data: Entity[] | null; error: Error | null }> {
+  changeSource?: string,
+): Promise<UpsertEntitiesResult> {
   if (entities.length === 0) {
     debugLog('db', 'Skipping batch upsert - empty array');
-    return { data: [], error: null };
+    return { data: [], error: null, created: 0, updated: 0, unchanged: 0 };
   }
 
   const client = getSupabaseClient();
@@ -216,56 +253,71 @@ export async function upsertEntities(
   });
 
   try {
-    const records = entities.map((data) => {
-      const record: Record<string, unknown> = {
-        external_id: data.external_id,
-        app_key: data.app_key,
-        collection_key: data.collection_key,
-        raw_payload: data.raw_payload,
-        api_version: data.api_version ?? null,
-        archived_at: data.archived_at ?? null,
-      };
-
-      // Include custom id if provided (e.g., Notion UUIDs)
-      if (data.id) {
-        record.id = data.id;
-      }
+    // Apply the app's redaction rules before anything is stored
+    const records = await Promise.all(
+      entities.map(async (data) =>
+        toEntityRecord(
+          {
+            ...data,
+            raw_payload: await redactEntityPayload(
+              data.app_key,
+              data.collection_key,
+              data.raw_payload,
+            ),
+          },
+          changeSource,
+        )
+      ),
+    );
 
-      return record;
+    const { data: rows, error } = await client.rpc('upsert_entities', {
+      p_entities: records,
     });
 
-    const { data: result, error } = await client
-      .from('entities')
-      .upsert(records, {
-        onConflict: 'app_key,collection_key,external_id',
-      })
-      .select();
-
     if (error) {
       debugLog('db', 'Batch upsert failed', {
         count: entities.length,
         error: error.message,
       });
-      return { data: null, error: new Error(error.message) };
+      return { data: null, error: new Error(error.message), created: 0, updated: 0, unchanged: 0 };
     }
 
-    debugLog('db', 'Batch upsert succeeded', {
-      count: result?.length ?? 0,
-    });
+    const upserted = (rows || []) as {
+      entity: Entity;
+      created: boolean;
+      previous: Entity | null;
+    }[];
+    const created = upserted.filter((row) => row.created).length;
+    const updated = upserted.length - created;
+    const unchanged = entities.length - upserted.length;
+
+    debugLog('db', 'Batch upsert succeeded', { created, updated, unchanged });
+
+    if (isChangeFeedEnabled()) {
+      await emitEntityChanges(
+        upserted.map((row) => createEntityChangeEvent(row.entity, row.previous)),
+      );
+    }
 
-    return { data: result as Entity[], error: null };
+    return {
+      data: upserted.map((row) => row.entity),
+      error: null,
+      created,
+      updated,
+      unchanged,
+    };
   } catch (err) {
     debugLog('db', 'Batch upsert exception', {
       count: entities.length,
       error: (err as Error).message,
     });
-    return { data: null, error: err as Error };
+    return { data: null, error: err as Error, created: 0, updated: 0, unchanged: 0 };
   }
 }
 
 /**
  * Delete an entity by its unique combination of app_key, collection_key, and external_id.
- * This performs a physical deletion of the record.
+ * This performs a physical deletion of the record, which is emitted to the change feed.
  *
  * @param app_key The app instance identifier
  * @param collection_key The collection/resource type
@@ -286,12 +338,13 @@ export async function deleteEntity(
   });
 
   try {
-    const { error, count } = await client
+    const { data, error, count } = await client
       .from('entities')
       .delete({ count: 'exact' })
       .eq('app_key', app_key)
       .eq('collection_key', collection_key)
-      .eq('external_id', external_id);
+      .eq('external_id', external_id)
+      .select();
 
     if (error) {
       debugLog('db', 'Entity delete failed', {
@@ -306,6 +359,12 @@ export async function deleteEntity(
       count: count ?? 0,
     });
 
+    if (data && data.length > 0 && isChangeFeedEnabled()) {
+      await emitEntityChanges(
+        (data as Entity[]).map((entity) => createEntityChangeEvent(null, entity)),
+      );
+    }
+
     return { count: count ?? 0, error: null };
   } catch (err) {
     debugLog('db', 'Entity delete exception', {
@@ -318,7 +377,7 @@ export async function deleteEntity(
 
 /**
  * Delete all entities for a given app and collection.
- * Useful for full re-sync operations.
+ * Useful for full re-sync operations. Each deleted entity is emitted to the change feed.
  *
  * @param app_key The app instance identifier
  * @param collection_key The collection/resource type (optional - if omitted, deletes all for app)
@@ -340,12 +399,20 @@ export async function deleteEntities(
       query = query.eq('collection_key', collection_key);
     }
 
-    const { error, count } = await query;
+    // Only return the deleted rows when there is a change feed to emit them to
+    const changeFeedEnabled = isChangeFeedEnabled();
+    const { data, error, count } = changeFeedEnabled ? await query.select() : await query;
 
     if (error) {
       return { count: 0, error: new Error(error.message) };
     }
 
+    if (changeFeedEnabled && data && data.length > 0) {
+      await emitEntityChanges(
+        (data as Entity[]).map((entity) => createEntityChangeEvent(null, entity)),
+      );
+    }
+
     return { count: count ?? 0, error: null };
   } catch (err) {
     return { count: 0, error: err as Error };
@@ -462,6 +529,128 @@ export async function getEntityExternalIdsCreatedAfter(
   }
 }
 
+/**
+ * Get entity external IDs for records whose raw_payload has a given value for a
+ * top-level field, or doesn't have the field when the value is null.
+ * Useful for deletion detection when a collection is synced in separate scopes,
+ * such as the connected accounts of a Stripe platform.
+ *
+ * @param app_key The app instance identifier
+ * @param collection_key The collection/resource type
+ * @param field The raw_payload field
+ * @param value The value of the field, or null for records without it
+ * @param createdGte Optional minimum creation timestamp (Unix seconds) of raw_payload 'created'
+ * @returns Set of external IDs for the matching records
+ */
+export async function getEntityExternalIdsByPayloadField(
+  app_key: string,
+  collection_key: string,
+  field: string,
+  value: string | null,
+  createdGte?: number,
+): Promise<{ data: Set<string> | null; error: Error | null }> {
+  const client = getSupabaseClient();
+
+  try {
+    const column = `raw_payload->>${field}`;
+    const query = client
+      .from('entities')
+      .select('external_id, raw_payload->created')
+      .eq('app_key', app_key)
+      .eq('collection_key', collection_key);
+
+    const { data, error } = value === null
+      ? await query.is(column, null)
+      : await query.eq(column, value);
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    const ids = new Set(
+      (data as Array<{ external_id: string; created: unknown }>)
+        .filter((e) =>
+          createdGte === undefined || (typeof e.created === 'number' && e.created >= createdGte)
+        )
+        .map((e) => e.external_id),
+    );
+
+    return { data: ids, error: null };
+  } catch (err) {
+    return { data: null, error: err as Error };
+  }
+}
+
+// =============================================================================
+// Entity History
+// =============================================================================
+
+/**
+ * Previous version of an entity, recorded for collections with entity_history enabled
+ */
+export interface EntityVersion {
+  id: string;
+  entity_id: string;
+  app_key: string;
+  collection_key: string;
+  external_id: string;
+  /** Change that replaced this version (soft deletes are deletes) */
+  change_type: 'update' | 'delete';
+  /** The payload before the change */
+  raw_payload: Record<string, unknown>;
+  /** Changed top-level fields as { field: { old, new } } (null for deletes) */
+  diff: Record<string, { old: unknown; new: unknown }> | null;
+  /** What made the change (e.g. 'webhook:evt_123', 'sync_job:<job id>') */
+  source: string | null;
+  /** When this payload was written (or the entity restored) */
+  valid_from: string;
+  /** When this payload was replaced or deleted */
+  valid_to: string;
+}
+
+/**
+ * Get the recorded previous versions of an entity, newest first.
+ * Only collections listed in `entity_history` have versions.
+ *
+ * @param app_key The app instance identifier
+ * @param collection_key The collection/resource type
+ * @param external_id The external provider's ID
+ * @param at Only the version that was current at this time (optional)
+ * @returns The entity's previous versions
+ */
+export async function getEntityVersions(
+  app_key: string,
+  collection_key: string,
+  external_id: string,
+  at?: Date,
+): Promise<{ data: EntityVersion[] | null; error: Error | null }> {
+  const client = getSupabaseClient();
+
+  try {
+    let query = client
+      .from('entity_versions')
+      .select()
+      .eq('app_key', app_key)
+      .eq('collection_key', collection_key)
+      .eq('external_id', external_id)
+      .order('valid_to', { ascending: false });
+
+    if (at) {
+      query = query.lte('valid_from', at.toISOString()).gt('valid_to', at.toISOString());
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: (data || []) as EntityVersion[], error: null };
+  } catch (err) {
+    return { data: null, error: err as Error };
+  }
+}
+
 // =============================================================================
 // Sync State Types
 // =============================================================================
@@ -665,7 +854,8 @@ function sanitizeHeaders(headers: Record<string, string>): Record<string, string
 
 /**
  * Insert a webhook log entry into the database.
- * Sanitizes sensitive headers before storage.
+ * Sanitizes sensitive headers and applies the app's webhook log redaction rules
+ * to the request body before storage.
  * Handles errors gracefully to prevent log failures from affecting webhook processing.
  *
  * @param data The webhook log data to insert
@@ -679,13 +869,19 @@ export async function insertWebhookLog(
   try {
     // Sanitize headers to redact sensitive values
     const sanitizedHeaders = sanitizeHeaders(data.request_headers);
+    const requestBody = data.request_body && data.app_key
+      ? await redactWebhookBody(data.app_key, data.request_body)
+      : data.request_body;
+    const bodyRedacted = !!data.request_body && !!data.app_key &&
+      hasWebhookBodyRedaction(data.app_key);
 
     const record = {
       app_key: data.app_key ?? null,
       request_method: data.request_method,
       request_path: data.request_path,
       request_headers: sanitizedHeaders,
-      request_body: data.request_body ?? null,
+      request_body: requestBody ?? null,
+      request_body_redacted: bodyRedacted,
       response_status: data.response_status,
       response_body: data.response_body ?? null,
       error_message: data.error_message ?? null,
@@ -712,110 +908,1090 @@ export async function insertWebhookLog(
   }
 }
 
-// =============================================================================
-// Sync Jobs Types
-// =============================================================================
-
-export type SyncJobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
-export type SyncJobTaskStatus = 'pending' | 'processing' | 'completed' | 'failed';
+/**
+ * Filters for selecting webhook logs (e.g. to replay them)
+ */
+export interface GetWebhookLogsOptions {
+  /** Specific log entry IDs */
+  ids?: string[];
+  /** Only logs for this app */
+  app_key?: string;
+  /** Only logs created at or after this time */
+  from?: Date;
+  /** Only logs created before this time */
+  to?: Date;
+  /** Only logs whose response status was 400 or above */
+  failed_only?: boolean;
+  /** Maximum number of logs to return (default: 100) */
+  limit?: number;
+}
 
 /**
- * Sync job record as stored in the database
+ * Get webhook log entries, oldest first, so they can be replayed in the order
+ * they were received.
+ *
+ * @param options Filters for the log entries
+ * @returns The matching log entries
  */
-export interface SyncJob {
-  id: string;
-  app_key: string;
-  mode: string;
-  resource_types: string[] | null;
-  status: SyncJobStatus;
-  total_tasks: number;
-  completed_tasks: number;
-  failed_tasks: number;
-  processed_entities: number;
-  created_at: string;
-  started_at: string | null;
-  completed_at: string | null;
-  error_message: string | null;
-  /** Flag to trigger worker spawning via pg_net */
-  needs_worker: boolean;
-  /** Timestamp of last worker spawn attempt */
-  worker_spawned_at: string | null;
+export async function getWebhookLogs(
+  options: GetWebhookLogsOptions,
+): Promise<{ data: WebhookLogEntry[] | null; error: Error | null }> {
+  const client = getSupabaseClient();
+
+  try {
+    let query = client
+      .from('webhook_logs')
+      .select()
+      .order('created_at', { ascending: true })
+      .limit(options.limit ?? 100);
+
+    if (options.ids) {
+      query = query.in('id', options.ids);
+    }
+
+    if (options.app_key) {
+      query = query.eq('app_key', options.app_key);
+    }
+
+    if (options.from) {
+      query = query.gte('created_at', options.from.toISOString());
+    }
+
+    if (options.to) {
+      query = query.lt('created_at', options.to.toISOString());
+    }
+
+    if (options.failed_only) {
+      query = query.gte('response_status', 400);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: (data || []) as WebhookLogEntry[], error: null };
+  } catch (err) {
+    return { data: null, error: err as Error };
+  }
 }
 
+// =============================================================================
+// Webhook Event Deduplication
+// =============================================================================
+
+export type WebhookEventStatus = 'processing' | 'processed';
+
 /**
- * Sync job task record as stored in the database
+ * Received webhook event record as stored in the database
  */
-export interface SyncJobTask {
+export interface WebhookEventRecord {
   id: string;
-  job_id: string;
-  resource_type: string;
-  status: SyncJobTaskStatus;
-  entity_count: number | null;
-  created_at: string;
-  started_at: string | null;
-  completed_at: string | null;
-  error_message: string | null;
-  /** Pagination cursor for resuming interrupted syncs */
-  cursor: string | null;
-  /** Last heartbeat timestamp from worker processing this task */
-  last_heartbeat: string | null;
+  app_key: string;
+  /** Provider event ID */
+  event_id: string;
+  event_type: string | null;
+  resource_type: string | null;
+  external_id: string | null;
+  status: WebhookEventStatus;
+  /** Number of redeliveries that were skipped */
+  duplicate_count: number;
+  received_at: string;
+  processed_at: string | null;
+  last_duplicate_at: string | null;
 }
 
 /**
- * Data required to create a sync job
+ * Data required to claim a webhook event
  */
-export interface CreateSyncJobData {
+export interface ClaimWebhookEventData {
   app_key: string;
-  mode: string;
-  resource_types?: string[];
+  event_id: string;
+  event_type?: string;
+  resource_type?: string;
+  external_id?: string;
 }
 
 /**
- * Job status with aggregated statistics
+ * Result of claiming a webhook event
  */
-export interface SyncJobStatusWithStats extends SyncJob {
-  progress_percentage: number;
-  tasks: SyncJobTask[];
+export interface ClaimWebhookEventResult {
+  /** Whether this delivery should be processed (false = duplicate) */
+  claimed: boolean;
+  event: WebhookEventRecord;
 }
 
-// =============================================================================
-// Sync Jobs Helper Functions
-// =============================================================================
-
 /**
- * Create a new sync job and return the created record.
+ * Claim a webhook event for processing, keyed by app_key and provider event ID.
  *
- * @param data The sync job data
- * @returns The created sync job
+ * The first delivery of an event inserts a `processing` row and is claimed. Later
+ * deliveries are duplicates: their skip is recorded on the row and they are not
+ * claimed. A `processing` row older than `staleAfterSeconds` belongs to a delivery
+ * that never finished (e.g. the function crashed), so it is claimed again.
+ *
+ * @param data The app key, event ID and event details
+ * @param staleAfterSeconds Seconds before an unfinished claim can be taken over (default: 300)
+ * @returns Whether the event was claimed, and its record
  */
-export async function createSyncJob(
-  data: CreateSyncJobData,
-): Promise<{ data: SyncJob | null; error: Error | null }> {
+export async function claimWebhookEvent(
+  data: ClaimWebhookEventData,
+  staleAfterSeconds = 300,
+): Promise<{ data: ClaimWebhookEventResult | null; error: Error | null }> {
   const client = getSupabaseClient();
 
   try {
     const record = {
       app_key: data.app_key,
-      mode: data.mode,
-      resource_types: data.resource_types ?? null,
-      status: 'pending' as SyncJobStatus,
+      event_id: data.event_id,
+      event_type: data.event_type ?? null,
+      resource_type: data.resource_type ?? null,
+      external_id: data.external_id ?? null,
     };
 
-    const { data: result, error } = await client
-      .from('sync_jobs')
-      .insert(record)
-      .select()
-      .single();
+    // Insert the event unless it has been received before
+    const { data: inserted, error: insertError } = await client
+      .from('webhook_events')
+      .upsert(record, { onConflict: 'app_key,event_id', ignoreDuplicates: true })
+      .select();
 
-    if (error) {
-      return { data: null, error: new Error(error.message) };
+    if (insertError) {
+      return { data: null, error: new Error(insertError.message) };
     }
 
-    return { data: result as SyncJob, error: null };
-  } catch (err) {
-    return { data: null, error: err as Error };
-  }
-}
+    if (inserted && inserted.length > 0) {
+      return { data: { claimed: true, event: inserted[0] as WebhookEventRecord }, error: null };
+    }
+
+    // Take over a claim left behind by a delivery that never finished
+    const now = new Date();
+    const staleCutoff = new Date(now.getTime() - staleAfterSeconds * 1000);
+
+    const { data: reclaimed, error: reclaimError } = await client
+      .from('webhook_events')
+      .update({ received_at: now.toISOString() })
+      .eq('app_key', data.app_key)
+      .eq('event_id', data.event_id)
+      .eq('status', 'processing')
+      .lt('received_at', staleCutoff.toISOString())
+      .select();
+
+    if (reclaimError) {
+      return { data: null, error: new Error(reclaimError.message) };
+    }
+
+    if (reclaimed && reclaimed.length > 0) {
+      return { data: { claimed: true, event: reclaimed[0] as WebhookEventRecord }, error: null };
+    }
+
+    // Duplicate delivery: record the skip
+    const { data: existing, error: fetchError } = await client
+      .from('webhook_events')
+      .select()
+      .eq('app_key', data.app_key)
+      .eq('event_id', data.event_id)
+      .single();
+
+    if (fetchError) {
+      return { data: null, error: new Error(fetchError.message) };
+    }
+
+    const existingEvent = existing as WebhookEventRecord;
+    const { data: updated, error: updateError } = await client
+      .from('webhook_events')
+      .update({
+        duplicate_count: existingEvent.duplicate_count + 1,
+        last_duplicate_at: now.toISOString(),
+      })
+      .eq('id', existingEvent.id)
+      .select()
+      .single();
+
+    if (updateError) {
+      return { data: null, error: new Error(updateError.message) };
+    }
+
+    return { data: { claimed: false, event: updated as WebhookEventRecord }, error: null };
+  } catch (err) {
+    return { data: null, error: err as Error };
+  }
+}
+
+/**
+ * Mark a claimed webhook event as processed, so redeliveries are skipped.
+ *
+ * @param id The webhook event record ID
+ * @returns Error if the update failed
+ */
+export async function completeWebhookEvent(
+  id: string,
+): Promise<{ error: Error | null }> {
+  const client = getSupabaseClient();
+
+  try {
+    const { error } = await client
+      .from('webhook_events')
+      .update({ status: 'processed', processed_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      return { error: new Error(error.message) };
+    }
+
+    return { error: null };
+  } catch (err) {
+    return { error: err as Error };
+  }
+}
+
+/**
+ * Release a claimed webhook event after processing failed, so the provider's
+ * retry of the same event is processed rather than skipped.
+ *
+ * @param id The webhook event record ID
+ * @returns Error if the delete failed
+ */
+export async function releaseWebhookEvent(
+  id: string,
+): Promise<{ error: Error | null }> {
+  const client = getSupabaseClient();
+
+  try {
+    const { error } = await client
+      .from('webhook_events')
+      .delete()
+      .eq('id', id)
+      .eq('status', 'processing');
+
+    if (error) {
+      return { error: new Error(error.message) };
+    }
+
+    return { error: null };
+  } catch (err) {
+    return { error: err as Error };
+  }
+}
+
+/**
+ * Delete webhook event records older than the specified retention period.
+ * Events are only redelivered for a limited time (Stripe retries for up to 3 days),
+ * so older records are no longer needed for deduplication. Default retention is 30 days.
+ *
+ * @param retentionDays Number of days to retain events (default: 30)
+ * @returns Number of events deleted
+ */
+export async function cleanupOldWebhookEvents(
+  retentionDays = 30,
+): Promise<{ count: number; error: Error | null }> {
+  const client = getSupabaseClient();
+
+  try {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
+
+    const { count, error } = await client
+      .from('webhook_events')
+      .delete({ count: 'exact' })
+      .lt('received_at', cutoffDate.toISOString());
+
+    if (error) {
+      return { count: 0, error: new Error(error.message) };
+    }
+
+    return { count: count ?? 0, error: null };
+  } catch (err) {
+    return { count: 0, error: err as Error };
+  }
+}
+
+// =============================================================================
+// Webhook Queue
+// =============================================================================
+
+export type QueuedWebhookStatus = 'pending' | 'processing' | 'completed' | 'dead_letter';
+
+/**
+ * Queued webhook as stored in the database
+ */
+export interface QueuedWebhook {
+  id: string;
+  app_key: string;
+  /** Provider event ID */
+  event_id: string | null;
+  event_type: string | null;
+  resource_type: string | null;
+  external_id: string | null;
+  /** Verified webhook payload (null once the webhook is completed) */
+  payload: Record<string, unknown> | null;
+  status: QueuedWebhookStatus;
+  /** Number of processing attempts (including the current one) */
+  attempts: number;
+  /** Attempts allowed before the webhook is moved to dead_letter */
+  max_attempts: number;
+  next_attempt_at: string | null;
+  locked_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+/**
+ * Data required to queue a webhook
+ */
+export interface EnqueueWebhookData {
+  app_key: string;
+  payload: Record<string, unknown>;
+  event_id?: string;
+  event_type?: string;
+  resource_type?: string;
+  external_id?: string;
+  /** Attempts allowed before the webhook is moved to dead_letter (default: 5) */
+  max_attempts?: number;
+}
+
+/**
+ * Queue a verified webhook for asynchronous processing.
+ *
+ * @param data The app key, verified payload and event details
+ * @returns The queued webhook
+ */
+export async function enqueueWebhook(
+  data: EnqueueWebhookData,
+): Promise<{ data: QueuedWebhook | null; error: Error | null }> {
+  const client = getSupabaseClient();
+
+  try {
+    const record: Record<string, unknown> = {
+      app_key: data.app_key,
+      payload: data.payload,
+      event_id: data.event_id ?? null,
+      event_type: data.event_type ?? null,
+      resource_type: data.resource_type ?? null,
+      external_id: data.external_id ?? null,
+    };
+
+    if (data.max_attempts !== undefined) {
+      record.max_attempts = data.max_attempts;
+    }
+
+    const { data: queued, error } = await client
+      .from('webhook_queue')
+      .insert(record)
+      .select()
+      .single();
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: queued as QueuedWebhook, error: null };
+  } catch (err) {
+    return { data: null, error: err as Error };
+  }
+}
+
+/**
+ * Claim queued webhooks for processing, oldest first.
+ *
+ * Pending webhooks that are due are claimed, as are webhooks left in processing for
+ * longer than `staleAfterSeconds` (e.g. the worker crashed). Each claim increments
+ * the attempt count; a stale webhook that has used all its attempts is moved to
+ * dead_letter instead of being claimed.
+ *
+ * @param limit Maximum number of webhooks to claim (default: 10)
+ * @param staleAfterSeconds Seconds before a processing webhook can be taken over (default: 300)
+ * @returns The claimed webhooks
+ */
+export async function claimQueuedWebhooks(
+  limit = 10,
+  staleAfterSeconds = 300,
+): Promise<{ data: QueuedWebhook[] | null; error: Error | null }> {
+  const client = getSupabaseClient();
+
+  try {
+    const now = new Date();
+    const staleCutoff = new Date(now.getTime() - staleAfterSeconds * 1000).toISOString();
+    const dueFilter = [
+      `and(status.eq.pending,or(next_attempt_at.is.null,next_attempt_at.lte.${now.toISOString()}))`,
+      `and(status.eq.processing,locked_at.lt.${staleCutoff})`,
+    ].join(',');
+
+    const { data: candidates, error: findError } = await client
+      .from('webhook_queue')
+      .select()
+      .or(dueFilter)
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (findError) {
+      return { data: null, error: new Error(findError.message) };
+    }
+
+    const claimed: QueuedWebhook[] = [];
+
+    for (const candidate of (candidates || []) as QueuedWebhook[]) {
+      const exhausted = candidate.status === 'processing' &&
+        candidate.attempts >= candidate.max_attempts;
+
+      const updates: Record<string, unknown> = exhausted
+        ? {
+          status: 'dead_letter' as QueuedWebhookStatus,
+          completed_at: now.toISOString(),
+          payload: null,
+          last_error: `Timed out after ${candidate.attempts} attempt(s)`,
+        }
+        : {
+          status: 'processing' as QueuedWebhookStatus,
+          attempts: candidate.attempts + 1,
+          locked_at: now.toISOString(),
+        };
+
+      // Only update if no other worker claimed it since it was read
+      const { data: updated, error: updateError } = await client
+        .from('webhook_queue')
+        .update(updates)
+        .eq('id', candidate.id)
+        .eq('status', candidate.status)
+        .eq('attempts', candidate.attempts)
+        .select()
+        .maybeSingle();
+
+      if (updateError) {
+        return { data: null, error: new Error(updateError.message) };
+      }
+
+      if (!updated) {
+        continue;
+      }
+
+      if (exhausted) {
+        debugLog('db', 'Moved stuck queued webhook to dead letter', {
+          id: candidate.id,
+          attempts: candidate.attempts,
+        });
+        continue;
+      }
+
+      claimed.push(updated as QueuedWebhook);
+    }
+
+    return { data: claimed, error: null };
+  } catch (err) {
+    return { data: null, error: err as Error };
+  }
+}
+
+/**
+ * Mark a claimed queued webhook as completed. The payload is cleared, since it is
+ * stored without redaction and isn't needed once processed.
+ *
+ * @param id The queued webhook ID
+ * @returns Error if the update failed
+ */
+export async function completeQueuedWebhook(
+  id: string,
+): Promise<{ error: Error | null }> {
+  const client = getSupabaseClient();
+
+  try {
+    const { error } = await client
+      .from('webhook_queue')
+      .update({
+        status: 'completed' as QueuedWebhookStatus,
+        completed_at: new Date().toISOString(),
+        payload: null,
+        locked_at: null,
+        last_error: null,
+      })
+      .eq('id', id);
+
+    if (error) {
+      return { error: new Error(error.message) };
+    }
+
+    return { error: null };
+  } catch (err) {
+    return { error: err as Error };
+  }
+}
+
+/**
+ * Record a failed attempt at processing a queued webhook. With a retry time the
+ * webhook goes back to pending; without one it is moved to dead_letter and its
+ * payload is cleared, like a completed webhook's.
+ *
+ * @param id The queued webhook ID
+ * @param errorMessage Error from the failed attempt
+ * @param nextAttemptAt Earliest time to retry, or null to dead-letter the webhook
+ * @returns The updated webhook
+ */
+export async function failQueuedWebhook(
+  id: string,
+  errorMessage: string,
+  nextAttemptAt: Date | null,
+): Promise<{ data: QueuedWebhook | null; error: Error | null }> {
+  const client = getSupabaseClient();
+
+  debugLog('db', nextAttemptAt ? 'Scheduling queued webhook retry' : 'Dead-lettering webhook', {
+    id,
+    nextAttemptAt: nextAttemptAt?.toISOString(),
+    error: errorMessage,
+  });
+
+  try {
+    const updates: Record<string, unknown> = nextAttemptAt
+      ? {
+        status: 'pending' as QueuedWebhookStatus,
+        next_attempt_at: nextAttemptAt.toISOString(),
+      }
+      : {
+        status: 'dead_letter' as QueuedWebhookStatus,
+        completed_at: new Date().toISOString(),
+        payload: null,
+      };
+
+    const { data, error } = await client
+      .from('webhook_queue')
+      .update({ ...updates, last_error: errorMessage, locked_at: null })
+      .eq('id', id)
+      .eq('status', 'processing')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: (data as QueuedWebhook) ?? null, error: null };
+  } catch (err) {
+    return { data: null, error: err as Error };
+  }
+}
+
+/**
+ * Delete completed queued webhooks older than the specified retention period.
+ * Dead-lettered webhooks are kept until they are retried or deleted manually.
+ *
+ * @param retentionDays Number of days to retain completed webhooks (default: 7)
+ * @returns Number of webhooks deleted
+ */
+export async function cleanupOldQueuedWebhooks(
+  retentionDays = 7,
+): Promise<{ count: number; error: Error | null }> {
+  const client = getSupabaseClient();
+
+  try {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
+
+    const { count, error } = await client
+      .from('webhook_queue')
+      .delete({ count: 'exact' })
+      .eq('status', 'completed')
+      .lt('completed_at', cutoffDate.toISOString());
+
+    if (error) {
+      return { count: 0, error: new Error(error.message) };
+    }
+
+    return { count: count ?? 0, error: null };
+  } catch (err) {
+    return { count: 0, error: err as Error };
+  }
+}
+
+// =============================================================================
+// Outbound Deliveries
+// =============================================================================
+
+export type OutboundDeliveryStatus = 'pending' | 'processing' | 'delivered' | 'failed';
+
+/**
+ * Outbound delivery of a change event to a change feed HTTP target
+ */
+export interface OutboundDelivery {
+  id: string;
+  /** Name of the change feed HTTP target */
+  target_name: string;
+  app_key: string;
+  collection_key: string;
+  external_id: string;
+  operation: EntityChangeOperation;
+  /** Request body sent to the target */
+  payload: Record<string, unknown>;
+  status: OutboundDeliveryStatus;
+  /** Number of delivery attempts (including the current one) */
+  attempts: number;
+  /** Attempts allowed before the delivery is marked failed */
+  max_attempts: number;
+  next_attempt_at: string | null;
+  locked_at: string | null;
+  /** HTTP status of the latest attempt */
+  response_status: number | null;
+  /** Response body of the latest attempt (truncated) */
+  response_body: string | null;
+  last_error: string | null;
+  /** Duration of the latest attempt in milliseconds */
+  duration_ms: number | null;
+  /** Every recorded attempt, oldest first */
+  attempt_log: OutboundDeliveryAttemptLogEntry[];
+  created_at: string;
+  delivered_at: string | null;
+}
+
+/**
+ * Data required to queue an outbound delivery
+ */
+export interface EnqueueOutboundDeliveryData {
+  target_name: string;
+  app_key: string;
+  collection_key: string;
+  external_id: string;
+  operation: EntityChangeOperation;
+  payload: Record<string, unknown>;
+  /** Attempts allowed before the delivery is marked failed (default: 5) */
+  max_attempts?: number;
+}
+
+/**
+ * Outcome of an attempt at sending an outbound delivery
+ */
+export interface OutboundDeliveryAttempt {
+  /** When the attempt started (ISO 8601) */
+  attempted_at: string;
+  /** URL the request was sent to, or null if the target couldn't be resolved */
+  url: string | null;
+  /** HTTP status, or null if no response was received */
+  response_status: number | null;
+  response_body: string | null;
+  duration_ms: number;
+}
+
+/**
+ * Attempt recorded in an outbound delivery's attempt_log
+ */
+export interface OutboundDeliveryAttemptLogEntry extends OutboundDeliveryAttempt {
+  /** Attempt number, starting at 1 */
+  attempt: number;
+  /** Error from the attempt, or null if it was delivered */
+  error: string | null;
+}
+
+/**
+ * Queue outbound deliveries. Inserting them spawns the delivery worker.
+ *
+ * @param deliveries The deliveries to queue
+ * @returns Number of deliveries queued
+ */
+export async function enqueueOutboundDeliveries(
+  deliveries: EnqueueOutboundDeliveryData[],
+): Promise<{ count: number; error: Error | null }> {
+  if (deliveries.length === 0) {
+    return { count: 0, error: null };
+  }
+
+  const client = getSupabaseClient();
+
+  debugLog('db', 'Queueing outbound deliveries', {
+    count: deliveries.length,
+    targets: [...new Set(deliveries.map((d) => d.target_name))],
+  });
+
+  try {
+    const records = deliveries.map((delivery) => {
+      const record: Record<string, unknown> = {
+        target_name: delivery.target_name,
+        app_key: delivery.app_key,
+        collection_key: delivery.collection_key,
+        external_id: delivery.external_id,
+        operation: delivery.operation,
+        payload: delivery.payload,
+      };
+
+      if (delivery.max_attempts !== undefined) {
+        record.max_attempts = delivery.max_attempts;
+      }
+
+      return record;
+    });
+
+    const { error, count } = await client
+      .from('outbound_deliveries')
+      .insert(records, { count: 'exact' });
+
+    if (error) {
+      return { count: 0, error: new Error(error.message) };
+    }
+
+    return { count: count ?? deliveries.length, error: null };
+  } catch (err) {
+    return { count: 0, error: err as Error };
+  }
+}
+
+/**
+ * Claim outbound deliveries for sending, oldest first.
+ *
+ * Pending deliveries that are due are claimed, as are deliveries left in processing
+ * for longer than `staleAfterSeconds` (e.g. the worker crashed). Each claim increments
+ * the attempt count; a stale delivery that has used all its attempts is marked
+ * failed instead of being claimed.
+ *
+ * @param limit Maximum number of deliveries to claim (default: 10)
+ * @param staleAfterSeconds Seconds before a processing delivery can be taken over (default: 300)
+ * @returns The claimed deliveries
+ */
+export async function claimOutboundDeliveries(
+  limit = 10,
+  staleAfterSeconds = 300,
+): Promise<{ data: OutboundDelivery[] | null; error: Error | null }> {
+  const client = getSupabaseClient();
+
+  try {
+    const now = new Date();
+    const staleCutoff = new Date(now.getTime() - staleAfterSeconds * 1000).toISOString();
+    const dueFilter = [
+      `and(status.eq.pending,or(next_attempt_at.is.null,next_attempt_at.lte.${now.toISOString()}))`,
+      `and(status.eq.processing,locked_at.lt.${staleCutoff})`,
+    ].join(',');
+
+    const { data: candidates, error: findError } = await client
+      .from('outbound_deliveries')
+      .select()
+      .or(dueFilter)
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (findError) {
+      return { data: null, error: new Error(findError.message) };
+    }
+
+    const claimed: OutboundDelivery[] = [];
+
+    for (const candidate of (candidates || []) as OutboundDelivery[]) {
+      const exhausted = candidate.status === 'processing' &&
+        candidate.attempts >= candidate.max_attempts;
+
+      const updates: Record<string, unknown> = exhausted
+        ? {
+          status: 'failed' as OutboundDeliveryStatus,
+          last_error: `Timed out after ${candidate.attempts} attempt(s)`,
+        }
+        : {
+          status: 'processing' as OutboundDeliveryStatus,
+          attempts: candidate.attempts + 1,
+          locked_at: now.toISOString(),
+        };
+
+      // Only update if no other worker claimed it since it was read
+      const { data: updated, error: updateError } = await client
+        .from('outbound_deliveries')
+        .update(updates)
+        .eq('id', candidate.id)
+        .eq('status', candidate.status)
+        .eq('attempts', candidate.attempts)
+        .select()
+        .maybeSingle();
+
+      if (updateError) {
+        return { data: null, error: new Error(updateError.message) };
+      }
+
+      if (!updated) {
+        continue;
+      }
+
+      if (exhausted) {
+        debugLog('db', 'Marked stuck outbound delivery as failed', {
+          id: candidate.id,
+          attempts: candidate.attempts,
+        });
+        continue;
+      }
+
+      claimed.push(updated as OutboundDelivery);
+    }
+
+    return { data: claimed, error: null };
+  } catch (err) {
+    return { data: null, error: err as Error };
+  }
+}
+
+/**
+ * Record the outcome of an attempt at sending a claimed delivery, and append it to
+ * the delivery's attempt log.
+ *
+ * @param id The delivery ID
+ * @param status Status to move the delivery to
+ * @param attempt Outcome of the attempt
+ * @param errorMessage Error from the attempt, or null if it was delivered
+ * @param nextAttemptAt Earliest time to retry a pending delivery
+ * @returns The updated delivery, or null if it is no longer in processing
+ */
+async function recordOutboundDeliveryAttempt(
+  id: string,
+  status: OutboundDeliveryStatus,
+  attempt: OutboundDeliveryAttempt,
+  errorMessage: string | null,
+  nextAttemptAt: Date | null,
+): Promise<{ data: OutboundDelivery | null; error: Error | null }> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client.rpc('record_outbound_delivery_attempt', {
+      p_delivery_id: id,
+      p_status: status,
+      p_attempt: attempt,
+      p_error: errorMessage,
+      p_next_attempt_at: nextAttemptAt?.toISOString() ?? null,
+    });
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: (data as OutboundDelivery) ?? null, error: null };
+  } catch (err) {
+    return { data: null, error: err as Error };
+  }
+}
+
+/**
+ * Mark a claimed outbound delivery as delivered.
+ *
+ * @param id The delivery ID
+ * @param attempt Outcome of the successful attempt
+ * @returns Error if the update failed
+ */
+export async function completeOutboundDelivery(
+  id: string,
+  attempt: OutboundDeliveryAttempt,
+): Promise<{ error: Error | null }> {
+  const { error } = await recordOutboundDeliveryAttempt(id, 'delivered', attempt, null, null);
+  return { error };
+}
+
+/**
+ * Record a failed attempt at sending an outbound delivery. With a retry time the
+ * delivery goes back to pending; without one it is marked failed.
+ *
+ * @param id The delivery ID
+ * @param errorMessage Error from the failed attempt
+ * @param attempt Outcome of the failed attempt
+ * @param nextAttemptAt Earliest time to retry, or null to give up on the delivery
+ * @returns The updated delivery
+ */
+export function failOutboundDelivery(
+  id: string,
+  errorMessage: string,
+  attempt: OutboundDeliveryAttempt,
+  nextAttemptAt: Date | null,
+): Promise<{ data: OutboundDelivery | null; error: Error | null }> {
+  debugLog('db', nextAttemptAt ? 'Scheduling outbound delivery retry' : 'Failing delivery', {
+    id,
+    nextAttemptAt: nextAttemptAt?.toISOString(),
+    error: errorMessage,
+  });
+
+  return recordOutboundDeliveryAttempt(
+    id,
+    nextAttemptAt ? 'pending' : 'failed',
+    attempt,
+    errorMessage,
+    nextAttemptAt,
+  );
+}
+
+/**
+ * Delete delivered outbound deliveries older than the specified retention period.
+ * Failed deliveries are kept until they are retried or deleted manually.
+ *
+ * @param retentionDays Number of days to retain delivered deliveries (default: 7)
+ * @returns Number of deliveries deleted
+ */
+export async function cleanupOldOutboundDeliveries(
+  retentionDays = 7,
+): Promise<{ count: number; error: Error | null }> {
+  const client = getSupabaseClient();
+
+  try {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
+
+    const { count, error } = await client
+      .from('outbound_deliveries')
+      .delete({ count: 'exact' })
+      .eq('status', 'delivered')
+      .lt('delivered_at', cutoffDate.toISOString());
+
+    if (error) {
+      return { count: 0, error: new Error(error.message) };
+    }
+
+    return { count: count ?? 0, error: null };
+  } catch (err) {
+    return { count: 0, error: err as Error };
+  }
+}
+
+// =============================================================================
+// Sync Jobs Types
+// =============================================================================
+
+export type SyncJobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+export type SyncJobTaskStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Sync job record as stored in the database
+ */
+export interface SyncJob {
+  id: string;
+  app_key: string;
+  mode: string;
+  resource_types: string[] | null;
+  status: SyncJobStatus;
+  total_tasks: number;
+  completed_tasks: number;
+  failed_tasks: number;
+  processed_entities: number;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  error_message: string | null;
+  /** Flag to trigger worker spawning via pg_net */
+  needs_worker: boolean;
+  /** Timestamp of last worker spawn attempt */
+  worker_spawned_at: string | null;
+}
+
+/**
+ * Sync job task record as stored in the database
+ */
+export interface SyncJobTask {
+  id: string;
+  job_id: string;
+  resource_type: string;
+  status: SyncJobTaskStatus;
+  entity_count: number | null;
+  created_at: string;
+  /** When the task was claimed; kept when a task resumes from its cursor */
+  started_at: string | null;
+  completed_at: string | null;
+  error_message: string | null;
+  /** Pagination cursor for resuming interrupted syncs */
+  cursor: string | null;
+  /** Last heartbeat timestamp from worker processing this task */
+  last_heartbeat: string | null;
+  /** Number of failed or timed out attempts */
+  attempts: number;
+  /** Attempts allowed before the task is failed */
+  max_attempts: number;
+  /** Earliest time a pending task may be claimed (null = immediately) */
+  next_attempt_at: string | null;
+}
+
+/**
+ * Data required to create a sync job
+ */
+export interface CreateSyncJobData {
+  app_key: string;
+  mode: string;
+  resource_types?: string[];
+}
+
+/**
+ * Job status with aggregated statistics
+ */
+export interface SyncJobStatusWithStats extends SyncJob {
+  progress_percentage: number;
+  tasks: SyncJobTask[];
+}
+
+/**
+ * Result of reaping stuck tasks
+ */
+export interface ReapStuckTasksResult {
+  /** Tasks reset to pending for another attempt */
+  reset: SyncJobTask[];
+  /** Tasks failed after reaching the attempt limit */
+  failed: SyncJobTask[];
+}
+
+/**
+ * Filters and pagination for listing sync jobs
+ */
+export interface ListSyncJobsOptions {
+  /** Only jobs for this app */
+  app_key?: string;
+  /** Only jobs with this status */
+  status?: SyncJobStatus;
+  /** Only jobs created at or after this time */
+  since?: Date;
+  /** Maximum number of jobs to return (default: 20) */
+  limit?: number;
+  /** Return jobs after this one in the listing (created_at and id of the last job seen) */
+  after?: { created_at: string; id: string };
+}
+
+/**
+ * A page of sync jobs, newest first
+ */
+export interface ListSyncJobsResult {
+  jobs: SyncJobStatusWithStats[];
+  /** Whether more jobs match after this page */
+  hasMore: boolean;
+}
+
+/**
+ * Result of cancelling a sync job
+ */
+export interface CancelSyncJobResult {
+  /** The cancelled job */
+  job: SyncJob;
+  /** Pending tasks that were cancelled (processing tasks stop at their next page) */
+  cancelledTasks: SyncJobTask[];
+}
+
+// =============================================================================
+// Sync Jobs Helper Functions
+// =============================================================================
+
+/**
+ * Create a new sync job and return the created record.
+ *
+ * @param data The sync job data
+ * @returns The created sync job
+ */
+export async function createSyncJob(
+  data: CreateSyncJobData,
+): Promise<{ data: SyncJob | null; error: Error | null }> {
+  const client = getSupabaseClient();
+
+  try {
+    const record = {
+      app_key: data.app_key,
+      mode: data.mode,
+      resource_types: data.resource_types ?? null,
+      status: 'pending' as SyncJobStatus,
+    };
+
+    const { data: result, error } = await client
+      .from('sync_jobs')
+      .insert(record)
+      .select()
+      .single();
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: result as SyncJob, error: null };
+  } catch (err) {
+    return { data: null, error: err as Error };
+  }
+}
 
 /**
  * Update a sync job's status and related fields atomically.
@@ -894,11 +2070,13 @@ export async function updateJobStatus(
  *
  * @param jobId The job ID these tasks belong to
  * @param resourceTypes Array of resource types to create tasks for
+ * @param maxAttempts Attempts allowed per task before it is failed (default: column default of 3)
  * @returns Array of created tasks
  */
 export async function createJobTasks(
   jobId: string,
   resourceTypes: string[],
+  maxAttempts?: number,
 ): Promise<{ data: SyncJobTask[] | null; error: Error | null }> {
   if (resourceTypes.length === 0) {
     return { data: [], error: null };
@@ -911,6 +2089,7 @@ export async function createJobTasks(
       job_id: jobId,
       resource_type: resourceType,
       status: 'pending' as SyncJobTaskStatus,
+      ...(maxAttempts !== undefined && { max_attempts: maxAttempts }),
     }));
 
     const { data, error } = await client
@@ -936,7 +2115,9 @@ export async function createJobTasks(
 
 /**
  * Atomically claim a pending task by updating its status to processing.
- * Returns null if no tasks are available or all are claimed.
+ * Tasks waiting on a retry (next_attempt_at in the future) are skipped.
+ * A task resuming from its cursor keeps its started_at, since the sync it continues
+ * began then. Returns null if no tasks are available or all are claimed.
  *
  * @param jobId The job ID (optional - if not provided, claims from any job)
  * @returns The claimed task or null if none available
@@ -947,11 +2128,12 @@ export async function claimTask(
   const client = getSupabaseClient();
 
   try {
-    // Find the next pending task (optionally filtered by job)
+    // Find the next pending task that is due (optionally filtered by job)
     let query = client
       .from('sync_job_tasks')
       .select()
       .eq('status', 'pending')
+      .or(`next_attempt_at.is.null,next_attempt_at.lte.${new Date().toISOString()}`)
       .order('created_at', { ascending: true })
       .limit(1);
 
@@ -972,63 +2154,237 @@ export async function claimTask(
     }
 
     // Atomically update the task status to processing
+    const now = new Date().toISOString();
     const { data: claimed, error: updateError } = await client
       .from('sync_job_tasks')
       .update({
         status: 'processing' as SyncJobTaskStatus,
-        started_at: new Date().toISOString(),
+        started_at: pending.cursor && pending.started_at ? pending.started_at : now,
+        last_heartbeat: now,
       })
       .eq('id', pending.id)
       .eq('status', 'pending') // Double-check it's still pending
       .select()
       .maybeSingle();
 
-    if (updateError) {
-      return { data: null, error: new Error(updateError.message) };
-    }
-
-    if (!claimed) {
-      // Task was claimed by another worker
-      return { data: null, error: null };
+    if (updateError) {
+      return { data: null, error: new Error(updateError.message) };
+    }
+
+    if (!claimed) {
+      // Task was claimed by another worker
+      return { data: null, error: null };
+    }
+
+    return { data: claimed as SyncJobTask, error: null };
+  } catch (err) {
+    return { data: null, error: err as Error };
+  }
+}
+
+/**
+ * Update a task's status after processing.
+ *
+ * @param taskId The task ID
+ * @param status New status (completed, failed or cancelled)
+ * @param entityCount Number of entities processed (optional)
+ * @param errorMessage Error message if failed (optional)
+ * @param cursor Pagination cursor for resuming (optional)
+ * @returns The updated task
+ */
+export async function updateTaskStatus(
+  taskId: string,
+  status: 'completed' | 'failed' | 'cancelled',
+  entityCount?: number,
+  errorMessage?: string,
+  cursor?: string | null,
+): Promise<{ data: SyncJobTask | null; error: Error | null }> {
+  const client = getSupabaseClient();
+
+  debugLog('db', 'Updating task status', {
+    taskId,
+    status,
+    entityCount,
+    hasError: !!errorMessage,
+    cursor,
+  });
+
+  try {
+    const updates: Record<string, unknown> = {
+      status,
+      completed_at: new Date().toISOString(),
+      last_heartbeat: new Date().toISOString(),
+    };
+
+    if (entityCount !== undefined) {
+      updates.entity_count = entityCount;
+    }
+
+    if (errorMessage !== undefined) {
+      updates.error_message = errorMessage;
+    }
+
+    if (cursor !== undefined) {
+      updates.cursor = cursor;
+    }
+
+    const { data, error } = await client
+      .from('sync_job_tasks')
+      .update(updates)
+      .eq('id', taskId)
+      .select()
+      .single();
+
+    if (error) {
+      debugLog('db', 'Task status update failed', {
+        taskId,
+        error: error.message,
+      });
+      return { data: null, error: new Error(error.message) };
+    }
+
+    debugLog('db', 'Task status update succeeded', { taskId, status });
+
+    return { data: data as SyncJobTask, error: null };
+  } catch (err) {
+    debugLog('db', 'Task status update exception', {
+      taskId,
+      error: (err as Error).message,
+    });
+    return { data: null, error: err as Error };
+  }
+}
+
+/**
+ * Update a task's heartbeat and optionally cursor during processing.
+ * Call this periodically to indicate the worker is still alive.
+ *
+ * @param taskId The task ID
+ * @param cursor Current pagination cursor (optional)
+ * @param entityCount Current entity count (optional)
+ * @returns The updated task
+ */
+export async function updateTaskHeartbeat(
+  taskId: string,
+  cursor?: string | null,
+  entityCount?: number,
+): Promise<{ data: SyncJobTask | null; error: Error | null }> {
+  const client = getSupabaseClient();
+
+  try {
+    const updates: Record<string, unknown> = {
+      last_heartbeat: new Date().toISOString(),
+    };
+
+    if (cursor !== undefined) {
+      updates.cursor = cursor;
+    }
+
+    if (entityCount !== undefined) {
+      updates.entity_count = entityCount;
+    }
+
+    const { data, error } = await client
+      .from('sync_job_tasks')
+      .update(updates)
+      .eq('id', taskId)
+      .select()
+      .single();
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: data as SyncJobTask, error: null };
+  } catch (err) {
+    return { data: null, error: err as Error };
+  }
+}
+
+/**
+ * Release a processing task back to pending so another worker can claim it.
+ * Used when a worker shuts down mid-task; the saved cursor lets the next
+ * worker resume from the last completed page.
+ *
+ * @param taskId The task ID
+ * @param cursor Pagination cursor to resume from (optional)
+ * @param entityCount Entities processed so far (optional)
+ * @returns The released task
+ */
+export async function releaseTask(
+  taskId: string,
+  cursor?: string | null,
+  entityCount?: number,
+): Promise<{ data: SyncJobTask | null; error: Error | null }> {
+  const client = getSupabaseClient();
+
+  debugLog('db', 'Releasing task', { taskId, cursor, entityCount });
+
+  try {
+    const updates: Record<string, unknown> = {
+      status: 'pending' as SyncJobTaskStatus,
+      last_heartbeat: new Date().toISOString(),
+    };
+
+    if (cursor !== undefined) {
+      updates.cursor = cursor;
+    }
+
+    if (entityCount !== undefined) {
+      updates.entity_count = entityCount;
+    }
+
+    const { data, error } = await client
+      .from('sync_job_tasks')
+      .update(updates)
+      .eq('id', taskId)
+      .eq('status', 'processing')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
     }
 
-    return { data: claimed as SyncJobTask, error: null };
+    return { data: (data as SyncJobTask) ?? null, error: null };
   } catch (err) {
     return { data: null, error: err as Error };
   }
 }
 
 /**
- * Update a task's status after processing.
+ * Put a failed task back to pending so it is retried after a backoff.
+ * The task keeps its cursor, so the retry resumes from the last completed page.
  *
  * @param taskId The task ID
- * @param status New status (completed or failed)
- * @param entityCount Number of entities processed (optional)
- * @param errorMessage Error message if failed (optional)
- * @param cursor Pagination cursor for resuming (optional)
- * @returns The updated task
+ * @param attempts The new attempt count (including the attempt that just failed)
+ * @param nextAttemptAt Earliest time the task may be claimed again
+ * @param errorMessage Error from the failed attempt
+ * @param entityCount Entities processed so far (optional)
+ * @returns The rescheduled task
  */
-export async function updateTaskStatus(
+export async function scheduleTaskRetry(
   taskId: string,
-  status: 'completed' | 'failed',
+  attempts: number,
+  nextAttemptAt: Date,
+  errorMessage: string,
   entityCount?: number,
-  errorMessage?: string,
-  cursor?: string | null,
 ): Promise<{ data: SyncJobTask | null; error: Error | null }> {
   const client = getSupabaseClient();
 
-  debugLog('db', 'Updating task status', {
+  debugLog('db', 'Scheduling task retry', {
     taskId,
-    status,
-    entityCount,
-    hasError: !!errorMessage,
-    cursor,
+    attempts,
+    nextAttemptAt: nextAttemptAt.toISOString(),
+    error: errorMessage,
   });
 
   try {
     const updates: Record<string, unknown> = {
-      status,
-      completed_at: new Date().toISOString(),
+      status: 'pending' as SyncJobTaskStatus,
+      attempts,
+      next_attempt_at: nextAttemptAt.toISOString(),
+      error_message: errorMessage,
       last_heartbeat: new Date().toISOString(),
     };
 
@@ -1036,87 +2392,134 @@ export async function updateTaskStatus(
       updates.entity_count = entityCount;
     }
 
-    if (errorMessage !== undefined) {
-      updates.error_message = errorMessage;
-    }
-
-    if (cursor !== undefined) {
-      updates.cursor = cursor;
-    }
-
     const { data, error } = await client
       .from('sync_job_tasks')
       .update(updates)
       .eq('id', taskId)
+      .eq('status', 'processing')
       .select()
-      .single();
+      .maybeSingle();
 
     if (error) {
-      debugLog('db', 'Task status update failed', {
-        taskId,
-        error: error.message,
-      });
       return { data: null, error: new Error(error.message) };
     }
 
-    debugLog('db', 'Task status update succeeded', { taskId, status });
-
-    return { data: data as SyncJobTask, error: null };
+    return { data: (data as SyncJobTask) ?? null, error: null };
   } catch (err) {
-    debugLog('db', 'Task status update exception', {
-      taskId,
-      error: (err as Error).message,
-    });
     return { data: null, error: err as Error };
   }
 }
 
 /**
- * Update a task's heartbeat and optionally cursor during processing.
- * Call this periodically to indicate the worker is still alive.
+ * Recover tasks stuck in processing after a worker crashed.
  *
- * @param taskId The task ID
- * @param cursor Current pagination cursor (optional)
- * @param entityCount Current entity count (optional)
- * @returns The updated task
+ * A task is stuck when its last heartbeat (or start time, if it never sent one)
+ * is older than the threshold. Stuck tasks are reset to pending with an
+ * incremented attempt counter, or failed once they reach the attempt limit.
+ * Affected jobs count their failed tasks and are flagged with needs_worker so a
+ * worker picks up the reset tasks or finalizes the job. Runs the reap_stuck_tasks
+ * database function, which the pg_cron job also runs every minute when
+ * `workers.pg_cron` is enabled.
+ *
+ * @param staleAfterSeconds Seconds without a heartbeat before a task is stuck (default: 300)
+ * @param maxAttempts Attempts before a stuck task is failed, for tasks without their own
+ *   max_attempts (default: 3)
+ * @returns The reset and failed tasks
  */
-export async function updateTaskHeartbeat(
-  taskId: string,
-  cursor?: string | null,
-  entityCount?: number,
-): Promise<{ data: SyncJobTask | null; error: Error | null }> {
+export async function reapStuckTasks(
+  staleAfterSeconds = 300,
+  maxAttempts = 3,
+): Promise<{ data: ReapStuckTasksResult | null; error: Error | null }> {
   const client = getSupabaseClient();
 
   try {
-    const updates: Record<string, unknown> = {
-      last_heartbeat: new Date().toISOString(),
-    };
+    const { data: rows, error } = await client.rpc('reap_stuck_tasks', {
+      p_stale_after_seconds: staleAfterSeconds,
+      p_max_attempts: maxAttempts,
+    });
 
-    if (cursor !== undefined) {
-      updates.cursor = cursor;
+    if (error) {
+      return { data: null, error: new Error(error.message) };
     }
 
-    if (entityCount !== undefined) {
-      updates.entity_count = entityCount;
+    const result: ReapStuckTasksResult = { reset: [], failed: [] };
+    for (const row of (rows || []) as { task: SyncJobTask; failed: boolean }[]) {
+      debugLog('db', row.failed ? 'Failed stuck task' : 'Reset stuck task', {
+        taskId: row.task.id,
+        jobId: row.task.job_id,
+        attempts: row.task.attempts,
+      });
+      (row.failed ? result.failed : result.reset).push(row.task);
     }
 
-    const { data, error } = await client
-      .from('sync_job_tasks')
-      .update(updates)
-      .eq('id', taskId)
-      .select()
-      .single();
+    return { data: result, error: null };
+  } catch (err) {
+    return { data: null, error: err as Error };
+  }
+}
+
+/**
+ * Flag jobs whose task retries have come due, so the spawn trigger starts a worker.
+ * Runs the wake_due_retries database function, which the pg_cron job also runs
+ * every minute when `workers.pg_cron` is enabled.
+ *
+ * @returns The number of jobs flagged
+ */
+export async function wakeDueRetries(): Promise<{ data: number | null; error: Error | null }> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client.rpc('wake_due_retries');
 
     if (error) {
       return { data: null, error: new Error(error.message) };
     }
 
-    return { data: data as SyncJobTask, error: null };
+    const woken = typeof data === 'number' ? data : 0;
+    if (woken > 0) {
+      debugLog('db', 'Woke jobs with due retries', { jobs: woken });
+    }
+
+    return { data: woken, error: null };
   } catch (err) {
     return { data: null, error: err as Error };
   }
 }
 
+/**
+ * Count finished tasks and their entities towards a sync job.
+ * The counts are added in the database, so workers finishing tasks of the same
+ * job at the same time don't overwrite each other's counts.
+ *
+ * @param jobId The job ID
+ * @param counts Completed and failed tasks, and processed entities, to add
+ */
+export async function incrementJobCounts(
+  jobId: string,
+  counts: { completed_tasks?: number; failed_tasks?: number; processed_entities?: number },
+): Promise<{ error: Error | null }> {
+  const client = getSupabaseClient();
+
+  debugLog('db', 'Incrementing job counts', { jobId, ...counts });
+
+  try {
+    const { error } = await client.rpc('increment_job_counts', {
+      p_job_id: jobId,
+      p_completed_tasks: counts.completed_tasks ?? 0,
+      p_failed_tasks: counts.failed_tasks ?? 0,
+      p_processed_entities: counts.processed_entities ?? 0,
+    });
+
+    if (error) {
+      return { error: new Error(error.message) };
+    }
+
+    return { error: null };
+  } catch (err) {
+    return { error: err as Error };
+  }
+}
+
 /**
  * Get job status with aggregated task statistics and progress.
  *
@@ -1155,30 +2558,254 @@ export async function getJobStatus(
       return { data: null, error: new Error(tasksError.message) };
     }
 
-    const typedJob = job as SyncJob;
-    const typedTasks = (tasks || []) as SyncJobTask[];
+    return { data: withStats(job as SyncJob, (tasks || []) as SyncJobTask[]), error: null };
+  } catch (err) {
+    return { data: null, error: err as Error };
+  }
+}
+
+/**
+ * Attach progress percentage and tasks to a job.
+ */
+function withStats(job: SyncJob, tasks: SyncJobTask[]): SyncJobStatusWithStats {
+  const progress_percentage = job.total_tasks > 0
+    ? Math.round(((job.completed_tasks + job.failed_tasks) / job.total_tasks) * 100)
+    : 0;
+
+  return { ...job, progress_percentage, tasks };
+}
 
-    // Calculate progress percentage
-    const progress_percentage = typedJob.total_tasks > 0
-      ? Math.round(
-        ((typedJob.completed_tasks + typedJob.failed_tasks) / typedJob.total_tasks) * 100,
-      )
-      : 0;
+/**
+ * List sync jobs, newest first, with the same progress and task statistics as
+ * getJobStatus. Uses keyset pagination on (created_at, id): pass the last job of
+ * a page as `after` to fetch the next one.
+ *
+ * @param options Filters and pagination
+ * @returns A page of jobs and whether more remain
+ */
+export async function listSyncJobs(
+  options: ListSyncJobsOptions = {},
+): Promise<{ data: ListSyncJobsResult | null; error: Error | null }> {
+  const client = getSupabaseClient();
+  const limit = options.limit ?? 20;
+
+  try {
+    let query = client
+      .from('sync_jobs')
+      .select()
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1);
+
+    if (options.app_key) {
+      query = query.eq('app_key', options.app_key);
+    }
+
+    if (options.status) {
+      query = query.eq('status', options.status);
+    }
+
+    if (options.since) {
+      query = query.gte('created_at', options.since.toISOString());
+    }
+
+    if (options.after) {
+      const { created_at, id } = options.after;
+      query = query.or(
+        `created_at.lt."${created_at}",and(created_at.eq."${created_at}",id.lt.${id})`,
+      );
+    }
+
+    const { data: rows, error } = await query;
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    const jobs = ((rows || []) as SyncJob[]).slice(0, limit);
+    const hasMore = (rows || []).length > limit;
+
+    if (jobs.length === 0) {
+      return { data: { jobs: [], hasMore: false }, error: null };
+    }
+
+    // Load tasks for the whole page in one query
+    const { data: tasks, error: tasksError } = await client
+      .from('sync_job_tasks')
+      .select()
+      .in('job_id', jobs.map((job) => job.id))
+      .order('created_at', { ascending: true });
+
+    if (tasksError) {
+      return { data: null, error: new Error(tasksError.message) };
+    }
+
+    const tasksByJob = new Map<string, SyncJobTask[]>();
+    for (const task of (tasks || []) as SyncJobTask[]) {
+      const jobTasks = tasksByJob.get(task.job_id) ?? [];
+      jobTasks.push(task);
+      tasksByJob.set(task.job_id, jobTasks);
+    }
 
-    const result: SyncJobStatusWithStats = {
-      ...typedJob,
-      progress_percentage,
-      tasks: typedTasks,
+    return {
+      data: {
+        jobs: jobs.map((job) => withStats(job, tasksByJob.get(job.id) ?? [])),
+        hasMore,
+      },
+      error: null,
     };
+  } catch (err) {
+    return { data: null, error: err as Error };
+  }
+}
 
-    return { data: result, error: null };
+/**
+ * Get the most recent pending or processing job for an app, if any.
+ * Used by the scheduler to avoid queueing overlapping syncs.
+ *
+ * @param appKey The app key
+ * @returns The active sync job or null if none is running
+ */
+export async function getActiveSyncJob(
+  appKey: string,
+): Promise<{ data: SyncJob | null; error: Error | null }> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data: job, error } = await client
+      .from('sync_jobs')
+      .select()
+      .eq('app_key', appKey)
+      .in('status', ['pending', 'processing'])
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: (job as SyncJob) ?? null, error: null };
+  } catch (err) {
+    return { data: null, error: err as Error };
+  }
+}
+
+/**
+ * Cancel a pending or processing sync job.
+ *
+ * The job is marked cancelled and its pending tasks are cancelled straight away.
+ * Tasks already being processed are stopped cooperatively: workers check the job
+ * status between pages and mark their task cancelled when they see it.
+ *
+ * @param jobId The job ID
+ * @returns The cancelled job and tasks, or null if the job doesn't exist or has already finished
+ */
+export async function cancelSyncJob(
+  jobId: string,
+): Promise<{ data: CancelSyncJobResult | null; error: Error | null }> {
+  const client = getSupabaseClient();
+
+  debugLog('db', 'Cancelling job', { jobId });
+
+  try {
+    const { data: job, error } = await client
+      .from('sync_jobs')
+      .update({
+        status: 'cancelled' as SyncJobStatus,
+        completed_at: new Date().toISOString(),
+        needs_worker: false,
+      })
+      .eq('id', jobId)
+      .in('status', ['pending', 'processing'])
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    if (!job) {
+      return { data: null, error: null };
+    }
+
+    const { data: cancelledTasks, error: tasksError } = await cancelPendingTasks(jobId);
+    if (tasksError) {
+      return { data: null, error: tasksError };
+    }
+
+    return {
+      data: { job: job as SyncJob, cancelledTasks: cancelledTasks ?? [] },
+      error: null,
+    };
+  } catch (err) {
+    return { data: null, error: err as Error };
+  }
+}
+
+/**
+ * Mark a job's pending tasks as cancelled.
+ *
+ * @param jobId The job ID
+ * @returns The cancelled tasks
+ */
+export async function cancelPendingTasks(
+  jobId: string,
+): Promise<{ data: SyncJobTask[] | null; error: Error | null }> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client
+      .from('sync_job_tasks')
+      .update({
+        status: 'cancelled' as SyncJobTaskStatus,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('job_id', jobId)
+      .eq('status', 'pending')
+      .select();
+
+    if (error) {
+      return { data: null, error: new Error(error.message) };
+    }
+
+    return { data: (data as SyncJobTask[]) ?? [], error: null };
   } catch (err) {
     return { data: null, error: err as Error };
   }
 }
 
 /**
- * Delete completed or failed jobs older than the specified retention period.
+ * Check whether a sync job has been cancelled.
+ * Workers call this between pages to stop cancelled syncs early.
+ *
+ * @param jobId The job ID
+ * @returns true if the job's status is cancelled
+ */
+export async function isJobCancelled(
+  jobId: string,
+): Promise<{ data: boolean; error: Error | null }> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client
+      .from('sync_jobs')
+      .select('status')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (error) {
+      return { data: false, error: new Error(error.message) };
+    }
+
+    return { data: data?.status === 'cancelled', error: null };
+  } catch (err) {
+    return { data: false, error: err as Error };
+  }
+}
+
+/**
+ * Delete finished (completed, failed or cancelled) jobs older than the specified retention period.
  * Default retention is 7 days.
  *
  * @param retentionDays Number of days to retain jobs (default: 7)
@@ -1196,7 +2823,7 @@ export async function cleanupOldJobs(
     const { count, error } = await client
       .from('sync_jobs')
       .delete({ count: 'exact' })
-      .in('status', ['completed', 'failed'])
+      .in('status', ['completed', 'failed', 'cancelled'])
       .lt('created_at', cutoffDate.toISOString());
 
     if (error) {
@@ -0,0 +1,430 @@
+/**
+ * Delivery Worker Handler Factory
+ *
+ * Creates a Deno.serve handler that sends the change events queued in
+ * `supasaasy.outbound_deliveries` to the change feed HTTP targets. Each request is
+ * signed with HMAC-SHA256 using the target's secret.
+ *
+ * Features:
+ * - Spawned via pg_net when deliveries are queued, and every minute by pg_cron
+ *   while due deliveries remain (retries, or deliveries orphaned by a crashed worker)
+ * - Retries with exponential backoff (see `change_feed.delivery` config)
+ * - Deliveries that fail `max_attempts` times are marked failed
+ * - The status, body, duration and error of each attempt are appended to the delivery's
+ *   attempt log
+ *
+ * URL pattern: POST /delivery-worker
+ * Body: { max_deliveries?: number } (optional)
+ */
+
+import type { SupaSaaSyConfig } from '../types/index.ts';
+import {
+  claimOutboundDeliveries,
+  completeOutboundDelivery,
+  failOutboundDelivery,
+  type OutboundDelivery,
+  type OutboundDeliveryAttempt,
+} from '../db/index.ts';
+import { setConfig } from '../connectors/index.ts';
+import { parseRetryAfterHeader } from '../connectors/errors.ts';
+import { debugLog } from '../connectors/utils.ts';
+import {
+  CHANGE_FEED_DELIVERY_HEADER,
+  CHANGE_FEED_SIGNATURE_HEADER,
+  signChangeFeedPayload,
+} from '../change-feed/index.ts';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface DeliveryWorkerRequest {
+  /** Maximum number of deliveries to send before exiting (default: unlimited) */
+  max_deliveries?: number;
+}
+
+interface DeliveryWorkerResponse {
+  success: boolean;
+  processed: number;
+  delivered: number;
+  retried: number;
+  failed: number;
+  duration_ms: number;
+}
+
+/** Outcome of sending one outbound delivery */
+type DeliveryOutcome = 'delivered' | 'retried' | 'failed';
+
+// =============================================================================
+// Response Helpers
+// =============================================================================
+
+const RESPONSE_HEADERS = {
+  'Content-Type': 'application/json',
+};
+
+function jsonResponse(
+  data: Record<string, unknown>,
+  status: number,
+): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: RESPONSE_HEADERS,
+  });
+}
+
+function errorResponse(message: string, status: number): Response {
+  console.error(`Delivery worker error [${status}]: ${message}`);
+  return jsonResponse({ error: message, success: false }, status);
+}
+
+function successResponse(data: DeliveryWorkerResponse): Response {
+  return jsonResponse(data as unknown as Record<string, unknown>, 200);
+}
+
+// =============================================================================
+// Security Helpers
+// =============================================================================
+
+/**
+ * Constant-time string comparison to prevent timing attacks.
+ * Returns true if both strings are equal.
+ */
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return result === 0;
+}
+
+/**
+ * Maximum request body size (1KB - the worker only accepts max_deliveries)
+ */
+const MAX_REQUEST_SIZE = 1024;
+
+// =============================================================================
+// Authentication
+// =============================================================================
+
+/**
+ * Verify the admin API key from the Authorization header.
+ * Expected format: "Bearer <admin_api_key>"
+ * Uses constant-time comparison to prevent timing attacks.
+ */
+function verifyAdminApiKey(request: Request): boolean {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader) {
+    return false;
+  }
+
+  const [scheme, token] = authHeader.split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    return false;
+  }
+
+  const adminApiKey = Deno.env.get('ADMIN_API_KEY');
+  if (!adminApiKey) {
+    console.error('ADMIN_API_KEY environment variable is not set');
+    return false;
+  }
+
+  // Use constant-time comparison to prevent timing attacks
+  return constantTimeEqual(token, adminApiKey);
+}
+
+// =============================================================================
+// Worker Configuration
+// =============================================================================
+
+/** Maximum time a worker can run (to prevent hitting edge function limit) */
+const MAX_WORKER_RUNTIME_MS = 45000; // 45 seconds (leave 5s buffer before 50s limit)
+
+/** Number of deliveries claimed at a time */
+const CLAIM_BATCH_SIZE = 10;
+
+/**
+ * Seconds before a processing delivery is considered orphaned and claimed again
+ * (matches the interval used by supasaasy.wake_outbound_deliveries())
+ */
+const STALE_CLAIM_SECONDS = 300;
+
+/** Timeout for each delivery request */
+const DELIVERY_TIMEOUT_MS = 10000;
+
+/** Maximum length of the response body recorded on a delivery */
+const MAX_RECORDED_RESPONSE_LENGTH = 2000;
+
+/** Default base delay before retrying a failed delivery (doubles with each attempt) */
+const DEFAULT_RETRY_BASE_DELAY_SECONDS = 30;
+
+/** Default maximum delay between retries of a delivery */
+const DEFAULT_RETRY_MAX_DELAY_SECONDS = 3600;
+
+// =============================================================================
+// Delivery Processing
+// =============================================================================
+
+/**
+ * Work out how long to wait before retrying a delivery.
+ * Uses exponential backoff from the base delay, capped at the maximum delay, but
+ * never retries sooner than the target asked (a Retry-After header).
+ *
+ * @param attempts Attempts made so far, including the one that just failed
+ */
+function getRetryDelaySeconds(
+  attempts: number,
+  config: SupaSaaSyConfig,
+  retryAfterSeconds?: number,
+): number {
+  const baseDelay = config.change_feed?.delivery?.retry_base_delay_seconds ??
+    DEFAULT_RETRY_BASE_DELAY_SECONDS;
+  const maxDelay = config.change_feed?.delivery?.retry_max_delay_seconds ??
+    DEFAULT_RETRY_MAX_DELAY_SECONDS;
+  const backoff = Math.min(baseDelay * Math.pow(2, Math.max(attempts - 1, 0)), maxDelay);
+  return Math.max(backoff, retryAfterSeconds ?? 0);
+}
+
+/**
+ * Send a claimed delivery, then mark it delivered, schedule a retry or fail it.
+ */
+async function processDelivery(
+  delivery: OutboundDelivery,
+  config: SupaSaaSyConfig,
+): Promise<DeliveryOutcome> {
+  debugLog('delivery-worker', 'Sending outbound delivery', {
+    id: delivery.id,
+    targetName: delivery.target_name,
+    collectionKey: delivery.collection_key,
+    externalId: delivery.external_id,
+    attempt: delivery.attempts,
+  });
+
+  // Configuration problems won't fix themselves on retry
+  const target = config.change_feed?.http_targets?.find((t) => t.name === delivery.target_name);
+  const secret = target ? Deno.env.get(target.secret_env) : undefined;
+  if (!target || !secret) {
+    const reason = target
+      ? `Environment variable ${target.secret_env} is not set`
+      : `Target no longer configured: ${delivery.target_name}`;
+    await recordFailure(delivery, reason, {
+      attempted_at: new Date().toISOString(),
+      url: target?.url ?? null,
+      response_status: null,
+      response_body: null,
+      duration_ms: 0,
+    }, null);
+    return 'failed';
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const signature = await signChangeFeedPayload(secret, Math.floor(Date.now() / 1000), body);
+  const attemptedAt = new Date().toISOString();
+  const startTime = Date.now();
+
+  let attempt: OutboundDeliveryAttempt;
+  let errorMessage: string;
+  let retryAfterSeconds: number | undefined;
+
+  try {
+    const response = await fetch(target.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [CHANGE_FEED_SIGNATURE_HEADER]: signature,
+        [CHANGE_FEED_DELIVERY_HEADER]: delivery.id,
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    const responseText = await response.text();
+
+    attempt = {
+      attempted_at: attemptedAt,
+      url: target.url,
+      response_status: response.status,
+      response_body: responseText.slice(0, MAX_RECORDED_RESPONSE_LENGTH) || null,
+      duration_ms: Date.now() - startTime,
+    };
+
+    if (response.ok) {
+      const { error } = await completeOutboundDelivery(delivery.id, attempt);
+      if (error) {
+        console.error(`Failed to complete outbound delivery ${delivery.id}: ${error.message}`);
+      }
+
+      debugLog('delivery-worker', 'Outbound delivery sent', {
+        id: delivery.id,
+        status: response.status,
+        durationMs: attempt.duration_ms,
+      });
+      return 'delivered';
+    }
+
+    errorMessage = `Target responded with ${response.status}`;
+    if (response.headers.has('Retry-After')) {
+      retryAfterSeconds = parseRetryAfterHeader(response.headers.get('Retry-After'));
+    }
+  } catch (err) {
+    errorMessage = err instanceof Error ? err.message : String(err);
+    attempt = {
+      attempted_at: attemptedAt,
+      url: target.url,
+      response_status: null,
+      response_body: null,
+      duration_ms: Date.now() - startTime,
+    };
+  }
+
+  console.error(
+    `Outbound delivery ${delivery.id} to ${delivery.target_name} failed (attempt ${delivery.attempts}/${delivery.max_attempts}): ${errorMessage}`,
+  );
+
+  if (delivery.attempts >= delivery.max_attempts) {
+    await recordFailure(delivery, errorMessage, attempt, null);
+    return 'failed';
+  }
+
+  const delaySeconds = getRetryDelaySeconds(delivery.attempts, config, retryAfterSeconds);
+  await recordFailure(delivery, errorMessage, attempt, new Date(Date.now() + delaySeconds * 1000));
+  return 'retried';
+}
+
+/**
+ * Record a failed attempt, logging (rather than throwing) if the update fails.
+ * A delivery whose update failed stays in processing and is retried once its claim is stale.
+ */
+async function recordFailure(
+  delivery: OutboundDelivery,
+  errorMessage: string,
+  attempt: OutboundDeliveryAttempt,
+  nextAttemptAt: Date | null,
+): Promise<void> {
+  if (!nextAttemptAt) {
+    console.error(`Giving up on outbound delivery ${delivery.id}: ${errorMessage}`);
+  }
+
+  const { error } = await failOutboundDelivery(delivery.id, errorMessage, attempt, nextAttemptAt);
+  if (error) {
+    console.error(`Failed to update outbound delivery ${delivery.id}: ${error.message}`);
+  }
+}
+
+// =============================================================================
+// Handler Factory
+// =============================================================================
+
+/**
+ * Create a delivery worker handler for the given configuration.
+ *
+ * @param config The SupaSaaSy configuration
+ * @returns A Deno.serve compatible handler function
+ *
+ * @example
+ * ```typescript
+ * import { createDeliveryWorkerHandler } from 'supasaasy';
+ * import config from '../supasaasy.config.ts';
+ *
+ * Deno.serve(createDeliveryWorkerHandler(config));
+ * ```
+ */
+export function createDeliveryWorkerHandler(
+  config: SupaSaaSyConfig,
+): (req: Request) => Promise<Response> {
+  // Set the global config for change feed lookups
+  setConfig(config);
+
+  return async (req: Request): Promise<Response> => {
+    const startTime = Date.now();
+
+    // Only accept POST requests
+    if (req.method !== 'POST') {
+      return errorResponse('Method not allowed', 405);
+    }
+
+    try {
+      // Verify admin API key
+      if (!verifyAdminApiKey(req)) {
+        debugLog('delivery-worker', 'Authentication failed');
+        return errorResponse('Unauthorized: invalid or missing API key', 401);
+      }
+
+      // Check request body size
+      const contentLength = req.headers.get('Content-Length');
+      if (contentLength && parseInt(contentLength, 10) > MAX_REQUEST_SIZE) {
+        return errorResponse('Request body too large', 413);
+      }
+
+      // Parse optional request body
+      let requestBody: DeliveryWorkerRequest = {};
+      try {
+        const bodyText = await req.text();
+        if (bodyText.length > MAX_REQUEST_SIZE) {
+          return errorResponse('Request body too large', 413);
+        }
+        if (bodyText) {
+          requestBody = JSON.parse(bodyText);
+        }
+      } catch {
+        return errorResponse('Invalid JSON body', 400);
+      }
+
+      const maxDeliveries = requestBody.max_deliveries;
+      if (
+        maxDeliveries !== undefined && (!Number.isInteger(maxDeliveries) || maxDeliveries < 1)
+      ) {
+        return errorResponse('max_deliveries must be a positive integer', 400);
+      }
+
+      const outcomes: DeliveryOutcome[] = [];
+
+      // Drain the queue until it's empty, the limit is reached or time runs out.
+      // Deliveries left over are picked up by the next spawned worker.
+      while (Date.now() - startTime < MAX_WORKER_RUNTIME_MS) {
+        const remaining = maxDeliveries !== undefined ? maxDeliveries - outcomes.length : Infinity;
+        if (remaining <= 0) {
+          break;
+        }
+
+        const { data: deliveries, error: claimError } = await claimOutboundDeliveries(
+          Math.min(CLAIM_BATCH_SIZE, remaining),
+          STALE_CLAIM_SECONDS,
+        );
+
+        if (claimError) {
+          console.error(`Error claiming outbound deliveries: ${claimError.message}`);
+          break;
+        }
+
+        if (!deliveries || deliveries.length === 0) {
+          debugLog('delivery-worker', 'No outbound deliveries available');
+          break;
+        }
+
+        // Send in queue order so changes to the same entity arrive in the order made
+        for (const delivery of deliveries) {
+          outcomes.push(await processDelivery(delivery, config));
+        }
+      }
+
+      const durationMs = Date.now() - startTime;
+      console.log(`Delivery worker processed ${outcomes.length} delivery(s) in ${durationMs}ms`);
+
+      return successResponse({
+        success: true,
+        processed: outcomes.length,
+        delivered: outcomes.filter((o) => o === 'delivered').length,
+        retried: outcomes.filter((o) => o === 'retried').length,
+        failed: outcomes.filter((o) => o === 'failed').length,
+        duration_ms: durationMs,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Unexpected error sending outbound deliveries: ${errorMessage}`);
+      return errorResponse('Internal server error', 500);
+    }
+  };
+}
@@ -0,0 +1,215 @@
+/**
+ * Job Status Handler Unit Tests
+ *
+ * Tests for the job listing: filter validation, limits and cursor pagination.
+ */
+
+import { assertEquals } from '@std/assert';
+import { createJobStatusHandler } from './job-status.ts';
+import type { SyncJob } from '../db/index.ts';
+import { clearConfig } from '../connectors/index.ts';
+import { installMockSupabase, type MockSupabase } from '../connectors/__tests__/mocks/db.ts';
+import type { SupaSaaSyConfig } from '../types/index.ts';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const ADMIN_API_KEY = 'test-admin-key';
+
+const config: SupaSaaSyConfig = {
+  apps: [
+    { app_key: 'stripe_test', name: 'Stripe Test', connector: 'stripe', config: {} },
+  ],
+};
+
+function createJob(id: string, createdAt: string, overrides: Partial<SyncJob> = {}): SyncJob {
+  return {
+    id,
+    app_key: 'stripe_test',
+    mode: 'incremental',
+    resource_types: null,
+    status: 'completed',
+    total_tasks: 4,
+    completed_tasks: 3,
+    failed_tasks: 1,
+    processed_entities: 42,
+    created_at: createdAt,
+    started_at: createdAt,
+    completed_at: createdAt,
+    error_message: null,
+    needs_worker: false,
+    worker_spawned_at: null,
+    ...overrides,
+  };
+}
+
+function listRequest(query: string): Request {
+  return new Request(`http://localhost/job-status?${query}`, {
+    headers: { Authorization: `Bearer ${ADMIN_API_KEY}` },
+  });
+}
+
+/**
+ * Run a test against the handler with a mocked Supabase and the admin key set
+ */
+async function withHandler(
+  test: (handler: (req: Request) => Promise<Response>, supabase: MockSupabase) => Promise<void>,
+): Promise<void> {
+  const originalKey = Deno.env.get('ADMIN_API_KEY');
+  Deno.env.set('ADMIN_API_KEY', ADMIN_API_KEY);
+  const supabase = installMockSupabase();
+
+  try {
+    await test(createJobStatusHandler(config), supabase);
+  } finally {
+    supabase.restore();
+    clearConfig();
+    if (originalKey === undefined) {
+      Deno.env.delete('ADMIN_API_KEY');
+    } else {
+      Deno.env.set('ADMIN_API_KEY', originalKey);
+    }
+  }
+}
+
+/**
+ * Get the query parameters of the sync_jobs listing query
+ */
+function jobsQuery(supabase: MockSupabase): URLSearchParams | undefined {
+  return supabase.requests.find((r) => r.path === 'sync_jobs')?.params;
+}
+
+const JOB_1 = '00000000-0000-4000-8000-000000000001';
+const JOB_2 = '00000000-0000-4000-8000-000000000002';
+const JOB_3 = '00000000-0000-4000-8000-000000000003';
+
+// =============================================================================
+// Listing Tests
+// =============================================================================
+
+Deno.test('[JobStatus] list - returns jobs with their progress, newest first', async () => {
+  await withHandler(async (handler, supabase) => {
+    supabase.responses.set('sync_jobs', [createJob(JOB_1, '2026-01-02T00:00:00+00:00')]);
+
+    const response = await handler(listRequest('app_key=stripe_test&status=completed'));
+    const body = await response.json();
+
+    assertEquals(response.status, 200);
+    assertEquals(body.jobs.length, 1);
+    assertEquals(body.jobs[0].job_id, JOB_1);
+    assertEquals(body.jobs[0].progress_percentage, 100);
+    assertEquals(body.next_cursor, null);
+
+    const query = jobsQuery(supabase);
+    assertEquals(query?.get('app_key'), 'eq.stripe_test');
+    assertEquals(query?.get('status'), 'eq.completed');
+    assertEquals(query?.get('order'), 'created_at.desc,id.desc');
+  });
+});
+
+Deno.test('[JobStatus] list - next_cursor resumes after the last job of the page', async () => {
+  await withHandler(async (handler, supabase) => {
+    supabase.responses.set('sync_jobs', [
+      createJob(JOB_3, '2026-01-03T00:00:00+00:00'),
+      createJob(JOB_2, '2026-01-02T00:00:00+00:00'),
+      createJob(JOB_1, '2026-01-01T00:00:00+00:00'),
+    ]);
+
+    const first = await (await handler(listRequest('limit=2'))).json();
+
+    assertEquals(first.jobs.map((job: { job_id: string }) => job.job_id), [JOB_3, JOB_2]);
+    assertEquals(typeof first.next_cursor, 'string');
+
+    supabase.requests.length = 0;
+    supabase.responses.set('sync_jobs', [createJob(JOB_1, '2026-01-01T00:00:00+00:00')]);
+
+    const second = await handler(
+      listRequest(`limit=2&cursor=${encodeURIComponent(first.next_cursor)}`),
+    );
+    const body = await second.json();
+
+    assertEquals(second.status, 200);
+    assertEquals(body.jobs.map((job: { job_id: string }) => job.job_id), [JOB_1]);
+    assertEquals(body.next_cursor, null);
+    assertEquals(
+      jobsQuery(supabase)?.get('or'),
+      `(created_at.lt."2026-01-02T00:00:00+00:00",and(created_at.eq."2026-01-02T00:00:00+00:00",id.lt.${JOB_2}))`,
+    );
+  });
+});
+
+Deno.test('[JobStatus] list - rejects malformed cursors', async () => {
+  await withHandler(async (handler, supabase) => {
+    const cursors = [
+      'not a cursor',
+      btoa('not json'),
+      btoa(JSON.stringify({ created_at: '2026-01-01T00:00:00Z' })),
+      btoa(JSON.stringify({ created_at: '2026-01-01T00:00:00Z', id: 'job_1' })),
+      btoa(JSON.stringify({ created_at: '2026-01-01",id.gt.0', id: JOB_1 })),
+    ];
+
+    for (const cursor of cursors) {
+      const response = await handler(listRequest(`cursor=${encodeURIComponent(cursor)}`));
+      const body = await response.json();
+
+      assertEquals(response.status, 400);
+      assertEquals(body.error, 'Invalid cursor');
+    }
+    assertEquals(jobsQuery(supabase), undefined);
+  });
+});
+
+Deno.test('[JobStatus] list - defaults and clamps the limit', async () => {
+  await withHandler(async (handler, supabase) => {
+    // One more job than the page size is fetched to tell whether more remain
+    for (
+      const [query, fetched] of [['', '21'], ['limit=5', '6'], ['limit=500', '101']] as const
+    ) {
+      supabase.requests.length = 0;
+      const response = await handler(listRequest(query));
+
+      assertEquals(response.status, 200);
+      assertEquals(jobsQuery(supabase)?.get('limit'), fetched);
+    }
+  });
+});
+
+Deno.test('[JobStatus] list - rejects limits that are not positive integers', async () => {
+  await withHandler(async (handler, supabase) => {
+    for (const limit of ['0', '-1', '2.5', 'ten']) {
+      const response = await handler(listRequest(`limit=${limit}`));
+
+      assertEquals(response.status, 400);
+    }
+    assertEquals(jobsQuery(supabase), undefined);
+  });
+});
+
+Deno.test('[JobStatus] list - validates status and since', async () => {
+  await withHandler(async (handler, supabase) => {
+    const badStatus = await handler(listRequest('status=done'));
+    const badSince = await handler(listRequest('since=yesterday'));
+
+    assertEquals(badStatus.status, 400);
+    assertEquals((await badStatus.json()).error.startsWith('Invalid status'), true);
+    assertEquals(badSince.status, 400);
+    assertEquals((await badSince.json()).error.startsWith('Invalid since'), true);
+    assertEquals(jobsQuery(supabase), undefined);
+
+    const response = await handler(listRequest('status=failed&since=2026-01-01T00:00:00Z'));
+
+    assertEquals(response.status, 200);
+    assertEquals(jobsQuery(supabase)?.get('status'), 'eq.failed');
+    assertEquals(jobsQuery(supabase)?.get('created_at'), 'gte.2026-01-01T00:00:00.000Z');
+  });
+});
+
+Deno.test('[JobStatus] list - requires the admin API key', async () => {
+  await withHandler(async (handler, supabase) => {
+    const response = await handler(new Request('http://localhost/job-status'));
+
+    assertEquals(response.status, 401);
+    assertEquals(jobsQuery(supabase), undefined);
+  });
+});
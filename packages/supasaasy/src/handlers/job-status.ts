@@ -1,11 +1,27 @@
 /**
  * Job Status Handler Factory
  *
- * Creates a Deno.serve handler for querying sync job status and progress.
- * URL pattern: GET /sync/jobs/:job_id
+ * Creates a Deno.serve handler for querying sync job status and progress,
+ * listing recent jobs, and cancelling jobs.
+ * URL patterns:
+ *   GET  /sync/jobs/:job_id
+ *   GET  /sync/jobs?app_key=&status=&since=&limit=&cursor=
+ *   POST /sync/jobs/:job_id/cancel
+ *
+ * The listing returns jobs newest first. When more jobs match, the response
+ * includes a `next_cursor` to pass as `cursor` for the next page.
+ *
+ * Cancelling marks the job and its pending tasks as cancelled. Tasks that are
+ * already being processed stop before the connector fetches its next page.
  */
 
-import { getJobStatus } from '../db/index.ts';
+import {
+  cancelSyncJob,
+  getJobStatus,
+  listSyncJobs,
+  type SyncJobStatus,
+  type SyncJobStatusWithStats,
+} from '../db/index.ts';
 import type { SupaSaaSyConfig } from '../types/index.ts';
 import { setConfig } from '../connectors/index.ts';
 
@@ -18,8 +34,7 @@ import '../connectors/notion/index.ts';
 // Types
 // =============================================================================
 
-interface JobStatusResponse {
-  success: boolean;
+interface JobSummary {
   job_id: string;
   app_key: string;
   mode: string;
@@ -41,6 +56,23 @@ interface JobStatusResponse {
   }>;
 }
 
+interface JobStatusResponse extends JobSummary {
+  success: boolean;
+}
+
+interface JobListResponse {
+  success: boolean;
+  jobs: JobSummary[];
+  next_cursor: string | null;
+}
+
+interface JobCancelResponse {
+  success: boolean;
+  job_id: string;
+  status: string;
+  cancelled_tasks: number;
+}
+
 // =============================================================================
 // Response Helpers
 // =============================================================================
@@ -64,7 +96,9 @@ function errorResponse(message: string, status: number): Response {
   return jsonResponse({ error: message, success: false }, status);
 }
 
-function successResponse(data: JobStatusResponse): Response {
+function successResponse(
+  data: JobStatusResponse | JobListResponse | JobCancelResponse,
+): Response {
   return jsonResponse(data as unknown as Record<string, unknown>, 200);
 }
 
@@ -129,6 +163,7 @@ function verifyAdminApiKey(request: Request): boolean {
  *   - Path: /jobs/:job_id
  *   - Path: /job-status/:job_id (Edge Functions pattern)
  *   - Path: /:job_id
+ * Each path pattern may be followed by /cancel.
  */
 function extractJobIdFromUrl(url: URL): string | null {
   // First check query param (preferred for Edge Functions)
@@ -155,19 +190,215 @@ function extractJobIdFromUrl(url: URL): string | null {
   }
 
   // Pattern 4: /:job_id (direct job ID - must be UUID-like)
-  if (pathParts.length === 1 && /^[0-9a-f-]{36}$/i.test(pathParts[0])) {
+  if (
+    (pathParts.length === 1 || (pathParts.length === 2 && pathParts[1] === 'cancel')) &&
+    /^[0-9a-f-]{36}$/i.test(pathParts[0])
+  ) {
     return pathParts[0];
   }
 
   return null;
 }
 
+/**
+ * Check whether the URL is a job listing request (a jobs path without a job ID).
+ */
+function isListRequest(url: URL): boolean {
+  const path = url.pathname.split('/').filter(Boolean).join('/');
+  return ['', 'jobs', 'sync/jobs', 'job-status'].includes(path);
+}
+
+/**
+ * Check whether the URL is a cancel request (path ends with /cancel).
+ */
+function isCancelRequest(url: URL): boolean {
+  const pathParts = url.pathname.split('/').filter(Boolean);
+  return pathParts.length >= 2 && pathParts[pathParts.length - 1] === 'cancel';
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+/**
+ * Format a job with its statistics for a response, optionally with its tasks.
+ */
+function formatJob(jobStatus: SyncJobStatusWithStats, includeTasks: boolean): JobSummary {
+  return {
+    job_id: jobStatus.id,
+    app_key: jobStatus.app_key,
+    mode: jobStatus.mode,
+    status: jobStatus.status,
+    progress_percentage: jobStatus.progress_percentage,
+    total_tasks: jobStatus.total_tasks,
+    completed_tasks: jobStatus.completed_tasks,
+    failed_tasks: jobStatus.failed_tasks,
+    processed_entities: jobStatus.processed_entities,
+    created_at: jobStatus.created_at,
+    started_at: jobStatus.started_at,
+    completed_at: jobStatus.completed_at,
+    error_message: jobStatus.error_message,
+    tasks: includeTasks
+      ? jobStatus.tasks.map((task) => ({
+        resource_type: task.resource_type,
+        status: task.status,
+        entity_count: task.entity_count,
+        error_message: task.error_message,
+      }))
+      : undefined,
+  };
+}
+
+// =============================================================================
+// Job Listing
+// =============================================================================
+
+const VALID_JOB_STATUSES: SyncJobStatus[] = [
+  'pending',
+  'processing',
+  'completed',
+  'failed',
+  'cancelled',
+];
+
+/** Default and maximum page sizes for the job listing */
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 100;
+
+/**
+ * Encode the position of the last job in a page as an opaque cursor.
+ */
+function encodeCursor(job: { created_at: string; id: string }): string {
+  return btoa(JSON.stringify({ created_at: job.created_at, id: job.id }));
+}
+
+/**
+ * Decode a listing cursor. Returns null if it is malformed.
+ */
+function decodeCursor(cursor: string): { created_at: string; id: string } | null {
+  try {
+    const decoded = JSON.parse(atob(cursor));
+    const { created_at, id } = decoded ?? {};
+    if (
+      typeof created_at !== 'string' || !/^[0-9T:.+\- ]+$/.test(created_at) ||
+      isNaN(Date.parse(created_at)) ||
+      typeof id !== 'string' || !/^[0-9a-f-]{36}$/i.test(id)
+    ) {
+      return null;
+    }
+    return { created_at, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List jobs matching the query parameters, newest first.
+ */
+async function handleList(url: URL): Promise<Response> {
+  const params = url.searchParams;
+
+  const status = params.get('status') ?? undefined;
+  if (status !== undefined && !VALID_JOB_STATUSES.includes(status as SyncJobStatus)) {
+    return errorResponse(`Invalid status: must be one of ${VALID_JOB_STATUSES.join(', ')}`, 400);
+  }
+
+  const sinceParam = params.get('since');
+  const since = sinceParam ? new Date(sinceParam) : undefined;
+  if (since && isNaN(since.getTime())) {
+    return errorResponse('Invalid since: must be an ISO 8601 timestamp', 400);
+  }
+
+  // Larger pages are clamped rather than rejected
+  const limitParam = params.get('limit');
+  const requestedLimit = limitParam ? Number(limitParam) : DEFAULT_LIST_LIMIT;
+  if (!Number.isInteger(requestedLimit) || requestedLimit < 1) {
+    return errorResponse('Invalid limit: must be a positive integer', 400);
+  }
+  const limit = Math.min(requestedLimit, MAX_LIST_LIMIT);
+
+  const cursorParam = params.get('cursor');
+  const after = cursorParam ? decodeCursor(cursorParam) : undefined;
+  if (after === null) {
+    return errorResponse('Invalid cursor', 400);
+  }
+
+  const { data, error } = await listSyncJobs({
+    app_key: params.get('app_key') ?? undefined,
+    status: status as SyncJobStatus | undefined,
+    since,
+    limit,
+    after,
+  });
+
+  if (error || !data) {
+    return errorResponse(`Failed to list jobs: ${error?.message || 'Unknown error'}`, 500);
+  }
+
+  const includeTasks = params.get('include_tasks') === 'true';
+  const lastJob = data.jobs[data.jobs.length - 1];
+
+  return successResponse({
+    success: true,
+    jobs: data.jobs.map((job) => formatJob(job, includeTasks)),
+    next_cursor: data.hasMore && lastJob ? encodeCursor(lastJob) : null,
+  });
+}
+
+// =============================================================================
+// Job Cancellation
+// =============================================================================
+
+/**
+ * Cancel a pending or processing job.
+ * Returns 409 if the job has already finished.
+ */
+async function handleCancel(jobId: string): Promise<Response> {
+  const { data: jobStatus, error } = await getJobStatus(jobId);
+
+  if (error) {
+    return errorResponse(`Failed to fetch job status: ${error.message}`, 500);
+  }
+
+  if (!jobStatus) {
+    return errorResponse('Job not found', 404);
+  }
+
+  if (jobStatus.status !== 'pending' && jobStatus.status !== 'processing') {
+    return errorResponse(`Job is already ${jobStatus.status}`, 409);
+  }
+
+  const { data: cancelled, error: cancelError } = await cancelSyncJob(jobId);
+
+  if (cancelError) {
+    return errorResponse(`Failed to cancel job: ${cancelError.message}`, 500);
+  }
+
+  if (!cancelled) {
+    // The job finished between the status check and the update
+    return errorResponse('Job has already finished', 409);
+  }
+
+  console.log(
+    `Cancelled job ${jobId} (${cancelled.cancelledTasks.length} pending task(s) cancelled)`,
+  );
+
+  return successResponse({
+    success: true,
+    job_id: cancelled.job.id,
+    status: cancelled.job.status,
+    cancelled_tasks: cancelled.cancelledTasks.length,
+  });
+}
+
 // =============================================================================
 // Handler Factory
 // =============================================================================
 
 /**
  * Create a job status handler for the given configuration.
+ * Serves job status (or the job listing, when no job ID is given) on GET and
+ * cancels jobs on POST to `<job path>/cancel`.
  *
  * @param config The SupaSaaSy configuration
  * @returns A Deno.serve compatible handler function
@@ -187,8 +418,11 @@ export function createJobStatusHandler(
   setConfig(config);
 
   return async (req: Request): Promise<Response> => {
-    // Only accept GET requests
-    if (req.method !== 'GET') {
+    const url = new URL(req.url);
+    const cancel = isCancelRequest(url);
+
+    // Accept GET for status and POST for cancellation
+    if (req.method !== (cancel ? 'POST' : 'GET')) {
       return errorResponse('Method not allowed', 405);
     }
 
@@ -199,13 +433,19 @@ export function createJobStatusHandler(
       }
 
       // Extract job ID from URL
-      const url = new URL(req.url);
       const jobId = extractJobIdFromUrl(url);
 
       if (!jobId) {
+        if (!cancel && isListRequest(url)) {
+          return await handleList(url);
+        }
         return errorResponse('Missing job ID in URL path', 400);
       }
 
+      if (cancel) {
+        return await handleCancel(jobId);
+      }
+
       console.log(`Fetching status for job ${jobId}`);
 
       // Get job status with aggregated statistics
@@ -219,33 +459,12 @@ export function createJobStatusHandler(
         return errorResponse('Job not found', 404);
       }
 
-      // Format tasks for response (optional, can be filtered via query param)
+      // Tasks are optional, included via query param
       const includeTasks = url.searchParams.get('include_tasks') === 'true';
-      const tasks = includeTasks
-        ? jobStatus.tasks.map((task) => ({
-          resource_type: task.resource_type,
-          status: task.status,
-          entity_count: task.entity_count,
-          error_message: task.error_message,
-        }))
-        : undefined;
 
       const response: JobStatusResponse = {
         success: true,
-        job_id: jobStatus.id,
-        app_key: jobStatus.app_key,
-        mode: jobStatus.mode,
-        status: jobStatus.status,
-        progress_percentage: jobStatus.progress_percentage,
-        total_tasks: jobStatus.total_tasks,
-        completed_tasks: jobStatus.completed_tasks,
-        failed_tasks: jobStatus.failed_tasks,
-        processed_entities: jobStatus.processed_entities,
-        created_at: jobStatus.created_at,
-        started_at: jobStatus.started_at,
-        completed_at: jobStatus.completed_at,
-        error_message: jobStatus.error_message,
-        tasks,
+        ...formatJob(jobStatus, includeTasks),
       };
 
       return successResponse(response);
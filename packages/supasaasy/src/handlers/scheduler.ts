@@ -0,0 +1,377 @@
+/**
+ * Scheduler Handler Factory
+ *
+ * Creates a Deno.serve handler that runs the configured `sync_schedules`.
+ * URL pattern: POST /scheduler
+ * Body: { app_key?: string, cron?: string } (optional)
+ *
+ * When called with an app_key (as the pg_cron jobs generated by getMigrations do),
+ * the enabled schedules for that app (optionally narrowed to one cron expression) are
+ * treated as due. When called without a body (e.g. from an external cron hitting the
+ * endpoint every minute), each enabled schedule's cron expression is matched against
+ * the current UTC minute.
+ *
+ * Due schedules create a sync job with one task per resource type. Schedules whose app
+ * already has a pending or processing job are skipped to avoid overlapping syncs. Stuck
+ * tasks are recovered first, so a crashed worker can't block a schedule indefinitely.
+ */
+
+import type { SupaSaaSyConfig, SyncSchedule } from '../types/index.ts';
+import {
+  createJobTasks,
+  createSyncJob,
+  getActiveSyncJob,
+  reapStuckTasks,
+  wakeDueRetries,
+} from '../db/index.ts';
+import { getAppConfig, getConnector, setConfig } from '../connectors/index.ts';
+import { debugLog } from '../connectors/utils.ts';
+import { cronMatches } from '../config/cron.ts';
+
+// Import connectors to ensure they register themselves
+import '../connectors/stripe/index.ts';
+import '../connectors/intercom/index.ts';
+import '../connectors/notion/index.ts';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface SchedulerRequest {
+  app_key?: string;
+  cron?: string;
+}
+
+interface ScheduleRunResult {
+  app_key: string;
+  cron: string;
+  status: 'queued' | 'skipped' | 'failed';
+  job_id?: string;
+  total_tasks?: number;
+  reason?: string;
+}
+
+interface SchedulerResponse {
+  success: boolean;
+  evaluated_at: string;
+  queued: number;
+  skipped: number;
+  failed: number;
+  schedules: ScheduleRunResult[];
+}
+
+// =============================================================================
+// Response Helpers
+// =============================================================================
+
+const RESPONSE_HEADERS = {
+  'Content-Type': 'application/json',
+};
+
+function jsonResponse(
+  data: Record<string, unknown>,
+  status: number,
+): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: RESPONSE_HEADERS,
+  });
+}
+
+function errorResponse(message: string, status: number): Response {
+  console.error(`Scheduler error [${status}]: ${message}`);
+  return jsonResponse({ error: message, success: false }, status);
+}
+
+function successResponse(data: SchedulerResponse): Response {
+  return jsonResponse(data as unknown as Record<string, unknown>, 200);
+}
+
+// =============================================================================
+// Security Helpers
+// =============================================================================
+
+/**
+ * Constant-time string comparison to prevent timing attacks.
+ * Returns true if both strings are equal.
+ */
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return result === 0;
+}
+
+/**
+ * Maximum request body size (1KB - the scheduler only accepts an app_key and cron)
+ */
+const MAX_REQUEST_SIZE = 1024;
+
+// =============================================================================
+// Authentication
+// =============================================================================
+
+/**
+ * Verify the admin API key from the Authorization header.
+ * Expected format: "Bearer <admin_api_key>"
+ * Uses constant-time comparison to prevent timing attacks.
+ */
+function verifyAdminApiKey(request: Request): boolean {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader) {
+    return false;
+  }
+
+  const [scheme, token] = authHeader.split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    return false;
+  }
+
+  const adminApiKey = Deno.env.get('ADMIN_API_KEY');
+  if (!adminApiKey) {
+    console.error('ADMIN_API_KEY environment variable is not set');
+    return false;
+  }
+
+  // Use constant-time comparison to prevent timing attacks
+  return constantTimeEqual(token, adminApiKey);
+}
+
+// =============================================================================
+// Schedule Evaluation
+// =============================================================================
+
+/**
+ * Work out which enabled schedules are due.
+ * With an app_key, the enabled schedules for that app are due (the caller decided
+ * the timing). Without one, schedules are matched against the given time.
+ */
+function getDueSchedules(
+  schedules: SyncSchedule[],
+  now: Date,
+  appKey?: string,
+  cron?: string,
+): SyncSchedule[] {
+  const enabled = schedules.filter((s) => s.enabled);
+
+  if (appKey) {
+    return enabled.filter((s) => s.app_key === appKey && (!cron || s.cron === cron));
+  }
+
+  return enabled.filter((s) => cronMatches(s.cron, now));
+}
+
+/**
+ * Create a sync job with one task per resource type for a due schedule.
+ * Nested resources (syncedWithParent) are excluded, as in the sync handler.
+ */
+async function runSchedule(
+  schedule: SyncSchedule,
+  config: SupaSaaSyConfig,
+): Promise<ScheduleRunResult> {
+  const base = { app_key: schedule.app_key, cron: schedule.cron };
+  const mode = schedule.mode ?? 'incremental';
+
+  const appConfig = getAppConfig(schedule.app_key, config);
+  if (!appConfig) {
+    return { ...base, status: 'failed', reason: `Unknown app_key: ${schedule.app_key}` };
+  }
+
+  // Skip if a previous run for this app is still in flight
+  const { data: activeJob, error: activeError } = await getActiveSyncJob(appConfig.app_key);
+  if (activeError) {
+    return {
+      ...base,
+      status: 'failed',
+      reason: `Failed to check for active jobs: ${activeError.message}`,
+    };
+  }
+  if (activeJob) {
+    debugLog('scheduler', 'Skipping schedule with active job', {
+      appKey: appConfig.app_key,
+      activeJobId: activeJob.id,
+    });
+    return {
+      ...base,
+      status: 'skipped',
+      job_id: activeJob.id,
+      reason: `Job ${activeJob.id} is already ${activeJob.status}`,
+    };
+  }
+
+  const connector = await getConnector(appConfig.connector);
+  if (!connector) {
+    return { ...base, status: 'failed', reason: `Connector not found: ${appConfig.connector}` };
+  }
+
+  const supportedResources = connector.metadata.supportedResources;
+  const resourceTypes = supportedResources
+    .filter((r) =>
+      !r.syncedWithParent &&
+      (!schedule.resource_types || schedule.resource_types.includes(r.resourceType))
+    )
+    .map((r) => r.resourceType);
+
+  if (resourceTypes.length === 0) {
+    return { ...base, status: 'failed', reason: 'No resources to sync' };
+  }
+
+  const { data: job, error: jobError } = await createSyncJob({
+    app_key: appConfig.app_key,
+    mode,
+    resource_types: resourceTypes,
+  });
+
+  if (jobError || !job) {
+    return {
+      ...base,
+      status: 'failed',
+      reason: `Failed to create sync job: ${jobError?.message || 'Unknown error'}`,
+    };
+  }
+
+  const { error: tasksError } = await createJobTasks(
+    job.id,
+    resourceTypes,
+    config.workers?.max_task_attempts,
+  );
+  if (tasksError) {
+    return {
+      ...base,
+      status: 'failed',
+      job_id: job.id,
+      reason: `Failed to create job tasks: ${tasksError.message}`,
+    };
+  }
+
+  console.log(
+    `Scheduled ${mode} sync job ${job.id} for ${appConfig.app_key}: ${resourceTypes.join(', ')}`,
+  );
+
+  return {
+    ...base,
+    status: 'queued',
+    job_id: job.id,
+    total_tasks: resourceTypes.length,
+  };
+}
+
+// =============================================================================
+// Handler Factory
+// =============================================================================
+
+/**
+ * Create a scheduler handler for the given configuration.
+ *
+ * @param config The SupaSaaSy configuration
+ * @returns A Deno.serve compatible handler function
+ *
+ * @example
+ * ```typescript
+ * import { createSchedulerHandler } from 'supasaasy';
+ * import config from '../supasaasy.config.ts';
+ *
+ * Deno.serve(createSchedulerHandler(config));
+ * ```
+ */
+export function createSchedulerHandler(
+  config: SupaSaaSyConfig,
+): (req: Request) => Promise<Response> {
+  // Set the global config for connector lookups
+  setConfig(config);
+
+  return async (req: Request): Promise<Response> => {
+    // Only accept POST requests
+    if (req.method !== 'POST') {
+      return errorResponse('Method not allowed', 405);
+    }
+
+    try {
+      // Verify admin API key
+      if (!verifyAdminApiKey(req)) {
+        debugLog('scheduler', 'Authentication failed');
+        return errorResponse('Unauthorized: invalid or missing API key', 401);
+      }
+
+      // Check request body size
+      const contentLength = req.headers.get('Content-Length');
+      if (contentLength && parseInt(contentLength, 10) > MAX_REQUEST_SIZE) {
+        return errorResponse('Request body too large', 413);
+      }
+
+      // Parse optional request body
+      let requestBody: SchedulerRequest = {};
+      try {
+        const bodyText = await req.text();
+        if (bodyText.length > MAX_REQUEST_SIZE) {
+          return errorResponse('Request body too large', 413);
+        }
+        if (bodyText) {
+          requestBody = JSON.parse(bodyText);
+        }
+      } catch {
+        return errorResponse('Invalid JSON body', 400);
+      }
+
+      const appKey = requestBody.app_key;
+      if (appKey !== undefined && (typeof appKey !== 'string' || !getAppConfig(appKey, config))) {
+        return errorResponse(`Unknown app_key: ${appKey}`, 404);
+      }
+
+      // Recover stuck tasks so jobs orphaned by crashed workers don't block schedules
+      const { error: reapError } = await reapStuckTasks(
+        config.workers?.stuck_task_timeout_seconds,
+        config.workers?.max_task_attempts,
+      );
+      if (reapError) {
+        console.error(`Error reaping stuck tasks: ${reapError.message}`);
+      }
+
+      // Wake jobs whose task retries are due, for setups without the pg_cron job
+      const { error: wakeError } = await wakeDueRetries();
+      if (wakeError) {
+        console.error(`Error waking due retries: ${wakeError.message}`);
+      }
+
+      const now = new Date();
+      const dueSchedules = getDueSchedules(
+        config.sync_schedules ?? [],
+        now,
+        appKey,
+        requestBody.cron,
+      );
+
+      debugLog('scheduler', 'Evaluated schedules', {
+        appKey,
+        evaluatedAt: now.toISOString(),
+        due: dueSchedules.map((s) => s.app_key),
+      });
+
+      const results: ScheduleRunResult[] = [];
+      for (const schedule of dueSchedules) {
+        const result = await runSchedule(schedule, config);
+        if (result.status === 'failed') {
+          console.error(`Schedule for ${schedule.app_key} failed: ${result.reason}`);
+        }
+        results.push(result);
+      }
+
+      return successResponse({
+        success: results.every((r) => r.status !== 'failed'),
+        evaluated_at: now.toISOString(),
+        queued: results.filter((r) => r.status === 'queued').length,
+        skipped: results.filter((r) => r.status === 'skipped').length,
+        failed: results.filter((r) => r.status === 'failed').length,
+        schedules: results,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Unexpected error running schedules: ${errorMessage}`);
+      return errorResponse('Internal server error', 500);
+    }
+  };
+}
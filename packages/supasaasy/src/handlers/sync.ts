@@ -41,6 +41,7 @@ interface CollectionSyncResult {
   collection_key: string;
   created: number;
   updated: number;
+  unchanged: number;
   deleted: number;
   errors: number;
   error_messages: string[];
@@ -53,6 +54,7 @@ interface SyncResponse {
   collections: CollectionSyncResult[];
   total_created: number;
   total_updated: number;
+  total_unchanged: number;
   total_deleted: number;
   total_errors: number;
   duration_ms: number;
@@ -260,6 +262,7 @@ async function syncCollection(
     collection_key: collectionKey,
     created: 0,
     updated: 0,
+    unchanged: 0,
     deleted: 0,
     errors: 0,
     error_messages: [],
@@ -280,6 +283,7 @@ async function syncCollection(
     let syncResult: SyncResult;
     const syncOptions: SyncOptions = {
       resourceTypes: [resourceType],
+      changeSource: 'sync',
       // Enable verbose logging when debug mode is enabled
       verbose: isDebugEnabled(),
     };
@@ -317,6 +321,7 @@ async function syncCollection(
     // It also handles deletion detection during full sync
     result.created = syncResult.created;
     result.updated = syncResult.updated;
+    result.unchanged = syncResult.unchanged ?? 0;
     result.deleted = syncResult.deleted;
     result.errors = syncResult.errors;
     if (syncResult.errorMessages) {
@@ -328,6 +333,7 @@ async function syncCollection(
       success: syncResult.success,
       created: syncResult.created,
       updated: syncResult.updated,
+      unchanged: syncResult.unchanged,
       deleted: syncResult.deleted,
       errors: syncResult.errors,
       durationMs: syncResult.durationMs,
@@ -401,6 +407,7 @@ async function syncApp(
   const collections: CollectionSyncResult[] = [];
   let totalCreated = 0;
   let totalUpdated = 0;
+  let totalUnchanged = 0;
   let totalDeleted = 0;
   let totalErrors = 0;
 
@@ -472,6 +479,7 @@ async function syncApp(
     collections.push(result);
     totalCreated += result.created;
     totalUpdated += result.updated;
+    totalUnchanged += result.unchanged;
     totalDeleted += result.deleted;
     totalErrors += result.errors;
   }
@@ -481,6 +489,7 @@ async function syncApp(
     totalCollections: collections.length,
     totalCreated,
     totalUpdated,
+    totalUnchanged,
     totalDeleted,
     totalErrors,
   });
@@ -492,6 +501,7 @@ async function syncApp(
     collections,
     total_created: totalCreated,
     total_updated: totalUpdated,
+    total_unchanged: totalUnchanged,
     total_deleted: totalDeleted,
     total_errors: totalErrors,
   };
@@ -510,7 +520,7 @@ async function syncApp(
 async function createSyncJobWithTasks(
   appConfig: AppConfig,
   mode: SyncMode,
-  _config: SupaSaaSyConfig,
+  config: SupaSaaSyConfig,
   resourceTypes: string[] | undefined,
 ): Promise<JobSyncResponse> {
   debugLog('sync', 'Creating sync job with tasks', {
@@ -571,7 +581,11 @@ async function createSyncJobWithTasks(
   });
 
   // Create one task per resource type
-  const { error: tasksError } = await createJobTasks(job.id, resourceTypesToSync);
+  const { error: tasksError } = await createJobTasks(
+    job.id,
+    resourceTypesToSync,
+    config.workers?.max_task_attempts,
+  );
 
   if (tasksError) {
     debugLog('sync', 'Failed to create job tasks', { jobId: job.id, error: tasksError.message });
@@ -728,13 +742,14 @@ export function createSyncHandler(
 
         const duration = Date.now() - startTime;
         console.log(
-          `Sync completed for ${appKey}: created=${result.total_created}, updated=${result.total_updated}, deleted=${result.total_deleted}, errors=${result.total_errors}, duration=${duration}ms`,
+          `Sync completed for ${appKey}: created=${result.total_created}, updated=${result.total_updated}, unchanged=${result.total_unchanged}, deleted=${result.total_deleted}, errors=${result.total_errors}, duration=${duration}ms`,
         );
 
         debugLog('sync', 'Immediate sync completed', {
           appKey,
           totalCreated: result.total_created,
           totalUpdated: result.total_updated,
+          totalUnchanged: result.total_unchanged,
           totalDeleted: result.total_deleted,
           totalErrors: result.total_errors,
           durationMs: duration,
@@ -0,0 +1,269 @@
+/**
+ * Webhook Replay Handler Unit Tests
+ *
+ * Tests for request validation, dry runs, skipped log entries and replaying logged
+ * bodies through a connector's parse and extract functions.
+ */
+
+import { assertEquals } from '@std/assert';
+import { createWebhookReplayHandler } from './webhook-replay.ts';
+import { clearConfig, registerConnector } from '../connectors/index.ts';
+import {
+  createMockConnector,
+  createMockConnectorMetadata,
+} from '../connectors/__tests__/mocks/index.ts';
+import { installMockSupabase, type MockSupabase } from '../connectors/__tests__/mocks/db.ts';
+import type {
+  AppConfig,
+  NormalizedEntity,
+  ParsedWebhookEvent,
+  SupaSaaSyConfig,
+  WebhookLogEntry,
+} from '../types/index.ts';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const ADMIN_API_KEY = 'test-admin-key';
+
+const config: SupaSaaSyConfig = {
+  apps: [
+    { app_key: 'replay_app', name: 'Replay App', connector: 'replay_mock', config: {} },
+    {
+      app_key: 'redacted_app',
+      name: 'Redacted App',
+      connector: 'replay_mock',
+      config: {},
+      redaction: { webhook_logs: { drop: ['data.email'] } },
+    },
+  ],
+};
+
+/**
+ * Stub connector that parses `{ type, data }` bodies and extracts `data` as an entity
+ */
+registerConnector('replay_mock', () => ({
+  ...createMockConnector(),
+  metadata: createMockConnectorMetadata({ name: 'replay_mock' }),
+  // deno-lint-ignore require-await
+  async parseWebhookEvent(payload: unknown): Promise<ParsedWebhookEvent> {
+    const body = payload as { type: string; data: Record<string, unknown> };
+    return {
+      eventType: 'update',
+      originalEventType: body.type,
+      resourceType: 'test_resource',
+      externalId: String(body.data.id),
+      data: body.data,
+      timestamp: new Date('2026-01-01T00:00:00.000Z'),
+    };
+  },
+  // deno-lint-ignore require-await
+  async extractEntities(
+    event: ParsedWebhookEvent,
+    appConfig: AppConfig,
+  ): Promise<NormalizedEntity[]> {
+    return [{
+      externalId: event.externalId,
+      appKey: appConfig.app_key,
+      collectionKey: 'mock_test_resource',
+      rawPayload: event.data,
+    }];
+  },
+}));
+
+const LOG_1 = '00000000-0000-4000-8000-000000000001';
+const LOG_2 = '00000000-0000-4000-8000-000000000002';
+
+function createLog(id: string, overrides: Partial<WebhookLogEntry> = {}): WebhookLogEntry {
+  return {
+    id,
+    app_key: 'replay_app',
+    request_method: 'POST',
+    request_path: '/webhook/replay_app',
+    request_headers: {},
+    request_body: { type: 'customer.updated', data: { id: 'cus_1', email: 'jane@example.com' } },
+    request_body_redacted: false,
+    response_status: 500,
+    created_at: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function replayRequest(body: unknown): Request {
+  return new Request('http://localhost/webhook-replay', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${ADMIN_API_KEY}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+/**
+ * Run a test against the handler with a mocked Supabase and the admin key set
+ */
+async function withHandler(
+  test: (handler: (req: Request) => Promise<Response>, supabase: MockSupabase) => Promise<void>,
+): Promise<void> {
+  const originalKey = Deno.env.get('ADMIN_API_KEY');
+  Deno.env.set('ADMIN_API_KEY', ADMIN_API_KEY);
+  const supabase = installMockSupabase();
+
+  try {
+    await test(createWebhookReplayHandler(config), supabase);
+  } finally {
+    supabase.restore();
+    clearConfig();
+    if (originalKey === undefined) {
+      Deno.env.delete('ADMIN_API_KEY');
+    } else {
+      Deno.env.set('ADMIN_API_KEY', originalKey);
+    }
+  }
+}
+
+// =============================================================================
+// Validation Tests
+// =============================================================================
+
+Deno.test('[WebhookReplay] rejects invalid requests before loading logs', async () => {
+  await withHandler(async (handler, supabase) => {
+    const invalid = [
+      {},
+      { log_ids: [] },
+      { log_ids: ['log_1'] },
+      { log_ids: Array.from({ length: 501 }, () => LOG_1) },
+      { from: 'yesterday' },
+      { from: '2026-01-01T00:00:00Z', to: 'now' },
+      { from: '2026-01-01T00:00:00Z', limit: 0 },
+      { from: '2026-01-01T00:00:00Z', limit: 501 },
+    ];
+
+    for (const body of invalid) {
+      const response = await handler(replayRequest(body));
+
+      assertEquals(response.status, 400, JSON.stringify(body).slice(0, 80));
+    }
+
+    const unknownApp = await handler(
+      replayRequest({ from: '2026-01-01T00:00:00Z', app_key: 'missing' }),
+    );
+    assertEquals(unknownApp.status, 404);
+
+    const unauthorized = await handler(
+      new Request('http://localhost/webhook-replay', { method: 'POST', body: '{}' }),
+    );
+    assertEquals(unauthorized.status, 401);
+
+    assertEquals(supabase.requests.length, 0);
+  });
+});
+
+Deno.test('[WebhookReplay] loads logs with the requested filters', async () => {
+  await withHandler(async (handler, supabase) => {
+    const response = await handler(replayRequest({
+      from: '2026-01-01T00:00:00Z',
+      to: '2026-01-02T00:00:00Z',
+      app_key: 'replay_app',
+      failed_only: true,
+      limit: 50,
+    }));
+
+    assertEquals(response.status, 200);
+    const query = supabase.requests.find((r) => r.path === 'webhook_logs')?.params;
+    assertEquals(query?.get('app_key'), 'eq.replay_app');
+    assertEquals(query?.getAll('created_at'), [
+      'gte.2026-01-01T00:00:00.000Z',
+      'lt.2026-01-02T00:00:00.000Z',
+    ]);
+    assertEquals(query?.get('response_status'), 'gte.400');
+    assertEquals(query?.get('limit'), '50');
+    assertEquals(query?.get('order'), 'created_at.asc');
+  });
+});
+
+// =============================================================================
+// Replay Tests
+// =============================================================================
+
+Deno.test('[WebhookReplay] replays logged bodies through the connector', async () => {
+  await withHandler(async (handler, supabase) => {
+    supabase.responses.set('webhook_logs', [createLog(LOG_1)]);
+
+    const response = await handler(replayRequest({ log_ids: [LOG_1] }));
+    const body = await response.json();
+
+    assertEquals(response.status, 200);
+    assertEquals(body.success, true);
+    assertEquals(body.replayed, 1);
+    assertEquals(body.results[0].status, 'replayed');
+    assertEquals(body.results[0].event_type, 'customer.updated');
+    assertEquals(body.results[0].external_id, 'cus_1');
+    assertEquals(body.results[0].entity_count, 1);
+
+    const { data: entity } = supabase.store.getEntity(
+      'replay_app',
+      'mock_test_resource',
+      'cus_1',
+    );
+    assertEquals(entity?.raw_payload, { id: 'cus_1', email: 'jane@example.com' });
+  });
+});
+
+Deno.test('[WebhookReplay] dry runs parse and extract without writing', async () => {
+  await withHandler(async (handler, supabase) => {
+    supabase.responses.set('webhook_logs', [createLog(LOG_1)]);
+
+    const response = await handler(replayRequest({ log_ids: [LOG_1], dry_run: true }));
+    const body = await response.json();
+
+    assertEquals(body.dry_run, true);
+    assertEquals(body.replayed, 1);
+    assertEquals(body.results[0].status, 'would_replay');
+    assertEquals(body.results[0].entity_count, 1);
+    assertEquals(supabase.requests.every((r) => r.method === 'GET'), true);
+    assertEquals(supabase.store.getAllEntities().length, 0);
+  });
+});
+
+Deno.test('[WebhookReplay] skips redacted and unverified logs', async () => {
+  await withHandler(async (handler, supabase) => {
+    supabase.responses.set('webhook_logs', [
+      createLog(LOG_1, { request_body_redacted: true }),
+      // Logs from before the flag was recorded count as redacted when the app has rules
+      createLog(LOG_2, { app_key: 'redacted_app', request_body_redacted: null }),
+      createLog(LOG_1, { response_status: 401 }),
+      createLog(LOG_2, { request_body: undefined }),
+    ]);
+
+    const response = await handler(replayRequest({ from: '2026-01-01T00:00:00Z', force: false }));
+    const body = await response.json();
+
+    assertEquals(body.skipped, 4);
+    assertEquals(body.replayed, 0);
+    assertEquals(
+      body.results.map((r: { reason: string }) => r.reason),
+      [
+        'Request body was redacted; run a sync to refetch the data',
+        'Request body was redacted; run a sync to refetch the data',
+        'Original request was not verified',
+        'Log entry has no request body',
+      ],
+    );
+    assertEquals(supabase.store.getAllEntities().length, 0);
+  });
+});
+
+Deno.test('[WebhookReplay] force replays unverified logs but never redacted ones', async () => {
+  await withHandler(async (handler, supabase) => {
+    supabase.responses.set('webhook_logs', [
+      createLog(LOG_1, { response_status: 401 }),
+      createLog(LOG_2, { request_body_redacted: true }),
+    ]);
+
+    const response = await handler(replayRequest({ from: '2026-01-01T00:00:00Z', force: true }));
+    const body = await response.json();
+
+    assertEquals(body.results.map((r: { status: string }) => r.status), ['replayed', 'skipped']);
+    assertEquals(supabase.store.getAllEntities().length, 1);
+  });
+});
@@ -0,0 +1,426 @@
+/**
+ * Webhook Replay Handler Factory
+ *
+ * Creates a Deno.serve handler that replays webhooks stored in `supasaasy.webhook_logs`
+ * through the same parse/extract/upsert pipeline as the webhook handler, e.g. after a
+ * deploy broke webhook processing.
+ * URL pattern: POST /webhook-replay
+ * Body: {
+ *   log_ids?: string[],      // replay these log entries, or
+ *   from?: string,           // replay a time range (ISO 8601, to defaults to now)
+ *   to?: string,
+ *   app_key?: string,        // only logs for this app
+ *   failed_only?: boolean,   // only logs with a response status >= 400
+ *   limit?: number,          // max logs to replay (default 100, max 500)
+ *   dry_run?: boolean,       // parse and extract, but don't write
+ *   force?: boolean          // also replay logs that don't show a verified request
+ * }
+ *
+ * Signature verification is skipped: the webhook handler only stores the request body
+ * after the signature was verified, so a logged body proves the original delivery was
+ * genuine. Logs without that proof are skipped unless `force` is set. Logs whose body
+ * was redacted are always skipped, since replaying them would write the redacted
+ * values into entities; run a sync to refetch that data instead. Requires
+ * `webhook_logging` to have been enabled when the webhooks were received.
+ */
+
+import type {
+  AppConfig,
+  ParsedWebhookEvent,
+  SupaSaaSyConfig,
+  WebhookLogEntry,
+} from '../types/index.ts';
+import { getWebhookLogs } from '../db/index.ts';
+import { hasWebhookBodyRedaction } from '../redaction/index.ts';
+import { type Connector, getAppConfig, getConnector, setConfig } from '../connectors/index.ts';
+import { debugLog } from '../connectors/utils.ts';
+import { processWebhookEntities, processWebhookEvent } from './webhook.ts';
+
+// Import connectors to ensure they register themselves
+import '../connectors/stripe/index.ts';
+import '../connectors/intercom/index.ts';
+import '../connectors/notion/index.ts';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface ReplayRequest {
+  log_ids?: string[];
+  from?: string;
+  to?: string;
+  app_key?: string;
+  failed_only?: boolean;
+  limit?: number;
+  dry_run?: boolean;
+  force?: boolean;
+}
+
+interface LogReplayResult {
+  log_id: string;
+  app_key: string | null;
+  status: 'replayed' | 'would_replay' | 'skipped' | 'failed';
+  event_type?: string;
+  resource_type?: string;
+  external_id?: string;
+  action?: string;
+  entity_count?: number;
+  reason?: string;
+}
+
+interface ReplayResponse {
+  success: boolean;
+  dry_run: boolean;
+  total: number;
+  replayed: number;
+  skipped: number;
+  failed: number;
+  results: LogReplayResult[];
+}
+
+// =============================================================================
+// Response Helpers
+// =============================================================================
+
+const RESPONSE_HEADERS = {
+  'Content-Type': 'application/json',
+};
+
+function jsonResponse(
+  data: Record<string, unknown>,
+  status: number,
+): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: RESPONSE_HEADERS,
+  });
+}
+
+function errorResponse(message: string, status: number): Response {
+  console.error(`Webhook replay error [${status}]: ${message}`);
+  return jsonResponse({ error: message, success: false }, status);
+}
+
+function successResponse(data: ReplayResponse): Response {
+  return jsonResponse(data as unknown as Record<string, unknown>, 200);
+}
+
+// =============================================================================
+// Security Helpers
+// =============================================================================
+
+/**
+ * Constant-time string comparison to prevent timing attacks.
+ * Returns true if both strings are equal.
+ */
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return result === 0;
+}
+
+/**
+ * Maximum request body size (64KB - room for a list of log IDs)
+ */
+const MAX_REQUEST_SIZE = 64 * 1024;
+
+/** Default and maximum number of logs replayed per request */
+const DEFAULT_REPLAY_LIMIT = 100;
+const MAX_REPLAY_LIMIT = 500;
+
+// =============================================================================
+// Authentication
+// =============================================================================
+
+/**
+ * Verify the admin API key from the Authorization header.
+ * Expected format: "Bearer <admin_api_key>"
+ * Uses constant-time comparison to prevent timing attacks.
+ */
+function verifyAdminApiKey(request: Request): boolean {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader) {
+    return false;
+  }
+
+  const [scheme, token] = authHeader.split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    return false;
+  }
+
+  const adminApiKey = Deno.env.get('ADMIN_API_KEY');
+  if (!adminApiKey) {
+    console.error('ADMIN_API_KEY environment variable is not set');
+    return false;
+  }
+
+  // Use constant-time comparison to prevent timing attacks
+  return constantTimeEqual(token, adminApiKey);
+}
+
+// =============================================================================
+// Request Validation
+// =============================================================================
+
+/**
+ * Validate the replay request body. Returns an error message if it is invalid.
+ */
+function validateReplayRequest(body: ReplayRequest): string | null {
+  if (body.log_ids !== undefined) {
+    if (
+      !Array.isArray(body.log_ids) || body.log_ids.length === 0 ||
+      !body.log_ids.every((id) => typeof id === 'string' && /^[0-9a-f-]{36}$/i.test(id))
+    ) {
+      return 'log_ids must be a non-empty array of log entry IDs';
+    }
+    if (body.log_ids.length > MAX_REPLAY_LIMIT) {
+      return `log_ids can contain at most ${MAX_REPLAY_LIMIT} IDs`;
+    }
+  } else if (!body.from) {
+    return 'Either log_ids or from is required';
+  }
+
+  for (const field of ['from', 'to'] as const) {
+    const value = body[field];
+    if (value !== undefined && (typeof value !== 'string' || isNaN(Date.parse(value)))) {
+      return `Invalid ${field}: must be an ISO 8601 timestamp`;
+    }
+  }
+
+  if (
+    body.limit !== undefined &&
+    (!Number.isInteger(body.limit) || body.limit < 1 || body.limit > MAX_REPLAY_LIMIT)
+  ) {
+    return `Invalid limit: must be an integer from 1 to ${MAX_REPLAY_LIMIT}`;
+  }
+
+  return null;
+}
+
+// =============================================================================
+// Replay
+// =============================================================================
+
+/**
+ * Check whether a log entry shows that its request passed signature verification.
+ * The webhook handler only stores the request body after verification succeeded.
+ */
+function wasVerified(log: WebhookLogEntry): boolean {
+  return !!log.request_body && log.response_status !== 401;
+}
+
+/**
+ * Extract entities from a parsed event and, unless dry-running, write them using
+ * the webhook handler's processing functions.
+ */
+async function applyEvent(
+  event: ParsedWebhookEvent,
+  connector: Connector,
+  appConfig: AppConfig,
+  config: SupaSaaSyConfig,
+  dryRun: boolean,
+): Promise<{ action: string; count: number; error?: Error }> {
+  if (connector.extractEntities) {
+    const entities = await connector.extractEntities(event, appConfig);
+    if (dryRun) {
+      return { action: event.eventType, count: entities.length };
+    }
+    return await processWebhookEntities(event, entities, appConfig, config);
+  }
+
+  const entity = await connector.extractEntity(event, appConfig);
+  if (dryRun) {
+    return { action: event.eventType, count: entity ? 1 : 0 };
+  }
+  const result = await processWebhookEvent(event, entity, appConfig, config);
+  return { ...result, count: result.error || result.action === 'skip' ? 0 : 1 };
+}
+
+/**
+ * Replay a single webhook log entry.
+ */
+async function replayLog(
+  log: WebhookLogEntry,
+  config: SupaSaaSyConfig,
+  dryRun: boolean,
+  force: boolean,
+): Promise<LogReplayResult> {
+  const base = { log_id: log.id ?? '', app_key: log.app_key ?? null };
+
+  if (!log.request_body) {
+    return { ...base, status: 'skipped', reason: 'Log entry has no request body' };
+  }
+
+  if (!force && !wasVerified(log)) {
+    return { ...base, status: 'skipped', reason: 'Original request was not verified' };
+  }
+
+  const appConfig = log.app_key ? getAppConfig(log.app_key, config) : undefined;
+  if (!appConfig) {
+    return { ...base, status: 'skipped', reason: `Unknown app_key: ${log.app_key}` };
+  }
+
+  // Logs from before the flag was recorded count as redacted if the app has rules now
+  if (log.request_body_redacted ?? hasWebhookBodyRedaction(appConfig.app_key)) {
+    return {
+      ...base,
+      status: 'skipped',
+      reason: 'Request body was redacted; run a sync to refetch the data',
+    };
+  }
+
+  const connector = await getConnector(appConfig.connector);
+  if (!connector) {
+    return { ...base, status: 'failed', reason: `Connector not found: ${appConfig.connector}` };
+  }
+
+  try {
+    const event = await connector.parseWebhookEvent(log.request_body, appConfig);
+    const eventInfo = {
+      event_type: event.originalEventType,
+      resource_type: event.resourceType,
+      external_id: event.externalId,
+    };
+
+    const result = await applyEvent(event, connector, appConfig, config, dryRun);
+
+    if (result.error) {
+      return { ...base, ...eventInfo, status: 'failed', reason: result.error.message };
+    }
+
+    return {
+      ...base,
+      ...eventInfo,
+      status: dryRun ? 'would_replay' : 'replayed',
+      action: result.action,
+      entity_count: result.count,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { ...base, status: 'failed', reason: errorMessage };
+  }
+}
+
+// =============================================================================
+// Handler Factory
+// =============================================================================
+
+/**
+ * Create a webhook replay handler for the given configuration.
+ *
+ * @param config The SupaSaaSy configuration
+ * @returns A Deno.serve compatible handler function
+ *
+ * @example
+ * ```typescript
+ * import { createWebhookReplayHandler } from 'supasaasy';
+ * import config from '../supasaasy.config.ts';
+ *
+ * Deno.serve(createWebhookReplayHandler(config));
+ * ```
+ */
+export function createWebhookReplayHandler(
+  config: SupaSaaSyConfig,
+): (req: Request) => Promise<Response> {
+  // Set the global config for connector lookups
+  setConfig(config);
+
+  return async (req: Request): Promise<Response> => {
+    // Only accept POST requests
+    if (req.method !== 'POST') {
+      return errorResponse('Method not allowed', 405);
+    }
+
+    try {
+      // Verify admin API key
+      if (!verifyAdminApiKey(req)) {
+        debugLog('webhook-replay', 'Authentication failed');
+        return errorResponse('Unauthorized: invalid or missing API key', 401);
+      }
+
+      // Check request body size
+      const contentLength = req.headers.get('Content-Length');
+      if (contentLength && parseInt(contentLength, 10) > MAX_REQUEST_SIZE) {
+        return errorResponse('Request body too large', 413);
+      }
+
+      let requestBody: ReplayRequest;
+      try {
+        const bodyText = await req.text();
+        if (bodyText.length > MAX_REQUEST_SIZE) {
+          return errorResponse('Request body too large', 413);
+        }
+        requestBody = JSON.parse(bodyText);
+      } catch {
+        return errorResponse('Invalid JSON body', 400);
+      }
+
+      if (typeof requestBody !== 'object' || requestBody === null) {
+        return errorResponse('Invalid JSON body', 400);
+      }
+
+      const validationError = validateReplayRequest(requestBody);
+      if (validationError) {
+        return errorResponse(validationError, 400);
+      }
+
+      if (requestBody.app_key && !getAppConfig(requestBody.app_key, config)) {
+        return errorResponse(`Unknown app_key: ${requestBody.app_key}`, 404);
+      }
+
+      const dryRun = requestBody.dry_run === true;
+      const force = requestBody.force === true;
+
+      const { data: logs, error: logsError } = await getWebhookLogs({
+        ids: requestBody.log_ids,
+        app_key: requestBody.app_key,
+        from: requestBody.from ? new Date(requestBody.from) : undefined,
+        to: requestBody.to ? new Date(requestBody.to) : undefined,
+        failed_only: requestBody.failed_only,
+        limit: requestBody.log_ids?.length ?? requestBody.limit ?? DEFAULT_REPLAY_LIMIT,
+      });
+
+      if (logsError || !logs) {
+        return errorResponse(
+          `Failed to load webhook logs: ${logsError?.message || 'Unknown error'}`,
+          500,
+        );
+      }
+
+      console.log(`${dryRun ? 'Dry-run replaying' : 'Replaying'} ${logs.length} webhook log(s)`);
+
+      // Replay sequentially, oldest first, so events are applied in the order received
+      const results: LogReplayResult[] = [];
+      for (const log of logs) {
+        const result = await replayLog(log, config, dryRun, force);
+        if (result.status === 'failed') {
+          console.error(`Replay of webhook log ${result.log_id} failed: ${result.reason}`);
+        }
+        debugLog('webhook-replay', 'Replayed webhook log', { ...result });
+        results.push(result);
+      }
+
+      const failed = results.filter((r) => r.status === 'failed').length;
+
+      return successResponse({
+        success: failed === 0,
+        dry_run: dryRun,
+        total: results.length,
+        replayed: results.filter((r) => r.status === 'replayed' || r.status === 'would_replay')
+          .length,
+        skipped: results.filter((r) => r.status === 'skipped').length,
+        failed,
+        results,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Unexpected error replaying webhooks: ${errorMessage}`);
+      return errorResponse('Internal server error', 500);
+    }
+  };
+}
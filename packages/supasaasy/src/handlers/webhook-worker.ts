@@ -0,0 +1,402 @@
+/**
+ * Webhook Worker Handler Factory
+ *
+ * Creates a Deno.serve handler that drains `supasaasy.webhook_queue`. With
+ * `webhook_queue` enabled, the webhook handler only verifies and queues events; this
+ * worker parses, extracts and upserts them using the same connector pipeline.
+ *
+ * Features:
+ * - Spawned via pg_net when webhooks are queued, and every minute by pg_cron
+ *   while due webhooks remain (retries, or webhooks orphaned by a crashed worker)
+ * - Retries with exponential backoff (see `webhook_queue` config)
+ * - Webhooks that fail `max_attempts` times are moved to the dead_letter status
+ *
+ * URL pattern: POST /webhook-worker
+ * Body: { max_webhooks?: number } (optional)
+ */
+
+import type { AppConfig, SupaSaaSyConfig } from '../types/index.ts';
+import {
+  claimQueuedWebhooks,
+  completeQueuedWebhook,
+  failQueuedWebhook,
+  type QueuedWebhook,
+} from '../db/index.ts';
+import { type Connector, getAppConfig, getConnector, setConfig } from '../connectors/index.ts';
+import { getRetryAfterSeconds } from '../connectors/errors.ts';
+import { debugLog } from '../connectors/utils.ts';
+import { processWebhookEntities, processWebhookEvent } from './webhook.ts';
+
+// Import connectors to ensure they register themselves
+import '../connectors/stripe/index.ts';
+import '../connectors/intercom/index.ts';
+import '../connectors/notion/index.ts';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface WebhookWorkerRequest {
+  /** Maximum number of webhooks to process before exiting (default: unlimited) */
+  max_webhooks?: number;
+}
+
+interface WebhookWorkerResponse {
+  success: boolean;
+  processed: number;
+  completed: number;
+  retried: number;
+  dead_lettered: number;
+  duration_ms: number;
+}
+
+/** Outcome of processing one queued webhook */
+type QueuedWebhookOutcome = 'completed' | 'retried' | 'dead_lettered';
+
+// =============================================================================
+// Response Helpers
+// =============================================================================
+
+const RESPONSE_HEADERS = {
+  'Content-Type': 'application/json',
+};
+
+function jsonResponse(
+  data: Record<string, unknown>,
+  status: number,
+): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: RESPONSE_HEADERS,
+  });
+}
+
+function errorResponse(message: string, status: number): Response {
+  console.error(`Webhook worker error [${status}]: ${message}`);
+  return jsonResponse({ error: message, success: false }, status);
+}
+
+function successResponse(data: WebhookWorkerResponse): Response {
+  return jsonResponse(data as unknown as Record<string, unknown>, 200);
+}
+
+// =============================================================================
+// Security Helpers
+// =============================================================================
+
+/**
+ * Constant-time string comparison to prevent timing attacks.
+ * Returns true if both strings are equal.
+ */
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return result === 0;
+}
+
+/**
+ * Maximum request body size (1KB - the worker only accepts max_webhooks)
+ */
+const MAX_REQUEST_SIZE = 1024;
+
+// =============================================================================
+// Authentication
+// =============================================================================
+
+/**
+ * Verify the admin API key from the Authorization header.
+ * Expected format: "Bearer <admin_api_key>"
+ * Uses constant-time comparison to prevent timing attacks.
+ */
+function verifyAdminApiKey(request: Request): boolean {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader) {
+    return false;
+  }
+
+  const [scheme, token] = authHeader.split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    return false;
+  }
+
+  const adminApiKey = Deno.env.get('ADMIN_API_KEY');
+  if (!adminApiKey) {
+    console.error('ADMIN_API_KEY environment variable is not set');
+    return false;
+  }
+
+  // Use constant-time comparison to prevent timing attacks
+  return constantTimeEqual(token, adminApiKey);
+}
+
+// =============================================================================
+// Worker Configuration
+// =============================================================================
+
+/** Maximum time a worker can run (to prevent hitting edge function limit) */
+const MAX_WORKER_RUNTIME_MS = 45000; // 45 seconds (leave 5s buffer before 50s limit)
+
+/** Number of webhooks claimed at a time */
+const CLAIM_BATCH_SIZE = 10;
+
+/**
+ * Seconds before a processing webhook is considered orphaned and claimed again
+ * (matches the interval used by supasaasy.wake_webhook_queue())
+ */
+const STALE_CLAIM_SECONDS = 300;
+
+/** Default base delay before retrying a failed webhook (doubles with each attempt) */
+const DEFAULT_RETRY_BASE_DELAY_SECONDS = 30;
+
+/** Default maximum delay between retries of a webhook */
+const DEFAULT_RETRY_MAX_DELAY_SECONDS = 3600;
+
+// =============================================================================
+// Webhook Processing
+// =============================================================================
+
+/**
+ * Work out how long to wait before retrying a webhook.
+ * Uses exponential backoff from the base delay, capped at the maximum delay, but
+ * never retries sooner than the provider asked (e.g. a rate limit's Retry-After).
+ *
+ * @param attempts Attempts made so far, including the one that just failed
+ */
+function getRetryDelaySeconds(
+  attempts: number,
+  config: SupaSaaSyConfig,
+  retryAfterSeconds?: number,
+): number {
+  const baseDelay = config.webhook_queue?.retry_base_delay_seconds ??
+    DEFAULT_RETRY_BASE_DELAY_SECONDS;
+  const maxDelay = config.webhook_queue?.retry_max_delay_seconds ??
+    DEFAULT_RETRY_MAX_DELAY_SECONDS;
+  const backoff = Math.min(baseDelay * Math.pow(2, Math.max(attempts - 1, 0)), maxDelay);
+  return Math.max(backoff, retryAfterSeconds ?? 0);
+}
+
+/**
+ * Parse, extract and upsert a queued webhook's event.
+ * Throws if the connector fails; returns the processing error otherwise.
+ */
+async function applyQueuedWebhook(
+  webhook: QueuedWebhook,
+  connector: Connector,
+  appConfig: AppConfig,
+  config: SupaSaaSyConfig,
+): Promise<{ action: string; error?: Error }> {
+  const event = await connector.parseWebhookEvent(webhook.payload, appConfig);
+
+  if (connector.extractEntities) {
+    const entities = await connector.extractEntities(event, appConfig);
+    return await processWebhookEntities(event, entities, appConfig, config);
+  }
+
+  const entity = await connector.extractEntity(event, appConfig);
+  return await processWebhookEvent(event, entity, appConfig, config);
+}
+
+/**
+ * Process a claimed webhook, then complete it, schedule a retry or dead-letter it.
+ */
+async function processQueuedWebhook(
+  webhook: QueuedWebhook,
+  config: SupaSaaSyConfig,
+): Promise<QueuedWebhookOutcome> {
+  debugLog('webhook-worker', 'Processing queued webhook', {
+    id: webhook.id,
+    appKey: webhook.app_key,
+    eventId: webhook.event_id,
+    eventType: webhook.event_type,
+    attempt: webhook.attempts,
+  });
+
+  // Configuration problems won't fix themselves on retry
+  const appConfig = getAppConfig(webhook.app_key, config);
+  const connector = appConfig ? await getConnector(appConfig.connector) : undefined;
+  if (!appConfig || !connector) {
+    const reason = appConfig
+      ? `Connector not found: ${appConfig.connector}`
+      : `Unknown app_key: ${webhook.app_key}`;
+    await recordFailure(webhook, reason, null);
+    return 'dead_lettered';
+  }
+
+  // Thrown errors and returned processing errors are retried alike
+  let failure: unknown;
+
+  try {
+    const result = await applyQueuedWebhook(webhook, connector, appConfig, config);
+
+    if (!result.error) {
+      const { error } = await completeQueuedWebhook(webhook.id);
+      if (error) {
+        console.error(`Failed to complete queued webhook ${webhook.id}: ${error.message}`);
+      }
+
+      debugLog('webhook-worker', 'Queued webhook processed', {
+        id: webhook.id,
+        action: result.action,
+      });
+      return 'completed';
+    }
+
+    failure = result.error;
+  } catch (err) {
+    failure = err;
+  }
+
+  const errorMessage = failure instanceof Error ? failure.message : String(failure);
+  const retryAfterSeconds = getRetryAfterSeconds(failure);
+
+  console.error(
+    `Queued webhook ${webhook.id} failed (attempt ${webhook.attempts}/${webhook.max_attempts}): ${errorMessage}`,
+  );
+
+  if (webhook.attempts >= webhook.max_attempts) {
+    await recordFailure(webhook, errorMessage, null);
+    return 'dead_lettered';
+  }
+
+  const delaySeconds = getRetryDelaySeconds(webhook.attempts, config, retryAfterSeconds);
+  await recordFailure(webhook, errorMessage, new Date(Date.now() + delaySeconds * 1000));
+  return 'retried';
+}
+
+/**
+ * Record a failed attempt, logging (rather than throwing) if the update fails.
+ * A webhook whose update failed stays in processing and is retried once its claim is stale.
+ */
+async function recordFailure(
+  webhook: QueuedWebhook,
+  errorMessage: string,
+  nextAttemptAt: Date | null,
+): Promise<void> {
+  if (!nextAttemptAt) {
+    console.error(`Moving queued webhook ${webhook.id} to dead letter: ${errorMessage}`);
+  }
+
+  const { error } = await failQueuedWebhook(webhook.id, errorMessage, nextAttemptAt);
+  if (error) {
+    console.error(`Failed to update queued webhook ${webhook.id}: ${error.message}`);
+  }
+}
+
+// =============================================================================
+// Handler Factory
+// =============================================================================
+
+/**
+ * Create a webhook worker handler for the given configuration.
+ *
+ * @param config The SupaSaaSy configuration
+ * @returns A Deno.serve compatible handler function
+ *
+ * @example
+ * ```typescript
+ * import { createWebhookWorkerHandler } from 'supasaasy';
+ * import config from '../supasaasy.config.ts';
+ *
+ * Deno.serve(createWebhookWorkerHandler(config));
+ * ```
+ */
+export function createWebhookWorkerHandler(
+  config: SupaSaaSyConfig,
+): (req: Request) => Promise<Response> {
+  // Set the global config for connector lookups
+  setConfig(config);
+
+  return async (req: Request): Promise<Response> => {
+    const startTime = Date.now();
+
+    // Only accept POST requests
+    if (req.method !== 'POST') {
+      return errorResponse('Method not allowed', 405);
+    }
+
+    try {
+      // Verify admin API key
+      if (!verifyAdminApiKey(req)) {
+        debugLog('webhook-worker', 'Authentication failed');
+        return errorResponse('Unauthorized: invalid or missing API key', 401);
+      }
+
+      // Check request body size
+      const contentLength = req.headers.get('Content-Length');
+      if (contentLength && parseInt(contentLength, 10) > MAX_REQUEST_SIZE) {
+        return errorResponse('Request body too large', 413);
+      }
+
+      // Parse optional request body
+      let requestBody: WebhookWorkerRequest = {};
+      try {
+        const bodyText = await req.text();
+        if (bodyText.length > MAX_REQUEST_SIZE) {
+          return errorResponse('Request body too large', 413);
+        }
+        if (bodyText) {
+          requestBody = JSON.parse(bodyText);
+        }
+      } catch {
+        return errorResponse('Invalid JSON body', 400);
+      }
+
+      const maxWebhooks = requestBody.max_webhooks;
+      if (maxWebhooks !== undefined && (!Number.isInteger(maxWebhooks) || maxWebhooks < 1)) {
+        return errorResponse('max_webhooks must be a positive integer', 400);
+      }
+
+      const outcomes: QueuedWebhookOutcome[] = [];
+
+      // Drain the queue until it's empty, the limit is reached or time runs out.
+      // Webhooks left over are picked up by the next spawned worker.
+      while (Date.now() - startTime < MAX_WORKER_RUNTIME_MS) {
+        const remaining = maxWebhooks !== undefined ? maxWebhooks - outcomes.length : Infinity;
+        if (remaining <= 0) {
+          break;
+        }
+
+        const { data: webhooks, error: claimError } = await claimQueuedWebhooks(
+          Math.min(CLAIM_BATCH_SIZE, remaining),
+          STALE_CLAIM_SECONDS,
+        );
+
+        if (claimError) {
+          console.error(`Error claiming queued webhooks: ${claimError.message}`);
+          break;
+        }
+
+        if (!webhooks || webhooks.length === 0) {
+          debugLog('webhook-worker', 'No queued webhooks available');
+          break;
+        }
+
+        // Process in queue order so events for the same entity apply in the order received
+        for (const webhook of webhooks) {
+          outcomes.push(await processQueuedWebhook(webhook, config));
+        }
+      }
+
+      const durationMs = Date.now() - startTime;
+      console.log(`Webhook worker processed ${outcomes.length} webhook(s) in ${durationMs}ms`);
+
+      return successResponse({
+        success: true,
+        processed: outcomes.length,
+        completed: outcomes.filter((o) => o === 'completed').length,
+        retried: outcomes.filter((o) => o === 'retried').length,
+        dead_lettered: outcomes.filter((o) => o === 'dead_lettered').length,
+        duration_ms: durationMs,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Unexpected error processing queued webhooks: ${errorMessage}`);
+      return errorResponse('Internal server error', 500);
+    }
+  };
+}
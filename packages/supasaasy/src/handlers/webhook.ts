@@ -3,6 +3,14 @@
  *
  * Creates a Deno.serve handler for processing incoming webhooks from SaaS providers.
  * URL pattern: POST /webhook/{app_key}
+ *
+ * Events that carry a provider event ID are recorded in `supasaasy.webhook_events`,
+ * and redeliveries of an event that was already processed are skipped with a 200.
+ * Redeliveries of an event that is still being processed get a 409, so the provider
+ * retries them.
+ *
+ * With `webhook_queue` enabled, verified events are stored in `supasaasy.webhook_queue`
+ * and acknowledged immediately; the webhook worker extracts and upserts them.
  */
 
 import type {
@@ -12,15 +20,26 @@ import type {
   SupaSaaSyConfig,
 } from '../types/index.ts';
 import {
+  claimWebhookEvent,
+  completeWebhookEvent,
   deleteEntity,
+  enqueueWebhook,
   insertWebhookLog,
+  releaseWebhookEvent,
   upsertEntities,
   upsertEntity,
   type UpsertEntityData,
   type WebhookLogData,
 } from '../db/index.ts';
 import { getAppConfig, getConnector, setConfig } from '../connectors/index.ts';
-import { debugLog, isDebugEnabled } from '../connectors/utils.ts';
+import { debugLog, eventEntityToUpsertData, isDebugEnabled } from '../connectors/utils.ts';
+import {
+  type EntityHookSource,
+  runAfterUpsertHooks,
+  runBeforeDeleteHooks,
+  runBeforeUpsertHooks,
+  selectWrittenEntities,
+} from '../lifecycle/index.ts';
 
 // Import connectors to ensure they register themselves
 import '../connectors/stripe/index.ts';
@@ -242,24 +261,27 @@ function extractAppKey(url: URL): string | null {
 // =============================================================================
 
 /**
- * Convert a NormalizedEntity to the database upsert format
+ * Get the change source recorded for writes made by a webhook event
  */
-function toUpsertData(entity: NormalizedEntity): UpsertEntityData {
-  return {
-    external_id: entity.externalId,
-    app_key: entity.appKey,
-    collection_key: entity.collectionKey,
-    raw_payload: entity.rawPayload,
-    api_version: entity.apiVersion,
-    archived_at: entity.archivedAt?.toISOString() ?? null,
-  };
+function getChangeSource(event: ParsedWebhookEvent): string {
+  return event.eventId ? `webhook:${event.eventId}` : 'webhook';
+}
+
+/**
+ * Convert a NormalizedEntity from a webhook event to the database upsert format,
+ * applying the event's archived/deleted state. The event ID is recorded as the change
+ * source for entity history.
+ */
+function toUpsertData(entity: NormalizedEntity, event: ParsedWebhookEvent): UpsertEntityData {
+  return { ...eventEntityToUpsertData(entity, event), change_source: getChangeSource(event) };
 }
 
 /**
  * Process a webhook event and perform the appropriate entity operation
- * (legacy single-entity version for backwards compatibility)
+ * (legacy single-entity version for backwards compatibility).
+ * Also used by the webhook replay and webhook worker handlers.
  */
-async function processWebhookEvent(
+export async function processWebhookEvent(
   event: ParsedWebhookEvent,
   entity: NormalizedEntity | null,
   appConfig: AppConfig,
@@ -273,6 +295,8 @@ async function processWebhookEvent(
     hasEntity: entity !== null,
   });
 
+  const hookSource: EntityHookSource = { source: 'webhook', changeSource: getChangeSource(event) };
+
   // For delete events, we don't need entity data
   if (event.eventType === 'delete') {
     const connector = await getConnector(appConfig.connector);
@@ -287,6 +311,14 @@ async function processWebhookEvent(
     );
     const collectionKey = resource?.collectionKey ?? event.resourceType;
 
+    const shouldDelete = await runBeforeDeleteHooks(
+      { appKey: appConfig.app_key, collectionKey, externalId: event.externalId },
+      hookSource,
+    );
+    if (!shouldDelete) {
+      return { action: 'skip' };
+    }
+
     debugLog('webhook', 'Deleting entity', {
       appKey: appConfig.app_key,
       collectionKey,
@@ -308,19 +340,19 @@ async function processWebhookEvent(
     return { action: 'delete' };
   }
 
-  // For create, update, archive events, we need entity data
+  // For create, update, archive and undelete events, we need entity data
   if (!entity) {
     debugLog('webhook', 'No entity data extracted, skipping');
     return { action: 'skip', error: new Error('No entity data extracted') };
   }
 
-  const upsertData = toUpsertData(entity);
-
-  // For archive events, set the archived_at timestamp
-  if (event.eventType === 'archive') {
-    upsertData.archived_at = event.timestamp.toISOString();
+  const [hookedEntity] = await runBeforeUpsertHooks([entity], hookSource);
+  if (!hookedEntity) {
+    return { action: 'skip' };
   }
 
+  const upsertData = toUpsertData(hookedEntity, event);
+
   debugLog('webhook', 'Upserting entity', {
     appKey: upsertData.app_key,
     collectionKey: upsertData.collection_key,
@@ -335,17 +367,28 @@ async function processWebhookEvent(
     return { action: event.eventType, error: result.error };
   }
 
+  if (result.skipped) {
+    debugLog('webhook', 'Upsert skipped, stored entity is newer than this event', {
+      externalId: upsertData.external_id,
+      sourceUpdatedAt: upsertData.source_updated_at,
+    });
+    return { action: 'skip' };
+  }
+
   debugLog('webhook', 'Upsert succeeded', { created: result.created });
 
+  await runAfterUpsertHooks([hookedEntity], hookSource);
+
   return {
     action: event.eventType,
   };
 }
 
 /**
- * Process a webhook event with multiple entities (e.g., subscription with items)
+ * Process a webhook event with multiple entities (e.g., subscription with items).
+ * Also used by the webhook replay and webhook worker handlers.
  */
-async function processWebhookEntities(
+export async function processWebhookEntities(
   event: ParsedWebhookEvent,
   entities: NormalizedEntity[],
   appConfig: AppConfig,
@@ -359,6 +402,8 @@ async function processWebhookEntities(
     entityCount: entities.length,
   });
 
+  const hookSource: EntityHookSource = { source: 'webhook', changeSource: getChangeSource(event) };
+
   // For delete events, we don't need entity data
   if (event.eventType === 'delete') {
     const connector = await getConnector(appConfig.connector);
@@ -373,6 +418,14 @@ async function processWebhookEntities(
     );
     const collectionKey = resource?.collectionKey ?? event.resourceType;
 
+    const shouldDelete = await runBeforeDeleteHooks(
+      { appKey: appConfig.app_key, collectionKey, externalId: event.externalId },
+      hookSource,
+    );
+    if (!shouldDelete) {
+      return { action: 'skip', count: 0 };
+    }
+
     debugLog('webhook', 'Deleting entity', {
       appKey: appConfig.app_key,
       collectionKey,
@@ -394,21 +447,21 @@ async function processWebhookEntities(
     return { action: 'delete', count: 1 };
   }
 
-  // For create, update, archive events, we need entity data
+  // For create, update, archive and undelete events, we need entity data
   if (entities.length === 0) {
     debugLog('webhook', 'No entity data extracted, skipping');
     return { action: 'skip', count: 0, error: new Error('No entity data extracted') };
   }
 
+  const hookedEntities = await runBeforeUpsertHooks(entities, hookSource);
+  if (hookedEntities.length === 0) {
+    return { action: 'skip', count: 0 };
+  }
+
   // Convert all entities to upsert format
-  const upsertDataArray: UpsertEntityData[] = entities.map((entity) => {
-    const data = toUpsertData(entity);
-    // For archive events, set the archived_at timestamp
-    if (event.eventType === 'archive') {
-      data.archived_at = event.timestamp.toISOString();
-    }
-    return data;
-  });
+  const upsertDataArray: UpsertEntityData[] = hookedEntities.map((entity) =>
+    toUpsertData(entity, event)
+  );
 
   debugLog('webhook', 'Batch upserting entities', {
     count: upsertDataArray.length,
@@ -424,14 +477,51 @@ async function processWebhookEntities(
     return { action: event.eventType, count: 0, error: result.error };
   }
 
-  debugLog('webhook', 'Batch upsert succeeded', { count: entities.length });
+  // Entities whose stored version is newer than this event are skipped and not returned
+  const count = result.data?.length ?? 0;
+
+  debugLog('webhook', 'Batch upsert succeeded', {
+    count,
+    created: result.created,
+    updated: result.updated,
+    skipped: result.unchanged,
+  });
+
+  await runAfterUpsertHooks(selectWrittenEntities(hookedEntities, result.data), hookSource);
 
   return {
-    action: event.eventType,
-    count: entities.length,
+    action: count === 0 ? 'skip' : event.eventType,
+    count,
   };
 }
 
+// =============================================================================
+// Event Deduplication
+// =============================================================================
+
+/**
+ * Mark a claimed webhook event as processed, or release it after a failure so
+ * the provider's retry of the event isn't skipped as a duplicate.
+ */
+async function finishWebhookEvent(
+  recordId: string | undefined,
+  succeeded: boolean,
+): Promise<void> {
+  if (!recordId) {
+    return;
+  }
+
+  const { error } = succeeded
+    ? await completeWebhookEvent(recordId)
+    : await releaseWebhookEvent(recordId);
+
+  if (error) {
+    console.error(
+      `Failed to ${succeeded ? 'complete' : 'release'} webhook event: ${error.message}`,
+    );
+  }
+}
+
 // =============================================================================
 // Handler Factory
 // =============================================================================
@@ -461,6 +551,7 @@ export function createWebhookHandler(
     const url = new URL(req.url);
     let appKey: string | undefined;
     let requestBody: Record<string, unknown> | undefined;
+    let claimedEventRecordId: string | undefined;
 
     debugLog('webhook', 'Webhook request received', {
       method: req.method,
@@ -667,8 +758,149 @@ export function createWebhookHandler(
         resourceType: event.resourceType,
         externalId: event.externalId,
         timestamp: event.timestamp.toISOString(),
+        eventId: event.eventId,
       });
 
+      // Skip redeliveries of events that were already received
+      if (event.eventId) {
+        const { data: claim, error: claimError } = await claimWebhookEvent({
+          app_key: appKey,
+          event_id: event.eventId,
+          event_type: event.originalEventType,
+          resource_type: event.resourceType,
+          external_id: event.externalId,
+        });
+
+        if (claimError) {
+          // Process anyway: applying a redelivery again is better than dropping an event
+          console.error(
+            `Failed to check webhook event ${event.eventId} for duplicates: ${claimError.message}`,
+          );
+        } else if (claim && !claim.claimed && claim.event.status === 'processing') {
+          // Another delivery is still processing the event and may yet fail, so ask the
+          // provider to retry instead of acknowledging an event that isn't applied
+          console.log(`Webhook event ${event.eventId} is already being processed`);
+
+          debugLog('webhook', 'Duplicate webhook event in flight', {
+            eventId: event.eventId,
+            duplicateCount: claim.event.duplicate_count,
+          });
+
+          const responseBody = {
+            error: 'Event is already being processed',
+            duplicate: true,
+            eventId: event.eventId,
+          };
+          logWebhook(
+            config,
+            req,
+            appKey,
+            409,
+            responseBody,
+            undefined,
+            startTime,
+            requestBody,
+          );
+
+          return jsonResponse(responseBody, 409);
+        } else if (claim && !claim.claimed) {
+          console.log(`Skipping duplicate webhook event ${event.eventId}`);
+
+          debugLog('webhook', 'Duplicate webhook event skipped', {
+            eventId: event.eventId,
+            status: claim.event.status,
+            duplicateCount: claim.event.duplicate_count,
+          });
+
+          const responseBody = {
+            success: true,
+            action: 'skip',
+            duplicate: true,
+            eventId: event.eventId,
+            resourceType: event.resourceType,
+            externalId: event.externalId,
+          };
+          logWebhook(
+            config,
+            req,
+            appKey,
+            200,
+            responseBody,
+            undefined,
+            startTime,
+            requestBody,
+          );
+
+          return successResponse({
+            action: 'skip',
+            duplicate: true,
+            eventId: event.eventId,
+            resourceType: event.resourceType,
+            externalId: event.externalId,
+          });
+        } else if (claim) {
+          claimedEventRecordId = claim.event.id;
+        }
+      }
+
+      // Queue the event and acknowledge it immediately when async processing is enabled
+      if (config.webhook_queue?.enabled && requestBody) {
+        const { data: queued, error: queueError } = await enqueueWebhook({
+          app_key: appKey,
+          payload: requestBody,
+          event_id: event.eventId,
+          event_type: event.originalEventType,
+          resource_type: event.resourceType,
+          external_id: event.externalId,
+          max_attempts: config.webhook_queue.max_attempts,
+        });
+
+        if (queueError || !queued) {
+          // Process inline instead: a slow response is better than dropping the event
+          console.error(
+            `Failed to queue webhook event, processing inline: ${
+              queueError?.message || 'Unknown error'
+            }`,
+          );
+        } else {
+          // The queue now owns the event, so redeliveries are duplicates
+          await finishWebhookEvent(claimedEventRecordId, true);
+
+          console.log(`Webhook queued: ${queued.id} for ${event.resourceType}:${event.externalId}`);
+
+          debugLog('webhook', 'Webhook queued', {
+            queueId: queued.id,
+            eventId: event.eventId,
+            durationMs: Date.now() - startTime,
+          });
+
+          const responseBody = {
+            success: true,
+            action: 'queued',
+            queueId: queued.id,
+            resourceType: event.resourceType,
+            externalId: event.externalId,
+          };
+          logWebhook(
+            config,
+            req,
+            appKey,
+            200,
+            responseBody,
+            undefined,
+            startTime,
+            requestBody,
+          );
+
+          return successResponse({
+            action: 'queued',
+            queueId: queued.id,
+            resourceType: event.resourceType,
+            externalId: event.externalId,
+          });
+        }
+      }
+
       // Extract and normalize entity data
       // Use extractEntities if available (for nested resources like subscription items)
       // Otherwise fall back to extractEntity for single entity
@@ -688,6 +920,8 @@ export function createWebhookHandler(
         const result = await processWebhookEntities(event, entities, appConfig, config);
 
         if (result.error) {
+          await finishWebhookEvent(claimedEventRecordId, false);
+
           // Log detailed error server-side only; return generic message to client
           console.error(`Error processing webhook: ${result.error.message}`);
           debugLog('webhook', 'Webhook processing failed', {
@@ -707,6 +941,8 @@ export function createWebhookHandler(
           return errorResponse('Internal server error', 500);
         }
 
+        await finishWebhookEvent(claimedEventRecordId, true);
+
         console.log(
           `Webhook processed successfully: ${result.action} ${result.count} entity(ies) for ${event.resourceType}:${event.externalId}`,
         );
@@ -759,6 +995,8 @@ export function createWebhookHandler(
       const result = await processWebhookEvent(event, entity, appConfig, config);
 
       if (result.error) {
+        await finishWebhookEvent(claimedEventRecordId, false);
+
         // Log detailed error server-side only; return generic message to client
         console.error(`Error processing webhook: ${result.error.message}`);
         debugLog('webhook', 'Webhook processing failed', {
@@ -778,6 +1016,8 @@ export function createWebhookHandler(
         return errorResponse('Internal server error', 500);
       }
 
+      await finishWebhookEvent(claimedEventRecordId, true);
+
       console.log(
         `Webhook processed successfully: ${result.action} for ${event.resourceType}:${event.externalId}`,
       );
@@ -812,6 +1052,8 @@ export function createWebhookHandler(
         externalId: event.externalId,
       });
     } catch (error) {
+      await finishWebhookEvent(claimedEventRecordId, false);
+
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.error(`Unexpected error processing webhook: ${errorMessage}`);
       debugLog('webhook', 'Webhook failed with unexpected error', {
@@ -10,7 +10,10 @@
  * - Error handling via unhandledrejection event handler
  * - Automatic worker chaining via needs_worker flag (triggers pg_net)
  * - Heartbeat updates during task processing
- * - Cursor persistence for resumable syncs (future)
+ * - Cursor persistence for resumable syncs (interrupted tasks resume from the last page)
+ * - Stuck task recovery based on task heartbeats (see `workers` config)
+ * - Retries with exponential backoff for tasks that fail with retryable errors
+ * - Cooperative cancellation (cancelled jobs stop before the connector's next page)
  *
  * URL pattern: POST /worker
  * Body: { job_id?: string, max_tasks?: number } (all optional)
@@ -18,9 +21,15 @@
 
 import type { AppConfig, SupaSaaSyConfig, SyncOptions, SyncResult } from '../types/index.ts';
 import {
+  cancelPendingTasks,
   claimTask,
   getJobStatus,
   getSyncState,
+  incrementJobCounts,
+  isJobCancelled,
+  reapStuckTasks,
+  releaseTask,
+  scheduleTaskRetry,
   type SyncJobTask,
   updateJobStatus,
   updateSyncState,
@@ -35,7 +44,8 @@ import {
   setConfig,
   supportsIncrementalSync,
 } from '../connectors/index.ts';
-import { debugLog, isDebugEnabled } from '../connectors/utils.ts';
+import { getRetryAfterSeconds, isRetryableError } from '../connectors/errors.ts';
+import { countProcessed, debugLog, isDebugEnabled } from '../connectors/utils.ts';
 
 // Import connectors to ensure they register themselves
 import '../connectors/stripe/index.ts';
@@ -65,6 +75,8 @@ interface WorkerResponse {
 interface WorkerState {
   currentTaskId: string | null;
   currentJobId: string | null;
+  /** Last page cursor reported by the connector for the current task */
+  currentCursor: string | null;
   entityCount: number;
   isProcessing: boolean;
   shutdownRequested: boolean;
@@ -74,6 +86,7 @@ interface WorkerState {
 const workerState: WorkerState = {
   currentTaskId: null,
   currentJobId: null,
+  currentCursor: null,
   entityCount: 0,
   isProcessing: false,
   shutdownRequested: false,
@@ -168,6 +181,15 @@ const MAX_WORKER_RUNTIME_MS = 45000; // 45 seconds (leave 5s buffer before 50s l
 /** How often to update heartbeat during processing (ms) */
 const HEARTBEAT_INTERVAL_MS = 5000;
 
+/** Default base delay before retrying a failed task (doubles with each attempt) */
+const DEFAULT_RETRY_BASE_DELAY_SECONDS = 30;
+
+/** Default maximum delay between retries of a task */
+const DEFAULT_RETRY_MAX_DELAY_SECONDS = 3600;
+
+/** Default attempts allowed per task (matches the max_attempts column default) */
+const DEFAULT_MAX_TASK_ATTEMPTS = 3;
+
 // =============================================================================
 // Graceful Shutdown Handlers
 // =============================================================================
@@ -185,10 +207,10 @@ async function handleBeforeUnload(reason: string): Promise<void> {
     console.log(`Saving state for task ${workerState.currentTaskId} before shutdown`);
 
     try {
-      // Update task heartbeat with current progress
-      await updateTaskHeartbeat(
+      // Release the task with its last cursor so the next worker resumes from there
+      await releaseTask(
         workerState.currentTaskId,
-        undefined, // cursor would go here if we had it
+        workerState.currentCursor ?? undefined,
         workerState.entityCount,
       );
 
@@ -247,6 +269,24 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * Work out how long to wait before retrying a task.
+ * Uses exponential backoff from the base delay, capped at the maximum delay, but
+ * never retries sooner than the provider asked (e.g. a rate limit's Retry-After).
+ *
+ * @param attempts Attempts made so far, including the one that just failed
+ */
+function getRetryDelaySeconds(
+  attempts: number,
+  config: SupaSaaSyConfig,
+  retryAfterSeconds?: number,
+): number {
+  const baseDelay = config.workers?.retry_base_delay_seconds ?? DEFAULT_RETRY_BASE_DELAY_SECONDS;
+  const maxDelay = config.workers?.retry_max_delay_seconds ?? DEFAULT_RETRY_MAX_DELAY_SECONDS;
+  const backoff = Math.min(baseDelay * Math.pow(2, Math.max(attempts - 1, 0)), maxDelay);
+  return Math.max(backoff, retryAfterSeconds ?? 0);
+}
+
 /**
  * Process a complete resource type using the connector's sync methods.
  * The connector handles pagination internally.
@@ -258,12 +298,22 @@ async function processResourceSync(
   task: SyncJobTask,
   mode: string,
   sinceDatetime?: Date,
-): Promise<{ entitiesProcessed: number; error?: string }> {
+): Promise<{
+  entitiesProcessed: number;
+  error?: string;
+  retryable?: boolean;
+  retryAfterSeconds?: number;
+  cancelled?: boolean;
+}> {
   // Update global state for graceful shutdown
   workerState.currentTaskId = task.id;
+  workerState.currentCursor = task.cursor;
   workerState.entityCount = task.entity_count || 0;
   workerState.isProcessing = true;
 
+  // Entities processed by earlier workers before this task was resumed
+  const previousEntityCount = task.cursor ? task.entity_count || 0 : 0;
+
   debugLog('worker', 'Starting resource sync', {
     taskId: task.id,
     jobId: task.job_id,
@@ -279,9 +329,14 @@ async function processResourceSync(
   const heartbeatInterval = setInterval(async () => {
     if (workerState.isProcessing && !workerState.shutdownRequested) {
       try {
-        await updateTaskHeartbeat(task.id, undefined, workerState.entityCount);
+        await updateTaskHeartbeat(
+          task.id,
+          workerState.currentCursor ?? undefined,
+          workerState.entityCount,
+        );
         debugLog('worker', 'Heartbeat updated', {
           taskId: task.id,
+          cursor: workerState.currentCursor,
           entityCount: workerState.entityCount,
         });
       } catch (err) {
@@ -293,8 +348,30 @@ async function processResourceSync(
   try {
     const syncOptions: SyncOptions = {
       resourceTypes: [task.resource_type],
-      // If task has a cursor, pass it for resumption (future enhancement)
+      // If task has a cursor, an earlier worker was interrupted - resume from there
       cursor: task.cursor || undefined,
+      // Persist each page cursor, with the entities processed so far, so an
+      // interrupted sync can be resumed and keeps counting from there
+      onCursor: async (cursor: string, processed?: number) => {
+        workerState.currentCursor = cursor;
+        if (processed !== undefined) {
+          workerState.entityCount = previousEntityCount + processed;
+        }
+        const { error } = await updateTaskHeartbeat(task.id, cursor, workerState.entityCount);
+        if (error) {
+          console.error(`Failed to save cursor for task ${task.id}: ${error.message}`);
+        }
+      },
+      // Stop between pages if the job is cancelled
+      isCancelled: async () => {
+        const { data: cancelled, error } = await isJobCancelled(task.job_id);
+        if (error) {
+          console.error(`Failed to check cancellation for job ${task.job_id}: ${error.message}`);
+        }
+        return cancelled;
+      },
+      // Record the job as the source of entity changes
+      changeSource: `sync_job:${task.job_id}`,
       // Enable verbose logging when debug mode is enabled
       verbose: isDebugEnabled(),
     };
@@ -338,7 +415,7 @@ async function processResourceSync(
       syncResult = await connector.fullSync(appConfig, syncOptions);
     }
 
-    const entitiesProcessed = syncResult.created + syncResult.updated + syncResult.deleted;
+    const entitiesProcessed = previousEntityCount + countProcessed(syncResult);
     workerState.entityCount = entitiesProcessed;
 
     debugLog('worker', 'Sync completed', {
@@ -347,20 +424,31 @@ async function processResourceSync(
       success: syncResult.success,
       created: syncResult.created,
       updated: syncResult.updated,
+      unchanged: syncResult.unchanged,
       deleted: syncResult.deleted,
       errors: syncResult.errors,
       durationMs: syncResult.durationMs,
+      cancelled: syncResult.cancelled,
     });
 
+    if (syncResult.cancelled) {
+      console.log(`Sync for ${task.resource_type} stopped: job ${task.job_id} was cancelled`);
+      return { entitiesProcessed, cancelled: true };
+    }
+
     if (!syncResult.success && syncResult.errorMessages?.length) {
       return {
         entitiesProcessed,
         error: syncResult.errorMessages.join('; '),
+        retryable: syncResult.retryable,
+        retryAfterSeconds: syncResult.retryAfterSeconds,
       };
     }
 
     console.log(
-      `Completed sync for ${task.resource_type}: created=${syncResult.created}, updated=${syncResult.updated}, deleted=${syncResult.deleted}`,
+      `Completed sync for ${task.resource_type}: created=${syncResult.created}, updated=${syncResult.updated}, unchanged=${
+        syncResult.unchanged ?? 0
+      }, deleted=${syncResult.deleted}`,
     );
 
     return { entitiesProcessed };
@@ -375,11 +463,14 @@ async function processResourceSync(
     return {
       entitiesProcessed: workerState.entityCount,
       error: errorMessage,
+      retryable: isRetryableError(err),
+      retryAfterSeconds: getRetryAfterSeconds(err),
     };
   } finally {
     // Clean up heartbeat interval
     clearInterval(heartbeatInterval);
     workerState.isProcessing = false;
+    workerState.currentCursor = null;
   }
 }
 
@@ -393,6 +484,11 @@ async function checkJobCompletion(jobId: string): Promise<boolean> {
     return false;
   }
 
+  // Cancelled jobs are already finished - don't overwrite their status
+  if (jobStatus.status === 'cancelled') {
+    return false;
+  }
+
   const pendingTasks = jobStatus.tasks.filter((t) => t.status === 'pending').length;
   const processingTasks = jobStatus.tasks.filter((t) => t.status === 'processing').length;
 
@@ -435,6 +531,23 @@ async function processTasksForJob(
     maxRuntimeMs: MAX_WORKER_RUNTIME_MS,
   });
 
+  // Recover tasks left in processing by crashed workers before claiming new work
+  const { data: reaped, error: reapError } = await reapStuckTasks(
+    config.workers?.stuck_task_timeout_seconds,
+    config.workers?.max_task_attempts,
+  );
+  if (reapError) {
+    console.error(`Error reaping stuck tasks: ${reapError.message}`);
+  } else if (reaped && (reaped.reset.length > 0 || reaped.failed.length > 0)) {
+    console.log(
+      `Recovered stuck tasks: ${reaped.reset.length} reset, ${reaped.failed.length} failed`,
+    );
+    debugLog('worker', 'Stuck tasks reaped', {
+      reset: reaped.reset.map((t) => t.id),
+      failed: reaped.failed.map((t) => t.id),
+    });
+  }
+
   while (true) {
     // Check if shutdown was requested
     if (workerState.shutdownRequested) {
@@ -526,6 +639,14 @@ async function processTasksForJob(
       failedTasks: jobStatus.failed_tasks,
     });
 
+    // The job may have been cancelled after this task was claimed
+    if (jobStatus.status === 'cancelled') {
+      console.log(`Job ${jobId} was cancelled, skipping task ${task.id}`);
+      await updateTaskStatus(task.id, 'cancelled', task.entity_count ?? 0, undefined, null);
+      await sleep(100);
+      continue;
+    }
+
     // Get app configuration
     const appConfig = getAppConfig(jobStatus.app_key, config);
     if (!appConfig) {
@@ -651,8 +772,50 @@ async function processTasksForJob(
       break;
     }
 
+    const attempts = (task.attempts ?? 0) + 1;
+    const maxAttempts = task.max_attempts ?? config.workers?.max_task_attempts ??
+      DEFAULT_MAX_TASK_ATTEMPTS;
+
+    // Failures after the job was cancelled are neither retried nor counted as failed
+    const cancelled = result.cancelled ||
+      (result.error !== undefined && (await isJobCancelled(jobId)).data);
+
     // Update task status
-    if (result.error) {
+    if (cancelled) {
+      debugLog('worker', 'Task cancelled', {
+        taskId: task.id,
+        resourceType: task.resource_type,
+        entitiesProcessed: result.entitiesProcessed,
+      });
+      await updateTaskStatus(task.id, 'cancelled', result.entitiesProcessed, undefined, null);
+      await incrementJobCounts(jobId, { processed_entities: result.entitiesProcessed });
+      // Catch tasks released or rescheduled after the job was cancelled
+      await cancelPendingTasks(jobId);
+    } else if (result.error && result.retryable && attempts < maxAttempts) {
+      const delaySeconds = getRetryDelaySeconds(attempts, config, result.retryAfterSeconds);
+      const nextAttemptAt = new Date(Date.now() + delaySeconds * 1000);
+      console.log(
+        `Task ${task.id} failed with a retryable error (attempt ${attempts}/${maxAttempts}), retrying at ${nextAttemptAt.toISOString()}`,
+      );
+      debugLog('worker', 'Task scheduled for retry', {
+        taskId: task.id,
+        resourceType: task.resource_type,
+        error: result.error,
+        attempts,
+        maxAttempts,
+        delaySeconds,
+        retryAfterSeconds: result.retryAfterSeconds,
+      });
+      // The task keeps its cursor, so the retry resumes from the last completed page.
+      // Entities are counted towards the job once the task completes or fails for good.
+      await scheduleTaskRetry(
+        task.id,
+        attempts,
+        nextAttemptAt,
+        result.error,
+        result.entitiesProcessed,
+      );
+    } else if (result.error) {
       debugLog('worker', 'Task failed', {
         taskId: task.id,
         resourceType: task.resource_type,
@@ -660,9 +823,9 @@ async function processTasksForJob(
         entitiesProcessed: result.entitiesProcessed,
       });
       await updateTaskStatus(task.id, 'failed', result.entitiesProcessed, result.error);
-      await updateJobStatus(jobId, {
-        failed_tasks: jobStatus.failed_tasks + 1,
-        processed_entities: jobStatus.processed_entities + result.entitiesProcessed,
+      await incrementJobCounts(jobId, {
+        failed_tasks: 1,
+        processed_entities: result.entitiesProcessed,
       });
     } else {
       debugLog('worker', 'Task completed successfully', {
@@ -670,14 +833,20 @@ async function processTasksForJob(
         resourceType: task.resource_type,
         entitiesProcessed: result.entitiesProcessed,
       });
-      await updateTaskStatus(task.id, 'completed', result.entitiesProcessed);
-      await updateJobStatus(jobId, {
-        completed_tasks: jobStatus.completed_tasks + 1,
-        processed_entities: jobStatus.processed_entities + result.entitiesProcessed,
+      // Clear the cursor so the task isn't mistaken for a resumable one
+      await updateTaskStatus(task.id, 'completed', result.entitiesProcessed, undefined, null);
+      await incrementJobCounts(jobId, {
+        completed_tasks: 1,
+        processed_entities: result.entitiesProcessed,
       });
 
-      // Update sync state for this resource type so incremental sync knows when last sync happened
-      await updateSyncState(appConfig.app_key, resource.collectionKey, new Date());
+      // Update sync state for this resource type so the next incremental sync starts
+      // from when this one started, and picks up changes made while it ran
+      await updateSyncState(
+        appConfig.app_key,
+        resource.collectionKey,
+        task.started_at ? new Date(task.started_at) : new Date(),
+      );
       debugLog('worker', 'Sync state updated', {
         appKey: appConfig.app_key,
         collectionKey: resource.collectionKey,
@@ -0,0 +1,230 @@
+/**
+ * Lifecycle Hooks Unit Tests
+ *
+ * Tests for hook ordering, modifying and skipping writes, and delete vetoes.
+ */
+
+import { assertEquals } from '@std/assert';
+import {
+  getLifecycleHooks,
+  runAfterUpsertHooks,
+  runBeforeDeleteHooks,
+  runBeforeUpsertHooks,
+  selectWrittenEntities,
+} from './index.ts';
+import { clearConfig, setConfig } from '../connectors/index.ts';
+import type { NormalizedEntity, SupaSaaSyConfig } from '../types/index.ts';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createEntity(overrides: Partial<NormalizedEntity> = {}): NormalizedEntity {
+  return {
+    externalId: 'cus_123',
+    appKey: 'stripe_test',
+    collectionKey: 'stripe_customer',
+    rawPayload: { id: 'cus_123', email: 'jane@example.com' },
+    ...overrides,
+  };
+}
+
+function createConfig(overrides: Partial<SupaSaaSyConfig> = {}): SupaSaaSyConfig {
+  return {
+    apps: [
+      {
+        app_key: 'stripe_test',
+        name: 'Stripe Test',
+        connector: 'stripe',
+        config: {},
+      },
+    ],
+    ...overrides,
+  };
+}
+
+async function withConfig(config: SupaSaaSyConfig, fn: () => Promise<void>): Promise<void> {
+  setConfig(config);
+  try {
+    await fn();
+  } finally {
+    clearConfig();
+  }
+}
+
+// =============================================================================
+// Hook Lookup Tests
+// =============================================================================
+
+Deno.test('[Lifecycle] getLifecycleHooks - orders global, collection and app hooks', () => {
+  const globalHooks = { afterUpsert: () => {} };
+  const globalCollectionHooks = { afterUpsert: () => {} };
+  const appHooks = { afterUpsert: () => {} };
+  const appCollectionHooks = { afterUpsert: () => {} };
+  const config = createConfig({
+    lifecycle_hooks: { ...globalHooks, collections: { stripe_customer: globalCollectionHooks } },
+  });
+  config.apps[0].lifecycle_hooks = {
+    ...appHooks,
+    collections: { stripe_customer: appCollectionHooks, stripe_product: { afterUpsert: () => {} } },
+  };
+
+  setConfig(config);
+  try {
+    const hooks = getLifecycleHooks('stripe_test', 'stripe_customer');
+
+    assertEquals(hooks.length, 4);
+    assertEquals(hooks[0].afterUpsert, globalHooks.afterUpsert);
+    assertEquals(hooks[1], globalCollectionHooks);
+    assertEquals(hooks[2].afterUpsert, appHooks.afterUpsert);
+    assertEquals(hooks[3], appCollectionHooks);
+    assertEquals(getLifecycleHooks('other_app', 'stripe_invoice').length, 1);
+  } finally {
+    clearConfig();
+  }
+});
+
+Deno.test('[Lifecycle] getLifecycleHooks - returns no hooks without a config', () => {
+  clearConfig();
+
+  assertEquals(getLifecycleHooks('stripe_test', 'stripe_customer'), []);
+});
+
+// =============================================================================
+// beforeUpsert Tests
+// =============================================================================
+
+Deno.test('[Lifecycle] runBeforeUpsertHooks - passes each hook the previous result', async () => {
+  const config = createConfig({
+    lifecycle_hooks: {
+      beforeUpsert: (entity) => ({
+        ...entity,
+        rawPayload: { ...entity.rawPayload, internal_user_id: 'user_1' },
+      }),
+    },
+  });
+  config.apps[0].lifecycle_hooks = {
+    beforeUpsert: (entity) => {
+      delete entity.rawPayload.email;
+    },
+  };
+
+  await withConfig(config, async () => {
+    const entities = await runBeforeUpsertHooks([createEntity()], { source: 'sync' });
+
+    assertEquals(entities.length, 1);
+    assertEquals(entities[0].rawPayload, { id: 'cus_123', internal_user_id: 'user_1' });
+  });
+});
+
+Deno.test('[Lifecycle] runBeforeUpsertHooks - skips entities when a hook returns null', async () => {
+  const calls: string[] = [];
+  const config = createConfig({
+    lifecycle_hooks: {
+      collections: {
+        stripe_customer: {
+          beforeUpsert: (entity, context) => {
+            calls.push(`${context.source}:${context.changeSource}`);
+            return entity.externalId === 'cus_skip' ? null : entity;
+          },
+        },
+      },
+    },
+  });
+  config.apps[0].lifecycle_hooks = {
+    beforeUpsert: (entity) => {
+      calls.push(`app:${entity.externalId}`);
+    },
+  };
+
+  await withConfig(config, async () => {
+    const entities = await runBeforeUpsertHooks(
+      [
+        createEntity({ externalId: 'cus_skip' }),
+        createEntity({ externalId: 'cus_keep' }),
+        createEntity({ externalId: 'prod_1', collectionKey: 'stripe_product' }),
+      ],
+      { source: 'webhook', changeSource: 'webhook:evt_1' },
+    );
+
+    assertEquals(entities.map((e) => e.externalId), ['cus_keep', 'prod_1']);
+    assertEquals(calls, [
+      'webhook:webhook:evt_1',
+      'webhook:webhook:evt_1',
+      'app:cus_keep',
+      'app:prod_1',
+    ]);
+  });
+});
+
+// =============================================================================
+// afterUpsert Tests
+// =============================================================================
+
+Deno.test('[Lifecycle] runAfterUpsertHooks - continues after a hook error', async () => {
+  const received: string[] = [];
+  const config = createConfig({
+    lifecycle_hooks: {
+      afterUpsert: () => {
+        throw new Error('hook failed');
+      },
+    },
+  });
+  config.apps[0].lifecycle_hooks = {
+    afterUpsert: (entity) => {
+      received.push(entity.externalId);
+    },
+  };
+
+  await withConfig(config, async () => {
+    await runAfterUpsertHooks(
+      [createEntity({ externalId: 'cus_1' }), createEntity({ externalId: 'cus_2' })],
+      { source: 'sync' },
+    );
+  });
+
+  assertEquals(received, ['cus_1', 'cus_2']);
+});
+
+Deno.test('[Lifecycle] selectWrittenEntities - keeps entities returned by the upsert', () => {
+  const entities = [
+    createEntity({ externalId: 'cus_1' }),
+    createEntity({ externalId: 'cus_2' }),
+    createEntity({ externalId: 'cus_1', collectionKey: 'stripe_other' }),
+  ];
+
+  const written = selectWrittenEntities(entities, [
+    { app_key: 'stripe_test', collection_key: 'stripe_customer', external_id: 'cus_1' },
+  ]);
+
+  assertEquals(written, [entities[0]]);
+  assertEquals(selectWrittenEntities(entities, null), []);
+});
+
+// =============================================================================
+// beforeDelete Tests
+// =============================================================================
+
+Deno.test('[Lifecycle] runBeforeDeleteHooks - keeps entity when a hook returns false', async () => {
+  const config = createConfig({
+    lifecycle_hooks: {
+      beforeDelete: () => {},
+      collections: {
+        stripe_customer: { beforeDelete: (target) => target.externalId !== 'cus_keep' },
+      },
+    },
+  });
+
+  await withConfig(config, async () => {
+    const target = { appKey: 'stripe_test', collectionKey: 'stripe_customer' };
+
+    assertEquals(
+      await runBeforeDeleteHooks({ ...target, externalId: 'cus_keep' }, { source: 'sync' }),
+      false,
+    );
+    assertEquals(
+      await runBeforeDeleteHooks({ ...target, externalId: 'cus_gone' }, { source: 'sync' }),
+      true,
+    );
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Lifecycle Hooks Module
+ *
+ * Runs the `lifecycle_hooks` configured globally and per app around entity writes.
+ * For each entity, hooks run in this order: global, global for the collection, app,
+ * app for the collection.
+ */
+
+import type {
+  EntityDeleteTarget,
+  EntityHookContext,
+  EntityLifecycleHooks,
+  LifecycleHooksConfig,
+  NormalizedEntity,
+} from '../types/index.ts';
+import { getConfig, hasConfig } from '../connectors/index.ts';
+import { debugLog } from '../connectors/utils.ts';
+
+/**
+ * Where the writes passed to the hook runners come from
+ */
+export type EntityHookSource = Pick<EntityHookContext, 'source' | 'changeSource'>;
+
+// =============================================================================
+// Hook Lookup
+// =============================================================================
+
+/**
+ * Add the hooks of a lifecycle hooks config that apply to a collection
+ */
+function collectHooks(
+  hooks: EntityLifecycleHooks[],
+  config: LifecycleHooksConfig | undefined,
+  collectionKey: string,
+): void {
+  if (!config) return;
+  hooks.push(config);
+  const collectionHooks = config.collections?.[collectionKey];
+  if (collectionHooks) {
+    hooks.push(collectionHooks);
+  }
+}
+
+/**
+ * Get the lifecycle hooks that apply to an app's collection, in the order they run
+ */
+export function getLifecycleHooks(appKey: string, collectionKey: string): EntityLifecycleHooks[] {
+  if (!hasConfig()) return [];
+
+  const config = getConfig();
+  const hooks: EntityLifecycleHooks[] = [];
+  collectHooks(hooks, config.lifecycle_hooks, collectionKey);
+  collectHooks(
+    hooks,
+    config.apps.find((app) => app.app_key === appKey)?.lifecycle_hooks,
+    collectionKey,
+  );
+  return hooks;
+}
+
+/**
+ * Build the context passed to the hooks of an entity
+ */
+function createContext(
+  appKey: string,
+  collectionKey: string,
+  source: EntityHookSource,
+): EntityHookContext {
+  return { appKey, collectionKey, ...source };
+}
+
+// =============================================================================
+// Hook Runners
+// =============================================================================
+
+/**
+ * Run the beforeUpsert hooks for each entity. Each hook receives the entity returned
+ * by the previous one; an entity is dropped as soon as a hook returns null.
+ * Errors thrown by hooks are not caught, so they fail the write.
+ *
+ * @param entities The entities about to be written
+ * @param source Where the writes come from
+ * @returns The entities to write
+ */
+export async function runBeforeUpsertHooks(
+  entities: NormalizedEntity[],
+  source: EntityHookSource,
+): Promise<NormalizedEntity[]> {
+  const kept: NormalizedEntity[] = [];
+
+  for (const original of entities) {
+    const hooks = getLifecycleHooks(original.appKey, original.collectionKey);
+    const context = createContext(original.appKey, original.collectionKey, source);
+    let entity: NormalizedEntity | null = original;
+
+    for (const hook of hooks) {
+      if (!hook.beforeUpsert) continue;
+      const returned = await hook.beforeUpsert(entity, context);
+      if (returned === null) {
+        entity = null;
+        break;
+      }
+      if (returned) {
+        entity = returned;
+      }
+    }
+
+    if (entity) {
+      kept.push(entity);
+    } else {
+      debugLog('lifecycle', 'Write skipped by beforeUpsert hook', {
+        appKey: original.appKey,
+        collectionKey: original.collectionKey,
+        externalId: original.externalId,
+      });
+    }
+  }
+
+  return kept;
+}
+
+/**
+ * Run the afterUpsert hooks for each written entity. The write has already happened,
+ * so errors are logged rather than thrown.
+ *
+ * @param entities The written entities
+ * @param source Where the writes come from
+ */
+export async function runAfterUpsertHooks(
+  entities: NormalizedEntity[],
+  source: EntityHookSource,
+): Promise<void> {
+  for (const entity of entities) {
+    const hooks = getLifecycleHooks(entity.appKey, entity.collectionKey);
+    const context = createContext(entity.appKey, entity.collectionKey, source);
+
+    for (const hook of hooks) {
+      if (!hook.afterUpsert) continue;
+      try {
+        await hook.afterUpsert(entity, context);
+      } catch (err) {
+        console.error(
+          `afterUpsert hook failed for ${entity.collectionKey} ${entity.externalId}: ${
+            (err as Error).message
+          }`,
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Run the beforeDelete hooks for an entity. Errors thrown by hooks are not caught,
+ * so they fail the delete.
+ *
+ * @param target The entity about to be deleted
+ * @param source Where the delete comes from
+ * @returns Whether to delete the entity (false if any hook returned false)
+ */
+export async function runBeforeDeleteHooks(
+  target: EntityDeleteTarget,
+  source: EntityHookSource,
+): Promise<boolean> {
+  const hooks = getLifecycleHooks(target.appKey, target.collectionKey);
+  const context = createContext(target.appKey, target.collectionKey, source);
+
+  for (const hook of hooks) {
+    if (!hook.beforeDelete) continue;
+    if ((await hook.beforeDelete(target, context)) === false) {
+      debugLog('lifecycle', 'Delete skipped by beforeDelete hook', { ...target });
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Select the entities that a batch upsert actually wrote. Upserts don't return
+ * entities skipped as unchanged or out of order.
+ *
+ * @param entities The entities passed to the upsert
+ * @param written The rows returned by the upsert
+ */
+export function selectWrittenEntities(
+  entities: NormalizedEntity[],
+  written: { app_key: string; collection_key: string; external_id: string }[] | null,
+): NormalizedEntity[] {
+  const writtenKeys = new Set(
+    (written ?? []).map((row) => `${row.app_key}:${row.collection_key}:${row.external_id}`),
+  );
+  return entities.filter((entity) =>
+    writtenKeys.has(`${entity.appKey}:${entity.collectionKey}:${entity.externalId}`)
+  );
+}
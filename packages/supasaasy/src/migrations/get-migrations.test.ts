@@ -40,6 +40,67 @@ Deno.test('[Migrations] getCoreSchema - includes entities table', () => {
   assertEquals(sql.includes('CREATE TABLE IF NOT EXISTS supasaasy.entities'), true);
 });
 
+Deno.test('[Migrations] getCoreSchema - skips stale entity updates', () => {
+  const sql = getCoreSchema();
+
+  assertEquals(
+    sql.includes('ADD COLUMN IF NOT EXISTS source_updated_at TIMESTAMPTZ'),
+    true,
+  );
+  assertEquals(sql.includes('CREATE TRIGGER entities_skip_stale_update'), true);
+});
+
+Deno.test('[Migrations] getCoreSchema - skips unchanged entity updates', () => {
+  const sql = getCoreSchema();
+
+  assertEquals(sql.includes('ADD COLUMN IF NOT EXISTS payload_hash TEXT'), true);
+  assertEquals(sql.includes('CREATE TRIGGER entities_set_payload_hash'), true);
+  assertEquals(sql.includes('BEFORE INSERT OR UPDATE ON supasaasy.entities'), true);
+  // Re-archiving an archived entity isn't a change
+  assertEquals(sql.includes('NEW.archived_at = OLD.archived_at;'), true);
+});
+
+Deno.test('[Migrations] getCoreSchema - includes outbound_deliveries table', () => {
+  const sql = getCoreSchema();
+
+  assertEquals(sql.includes('CREATE TABLE IF NOT EXISTS supasaasy.outbound_deliveries'), true);
+  assertEquals(sql.includes('CREATE TRIGGER spawn_delivery_worker_on_enqueue'), true);
+  assertEquals(sql.includes("'/functions/v1/delivery-worker'"), true);
+  // Deliveries are keyed by target name and keep a log of every attempt
+  assertEquals(sql.includes('target_name TEXT NOT NULL'), true);
+  assertEquals(sql.includes("attempt_log JSONB NOT NULL DEFAULT '[]'::jsonb"), true);
+  assertEquals(
+    sql.includes('CREATE OR REPLACE FUNCTION supasaasy.record_outbound_delivery_attempt('),
+    true,
+  );
+  assertEquals(sql.includes('attempt_log = d.attempt_log || jsonb_build_array('), true);
+});
+
+Deno.test('[Migrations] getCoreSchema - includes upsert_entities function', () => {
+  const sql = getCoreSchema();
+
+  assertEquals(sql.includes('CREATE FUNCTION supasaasy.upsert_entities(p_entities JSONB)'), true);
+  assertEquals(sql.includes('RETURNS TABLE (entity JSONB, created BOOLEAN, previous JSONB)'), true);
+  assertEquals(sql.includes('e.xmax = 0 AS inserted'), true);
+  // An entity that stays archived keeps its archived_at
+  assertEquals(sql.includes('COALESCE(e.archived_at, EXCLUDED.archived_at)'), true);
+});
+
+Deno.test('[Migrations] getCoreSchema - includes entity_versions table', () => {
+  const sql = getCoreSchema();
+
+  assertEquals(sql.includes('CREATE TABLE IF NOT EXISTS supasaasy.entity_versions'), true);
+  assertEquals(sql.includes('CREATE OR REPLACE FUNCTION supasaasy.record_entity_version()'), true);
+  assertEquals(sql.includes('ADD COLUMN IF NOT EXISTS change_source TEXT'), true);
+  // Versions start when the payload was written, not at the last update of any column
+  assertEquals(sql.includes('ADD COLUMN IF NOT EXISTS payload_valid_from TIMESTAMPTZ'), true);
+  assertEquals(sql.includes('NEW.payload_valid_from = now();'), true);
+  assertEquals(sql.includes('COALESCE(OLD.payload_valid_from, OLD.updated_at)'), true);
+  assertEquals(sql.includes(', OLD.updated_at);'), false);
+  // Soft deletes are recorded as deletes
+  assertEquals(sql.includes('IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN'), true);
+});
+
 Deno.test('[Migrations] getCoreSchema - includes sync_state table', () => {
   const sql = getCoreSchema();
 
@@ -52,6 +113,24 @@ Deno.test('[Migrations] getCoreSchema - includes webhook_logs table', () => {
   assertEquals(sql.includes('CREATE TABLE IF NOT EXISTS supasaasy.webhook_logs'), true);
 });
 
+Deno.test('[Migrations] getCoreSchema - includes webhook_events table', () => {
+  const sql = getCoreSchema();
+
+  assertEquals(sql.includes('CREATE TABLE IF NOT EXISTS supasaasy.webhook_events'), true);
+  assertEquals(sql.includes('UNIQUE (app_key, event_id)'), true);
+});
+
+Deno.test('[Migrations] getCoreSchema - includes webhook_queue table and worker trigger', () => {
+  const sql = getCoreSchema();
+
+  assertEquals(sql.includes('CREATE TABLE IF NOT EXISTS supasaasy.webhook_queue'), true);
+  assertEquals(
+    sql.includes("CHECK (status IN ('pending', 'processing', 'completed', 'dead_letter'))"),
+    true,
+  );
+  assertEquals(sql.includes('CREATE TRIGGER spawn_webhook_worker_on_enqueue'), true);
+});
+
 Deno.test('[Migrations] getCoreSchema - includes sync_jobs table', () => {
   const sql = getCoreSchema();
 
@@ -94,8 +173,11 @@ Deno.test('[Migrations] getMigrations - includes auth SQL when auth.enabled: tru
 
   // Should include RLS policies for all tables
   assertEquals(sql.includes('supasaasy_entities_select_policy'), true);
+  assertEquals(sql.includes('supasaasy_entity_versions_select_policy'), true);
   assertEquals(sql.includes('supasaasy_sync_state_select_policy'), true);
   assertEquals(sql.includes('supasaasy_webhook_logs_select_policy'), true);
+  assertEquals(sql.includes('supasaasy_webhook_events_select_policy'), true);
+  assertEquals(sql.includes('supasaasy_webhook_queue_select_policy'), true);
   assertEquals(sql.includes('supasaasy_sync_jobs_select_policy'), true);
   assertEquals(sql.includes('supasaasy_sync_job_tasks_select_policy'), true);
   assertEquals(sql.includes('supasaasy_users_select_policy'), true);
@@ -144,6 +226,95 @@ Deno.test('[Migrations] getMigrations - RLS policies use correct pattern', async
   assertEquals(sql.includes('auth.uid() IN (SELECT user_id FROM supasaasy.users)'), true);
 });
 
+Deno.test('[Migrations] getMigrations - omits user_app_access without per_app_access', async () => {
+  const config: SupaSaaSyConfig = {
+    ...minimalConfig(),
+    auth: { enabled: true },
+  };
+
+  const sql = await getMigrations(config, { includeHeader: false });
+
+  assertEquals(sql.includes('supasaasy.user_app_access'), false);
+});
+
+Deno.test('[Migrations] getMigrations - scopes RLS policies to granted app keys with per_app_access', async () => {
+  const config: SupaSaaSyConfig = {
+    ...minimalConfig(),
+    auth: { enabled: true, per_app_access: true },
+  };
+
+  const sql = await getMigrations(config, { includeHeader: false });
+
+  assertEquals(sql.includes('CREATE TABLE IF NOT EXISTS supasaasy.user_app_access'), true);
+  assertEquals(sql.includes('auth.uid() IN (SELECT user_id FROM supasaasy.users)'), false);
+  assertEquals(
+    sql.includes(
+      'USING (app_key IN (SELECT app_key FROM supasaasy.user_app_access WHERE user_id = auth.uid()));',
+    ),
+    true,
+  );
+  assertEquals(
+    sql.includes(
+      'USING (job_id IN (SELECT id FROM supasaasy.sync_jobs WHERE app_key IN (SELECT app_key FROM supasaasy.user_app_access WHERE user_id = auth.uid())));',
+    ),
+    true,
+  );
+  assertEquals(sql.includes('CREATE POLICY "supasaasy_user_app_access_select_policy"'), true);
+});
+
+Deno.test('[Migrations] getMigrations - creates a policy per role and table', async () => {
+  const config: SupaSaaSyConfig = {
+    ...minimalConfig(),
+    auth: {
+      enabled: true,
+      roles: {
+        analyst: { tables: ['entities', 'sync_state'] },
+        support: { tables: ['entities'], collections: ['intercom_*'] },
+      },
+    },
+  };
+
+  const sql = await getMigrations(config, { includeHeader: false });
+
+  assertEquals(
+    sql.includes('ALTER TABLE supasaasy.users ADD COLUMN IF NOT EXISTS role TEXT;'),
+    true,
+  );
+  assertEquals(sql.includes('CREATE POLICY "supasaasy_entities_select_policy"'), false);
+  assertEquals(sql.includes('CREATE POLICY "supasaasy_entities_analyst_select_policy"'), true);
+  assertEquals(sql.includes('CREATE POLICY "supasaasy_sync_state_analyst_select_policy"'), true);
+  assertEquals(sql.includes('CREATE POLICY "supasaasy_sync_state_support_select_policy"'), false);
+  assertEquals(
+    sql.includes(
+      "USING (auth.uid() IN (SELECT user_id FROM supasaasy.users WHERE role = 'support') AND collection_key LIKE ANY (ARRAY['intercom\\_%']));",
+    ),
+    true,
+  );
+  assertEquals(sql.includes('REVOKE SELECT ON supasaasy.webhook_logs FROM authenticated;'), true);
+  assertEquals(sql.includes('REVOKE SELECT ON supasaasy.entities FROM authenticated;'), false);
+});
+
+Deno.test('[Migrations] getMigrations - reads roles from user_app_access with per_app_access', async () => {
+  const config: SupaSaaSyConfig = {
+    ...minimalConfig(),
+    auth: {
+      enabled: true,
+      per_app_access: true,
+      roles: { analyst: { tables: ['sync_job_tasks'] } },
+    },
+  };
+
+  const sql = await getMigrations(config, { includeHeader: false });
+
+  assertEquals(sql.includes('ALTER TABLE supasaasy.users ADD COLUMN'), false);
+  assertEquals(
+    sql.includes(
+      "USING (job_id IN (SELECT id FROM supasaasy.sync_jobs WHERE app_key IN (SELECT app_key FROM supasaasy.user_app_access WHERE user_id = auth.uid() AND role = 'analyst')));",
+    ),
+    true,
+  );
+});
+
 Deno.test('[Migrations] getMigrations - header shows auth status enabled', async () => {
   const config: SupaSaaSyConfig = {
     ...minimalConfig(),
@@ -195,3 +366,270 @@ Deno.test('[Migrations] getMigrations - excludes header when not requested', asy
 
   assertEquals(sql.includes('SupaSaaSy Migration'), false);
 });
+
+// =============================================================================
+// getMigrations Sync Schedule Tests
+// =============================================================================
+
+Deno.test('[Migrations] getCoreSchema - does not require pg_cron', () => {
+  const sql = getCoreSchema();
+
+  assertEquals(sql.includes('CREATE OR REPLACE FUNCTION supasaasy.wake_due_retries()'), true);
+  assertEquals(sql.includes('CREATE EXTENSION IF NOT EXISTS pg_cron'), false);
+  assertEquals(sql.includes('cron.schedule('), false);
+});
+
+Deno.test('[Migrations] getMigrations - wakes due retries with pg_cron when opted in', async () => {
+  const config: SupaSaaSyConfig = {
+    ...minimalConfig(),
+    workers: { pg_cron: true },
+  };
+
+  const sql = await getMigrations(config, { includeHeader: false });
+
+  assertEquals(sql.includes('CREATE EXTENSION IF NOT EXISTS pg_cron'), true);
+  assertEquals(sql.includes('CREATE OR REPLACE FUNCTION supasaasy.invoke_scheduler'), false);
+  assertEquals(
+    sql.includes(
+      "SELECT cron.schedule('supasaasy_wake_due_retries', '* * * * *', 'SELECT supasaasy.wake_due_retries()');",
+    ),
+    true,
+  );
+});
+
+Deno.test('[Migrations] getMigrations - unschedules the due retry job without pg_cron', async () => {
+  const defaults = await getMigrations(minimalConfig(), { includeHeader: false });
+  const optedOut = await getMigrations({
+    ...minimalConfig(),
+    sync_schedules: [
+      { app_key: 'test_app', cron: '0 */6 * * *', enabled: true },
+    ],
+    workers: { pg_cron: false },
+  }, { includeHeader: false });
+
+  for (const sql of [defaults, optedOut]) {
+    assertEquals(sql.includes("SELECT cron.schedule('supasaasy_wake_due_retries'"), false);
+    assertEquals(sql.includes("WHERE jobname = 'supasaasy_wake_due_retries'"), true);
+  }
+});
+
+Deno.test('[Migrations] getMigrations - schedules enabled sync_schedules with pg_cron', async () => {
+  const config: SupaSaaSyConfig = {
+    ...minimalConfig(),
+    sync_schedules: [
+      { app_key: 'test_app', cron: '0 */6 * * *', enabled: true },
+    ],
+  };
+
+  const sql = await getMigrations(config, { includeHeader: false });
+
+  assertEquals(sql.includes('CREATE EXTENSION IF NOT EXISTS pg_cron'), true);
+  assertEquals(sql.includes('CREATE OR REPLACE FUNCTION supasaasy.invoke_scheduler'), true);
+  assertEquals(
+    sql.includes(
+      "SELECT cron.schedule('supasaasy_sync_test_app_1', '0 */6 * * *', 'SELECT supasaasy.invoke_scheduler(''test_app'', ''0 */6 * * *'')');",
+    ),
+    true,
+  );
+  assertEquals(sql.includes("AND jobname NOT IN ('supasaasy_sync_test_app_1')"), true);
+  assertEquals(
+    sql.includes(
+      "SELECT cron.schedule('supasaasy_wake_due_retries', '* * * * *', 'SELECT supasaasy.wake_due_retries()');",
+    ),
+    true,
+  );
+});
+
+Deno.test('[Migrations] getMigrations - unschedules disabled sync_schedules', async () => {
+  const config: SupaSaaSyConfig = {
+    ...minimalConfig(),
+    sync_schedules: [
+      { app_key: 'test_app', cron: '0 * * * *', enabled: false },
+    ],
+  };
+
+  const sql = await getMigrations(config, { includeHeader: false });
+
+  assertEquals(sql.includes("SELECT cron.schedule('supasaasy_sync_"), false);
+  assertEquals(sql.includes('PERFORM cron.unschedule(jobid)'), true);
+  assertEquals(sql.includes('AND jobname NOT IN'), false);
+  assertEquals(sql.includes("OR jobname = 'supasaasy_wake_due_retries'"), false);
+});
+
+Deno.test('[Migrations] getCoreSchema - reaps stuck tasks and counts finished tasks atomically', () => {
+  const sql = getCoreSchema();
+
+  assertEquals(sql.includes('CREATE OR REPLACE FUNCTION supasaasy.reap_stuck_tasks('), true);
+  assertEquals(sql.includes('SET failed_tasks = j.failed_tasks + counts.failed_count'), true);
+  assertEquals(sql.includes('CREATE OR REPLACE FUNCTION supasaasy.increment_job_counts('), true);
+  assertEquals(sql.includes('SET completed_tasks = completed_tasks + p_completed_tasks'), true);
+});
+
+Deno.test('[Migrations] getMigrations - schedules stuck task recovery with the worker settings', async () => {
+  const defaults = await getMigrations({
+    ...minimalConfig(),
+    workers: { pg_cron: true },
+  }, { includeHeader: false });
+  const configured = await getMigrations({
+    ...minimalConfig(),
+    workers: { stuck_task_timeout_seconds: 600, max_task_attempts: 5, pg_cron: true },
+  }, { includeHeader: false });
+
+  assertEquals(
+    defaults.includes(
+      "SELECT cron.schedule('supasaasy_reap_stuck_tasks', '* * * * *', 'SELECT supasaasy.reap_stuck_tasks(300, 3)');",
+    ),
+    true,
+  );
+  assertEquals(configured.includes("'SELECT supasaasy.reap_stuck_tasks(600, 5)'"), true);
+});
+
+Deno.test('[Migrations] getMigrations - schedules stuck task recovery when other jobs need pg_cron', async () => {
+  const sql = await getMigrations({
+    ...minimalConfig(),
+    webhook_queue: { enabled: true },
+  }, { includeHeader: false });
+
+  assertEquals(sql.includes("SELECT cron.schedule('supasaasy_reap_stuck_tasks'"), true);
+  assertEquals(sql.includes("SELECT cron.schedule('supasaasy_wake_due_retries'"), true);
+});
+
+Deno.test('[Migrations] getMigrations - unschedules stuck task recovery without pg_cron', async () => {
+  const sql = await getMigrations(minimalConfig(), { includeHeader: false });
+
+  assertEquals(sql.includes('CREATE EXTENSION IF NOT EXISTS pg_cron'), false);
+  assertEquals(sql.includes("SELECT cron.schedule('supasaasy_reap_stuck_tasks'"), false);
+  assertEquals(sql.includes("WHERE jobname = 'supasaasy_reap_stuck_tasks'"), true);
+});
+
+Deno.test('[Migrations] getMigrations - unschedules cron jobs whose config was removed', async () => {
+  const sql = await getMigrations(minimalConfig(), { includeHeader: false });
+
+  assertEquals(sql.includes("WHERE starts_with(jobname, 'supasaasy_sync_');"), true);
+  assertEquals(sql.includes("WHERE jobname = 'supasaasy_wake_webhook_queue'"), true);
+  assertEquals(sql.includes("WHERE jobname = 'supasaasy_wake_outbound_deliveries'"), true);
+  assertEquals(sql.includes("SELECT cron.schedule('supasaasy_sync_"), false);
+  assertEquals(sql.includes("SELECT cron.schedule('supasaasy_wake_webhook_queue'"), false);
+  assertEquals(sql.includes("SELECT cron.schedule('supasaasy_wake_outbound_deliveries'"), false);
+});
+
+// =============================================================================
+// getMigrations Webhook Queue Tests
+// =============================================================================
+
+Deno.test('[Migrations] getMigrations - schedules webhook queue wake-ups when enabled', async () => {
+  const config: SupaSaaSyConfig = {
+    ...minimalConfig(),
+    webhook_queue: { enabled: true },
+  };
+
+  const sql = await getMigrations(config, { includeHeader: false });
+
+  assertEquals(sql.includes('CREATE EXTENSION IF NOT EXISTS pg_cron'), true);
+  assertEquals(
+    sql.includes(
+      "SELECT cron.schedule('supasaasy_wake_webhook_queue', '* * * * *', 'SELECT supasaasy.wake_webhook_queue()');",
+    ),
+    true,
+  );
+});
+
+Deno.test('[Migrations] getMigrations - unschedules webhook queue wake-ups when disabled', async () => {
+  const config: SupaSaaSyConfig = {
+    ...minimalConfig(),
+    webhook_queue: { enabled: false },
+  };
+
+  const sql = await getMigrations(config, { includeHeader: false });
+
+  assertEquals(sql.includes("SELECT cron.schedule('supasaasy_wake_webhook_queue'"), false);
+  assertEquals(sql.includes("WHERE jobname = 'supasaasy_wake_webhook_queue'"), true);
+});
+
+// =============================================================================
+// getMigrations Entity History Tests
+// =============================================================================
+
+Deno.test('[Migrations] getMigrations - records versions for entity_history collections', async () => {
+  const config: SupaSaaSyConfig = {
+    ...minimalConfig(),
+    entity_history: { collections: ['stripe_subscription', 'stripe_price'] },
+  };
+
+  const sql = await getMigrations(config, { includeHeader: false });
+
+  assertEquals(sql.includes('CREATE TRIGGER entities_record_version'), true);
+  assertEquals(
+    sql.includes("WHEN (OLD.collection_key IN ('stripe_subscription', 'stripe_price'))"),
+    true,
+  );
+});
+
+Deno.test('[Migrations] getMigrations - drops entity history trigger without entity_history', async () => {
+  const config = minimalConfig();
+
+  const sql = await getMigrations(config, { includeHeader: false });
+
+  assertEquals(sql.includes('DROP TRIGGER IF EXISTS entities_record_version'), true);
+  assertEquals(sql.includes('CREATE TRIGGER entities_record_version'), false);
+});
+
+// =============================================================================
+// getMigrations Change Feed Tests
+// =============================================================================
+
+Deno.test('[Migrations] getMigrations - notifies change_feed.notify_channel', async () => {
+  const config: SupaSaaSyConfig = {
+    ...minimalConfig(),
+    change_feed: { notify_channel: 'supasaasy_changes' },
+  };
+
+  const sql = await getMigrations(config, { includeHeader: false });
+
+  assertEquals(sql.includes('CREATE TRIGGER entities_notify_change'), true);
+  assertEquals(
+    sql.includes("EXECUTE FUNCTION supasaasy.notify_entity_change('supasaasy_changes')"),
+    true,
+  );
+});
+
+Deno.test('[Migrations] getMigrations - drops change feed trigger without notify_channel', async () => {
+  const config = minimalConfig();
+
+  const sql = await getMigrations(config, { includeHeader: false });
+
+  assertEquals(sql.includes('DROP TRIGGER IF EXISTS entities_notify_change'), true);
+  assertEquals(sql.includes('CREATE TRIGGER entities_notify_change'), false);
+});
+
+Deno.test('[Migrations] getMigrations - schedules delivery wake-ups for HTTP targets', async () => {
+  const config: SupaSaaSyConfig = {
+    ...minimalConfig(),
+    change_feed: {
+      http_targets: [
+        { name: 'hooks', url: 'https://example.com/hooks', secret_env: 'CHANGE_FEED_SECRET' },
+      ],
+    },
+  };
+
+  const sql = await getMigrations(config, { includeHeader: false });
+
+  assertEquals(
+    sql.includes(
+      "SELECT cron.schedule('supasaasy_wake_outbound_deliveries', '* * * * *', 'SELECT supasaasy.wake_outbound_deliveries()');",
+    ),
+    true,
+  );
+});
+
+Deno.test('[Migrations] getMigrations - unschedules delivery wake-ups without HTTP targets', async () => {
+  const config: SupaSaaSyConfig = {
+    ...minimalConfig(),
+    change_feed: { notify_channel: 'supasaasy_changes' },
+  };
+
+  const sql = await getMigrations(config, { includeHeader: false });
+
+  assertEquals(sql.includes("SELECT cron.schedule('supasaasy_wake_outbound_deliveries'"), false);
+  assertEquals(sql.includes("WHERE jobname = 'supasaasy_wake_outbound_deliveries'"), true);
+});
@@ -5,7 +5,17 @@
  * Combines core schema with connector-specific migrations.
  */
 
-import type { SupaSaaSyConfig } from '../types/index.ts';
+import type {
+  AuthConfig,
+  AuthRoleConfig,
+  AuthRoleTable,
+  ChangeFeedConfig,
+  EntityHistoryConfig,
+  SupaSaaSyConfig,
+  SyncSchedule,
+  WebhookQueueConfig,
+  WorkerConfig,
+} from '../types/index.ts';
 import { getConnector } from '../connectors/index.ts';
 
 // Import connectors to ensure they register themselves
@@ -54,10 +64,24 @@ CREATE TABLE IF NOT EXISTS supasaasy.entities (
   created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
   archived_at TIMESTAMPTZ,
-  deleted_at TIMESTAMPTZ
+  deleted_at TIMESTAMPTZ,
+  source_updated_at TIMESTAMPTZ,
+  change_source TEXT,
+  payload_hash TEXT,
+  payload_valid_from TIMESTAMPTZ
 );
 
+-- Columns added after the initial release (for existing installs)
+ALTER TABLE supasaasy.entities ADD COLUMN IF NOT EXISTS source_updated_at TIMESTAMPTZ;
+ALTER TABLE supasaasy.entities ADD COLUMN IF NOT EXISTS change_source TEXT;
+ALTER TABLE supasaasy.entities ADD COLUMN IF NOT EXISTS payload_hash TEXT;
+ALTER TABLE supasaasy.entities ADD COLUMN IF NOT EXISTS payload_valid_from TIMESTAMPTZ;
+
 COMMENT ON TABLE supasaasy.entities IS 'Canonical storage for all synced SaaS entities';
+COMMENT ON COLUMN supasaasy.entities.source_updated_at IS 'When the provider last changed this data (from the payload or webhook event); older writes are skipped';
+COMMENT ON COLUMN supasaasy.entities.change_source IS 'What made the latest write (e.g. webhook:evt_123, sync_job:<job id>), recorded in entity_versions';
+COMMENT ON COLUMN supasaasy.entities.payload_hash IS 'MD5 of the canonical raw_payload text; updates that change nothing are skipped';
+COMMENT ON COLUMN supasaasy.entities.payload_valid_from IS 'When the current raw_payload was written, or the entity deleted or restored; the valid_from of its next entity_versions row';
 
 -- Unique constraint for idempotent upserts
 DO $$
@@ -94,9 +118,288 @@ CREATE TRIGGER entities_update_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION supasaasy.update_updated_at_column();
 
+-- No-op protection: keep payload_hash in sync with raw_payload and skip updates that
+-- change nothing, so updated_at only moves when the data does. The jsonb text form
+-- is canonical (sorted keys, normalized whitespace), so equal payloads hash equally.
+-- Rows written before payload_hash existed have no hash and are always updated once.
+-- An entity that stays archived keeps its archived_at, so re-archiving it with a new
+-- time isn't a change. payload_valid_from moves when the payload changes or the entity
+-- is deleted or restored, which is when its current version starts.
+CREATE OR REPLACE FUNCTION supasaasy.set_entity_payload_hash()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.payload_hash = md5(NEW.raw_payload::TEXT);
+  IF TG_OP = 'UPDATE' AND NEW.archived_at IS NOT NULL AND OLD.archived_at IS NOT NULL THEN
+    NEW.archived_at = OLD.archived_at;
+  END IF;
+  IF TG_OP = 'UPDATE'
+    AND NEW.payload_hash = OLD.payload_hash
+    AND NEW.api_version IS NOT DISTINCT FROM OLD.api_version
+    AND NEW.archived_at IS NOT DISTINCT FROM OLD.archived_at
+    AND NEW.deleted_at IS NOT DISTINCT FROM OLD.deleted_at
+  THEN
+    RETURN NULL;
+  END IF;
+  IF TG_OP = 'INSERT'
+    OR NEW.payload_hash IS DISTINCT FROM OLD.payload_hash
+    OR (NEW.deleted_at IS NULL) <> (OLD.deleted_at IS NULL)
+  THEN
+    NEW.payload_valid_from = now();
+  ELSE
+    NEW.payload_valid_from = OLD.payload_valid_from;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Named to fire before entities_update_updated_at (triggers run in name order)
+DROP TRIGGER IF EXISTS entities_set_payload_hash ON supasaasy.entities;
+CREATE TRIGGER entities_set_payload_hash
+  BEFORE INSERT OR UPDATE ON supasaasy.entities
+  FOR EACH ROW
+  EXECUTE FUNCTION supasaasy.set_entity_payload_hash();
+
+-- Out-of-order protection: skip updates whose source timestamp is older than the
+-- stored one (e.g. a late webhook redelivery). Returning NULL skips the row, so an
+-- upsert leaves the entity unchanged and doesn't return it. Updates without a
+-- source timestamp are applied and keep the stored one.
+CREATE OR REPLACE FUNCTION supasaasy.skip_stale_entity_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.source_updated_at IS NULL THEN
+    NEW.source_updated_at = OLD.source_updated_at;
+  ELSIF OLD.source_updated_at IS NOT NULL AND NEW.source_updated_at < OLD.source_updated_at THEN
+    RETURN NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Named to fire before entities_update_updated_at (triggers run in name order)
+DROP TRIGGER IF EXISTS entities_skip_stale_update ON supasaasy.entities;
+CREATE TRIGGER entities_skip_stale_update
+  BEFORE UPDATE ON supasaasy.entities
+  FOR EACH ROW
+  EXECUTE FUNCTION supasaasy.skip_stale_entity_update();
+
+-- Batch upsert that reports which rows were created, and the previous row of those
+-- that were updated. Each element of p_entities is an entity object as sent by
+-- upsertEntities; deleted_at is only changed when present. An entity that is still
+-- archived keeps its archived_at, since connectors archive objects without an
+-- archive time of their own at the time of the sync. Rows skipped by
+-- entities_set_payload_hash or entities_skip_stale_update are not returned. xmax is 0
+-- for rows that were inserted rather than updated.
+-- Dropped first since CREATE OR REPLACE can't change the returned columns.
+DROP FUNCTION IF EXISTS supasaasy.upsert_entities(JSONB);
+CREATE FUNCTION supasaasy.upsert_entities(p_entities JSONB)
+RETURNS TABLE (entity JSONB, created BOOLEAN, previous JSONB) AS $$
+DECLARE
+  item JSONB;
+BEGIN
+  FOR item IN SELECT value FROM jsonb_array_elements(p_entities) LOOP
+    RETURN QUERY
+    WITH prev AS (
+      SELECT to_jsonb(p.*) AS prev_row
+      FROM supasaasy.entities p
+      WHERE p.app_key = item ->> 'app_key'
+        AND p.collection_key = item ->> 'collection_key'
+        AND p.external_id = item ->> 'external_id'
+    ),
+    upserted AS (
+      INSERT INTO supasaasy.entities AS e (
+        id, external_id, app_key, collection_key, api_version, raw_payload,
+        archived_at, deleted_at, source_updated_at, change_source
+      )
+      VALUES (
+        COALESCE((item ->> 'id')::UUID, gen_random_uuid()),
+        item ->> 'external_id',
+        item ->> 'app_key',
+        item ->> 'collection_key',
+        item ->> 'api_version',
+        COALESCE(item -> 'raw_payload', '{}'::JSONB),
+        (item ->> 'archived_at')::TIMESTAMPTZ,
+        (item ->> 'deleted_at')::TIMESTAMPTZ,
+        (item ->> 'source_updated_at')::TIMESTAMPTZ,
+        item ->> 'change_source'
+      )
+      ON CONFLICT (app_key, collection_key, external_id) DO UPDATE SET
+        api_version = EXCLUDED.api_version,
+        raw_payload = EXCLUDED.raw_payload,
+        archived_at = CASE
+          WHEN EXCLUDED.archived_at IS NOT NULL THEN COALESCE(e.archived_at, EXCLUDED.archived_at)
+        END,
+        deleted_at = CASE WHEN item ? 'deleted_at' THEN EXCLUDED.deleted_at ELSE e.deleted_at END,
+        source_updated_at = EXCLUDED.source_updated_at,
+        change_source = EXCLUDED.change_source
+      RETURNING to_jsonb(e.*) AS upserted_row, e.xmax = 0 AS inserted
+    )
+    SELECT upserted.upserted_row, upserted.inserted, (SELECT prev.prev_row FROM prev)
+    FROM upserted;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
 -- Grant permissions
 GRANT SELECT ON supasaasy.entities TO authenticated;
 GRANT ALL ON supasaasy.entities TO service_role;
+GRANT EXECUTE ON FUNCTION supasaasy.upsert_entities(JSONB) TO service_role;
+
+-- =============================================================================
+-- Entity Versions Table (change history for entity_history collections)
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS supasaasy.entity_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- No foreign key, so history is kept after the entity is deleted
+  entity_id UUID NOT NULL,
+  app_key TEXT NOT NULL,
+  collection_key TEXT NOT NULL,
+  external_id TEXT NOT NULL,
+  change_type TEXT NOT NULL,
+  -- The payload before the change
+  raw_payload JSONB NOT NULL,
+  diff JSONB,
+  source TEXT,
+  valid_from TIMESTAMPTZ NOT NULL,
+  valid_to TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE supasaasy.entity_versions IS 'Previous entity payloads for collections with entity_history enabled';
+COMMENT ON COLUMN supasaasy.entity_versions.entity_id IS 'ID of the entity (the entity may since have been deleted)';
+COMMENT ON COLUMN supasaasy.entity_versions.change_type IS 'Change that replaced this version: update or delete (including soft deletes)';
+COMMENT ON COLUMN supasaasy.entity_versions.raw_payload IS 'Entity payload before the change';
+COMMENT ON COLUMN supasaasy.entity_versions.diff IS 'Changed top-level fields as {"field": {"old": ..., "new": ...}} (NULL for deletes)';
+COMMENT ON COLUMN supasaasy.entity_versions.source IS 'What made the change (e.g. webhook:evt_123, sync_job:<job id>)';
+COMMENT ON COLUMN supasaasy.entity_versions.valid_from IS 'When this payload was written (or the entity restored)';
+COMMENT ON COLUMN supasaasy.entity_versions.valid_to IS 'When this payload was replaced or deleted';
+
+-- Change type check constraint
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'entity_versions_change_type_check'
+  ) THEN
+    ALTER TABLE supasaasy.entity_versions
+    ADD CONSTRAINT entity_versions_change_type_check
+    CHECK (change_type IN ('update', 'delete'));
+  END IF;
+END $$;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_entity_versions_entity
+  ON supasaasy.entity_versions (app_key, collection_key, external_id, valid_to DESC);
+CREATE INDEX IF NOT EXISTS idx_entity_versions_entity_id ON supasaasy.entity_versions (entity_id);
+
+-- Top-level fields that differ between two payloads, as {"field": {"old": ..., "new": ...}}
+CREATE OR REPLACE FUNCTION supasaasy.jsonb_diff(old_value JSONB, new_value JSONB)
+RETURNS JSONB AS $$
+  SELECT COALESCE(
+    jsonb_object_agg(
+      key,
+      jsonb_build_object('old', old_value -> key, 'new', new_value -> key)
+    ),
+    '{}'::JSONB
+  )
+  FROM (
+    SELECT jsonb_object_keys(old_value) AS key
+    UNION
+    SELECT jsonb_object_keys(new_value) AS key
+  ) AS keys
+  WHERE (old_value -> key) IS DISTINCT FROM (new_value -> key);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Record the previous payload when an entity's payload changes or it is deleted,
+-- including soft deletes (deleted_at being set). A soft-deleted entity that is later
+-- removed already has its delete recorded. Each version starts at the entity's
+-- payload_valid_from; rows written before that column existed fall back to updated_at.
+-- Attached to entities by the entities_record_version trigger, which getMigrations
+-- generates for the collections listed in entity_history.
+CREATE OR REPLACE FUNCTION supasaasy.record_entity_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.deleted_at IS NULL THEN
+      INSERT INTO supasaasy.entity_versions
+        (entity_id, app_key, collection_key, external_id, change_type, raw_payload, valid_from)
+      VALUES
+        (OLD.id, OLD.app_key, OLD.collection_key, OLD.external_id, 'delete', OLD.raw_payload,
+         COALESCE(OLD.payload_valid_from, OLD.updated_at));
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    INSERT INTO supasaasy.entity_versions
+      (entity_id, app_key, collection_key, external_id, change_type, raw_payload, source, valid_from)
+    VALUES
+      (OLD.id, OLD.app_key, OLD.collection_key, OLD.external_id, 'delete', OLD.raw_payload,
+       NEW.change_source, COALESCE(OLD.payload_valid_from, OLD.updated_at));
+  ELSIF OLD.raw_payload IS DISTINCT FROM NEW.raw_payload THEN
+    INSERT INTO supasaasy.entity_versions
+      (entity_id, app_key, collection_key, external_id, change_type, raw_payload, diff, source, valid_from)
+    VALUES
+      (OLD.id, OLD.app_key, OLD.collection_key, OLD.external_id, 'update', OLD.raw_payload,
+       supasaasy.jsonb_diff(OLD.raw_payload, NEW.raw_payload), NEW.change_source,
+       COALESCE(OLD.payload_valid_from, OLD.updated_at));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Grant permissions
+GRANT SELECT ON supasaasy.entity_versions TO authenticated;
+GRANT ALL ON supasaasy.entity_versions TO service_role;
+
+-- =============================================================================
+-- Entity Change Notifications
+-- =============================================================================
+
+-- Publish entity changes with NOTIFY on the channel passed as the trigger argument.
+-- Attached to entities by the entities_notify_change trigger, which getMigrations
+-- generates when change_feed.notify_channel is set. NOTIFY payloads must be under
+-- 8000 bytes, so larger events are sent without before/after and marked truncated.
+CREATE OR REPLACE FUNCTION supasaasy.notify_entity_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  changed supasaasy.entities%ROWTYPE;
+  operation TEXT;
+  event JSONB;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    changed := OLD;
+    operation := 'delete';
+  ELSIF TG_OP = 'INSERT' THEN
+    changed := NEW;
+    operation := 'create';
+  ELSE
+    changed := NEW;
+    operation := CASE
+      WHEN NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL THEN 'delete'
+      ELSE 'update'
+    END;
+  END IF;
+
+  event := jsonb_build_object(
+    'entity_id', changed.id,
+    'app_key', changed.app_key,
+    'collection_key', changed.collection_key,
+    'external_id', changed.external_id,
+    'operation', operation,
+    'before', CASE WHEN TG_OP = 'INSERT' THEN NULL::JSONB ELSE OLD.raw_payload END,
+    'after', CASE WHEN TG_OP = 'DELETE' THEN NULL::JSONB ELSE NEW.raw_payload END,
+    'change_source', changed.change_source,
+    'occurred_at', now()
+  );
+
+  IF octet_length(event::TEXT) >= 8000 THEN
+    event := event || jsonb_build_object('before', NULL::JSONB, 'after', NULL::JSONB, 'truncated', true);
+  END IF;
+
+  PERFORM pg_notify(TG_ARGV[0], event::TEXT);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
 
 -- =============================================================================
 -- Sync State Table
@@ -171,6 +474,11 @@ COMMENT ON COLUMN supasaasy.webhook_logs.error_message IS 'Error message if proc
 COMMENT ON COLUMN supasaasy.webhook_logs.processing_duration_ms IS 'Processing duration in milliseconds';
 COMMENT ON COLUMN supasaasy.webhook_logs.created_at IS 'Timestamp when the log entry was created';
 
+-- Whether request_body went through the app's redaction rules (NULL for logs from
+-- before this was recorded). Replay skips redacted bodies.
+ALTER TABLE supasaasy.webhook_logs ADD COLUMN IF NOT EXISTS request_body_redacted BOOLEAN;
+COMMENT ON COLUMN supasaasy.webhook_logs.request_body_redacted IS 'Whether the request body was redacted before storage (NULL = unknown)';
+
 -- Indexes for efficient querying
 CREATE INDEX IF NOT EXISTS idx_webhook_logs_app_key ON supasaasy.webhook_logs (app_key);
 CREATE INDEX IF NOT EXISTS idx_webhook_logs_response_status ON supasaasy.webhook_logs (response_status);
@@ -181,6 +489,238 @@ CREATE INDEX IF NOT EXISTS idx_webhook_logs_app_key_created_at ON supasaasy.webh
 GRANT SELECT ON supasaasy.webhook_logs TO authenticated;
 GRANT ALL ON supasaasy.webhook_logs TO service_role;
 
+-- =============================================================================
+-- Webhook Events Table (delivery deduplication)
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS supasaasy.webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  app_key TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  event_type TEXT,
+  resource_type TEXT,
+  external_id TEXT,
+  status TEXT NOT NULL DEFAULT 'processing',
+  duplicate_count INTEGER NOT NULL DEFAULT 0,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  processed_at TIMESTAMPTZ,
+  last_duplicate_at TIMESTAMPTZ
+);
+
+COMMENT ON TABLE supasaasy.webhook_events IS 'Provider webhook events that have been received, used to skip redelivered events';
+COMMENT ON COLUMN supasaasy.webhook_events.app_key IS 'App key the event was received for';
+COMMENT ON COLUMN supasaasy.webhook_events.event_id IS 'Provider event ID (e.g., Stripe evt_ ID)';
+COMMENT ON COLUMN supasaasy.webhook_events.event_type IS 'Original provider event type';
+COMMENT ON COLUMN supasaasy.webhook_events.status IS 'Event status: processing or processed';
+COMMENT ON COLUMN supasaasy.webhook_events.duplicate_count IS 'Number of redeliveries that were skipped';
+COMMENT ON COLUMN supasaasy.webhook_events.received_at IS 'Timestamp when the event was first received';
+COMMENT ON COLUMN supasaasy.webhook_events.processed_at IS 'Timestamp when the event was processed successfully';
+COMMENT ON COLUMN supasaasy.webhook_events.last_duplicate_at IS 'Timestamp of the most recent skipped redelivery';
+
+-- Status check constraint
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'webhook_events_status_check'
+  ) THEN
+    ALTER TABLE supasaasy.webhook_events
+    ADD CONSTRAINT webhook_events_status_check
+    CHECK (status IN ('processing', 'processed'));
+  END IF;
+END $$;
+
+-- Unique constraint (one row per provider event per app)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'webhook_events_app_key_event_id_key'
+  ) THEN
+    ALTER TABLE supasaasy.webhook_events
+    ADD CONSTRAINT webhook_events_app_key_event_id_key
+    UNIQUE (app_key, event_id);
+  END IF;
+END $$;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_webhook_events_received_at ON supasaasy.webhook_events (received_at DESC);
+
+-- Grant permissions
+GRANT SELECT ON supasaasy.webhook_events TO authenticated;
+GRANT ALL ON supasaasy.webhook_events TO service_role;
+
+-- =============================================================================
+-- Webhook Queue Table (asynchronous webhook processing)
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS supasaasy.webhook_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  app_key TEXT NOT NULL,
+  event_id TEXT,
+  event_type TEXT,
+  resource_type TEXT,
+  external_id TEXT,
+  -- Verified webhook payload, parsed again by the webhook worker. Cleared once the
+  -- webhook is completed or dead-lettered, since it isn't redacted
+  payload JSONB,
+  status TEXT NOT NULL DEFAULT 'pending',
+  -- Number of processing attempts (including the current one)
+  attempts INTEGER NOT NULL DEFAULT 0,
+  -- Attempts allowed before the webhook is moved to dead_letter
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  -- Earliest time a pending webhook may be claimed (set when a retry is scheduled)
+  next_attempt_at TIMESTAMPTZ,
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+COMMENT ON TABLE supasaasy.webhook_queue IS 'Verified webhooks waiting to be processed by the webhook worker';
+COMMENT ON COLUMN supasaasy.webhook_queue.app_key IS 'App key the webhook was received for';
+COMMENT ON COLUMN supasaasy.webhook_queue.event_id IS 'Provider event ID, if the provider sends one';
+COMMENT ON COLUMN supasaasy.webhook_queue.payload IS 'Verified webhook payload (NULL once completed or dead-lettered)';
+
+-- Completed and dead-lettered webhooks drop their payload
+ALTER TABLE supasaasy.webhook_queue ALTER COLUMN payload DROP NOT NULL;
+UPDATE supasaasy.webhook_queue SET payload = NULL
+WHERE status = 'dead_letter' AND payload IS NOT NULL;
+COMMENT ON COLUMN supasaasy.webhook_queue.status IS 'Queue status: pending, processing, completed, dead_letter';
+COMMENT ON COLUMN supasaasy.webhook_queue.attempts IS 'Number of processing attempts';
+COMMENT ON COLUMN supasaasy.webhook_queue.max_attempts IS 'Attempts allowed before the webhook is moved to dead_letter';
+COMMENT ON COLUMN supasaasy.webhook_queue.next_attempt_at IS 'Earliest time a pending webhook may be claimed (NULL = immediately)';
+COMMENT ON COLUMN supasaasy.webhook_queue.locked_at IS 'When a worker claimed the webhook (stale claims are taken over)';
+COMMENT ON COLUMN supasaasy.webhook_queue.last_error IS 'Error from the most recent failed attempt';
+
+-- Status check constraint
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'webhook_queue_status_check'
+  ) THEN
+    ALTER TABLE supasaasy.webhook_queue
+    ADD CONSTRAINT webhook_queue_status_check
+    CHECK (status IN ('pending', 'processing', 'completed', 'dead_letter'));
+  END IF;
+END $$;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_webhook_queue_pending
+  ON supasaasy.webhook_queue (created_at)
+  WHERE status IN ('pending', 'processing');
+CREATE INDEX IF NOT EXISTS idx_webhook_queue_status ON supasaasy.webhook_queue (status);
+
+-- Grant permissions
+GRANT SELECT ON supasaasy.webhook_queue TO authenticated;
+GRANT ALL ON supasaasy.webhook_queue TO service_role;
+
+-- =============================================================================
+-- Outbound Deliveries Table (change feed HTTP targets)
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS supasaasy.outbound_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  target_name TEXT NOT NULL,
+  app_key TEXT NOT NULL,
+  collection_key TEXT NOT NULL,
+  external_id TEXT NOT NULL,
+  operation TEXT NOT NULL,
+  -- Request body sent to the target ({"events": [<change event>]})
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  -- Number of delivery attempts (including the current one)
+  attempts INTEGER NOT NULL DEFAULT 0,
+  -- Attempts allowed before the delivery is marked failed
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  -- Earliest time a pending delivery may be claimed (set when a retry is scheduled)
+  next_attempt_at TIMESTAMPTZ,
+  locked_at TIMESTAMPTZ,
+  -- Outcome of the most recent attempt
+  response_status INTEGER,
+  response_body TEXT,
+  last_error TEXT,
+  duration_ms INTEGER,
+  -- Outcome of every attempt, oldest first (appended by record_outbound_delivery_attempt)
+  attempt_log JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  delivered_at TIMESTAMPTZ
+);
+
+COMMENT ON TABLE supasaasy.outbound_deliveries IS 'Change events delivered to change feed HTTP targets, with the outcome of each attempt';
+COMMENT ON COLUMN supasaasy.outbound_deliveries.target_name IS 'Name of the change_feed.http_targets entry the event is delivered to';
+COMMENT ON COLUMN supasaasy.outbound_deliveries.operation IS 'Change event operation: create, update, delete';
+COMMENT ON COLUMN supasaasy.outbound_deliveries.payload IS 'Request body sent to the target';
+COMMENT ON COLUMN supasaasy.outbound_deliveries.status IS 'Delivery status: pending, processing, delivered, failed';
+COMMENT ON COLUMN supasaasy.outbound_deliveries.attempts IS 'Number of delivery attempts';
+COMMENT ON COLUMN supasaasy.outbound_deliveries.max_attempts IS 'Attempts allowed before the delivery is marked failed';
+COMMENT ON COLUMN supasaasy.outbound_deliveries.next_attempt_at IS 'Earliest time a pending delivery may be claimed (NULL = immediately)';
+COMMENT ON COLUMN supasaasy.outbound_deliveries.locked_at IS 'When a worker claimed the delivery (stale claims are taken over)';
+COMMENT ON COLUMN supasaasy.outbound_deliveries.response_status IS 'HTTP status of the latest attempt (NULL if no response was received)';
+COMMENT ON COLUMN supasaasy.outbound_deliveries.response_body IS 'Response body of the latest attempt (truncated)';
+COMMENT ON COLUMN supasaasy.outbound_deliveries.last_error IS 'Error from the most recent failed attempt';
+COMMENT ON COLUMN supasaasy.outbound_deliveries.duration_ms IS 'Duration of the latest attempt in milliseconds';
+COMMENT ON COLUMN supasaasy.outbound_deliveries.attempt_log IS 'Every attempt with its time, URL, HTTP status, response body, duration and error';
+
+-- Status check constraint
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'outbound_deliveries_status_check'
+  ) THEN
+    ALTER TABLE supasaasy.outbound_deliveries
+    ADD CONSTRAINT outbound_deliveries_status_check
+    CHECK (status IN ('pending', 'processing', 'delivered', 'failed'));
+  END IF;
+END $$;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_outbound_deliveries_pending
+  ON supasaasy.outbound_deliveries (created_at)
+  WHERE status IN ('pending', 'processing');
+CREATE INDEX IF NOT EXISTS idx_outbound_deliveries_status ON supasaasy.outbound_deliveries (status);
+CREATE INDEX IF NOT EXISTS idx_outbound_deliveries_entity
+  ON supasaasy.outbound_deliveries (app_key, collection_key, external_id);
+
+-- Grant permissions
+GRANT SELECT ON supasaasy.outbound_deliveries TO authenticated;
+GRANT ALL ON supasaasy.outbound_deliveries TO service_role;
+
+-- Function to record the outcome of an attempt at sending a claimed delivery. The
+-- latest outcome is copied to the delivery's columns and the attempt (numbered and
+-- with its error) is appended to attempt_log in the same update, so the log can't
+-- lose entries. Deliveries no longer in processing are left alone.
+CREATE OR REPLACE FUNCTION supasaasy.record_outbound_delivery_attempt(
+  p_delivery_id UUID,
+  p_status TEXT,
+  p_attempt JSONB,
+  p_error TEXT DEFAULT NULL,
+  p_next_attempt_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB AS $$
+  UPDATE supasaasy.outbound_deliveries d
+  SET status = p_status,
+      response_status = (p_attempt->>'response_status')::integer,
+      response_body = p_attempt->>'response_body',
+      duration_ms = (p_attempt->>'duration_ms')::integer,
+      last_error = p_error,
+      attempt_log = d.attempt_log || jsonb_build_array(
+        p_attempt || jsonb_build_object('attempt', d.attempts, 'error', p_error)
+      ),
+      next_attempt_at = CASE WHEN p_status = 'pending' THEN p_next_attempt_at ELSE d.next_attempt_at END,
+      delivered_at = CASE WHEN p_status = 'delivered' THEN now() ELSE d.delivered_at END,
+      locked_at = NULL
+  WHERE d.id = p_delivery_id
+    AND d.status = 'processing'
+  RETURNING to_jsonb(d.*);
+$$ LANGUAGE sql;
+
+COMMENT ON FUNCTION supasaasy.record_outbound_delivery_attempt(UUID, TEXT, JSONB, TEXT, TIMESTAMPTZ) IS 'Records the outcome of an outbound delivery attempt and appends it to attempt_log';
+
+GRANT EXECUTE ON FUNCTION supasaasy.record_outbound_delivery_attempt(UUID, TEXT, JSONB, TEXT, TIMESTAMPTZ) TO service_role;
+
 -- =============================================================================
 -- Sync Jobs Table
 -- =============================================================================
@@ -256,16 +796,30 @@ CREATE TABLE IF NOT EXISTS supasaasy.sync_job_tasks (
   -- Pagination cursor for resumable sync
   cursor TEXT,
   -- Heartbeat for detecting stuck tasks
-  last_heartbeat TIMESTAMPTZ
+  last_heartbeat TIMESTAMPTZ,
+  -- Number of failed or timed out attempts
+  attempts INTEGER NOT NULL DEFAULT 0,
+  -- Attempts allowed before the task is failed
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  -- Earliest time a pending task may be claimed (set when a retry is scheduled)
+  next_attempt_at TIMESTAMPTZ
 );
 
+-- Columns added after the initial release (for existing installs)
+ALTER TABLE supasaasy.sync_job_tasks ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE supasaasy.sync_job_tasks ADD COLUMN IF NOT EXISTS max_attempts INTEGER NOT NULL DEFAULT 3;
+ALTER TABLE supasaasy.sync_job_tasks ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ;
+
 COMMENT ON TABLE supasaasy.sync_job_tasks IS 'Individual resource sync tasks for batch sync jobs';
 COMMENT ON COLUMN supasaasy.sync_job_tasks.job_id IS 'Foreign key to sync_jobs';
 COMMENT ON COLUMN supasaasy.sync_job_tasks.resource_type IS 'Resource type this task syncs (e.g., customer, subscription)';
-COMMENT ON COLUMN supasaasy.sync_job_tasks.status IS 'Task status: pending, processing, completed, failed';
+COMMENT ON COLUMN supasaasy.sync_job_tasks.status IS 'Task status: pending, processing, completed, failed, cancelled';
 COMMENT ON COLUMN supasaasy.sync_job_tasks.entity_count IS 'Number of entities processed by this task';
 COMMENT ON COLUMN supasaasy.sync_job_tasks.cursor IS 'Pagination cursor for resuming interrupted syncs';
 COMMENT ON COLUMN supasaasy.sync_job_tasks.last_heartbeat IS 'Last heartbeat timestamp from worker processing this task';
+COMMENT ON COLUMN supasaasy.sync_job_tasks.attempts IS 'Number of failed or timed out attempts (retryable failures and stuck tasks are retried until this reaches max_attempts)';
+COMMENT ON COLUMN supasaasy.sync_job_tasks.max_attempts IS 'Attempts allowed before the task is failed';
+COMMENT ON COLUMN supasaasy.sync_job_tasks.next_attempt_at IS 'Earliest time a pending task may be claimed (NULL = immediately)';
 
 -- Foreign key constraint with cascade delete
 DO $$
@@ -280,16 +834,24 @@ BEGIN
   END IF;
 END $$;
 
--- Status check constraint
+-- Status check constraint (replaced if it predates the 'cancelled' status)
 DO $$
 BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'sync_job_tasks_status_check'
+    AND pg_get_constraintdef(oid) NOT LIKE '%cancelled%'
+  ) THEN
+    ALTER TABLE supasaasy.sync_job_tasks DROP CONSTRAINT sync_job_tasks_status_check;
+  END IF;
+
   IF NOT EXISTS (
     SELECT 1 FROM pg_constraint
     WHERE conname = 'sync_job_tasks_status_check'
   ) THEN
     ALTER TABLE supasaasy.sync_job_tasks
     ADD CONSTRAINT sync_job_tasks_status_check
-    CHECK (status IN ('pending', 'processing', 'completed', 'failed'));
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'cancelled'));
   END IF;
 END $$;
 
@@ -309,6 +871,12 @@ END $$;
 -- Indexes
 CREATE INDEX IF NOT EXISTS idx_sync_job_tasks_job_id ON supasaasy.sync_job_tasks (job_id);
 CREATE INDEX IF NOT EXISTS idx_sync_job_tasks_status ON supasaasy.sync_job_tasks (status);
+CREATE INDEX IF NOT EXISTS idx_sync_job_tasks_processing_heartbeat
+  ON supasaasy.sync_job_tasks (last_heartbeat)
+  WHERE status = 'processing';
+CREATE INDEX IF NOT EXISTS idx_sync_job_tasks_pending_next_attempt
+  ON supasaasy.sync_job_tasks (next_attempt_at)
+  WHERE status = 'pending';
 
 -- Grant permissions
 GRANT SELECT ON supasaasy.sync_job_tasks TO authenticated;
@@ -424,6 +992,308 @@ BEGIN
 END $$;
 
 COMMENT ON FUNCTION supasaasy.spawn_worker() IS 'Automatically spawns worker Edge Function when needs_worker flag is set';
+
+-- Function to spawn workers for jobs whose retries have come due.
+-- Tasks waiting on a retry (next_attempt_at in the future) can't be claimed, so the
+-- worker that scheduled the retry exits. The scheduler runs this, and so does the
+-- pg_cron job generated by getMigrations when enabled, to pick those tasks back up.
+CREATE OR REPLACE FUNCTION supasaasy.wake_due_retries()
+RETURNS INTEGER AS $$
+DECLARE
+  woken INTEGER;
+BEGIN
+  UPDATE supasaasy.sync_jobs j
+  SET needs_worker = true
+  WHERE j.status IN ('pending', 'processing')
+    AND j.needs_worker = false
+    AND EXISTS (
+      SELECT 1 FROM supasaasy.sync_job_tasks t
+      WHERE t.job_id = j.id
+        AND t.status = 'pending'
+        AND t.next_attempt_at IS NOT NULL
+        AND t.next_attempt_at <= now()
+    );
+
+  GET DIAGNOSTICS woken = ROW_COUNT;
+  RETURN woken;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION supasaasy.wake_due_retries() IS 'Flags jobs with due task retries so the spawn trigger starts a worker';
+
+-- Function to count finished tasks towards their job. The counts are incremented in
+-- place, so workers finishing tasks of the same job at once don't lose updates.
+CREATE OR REPLACE FUNCTION supasaasy.increment_job_counts(
+  p_job_id UUID,
+  p_completed_tasks INTEGER DEFAULT 0,
+  p_failed_tasks INTEGER DEFAULT 0,
+  p_processed_entities INTEGER DEFAULT 0
+)
+RETURNS VOID AS $$
+  UPDATE supasaasy.sync_jobs
+  SET completed_tasks = completed_tasks + p_completed_tasks,
+      failed_tasks = failed_tasks + p_failed_tasks,
+      processed_entities = processed_entities + p_processed_entities
+  WHERE id = p_job_id;
+$$ LANGUAGE sql;
+
+COMMENT ON FUNCTION supasaasy.increment_job_counts(UUID, INTEGER, INTEGER, INTEGER) IS 'Atomically adds finished tasks and processed entities to a sync job';
+
+-- Function to recover tasks left in processing by crashed workers. A task is stuck
+-- when its last heartbeat (or start time, if it never sent one) is older than
+-- p_stale_after_seconds. Stuck tasks are reset to pending with an incremented attempt
+-- counter, or failed once they reach their max_attempts. Affected jobs count their
+-- failed tasks and are flagged with needs_worker, so a worker picks up the reset
+-- tasks or finalizes the job. Workers and the scheduler run this, and so does the
+-- pg_cron job generated by getMigrations when enabled, so stuck tasks are recovered
+-- even when no worker or schedule runs.
+CREATE OR REPLACE FUNCTION supasaasy.reap_stuck_tasks(
+  p_stale_after_seconds INTEGER DEFAULT 300,
+  p_max_attempts INTEGER DEFAULT 3
+)
+RETURNS TABLE (task JSONB, failed BOOLEAN) AS $$
+BEGIN
+  RETURN QUERY
+  WITH stuck AS (
+    SELECT
+      t.id,
+      t.attempts + 1 AS attempts,
+      t.attempts + 1 >= COALESCE(t.max_attempts, p_max_attempts) AS exhausted,
+      COALESCE(t.last_heartbeat, t.started_at) AS last_seen
+    FROM supasaasy.sync_job_tasks t
+    WHERE t.status = 'processing'
+      AND COALESCE(t.last_heartbeat, t.started_at) < now() - make_interval(secs => p_stale_after_seconds)
+    FOR UPDATE SKIP LOCKED
+  ),
+  reaped AS (
+    UPDATE supasaasy.sync_job_tasks t
+    SET attempts = stuck.attempts,
+        status = CASE WHEN stuck.exhausted THEN 'failed' ELSE 'pending' END,
+        completed_at = CASE WHEN stuck.exhausted THEN now() ELSE t.completed_at END,
+        error_message = CASE
+          WHEN stuck.exhausted THEN format(
+            'Task timed out after %s attempt(s): no heartbeat since %s',
+            stuck.attempts,
+            stuck.last_seen
+          )
+          ELSE t.error_message
+        END
+    FROM stuck
+    WHERE t.id = stuck.id
+    RETURNING to_jsonb(t.*) AS reaped_task, stuck.exhausted, t.job_id
+  ),
+  jobs AS (
+    UPDATE supasaasy.sync_jobs j
+    SET failed_tasks = j.failed_tasks + counts.failed_count,
+        needs_worker = j.needs_worker OR j.status IN ('pending', 'processing')
+    FROM (
+      SELECT reaped.job_id, count(*) FILTER (WHERE reaped.exhausted)::INTEGER AS failed_count
+      FROM reaped
+      GROUP BY reaped.job_id
+    ) counts
+    WHERE j.id = counts.job_id
+  )
+  SELECT reaped.reaped_task, reaped.exhausted FROM reaped;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION supasaasy.reap_stuck_tasks(INTEGER, INTEGER) IS 'Resets or fails sync tasks whose worker stopped sending heartbeats';
+
+GRANT EXECUTE ON FUNCTION supasaasy.wake_due_retries() TO service_role;
+GRANT EXECUTE ON FUNCTION supasaasy.increment_job_counts(UUID, INTEGER, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION supasaasy.reap_stuck_tasks(INTEGER, INTEGER) TO service_role;
+
+-- =============================================================================
+-- Webhook Worker Auto-Spawn (requires pg_net extension)
+-- =============================================================================
+-- Queued webhooks are processed by the webhook-worker Edge Function, which is
+-- called whenever webhooks are queued. Uses the same app.supabase_url /
+-- app.admin_api_key settings as the worker auto-spawn trigger.
+-- =============================================================================
+
+-- Function to invoke the webhook-worker Edge Function via pg_net
+CREATE OR REPLACE FUNCTION supasaasy.invoke_webhook_worker()
+RETURNS VOID AS $$
+DECLARE
+  supabase_url TEXT;
+  admin_api_key TEXT;
+BEGIN
+  supabase_url := COALESCE(
+    NULLIF(current_setting('app.supabase_url', true), ''),
+    NULLIF(current_setting('app.settings.supabase_url', true), ''),
+    'http://127.0.0.1:54321'
+  );
+
+  admin_api_key := COALESCE(
+    NULLIF(current_setting('app.admin_api_key', true), ''),
+    NULLIF(current_setting('app.settings.admin_api_key', true), ''),
+    ''
+  );
+
+  IF admin_api_key = '' THEN
+    RAISE WARNING 'supasaasy: Cannot spawn webhook worker - admin_api_key not configured';
+    RETURN;
+  END IF;
+
+  PERFORM extensions.http_post(
+    url := supabase_url || '/functions/v1/webhook-worker',
+    body := '{}'::JSONB,
+    headers := json_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || admin_api_key
+    )::JSONB
+  );
+
+  RAISE LOG 'supasaasy: Spawned webhook worker';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION supasaasy.invoke_webhook_worker() IS 'Calls the webhook-worker Edge Function to process queued webhooks';
+
+-- Trigger function to spawn a webhook worker when webhooks are queued
+CREATE OR REPLACE FUNCTION supasaasy.spawn_webhook_worker()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM supasaasy.invoke_webhook_worker();
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create trigger for auto-spawning webhook workers (idempotent)
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'spawn_webhook_worker_on_enqueue'
+  ) THEN
+    DROP TRIGGER spawn_webhook_worker_on_enqueue ON supasaasy.webhook_queue;
+  END IF;
+
+  CREATE TRIGGER spawn_webhook_worker_on_enqueue
+    AFTER INSERT ON supasaasy.webhook_queue
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION supasaasy.spawn_webhook_worker();
+END $$;
+
+COMMENT ON FUNCTION supasaasy.spawn_webhook_worker() IS 'Automatically spawns the webhook-worker Edge Function when webhooks are queued';
+
+-- Function to spawn a webhook worker when queued webhooks are due.
+-- Webhooks waiting on a retry (next_attempt_at in the future), and webhooks left in
+-- processing by a crashed worker, aren't picked up until a worker runs again. Call
+-- this periodically (the cron job generated for webhook_queue runs it every minute).
+CREATE OR REPLACE FUNCTION supasaasy.wake_webhook_queue()
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM supasaasy.webhook_queue
+    WHERE (status = 'pending' AND (next_attempt_at IS NULL OR next_attempt_at <= now()))
+      OR (status = 'processing' AND locked_at < now() - INTERVAL '5 minutes')
+  ) THEN
+    PERFORM supasaasy.invoke_webhook_worker();
+    RETURN true;
+  END IF;
+
+  RETURN false;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION supasaasy.wake_webhook_queue() IS 'Spawns the webhook worker if queued webhooks are due';
+
+-- =============================================================================
+-- Delivery Worker Auto-Spawn (requires pg_net extension)
+-- =============================================================================
+-- Outbound deliveries are sent by the delivery-worker Edge Function, which is
+-- called whenever deliveries are queued. Uses the same app.supabase_url /
+-- app.admin_api_key settings as the worker auto-spawn trigger.
+-- =============================================================================
+
+-- Function to invoke the delivery-worker Edge Function via pg_net
+CREATE OR REPLACE FUNCTION supasaasy.invoke_delivery_worker()
+RETURNS VOID AS $$
+DECLARE
+  supabase_url TEXT;
+  admin_api_key TEXT;
+BEGIN
+  supabase_url := COALESCE(
+    NULLIF(current_setting('app.supabase_url', true), ''),
+    NULLIF(current_setting('app.settings.supabase_url', true), ''),
+    'http://127.0.0.1:54321'
+  );
+
+  admin_api_key := COALESCE(
+    NULLIF(current_setting('app.admin_api_key', true), ''),
+    NULLIF(current_setting('app.settings.admin_api_key', true), ''),
+    ''
+  );
+
+  IF admin_api_key = '' THEN
+    RAISE WARNING 'supasaasy: Cannot spawn delivery worker - admin_api_key not configured';
+    RETURN;
+  END IF;
+
+  PERFORM extensions.http_post(
+    url := supabase_url || '/functions/v1/delivery-worker',
+    body := '{}'::JSONB,
+    headers := json_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || admin_api_key
+    )::JSONB
+  );
+
+  RAISE LOG 'supasaasy: Spawned delivery worker';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION supasaasy.invoke_delivery_worker() IS 'Calls the delivery-worker Edge Function to send outbound deliveries';
+
+-- Trigger function to spawn a delivery worker when deliveries are queued
+CREATE OR REPLACE FUNCTION supasaasy.spawn_delivery_worker()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM supasaasy.invoke_delivery_worker();
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create trigger for auto-spawning delivery workers (idempotent)
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'spawn_delivery_worker_on_enqueue'
+  ) THEN
+    DROP TRIGGER spawn_delivery_worker_on_enqueue ON supasaasy.outbound_deliveries;
+  END IF;
+
+  CREATE TRIGGER spawn_delivery_worker_on_enqueue
+    AFTER INSERT ON supasaasy.outbound_deliveries
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION supasaasy.spawn_delivery_worker();
+END $$;
+
+COMMENT ON FUNCTION supasaasy.spawn_delivery_worker() IS 'Automatically spawns the delivery-worker Edge Function when deliveries are queued';
+
+-- Function to spawn a delivery worker when outbound deliveries are due.
+-- Retries (next_attempt_at in the future) and deliveries left in processing by a
+-- crashed worker aren't picked up until a worker runs again. Call this periodically
+-- (the cron job generated for change_feed.http_targets runs it every minute).
+CREATE OR REPLACE FUNCTION supasaasy.wake_outbound_deliveries()
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM supasaasy.outbound_deliveries
+    WHERE (status = 'pending' AND (next_attempt_at IS NULL OR next_attempt_at <= now()))
+      OR (status = 'processing' AND locked_at < now() - INTERVAL '5 minutes')
+  ) THEN
+    PERFORM supasaasy.invoke_delivery_worker();
+    RETURN true;
+  END IF;
+
+  RETURN false;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION supasaasy.wake_outbound_deliveries() IS 'Spawns the delivery worker if outbound deliveries are due';
 `;
 
 // =============================================================================
@@ -469,150 +1339,645 @@ GRANT SELECT ON supasaasy.users TO authenticated;
 GRANT ALL ON supasaasy.users TO service_role;
 `;
 
+/**
+ * Role column of supasaasy.users, read by the role-based RLS policies when roles
+ * are configured without per-app access
+ */
+const USERS_ROLE_COLUMN_SQL = `
+-- Role of each authorized user (see auth.roles in the configuration)
+ALTER TABLE supasaasy.users ADD COLUMN IF NOT EXISTS role TEXT;
+
+COMMENT ON COLUMN supasaasy.users.role IS 'Role the user has, as configured in auth.roles';
+`;
+
 // =============================================================================
-// Row Level Security Policies SQL
+// User App Access Table SQL
 // =============================================================================
 
-const RLS_POLICIES_SQL = `
+const USER_APP_ACCESS_TABLE_SQL = `
 -- =============================================================================
--- SupaSaaSy Row Level Security Policies
+-- SupaSaaSy User App Access Table
 -- =============================================================================
--- These policies restrict table access to users listed in supasaasy.users.
--- Service role bypasses RLS automatically for backend operations.
+-- With per-app access enabled, users can only read rows for the app keys
+-- granted to them here.
 -- =============================================================================
 
--- -----------------------------------------------------------------------------
--- Enable RLS on entities table
--- -----------------------------------------------------------------------------
-ALTER TABLE supasaasy.entities ENABLE ROW LEVEL SECURITY;
+CREATE TABLE IF NOT EXISTS supasaasy.user_app_access (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  app_key TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'viewer',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, app_key)
+);
 
+COMMENT ON TABLE supasaasy.user_app_access IS 'App keys each user can access when per-app access is enabled';
+COMMENT ON COLUMN supasaasy.user_app_access.user_id IS 'References auth.users(id) - the Supabase Auth user';
+COMMENT ON COLUMN supasaasy.user_app_access.app_key IS 'App key the user can access';
+COMMENT ON COLUMN supasaasy.user_app_access.role IS 'Role the user has for the app';
+COMMENT ON COLUMN supasaasy.user_app_access.created_at IS 'When the access was granted';
+
+-- Foreign key to auth.users with cascade delete
 DO $$
 BEGIN
-  IF EXISTS (
-    SELECT 1 FROM pg_policies
-    WHERE schemaname = 'supasaasy' AND tablename = 'entities'
-    AND policyname = 'supasaasy_entities_select_policy'
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'user_app_access_user_id_fkey'
   ) THEN
-    DROP POLICY "supasaasy_entities_select_policy" ON supasaasy.entities;
+    ALTER TABLE supasaasy.user_app_access
+    ADD CONSTRAINT user_app_access_user_id_fkey
+    FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
   END IF;
 END $$;
 
-CREATE POLICY "supasaasy_entities_select_policy"
-  ON supasaasy.entities
+-- Index for efficient RLS policy lookups
+CREATE INDEX IF NOT EXISTS idx_user_app_access_user_id ON supasaasy.user_app_access (user_id);
+
+-- Grant permissions (service_role manages this table)
+GRANT SELECT ON supasaasy.user_app_access TO authenticated;
+GRANT ALL ON supasaasy.user_app_access TO service_role;
+`;
+
+// =============================================================================
+// Row Level Security Policies SQL
+// =============================================================================
+
+/** Check that the current user is listed in supasaasy.users */
+const AUTHORIZED_USER_CHECK = 'auth.uid() IN (SELECT user_id FROM supasaasy.users)';
+
+/** Check that the current user was granted the row's app_key in supasaasy.user_app_access */
+const APP_ACCESS_CHECK =
+  'app_key IN (SELECT app_key FROM supasaasy.user_app_access WHERE user_id = auth.uid())';
+
+/**
+ * Tables readable by authorized users, in the order their policies are created.
+ * All but sync_job_tasks (scoped through its job) have an app_key column.
+ */
+const RLS_TABLES: AuthRoleTable[] = [
+  'entities',
+  'entity_versions',
+  'sync_state',
+  'webhook_logs',
+  'webhook_events',
+  'webhook_queue',
+  'outbound_deliveries',
+  'sync_jobs',
+  'sync_job_tasks',
+];
+
+/** Tables with a collection_key column, which role collection patterns apply to */
+const COLLECTION_TABLES: AuthRoleTable[] = [
+  'entities',
+  'entity_versions',
+  'sync_state',
+  'outbound_deliveries',
+];
+
+interface SelectPolicy {
+  name: string;
+  using: string;
+}
+
+/**
+ * Generate SQL that enables RLS on a table and replaces its select policies.
+ * Every supasaasy_*_select_policy on the table is dropped first, so the policies
+ * of roles removed from the config don't linger.
+ */
+function getSelectPoliciesSql(
+  table: string,
+  policies: SelectPolicy[],
+  description = `${table} table`,
+): string {
+  const createPolicies = policies.map(({ name, using }) => `
+CREATE POLICY "${name}"
+  ON supasaasy.${table}
   FOR SELECT
   TO authenticated
-  USING (auth.uid() IN (SELECT user_id FROM supasaasy.users));
+  USING (${using});
+`);
 
+  return `
 -- -----------------------------------------------------------------------------
--- Enable RLS on sync_state table
+-- Enable RLS on ${description}
 -- -----------------------------------------------------------------------------
-ALTER TABLE supasaasy.sync_state ENABLE ROW LEVEL SECURITY;
+ALTER TABLE supasaasy.${table} ENABLE ROW LEVEL SECURITY;
 
 DO $$
+DECLARE
+  existing RECORD;
 BEGIN
-  IF EXISTS (
-    SELECT 1 FROM pg_policies
-    WHERE schemaname = 'supasaasy' AND tablename = 'sync_state'
-    AND policyname = 'supasaasy_sync_state_select_policy'
-  ) THEN
-    DROP POLICY "supasaasy_sync_state_select_policy" ON supasaasy.sync_state;
-  END IF;
+  FOR existing IN
+    SELECT policyname FROM pg_policies
+    WHERE schemaname = 'supasaasy' AND tablename = '${table}'
+    AND policyname LIKE 'supasaasy\\_%\\_select\\_policy'
+  LOOP
+    EXECUTE format('DROP POLICY %I ON supasaasy.${table}', existing.policyname);
+  END LOOP;
 END $$;
+${createPolicies.join('')}`;
+}
 
-CREATE POLICY "supasaasy_sync_state_select_policy"
-  ON supasaasy.sync_state
-  FOR SELECT
-  TO authenticated
-  USING (auth.uid() IN (SELECT user_id FROM supasaasy.users));
+/**
+ * Apply an app_key check to a table; sync_job_tasks is checked through its job
+ */
+function scopeToApp(table: AuthRoleTable, check: string): string {
+  return table === 'sync_job_tasks'
+    ? `job_id IN (SELECT id FROM supasaasy.sync_jobs WHERE ${check})`
+    : check;
+}
 
--- -----------------------------------------------------------------------------
--- Enable RLS on webhook_logs table
--- -----------------------------------------------------------------------------
-ALTER TABLE supasaasy.webhook_logs ENABLE ROW LEVEL SECURITY;
+/**
+ * Generate the check of a role's policy on a table: the user must have the role
+ * (for the row's app_key with per-app access), and the row's collection_key must
+ * match one of the role's collection patterns
+ */
+function getRoleCheck(
+  table: AuthRoleTable,
+  roleName: string,
+  role: AuthRoleConfig,
+  perAppAccess: boolean,
+): string {
+  let check = perAppAccess
+    ? scopeToApp(
+      table,
+      `app_key IN (SELECT app_key FROM supasaasy.user_app_access WHERE user_id = auth.uid() AND role = '${roleName}')`,
+    )
+    : `auth.uid() IN (SELECT user_id FROM supasaasy.users WHERE role = '${roleName}')`;
+
+  if (role.collections && COLLECTION_TABLES.includes(table)) {
+    // Patterns only contain letters, digits, underscores and '*' (see validateConfig)
+    const patterns = role.collections.map((pattern) =>
+      `'${pattern.replaceAll('_', '\\_').replaceAll('*', '%')}'`
+    );
+    check += ` AND collection_key LIKE ANY (ARRAY[${patterns.join(', ')}])`;
+  }
+
+  return check;
+}
+
+/**
+ * Generate the RLS policies for the SupaSaaSy tables.
+ * By default, users listed in supasaasy.users can read every row. With
+ * `per_app_access`, users can only read rows for the app keys granted to them in
+ * supasaasy.user_app_access. With `roles`, each table gets a policy per role that
+ * can read it, and SELECT is revoked on the tables no role can read.
+ */
+function getRlsPoliciesSql(authConfig?: AuthConfig): string {
+  const perAppAccess = authConfig?.per_app_access === true;
+  const roles = authConfig?.roles ? Object.entries(authConfig.roles) : undefined;
+
+  const header = `
+-- =============================================================================
+-- SupaSaaSy Row Level Security Policies
+-- =============================================================================
+-- ${
+    perAppAccess
+      ? 'These policies restrict table rows to the app keys granted to each user in\n-- supasaasy.user_app_access.'
+      : 'These policies restrict table access to users listed in supasaasy.users.'
+  }${roles ? '\n-- Each role can only read the tables and collections allowed in auth.roles.' : ''}
+-- Service role bypasses RLS automatically for backend operations.
+-- =============================================================================
+`;
+
+  const policies = RLS_TABLES.map((table) => {
+    if (!roles) {
+      return getSelectPoliciesSql(table, [{
+        name: `supasaasy_${table}_select_policy`,
+        using: perAppAccess ? scopeToApp(table, APP_ACCESS_CHECK) : AUTHORIZED_USER_CHECK,
+      }]);
+    }
+    return getSelectPoliciesSql(
+      table,
+      roles
+        .filter(([, role]) => role.tables.includes(table))
+        .map(([roleName, role]) => ({
+          name: `supasaasy_${table}_${roleName}_select_policy`,
+          using: getRoleCheck(table, roleName, role, perAppAccess),
+        })),
+    );
+  });
+
+  // Users can only see their own entries in the access tables
+  policies.push(
+    getSelectPoliciesSql(
+      'users',
+      [{ name: 'supasaasy_users_select_policy', using: 'auth.uid() = user_id' }],
+      'users table (users can only see their own entry)',
+    ),
+  );
+  if (perAppAccess) {
+    policies.push(
+      getSelectPoliciesSql(
+        'user_app_access',
+        [{ name: 'supasaasy_user_app_access_select_policy', using: 'auth.uid() = user_id' }],
+        'user_app_access table (users can only see their own grants)',
+      ),
+    );
+  }
+
+  if (roles) {
+    const unreadable = RLS_TABLES.filter((table) =>
+      !roles.some(([, role]) => role.tables.includes(table))
+    );
+    if (unreadable.length > 0) {
+      policies.push(`
+-- No role can read these tables
+${unreadable.map((table) => `REVOKE SELECT ON supasaasy.${table} FROM authenticated;`).join('\n')}
+`);
+    }
+  }
+
+  return header + policies.join('');
+}
+
+// =============================================================================
+// Entity History SQL
+// =============================================================================
+
+/**
+ * Generate the trigger that records entity versions for the collections listed in
+ * entity_history. The trigger is recreated on every run, so collections removed
+ * from the config stop being recorded; without any collections it is dropped.
+ */
+function getEntityHistorySql(historyConfig?: EntityHistoryConfig): string {
+  const collections = historyConfig?.collections ?? [];
+
+  const parts = [`
+-- =============================================================================
+-- Entity History Trigger
+-- =============================================================================
+
+DROP TRIGGER IF EXISTS entities_record_version ON supasaasy.entities;`];
+
+  if (collections.length > 0) {
+    parts.push(`CREATE TRIGGER entities_record_version
+  AFTER UPDATE OR DELETE ON supasaasy.entities
+  FOR EACH ROW
+  WHEN (OLD.collection_key IN (${collections.map(sqlLiteral).join(', ')}))
+  EXECUTE FUNCTION supasaasy.record_entity_version();`);
+  }
+
+  return parts.join('\n') + '\n';
+}
+
+// =============================================================================
+// Change Feed SQL
+// =============================================================================
+
+/**
+ * Generate the trigger that publishes entity changes to change_feed.notify_channel.
+ * Like the entity history trigger it is recreated on every run, and dropped when
+ * no channel is configured.
+ */
+function getChangeFeedSql(changeFeedConfig?: ChangeFeedConfig): string {
+  const parts = [`
+-- =============================================================================
+-- Change Feed Trigger
+-- =============================================================================
+
+DROP TRIGGER IF EXISTS entities_notify_change ON supasaasy.entities;`];
+
+  if (changeFeedConfig?.notify_channel) {
+    parts.push(`CREATE TRIGGER entities_notify_change
+  AFTER INSERT OR UPDATE OR DELETE ON supasaasy.entities
+  FOR EACH ROW
+  EXECUTE FUNCTION supasaasy.notify_entity_change(${
+      sqlLiteral(changeFeedConfig.notify_channel)
+    });`);
+  }
+
+  return parts.join('\n') + '\n';
+}
+
+// =============================================================================
+// Sync Schedule SQL (pg_cron)
+// =============================================================================
+
+/**
+ * Prefix for pg_cron job names created from sync_schedules.
+ * Jobs with this prefix that are no longer in the config are unscheduled.
+ */
+const SCHEDULE_JOB_PREFIX = 'supasaasy_sync_';
 
+const SCHEDULER_FUNCTION_SQL = `
+-- =============================================================================
+-- Sync Schedules (requires pg_cron and pg_net extensions)
+-- =============================================================================
+-- Each enabled entry in sync_schedules becomes a pg_cron job that calls the
+-- scheduler Edge Function, which creates a sync job for the app.
+--
+-- Uses the same app.supabase_url / app.admin_api_key settings as the worker
+-- auto-spawn trigger. pg_cron runs jobs in their own sessions, so these must be
+-- set at the database level (ALTER DATABASE ... SET) rather than per session.
+-- =============================================================================
+
+-- Enable pg_cron extension if not already enabled
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- Function to invoke the scheduler Edge Function via pg_net
+CREATE OR REPLACE FUNCTION supasaasy.invoke_scheduler(p_app_key TEXT, p_cron TEXT)
+RETURNS VOID AS $$
+DECLARE
+  supabase_url TEXT;
+  admin_api_key TEXT;
+BEGIN
+  supabase_url := COALESCE(
+    NULLIF(current_setting('app.supabase_url', true), ''),
+    NULLIF(current_setting('app.settings.supabase_url', true), ''),
+    'http://127.0.0.1:54321'
+  );
+
+  admin_api_key := COALESCE(
+    NULLIF(current_setting('app.admin_api_key', true), ''),
+    NULLIF(current_setting('app.settings.admin_api_key', true), ''),
+    ''
+  );
+
+  IF admin_api_key = '' THEN
+    RAISE WARNING 'supasaasy: Cannot run schedule for % - admin_api_key not configured', p_app_key;
+    RETURN;
+  END IF;
+
+  PERFORM extensions.http_post(
+    url := supabase_url || '/functions/v1/scheduler',
+    body := json_build_object('app_key', p_app_key, 'cron', p_cron)::JSONB,
+    headers := json_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || admin_api_key
+    )::JSONB
+  );
+
+  RAISE LOG 'supasaasy: Invoked scheduler for %', p_app_key;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION supasaasy.invoke_scheduler(TEXT, TEXT) IS 'Calls the scheduler Edge Function for a sync schedule (used by pg_cron jobs)';
+`;
+
+/**
+ * Quote a value as a SQL string literal.
+ */
+function sqlLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Build the pg_cron job names for the given schedules.
+ * Names are derived from the app_key plus a 1-based index among that app's schedules,
+ * so they stay stable as long as the schedule order for an app is unchanged.
+ */
+function getScheduleJobNames(schedules: SyncSchedule[]): string[] {
+  const counts = new Map<string, number>();
+  return schedules.map((schedule) => {
+    const count = (counts.get(schedule.app_key) ?? 0) + 1;
+    counts.set(schedule.app_key, count);
+    return `${SCHEDULE_JOB_PREFIX}${schedule.app_key}_${count}`;
+  });
+}
+
+/**
+ * Generate idempotent pg_cron SQL for the configured sync schedules.
+ *
+ * Enabled schedules are (re)registered by job name with cron.schedule, which updates
+ * existing jobs in place. Any previously generated job that is disabled or no longer
+ * in the config (including when sync_schedules is removed) is removed with
+ * cron.unschedule.
+ */
+function getSyncScheduleSql(schedules: SyncSchedule[] = []): string {
+  const jobNames = getScheduleJobNames(schedules);
+  const enabled = schedules
+    .map((schedule, i) => ({ schedule, jobName: jobNames[i] }))
+    .filter(({ schedule }) => schedule.enabled);
+
+  const parts: string[] = [];
+
+  if (enabled.length > 0) {
+    parts.push(SCHEDULER_FUNCTION_SQL);
+
+    for (const { schedule, jobName } of enabled) {
+      const command = `SELECT supasaasy.invoke_scheduler(${sqlLiteral(schedule.app_key)}, ${
+        sqlLiteral(schedule.cron)
+      })`;
+      parts.push(
+        `SELECT cron.schedule(${sqlLiteral(jobName)}, ${sqlLiteral(schedule.cron)}, ${
+          sqlLiteral(command)
+        });`,
+      );
+    }
+  }
+
+  // Remove stale jobs (only if pg_cron is installed, so configs without schedules still apply)
+  const keepClause = enabled.length > 0
+    ? `\n      AND jobname NOT IN (${enabled.map(({ jobName }) => sqlLiteral(jobName)).join(', ')})`
+    : '';
+  parts.push(`
+-- Unschedule sync jobs that are disabled or no longer configured
 DO $$
 BEGIN
-  IF EXISTS (
-    SELECT 1 FROM pg_policies
-    WHERE schemaname = 'supasaasy' AND tablename = 'webhook_logs'
-    AND policyname = 'supasaasy_webhook_logs_select_policy'
-  ) THEN
-    DROP POLICY "supasaasy_webhook_logs_select_policy" ON supasaasy.webhook_logs;
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid)
+    FROM cron.job
+    WHERE starts_with(jobname, '${SCHEDULE_JOB_PREFIX}')${keepClause};
   END IF;
 END $$;
+`);
 
-CREATE POLICY "supasaasy_webhook_logs_select_policy"
-  ON supasaasy.webhook_logs
-  FOR SELECT
-  TO authenticated
-  USING (auth.uid() IN (SELECT user_id FROM supasaasy.users));
+  return parts.join('\n');
+}
 
--- -----------------------------------------------------------------------------
--- Enable RLS on sync_jobs table
--- -----------------------------------------------------------------------------
-ALTER TABLE supasaasy.sync_jobs ENABLE ROW LEVEL SECURITY;
+// =============================================================================
+// Due Retry SQL (pg_cron)
+// =============================================================================
+
+/**
+ * pg_cron job that spawns workers for jobs whose task retries have come due
+ */
+const DUE_RETRIES_JOB_NAME = 'supasaasy_wake_due_retries';
+
+/**
+ * Whether the sync job pg_cron jobs (due retries and stuck tasks) are scheduled.
+ * Follows `workers.pg_cron` when set. Otherwise they are scheduled when the config
+ * already needs pg_cron, for sync schedules, the webhook queue or change feed deliveries.
+ */
+function usesWorkerCron(config: SupaSaaSyConfig): boolean {
+  if (config.workers?.pg_cron !== undefined) {
+    return config.workers.pg_cron;
+  }
+
+  return (config.sync_schedules ?? []).some((schedule) => schedule.enabled) ||
+    config.webhook_queue?.enabled === true ||
+    (config.change_feed?.http_targets?.length ?? 0) > 0;
+}
+
+/**
+ * Generate idempotent pg_cron SQL for waking due task retries.
+ * When enabled, a per-minute job runs wake_due_retries. When disabled, a previously
+ * generated job is removed, and the scheduler wakes due retries on each run instead.
+ */
+function getDueRetrySql(enabled: boolean): string {
+  if (enabled) {
+    return `
+-- =============================================================================
+-- Due Task Retries (requires pg_cron extension)
+-- =============================================================================
+
+-- Enable pg_cron extension if not already enabled
+CREATE EXTENSION IF NOT EXISTS pg_cron;
 
+SELECT cron.schedule(${sqlLiteral(DUE_RETRIES_JOB_NAME)}, '* * * * *', ${
+      sqlLiteral('SELECT supasaasy.wake_due_retries()')
+    });
+`;
+  }
+
+  return `
+-- Unschedule the due retry job, since workers.pg_cron is disabled
 DO $$
 BEGIN
-  IF EXISTS (
-    SELECT 1 FROM pg_policies
-    WHERE schemaname = 'supasaasy' AND tablename = 'sync_jobs'
-    AND policyname = 'supasaasy_sync_jobs_select_policy'
-  ) THEN
-    DROP POLICY "supasaasy_sync_jobs_select_policy" ON supasaasy.sync_jobs;
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid)
+    FROM cron.job
+    WHERE jobname = ${sqlLiteral(DUE_RETRIES_JOB_NAME)};
   END IF;
 END $$;
+`;
+}
 
-CREATE POLICY "supasaasy_sync_jobs_select_policy"
-  ON supasaasy.sync_jobs
-  FOR SELECT
-  TO authenticated
-  USING (auth.uid() IN (SELECT user_id FROM supasaasy.users));
+// =============================================================================
+// Stuck Task SQL (pg_cron)
+// =============================================================================
 
--- -----------------------------------------------------------------------------
--- Enable RLS on sync_job_tasks table
--- -----------------------------------------------------------------------------
-ALTER TABLE supasaasy.sync_job_tasks ENABLE ROW LEVEL SECURITY;
+/**
+ * pg_cron job that recovers sync tasks left in processing by crashed workers
+ */
+const STUCK_TASKS_JOB_NAME = 'supasaasy_reap_stuck_tasks';
 
+/**
+ * Generate idempotent pg_cron SQL for recovering stuck tasks.
+ * When enabled, a per-minute job runs reap_stuck_tasks with the configured timeout
+ * and attempt limit. When disabled, a previously generated job is removed, and
+ * workers and the scheduler recover stuck tasks on each run instead.
+ */
+function getStuckTaskSql(enabled: boolean, workerConfig?: WorkerConfig): string {
+  if (!enabled) {
+    return `
+-- Unschedule the stuck task job, since workers.pg_cron is disabled
 DO $$
 BEGIN
-  IF EXISTS (
-    SELECT 1 FROM pg_policies
-    WHERE schemaname = 'supasaasy' AND tablename = 'sync_job_tasks'
-    AND policyname = 'supasaasy_sync_job_tasks_select_policy'
-  ) THEN
-    DROP POLICY "supasaasy_sync_job_tasks_select_policy" ON supasaasy.sync_job_tasks;
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid)
+    FROM cron.job
+    WHERE jobname = ${sqlLiteral(STUCK_TASKS_JOB_NAME)};
   END IF;
 END $$;
+`;
+  }
 
-CREATE POLICY "supasaasy_sync_job_tasks_select_policy"
-  ON supasaasy.sync_job_tasks
-  FOR SELECT
-  TO authenticated
-  USING (auth.uid() IN (SELECT user_id FROM supasaasy.users));
+  const staleAfterSeconds = workerConfig?.stuck_task_timeout_seconds ?? 300;
+  const maxAttempts = workerConfig?.max_task_attempts ?? 3;
 
--- -----------------------------------------------------------------------------
--- Enable RLS on users table (users can only see their own entry)
--- -----------------------------------------------------------------------------
-ALTER TABLE supasaasy.users ENABLE ROW LEVEL SECURITY;
+  return `
+-- =============================================================================
+-- Stuck Task Recovery (requires pg_cron extension)
+-- =============================================================================
+
+-- Enable pg_cron extension if not already enabled
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(${sqlLiteral(STUCK_TASKS_JOB_NAME)}, '* * * * *', ${
+    sqlLiteral(`SELECT supasaasy.reap_stuck_tasks(${staleAfterSeconds}, ${maxAttempts})`)
+  });
+`;
+}
+
+// =============================================================================
+// Webhook Queue SQL (pg_cron)
+// =============================================================================
+
+/**
+ * pg_cron job that spawns the webhook worker when queued webhooks are due, i.e.
+ * retries whose backoff has elapsed and webhooks orphaned by a crashed worker.
+ */
+const WEBHOOK_QUEUE_JOB_NAME = 'supasaasy_wake_webhook_queue';
+
+/**
+ * Generate idempotent pg_cron SQL for the webhook queue.
+ * When the queue is enabled, a per-minute job wakes the webhook worker for due
+ * webhooks. When it is disabled or not configured, a previously generated job is removed.
+ */
+function getWebhookQueueSql(queueConfig?: WebhookQueueConfig): string {
+  if (queueConfig?.enabled) {
+    return `
+-- =============================================================================
+-- Webhook Queue Retries (requires pg_cron extension)
+-- =============================================================================
+
+-- Enable pg_cron extension if not already enabled
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(${sqlLiteral(WEBHOOK_QUEUE_JOB_NAME)}, '* * * * *', ${
+      sqlLiteral('SELECT supasaasy.wake_webhook_queue()')
+    });
+`;
+  }
 
+  return `
+-- Unschedule the webhook queue job, since the queue is disabled
 DO $$
 BEGIN
-  IF EXISTS (
-    SELECT 1 FROM pg_policies
-    WHERE schemaname = 'supasaasy' AND tablename = 'users'
-    AND policyname = 'supasaasy_users_select_policy'
-  ) THEN
-    DROP POLICY "supasaasy_users_select_policy" ON supasaasy.users;
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid)
+    FROM cron.job
+    WHERE jobname = ${sqlLiteral(WEBHOOK_QUEUE_JOB_NAME)};
   END IF;
 END $$;
+`;
+}
 
-CREATE POLICY "supasaasy_users_select_policy"
-  ON supasaasy.users
-  FOR SELECT
-  TO authenticated
-  USING (auth.uid() = user_id);
+// =============================================================================
+// Outbound Delivery SQL (pg_cron)
+// =============================================================================
+
+/**
+ * pg_cron job that spawns the delivery worker when outbound deliveries are due,
+ * i.e. retries whose backoff has elapsed and deliveries orphaned by a crashed worker.
+ */
+const OUTBOUND_DELIVERIES_JOB_NAME = 'supasaasy_wake_outbound_deliveries';
+
+/**
+ * Generate idempotent pg_cron SQL for outbound deliveries.
+ * With change feed HTTP targets, a per-minute job wakes the delivery worker for due
+ * deliveries. Without any (or without a change feed), a previously generated job is
+ * removed.
+ */
+function getOutboundDeliverySql(changeFeedConfig?: ChangeFeedConfig): string {
+  if ((changeFeedConfig?.http_targets?.length ?? 0) > 0) {
+    return `
+-- =============================================================================
+-- Outbound Delivery Retries (requires pg_cron extension)
+-- =============================================================================
+
+-- Enable pg_cron extension if not already enabled
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(${sqlLiteral(OUTBOUND_DELIVERIES_JOB_NAME)}, '* * * * *', ${
+      sqlLiteral('SELECT supasaasy.wake_outbound_deliveries()')
+    });
 `;
+  }
+
+  return `
+-- Unschedule the outbound delivery job, since no HTTP targets are configured
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid)
+    FROM cron.job
+    WHERE jobname = ${sqlLiteral(OUTBOUND_DELIVERIES_JOB_NAME)};
+  END IF;
+END $$;
+`;
+}
 
 // =============================================================================
 // Migration Generation
@@ -639,8 +2004,15 @@ export interface GetMigrationsOptions {
  * Generate SQL migrations for SupaSaaSy based on the configuration.
  *
  * This function generates a complete SQL migration file that includes:
- * 1. The core SupaSaaSy schema (entities table, sync_state table, webhook_logs table)
- * 2. Connector-specific migrations for all connectors used in the configuration
+ * 1. The core SupaSaaSy schema (entities, entity_versions, sync_state, webhook_logs,
+ *    webhook_events, webhook_queue, outbound_deliveries and sync job tables), with the
+ *    entity history trigger for the collections listed in entity_history and the
+ *    change feed NOTIFY trigger
+ * 2. The pg_cron jobs that wake due task retries and recover stuck tasks (with the
+ *    workers settings), and pg_cron jobs for the configured sync_schedules (calling
+ *    the scheduler function), for webhook_queue retries and for change feed delivery
+ *    retries
+ * 3. Connector-specific migrations for all connectors used in the configuration
  *
  * The generated SQL uses idempotent statements (CREATE IF NOT EXISTS, CREATE OR REPLACE)
  * so it can be safely re-run.
@@ -691,12 +2063,35 @@ export async function getMigrations(
   // Add core schema
   parts.push(CORE_SCHEMA_SQL);
 
+  // Add entity history trigger for the configured collections
+  parts.push(getEntityHistorySql(config.entity_history));
+
+  // Add change feed NOTIFY trigger for the configured channel
+  parts.push(getChangeFeedSql(config.change_feed));
+
   // Add users table and RLS policies when auth is enabled
   if (authEnabled) {
     parts.push(USERS_TABLE_SQL);
-    parts.push(RLS_POLICIES_SQL);
+    if (config.auth?.per_app_access) {
+      parts.push(USER_APP_ACCESS_TABLE_SQL);
+    } else if (config.auth?.roles) {
+      parts.push(USERS_ROLE_COLUMN_SQL);
+    }
+    parts.push(getRlsPoliciesSql(config.auth));
   }
 
+  // Add pg_cron jobs for due task retries and stuck task recovery
+  const workerCron = usesWorkerCron(config);
+  parts.push(getDueRetrySql(workerCron));
+  parts.push(getStuckTaskSql(workerCron, config.workers));
+
+  // Add pg_cron jobs for sync schedules, webhook queue retries and change feed
+  // delivery retries. These always run, so jobs are unscheduled when their config
+  // is removed.
+  parts.push(getSyncScheduleSql(config.sync_schedules));
+  parts.push(getWebhookQueueSql(config.webhook_queue));
+  parts.push(getOutboundDeliverySql(config.change_feed));
+
   // Collect unique connectors from config
   const connectorNames = new Set(config.apps.map((app) => app.connector));
 
@@ -0,0 +1,131 @@
+/**
+ * Redaction Unit Tests
+ *
+ * Tests for path matching, the allow/drop/hash/mask rules and per-app config lookup.
+ */
+
+import { assertEquals, assertNotEquals } from '@std/assert';
+import {
+  hasWebhookBodyRedaction,
+  redactEntityPayload,
+  redactFields,
+  redactWebhookBody,
+} from './index.ts';
+import { clearConfig, setConfig } from '../connectors/index.ts';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createCustomer(): Record<string, unknown> {
+  return {
+    id: 'cus_123',
+    email: 'jane@example.com',
+    phone: '+15555550123',
+    address: { line1: '1 Main St', city: 'Springfield' },
+    custom_attributes: { plan: 'pro', nickname: 'JJ' },
+    sources: { data: [{ id: 'card_1', name: 'Jane' }, { id: 'card_2', name: 'J' }] },
+  };
+}
+
+// =============================================================================
+// Rule Tests
+// =============================================================================
+
+Deno.test('[Redaction] redactFields - drops paths, including wildcards', async () => {
+  const payload = createCustomer();
+
+  const redacted = await redactFields(payload, {
+    drop: ['address', 'custom_attributes.*', 'sources.data.*.name', 'missing.path'],
+  });
+
+  assertEquals(redacted.address, undefined);
+  assertEquals(redacted.custom_attributes, {});
+  assertEquals(redacted.sources, { data: [{ id: 'card_1' }, { id: 'card_2' }] });
+  // The original payload is left as it was
+  assertEquals((payload.address as Record<string, unknown>).city, 'Springfield');
+});
+
+Deno.test('[Redaction] redactFields - drops array elements by index', async () => {
+  const redacted = await redactFields(createCustomer(), { drop: ['sources.data.0'] });
+
+  assertEquals(redacted.sources, { data: [{ id: 'card_2', name: 'J' }] });
+});
+
+Deno.test('[Redaction] redactFields - keeps only allowed paths', async () => {
+  const redacted = await redactFields(createCustomer(), {
+    allow: ['id', 'address.city', 'sources.data.*.id'],
+  });
+
+  assertEquals(redacted, {
+    id: 'cus_123',
+    address: { city: 'Springfield' },
+    sources: { data: [{ id: 'card_1' }, { id: 'card_2' }] },
+  });
+});
+
+Deno.test('[Redaction] redactFields - hashes values deterministically', async () => {
+  const first = await redactFields(createCustomer(), { hash: ['email'] });
+  const second = await redactFields(createCustomer(), { hash: ['email'] });
+  const keyed = await redactFields(createCustomer(), { hash: ['email'] }, 'secret');
+
+  assertEquals(
+    first.email,
+    // SHA-256 of "jane@example.com"
+    await crypto.subtle.digest('SHA-256', new TextEncoder().encode('jane@example.com')).then(
+      (digest) =>
+        Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join(''),
+    ),
+  );
+  assertEquals(first.email, second.email);
+  assertNotEquals(keyed.email, first.email);
+});
+
+Deno.test('[Redaction] redactFields - masks values', async () => {
+  const redacted = await redactFields(
+    { ...createCustomer(), ssn_last4: '1234', missing: null },
+    { mask: ['phone', 'ssn_last4', 'address', 'missing'] },
+  );
+
+  assertEquals(redacted.phone, '********0123');
+  assertEquals(redacted.ssn_last4, '****');
+  assertEquals(redacted.address, '****');
+  assertEquals(redacted.missing, null);
+});
+
+// =============================================================================
+// Config Lookup Tests
+// =============================================================================
+
+Deno.test('[Redaction] redactEntityPayload - uses the rules of the app and collection', async () => {
+  setConfig({
+    apps: [
+      {
+        app_key: 'stripe_test',
+        name: 'Stripe Test',
+        connector: 'stripe',
+        config: {},
+        redaction: {
+          collections: { stripe_customer: { drop: ['phone'] } },
+          webhook_logs: { drop: ['data.object.phone'] },
+        },
+      },
+    ],
+  });
+
+  try {
+    const customer = await redactEntityPayload('stripe_test', 'stripe_customer', createCustomer());
+    const product = await redactEntityPayload('stripe_test', 'stripe_product', createCustomer());
+    const otherApp = await redactEntityPayload('stripe_live', 'stripe_customer', createCustomer());
+    const body = await redactWebhookBody('stripe_test', { data: { object: createCustomer() } });
+
+    assertEquals(customer.phone, undefined);
+    assertEquals(product.phone, '+15555550123');
+    assertEquals(otherApp.phone, '+15555550123');
+    assertEquals((body.data as { object: Record<string, unknown> }).object.phone, undefined);
+    assertEquals(hasWebhookBodyRedaction('stripe_test'), true);
+    assertEquals(hasWebhookBodyRedaction('stripe_live'), false);
+  } finally {
+    clearConfig();
+  }
+});
@@ -0,0 +1,247 @@
+/**
+ * Redaction Module
+ *
+ * Removes or obscures fields of payloads before they are stored, following the
+ * `redaction` config of each app: entity `raw_payload` by collection, and webhook
+ * log request bodies.
+ */
+
+import type { FieldRedactionRules, RedactionConfig } from '../types/index.ts';
+import { getConfig, hasConfig } from '../connectors/index.ts';
+
+/** A container and the key (or index) of a value that a path points to */
+type PathMatch = [Record<string, unknown> | unknown[], string | number];
+
+// =============================================================================
+// Path Matching
+// =============================================================================
+
+/**
+ * Get the keys of a container that a path segment matches
+ */
+function matchingKeys(
+  node: Record<string, unknown> | unknown[],
+  segment: string,
+): (string | number)[] {
+  if (Array.isArray(node)) {
+    if (segment === '*') return node.map((_, index) => index);
+    const index = Number(segment);
+    return /^\d+$/.test(segment) && index < node.length ? [index] : [];
+  }
+
+  if (segment === '*') return Object.keys(node);
+  return Object.hasOwn(node, segment) ? [segment] : [];
+}
+
+/**
+ * Collect the values a path points to, depth first
+ */
+function collectMatches(node: unknown, segments: string[], matches: PathMatch[]): void {
+  if (node === null || typeof node !== 'object' || segments.length === 0) return;
+
+  const container = node as Record<string, unknown> | unknown[];
+  const [segment, ...rest] = segments;
+
+  for (const key of matchingKeys(container, segment)) {
+    if (rest.length === 0) {
+      matches.push([container, key]);
+    } else {
+      collectMatches((container as Record<string | number, unknown>)[key], rest, matches);
+    }
+  }
+}
+
+/**
+ * Find the values the given paths point to
+ */
+function findMatches(payload: unknown, paths: string[]): PathMatch[] {
+  const matches: PathMatch[] = [];
+  for (const path of paths) {
+    collectMatches(payload, path.split('.'), matches);
+  }
+  return matches;
+}
+
+/**
+ * Copy only the parts of a value that the given paths (split into segments) reach
+ */
+function pick(node: unknown, paths: string[][]): unknown {
+  if (paths.some((segments) => segments.length === 0)) return node;
+  if (node === null || typeof node !== 'object') return undefined;
+
+  const childPaths = (key: string) =>
+    paths
+      .filter(([segment]) => segment === '*' || segment === key)
+      .map((segments) => segments.slice(1));
+
+  if (Array.isArray(node)) {
+    const picked: unknown[] = [];
+    node.forEach((child, index) => {
+      const remaining = childPaths(String(index));
+      const value = remaining.length > 0 ? pick(child, remaining) : undefined;
+      if (value !== undefined) picked.push(value);
+    });
+    return picked;
+  }
+
+  const picked: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(node)) {
+    const remaining = childPaths(key);
+    const value = remaining.length > 0 ? pick(child, remaining) : undefined;
+    if (value !== undefined) picked[key] = value;
+  }
+  return picked;
+}
+
+// =============================================================================
+// Value Transforms
+// =============================================================================
+
+/**
+ * Compute a SHA-256 digest of a value as a hex string (HMAC-SHA256 when a secret is given)
+ */
+async function hashValue(value: unknown, secret?: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const data = encoder.encode(typeof value === 'string' ? value : JSON.stringify(value));
+
+  let digest: ArrayBuffer;
+  if (secret) {
+    const cryptoKey = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign'],
+    );
+    digest = await crypto.subtle.sign('HMAC', cryptoKey, data);
+  } else {
+    digest = await crypto.subtle.digest('SHA-256', data);
+  }
+
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Mask a value with asterisks, keeping the last 4 characters of strings longer than 8
+ */
+function maskValue(value: unknown): unknown {
+  if (typeof value !== 'string') return '****';
+  if (value.length <= 8) return '*'.repeat(value.length);
+  return '*'.repeat(value.length - 4) + value.slice(-4);
+}
+
+// =============================================================================
+// Redaction
+// =============================================================================
+
+/**
+ * Apply redaction rules to a payload. The payload passed in is not modified.
+ * Null values are left as they are by hash and mask.
+ *
+ * @param payload The JSON payload
+ * @param rules The paths to allow, drop, hash and mask
+ * @param hashSecret Secret for hashing with HMAC-SHA256 (plain SHA-256 when omitted)
+ * @returns The redacted copy of the payload
+ */
+export async function redactFields(
+  payload: Record<string, unknown>,
+  rules: FieldRedactionRules,
+  hashSecret?: string,
+): Promise<Record<string, unknown>> {
+  let redacted = structuredClone(payload);
+
+  if (rules.allow) {
+    const allowed = rules.allow.map((path) => path.split('.'));
+    redacted = pick(redacted, allowed) as Record<string, unknown>;
+  }
+
+  // Remove in reverse so array indices collected earlier stay valid
+  for (const [container, key] of findMatches(redacted, rules.drop ?? []).reverse()) {
+    if (Array.isArray(container)) {
+      container.splice(key as number, 1);
+    } else {
+      delete container[key as string];
+    }
+  }
+
+  for (const [container, key] of findMatches(redacted, rules.hash ?? [])) {
+    const values = container as Record<string | number, unknown>;
+    if (values[key] !== null) {
+      values[key] = await hashValue(values[key], hashSecret);
+    }
+  }
+
+  for (const [container, key] of findMatches(redacted, rules.mask ?? [])) {
+    const values = container as Record<string | number, unknown>;
+    if (values[key] !== null) {
+      values[key] = maskValue(values[key]);
+    }
+  }
+
+  return redacted;
+}
+
+/**
+ * Get an app's redaction config, if a configuration with one has been set
+ */
+function getRedactionConfig(appKey: string): RedactionConfig | undefined {
+  if (!hasConfig()) return undefined;
+  return getConfig().apps.find((app) => app.app_key === appKey)?.redaction;
+}
+
+/**
+ * Get the hash secret configured for an app's redaction
+ *
+ * @throws Error if `hash_secret_env` is set but the environment variable is not
+ */
+function getHashSecret(redaction: RedactionConfig): string | undefined {
+  if (!redaction.hash_secret_env) return undefined;
+
+  const secret = Deno.env.get(redaction.hash_secret_env);
+  if (!secret) {
+    throw new Error(`Environment variable ${redaction.hash_secret_env} is not set`);
+  }
+  return secret;
+}
+
+/**
+ * Redact an entity's raw payload using its app's rules for the collection.
+ * Payloads without rules are returned as they are.
+ *
+ * @throws Error if the app's hash secret environment variable is not set
+ */
+export async function redactEntityPayload(
+  appKey: string,
+  collectionKey: string,
+  payload: Record<string, unknown>,
+): Promise<Record<string, unknown>> {
+  const redaction = getRedactionConfig(appKey);
+  const rules = redaction?.collections?.[collectionKey];
+  if (!redaction || !rules) return payload;
+
+  return await redactFields(payload, rules, getHashSecret(redaction));
+}
+
+/**
+ * Check whether an app has rules for webhook log request bodies, i.e. whether its
+ * logged bodies are redacted
+ */
+export function hasWebhookBodyRedaction(appKey: string): boolean {
+  return getRedactionConfig(appKey)?.webhook_logs !== undefined;
+}
+
+/**
+ * Redact a webhook request body using its app's webhook log rules.
+ * Bodies without rules are returned as they are.
+ *
+ * @throws Error if the app's hash secret environment variable is not set
+ */
+export async function redactWebhookBody(
+  appKey: string,
+  body: Record<string, unknown>,
+): Promise<Record<string, unknown>> {
+  const redaction = getRedactionConfig(appKey);
+  if (!redaction?.webhook_logs) return body;
+
+  return await redactFields(body, redaction.webhook_logs, getHashSecret(redaction));
+}
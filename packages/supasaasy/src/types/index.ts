@@ -27,6 +27,10 @@ export interface AppConfig {
    * Does not affect incremental sync behavior.
    */
   sync_from?: string | Date;
+  /** Lifecycle hooks for this app's entities, run after the global lifecycle hooks */
+  lifecycle_hooks?: LifecycleHooksConfig;
+  /** Fields removed or obscured before this app's data is stored */
+  redaction?: RedactionConfig;
 }
 
 /**
@@ -54,6 +58,43 @@ export interface SyncSchedule {
   cron: string;
   /** Whether this schedule is enabled */
   enabled: boolean;
+  /** Sync mode for scheduled jobs (default: 'incremental') */
+  mode?: 'full' | 'incremental';
+  /** Resource types to sync (default: all resources supported by the connector) */
+  resource_types?: string[];
+}
+
+/**
+ * Fields to remove or obscure in a JSON payload.
+ *
+ * Paths are dot-separated (e.g. 'address', 'shipping.phone'). `*` matches every key
+ * of an object or element of an array (e.g. 'custom_attributes.*'), and numbers
+ * index arrays. Rules apply in the order allow, drop, hash, mask.
+ */
+export interface FieldRedactionRules {
+  /** Keep only these paths; everything else is dropped */
+  allow?: string[];
+  /** Remove these paths */
+  drop?: string[];
+  /** Replace these values with a SHA-256 hex digest (HMAC when `hash_secret_env` is set) */
+  hash?: string[];
+  /** Replace these values with asterisks, keeping the last 4 characters of longer strings */
+  mask?: string[];
+}
+
+/**
+ * Per-app redaction of stored payloads
+ */
+export interface RedactionConfig {
+  /** Rules for `raw_payload`, by collection key (e.g. 'stripe_customer') */
+  collections?: Record<string, FieldRedactionRules>;
+  /**
+   * Rules for `webhook_logs.request_body`. Paths are relative to the request body
+   * (e.g. 'data.object.email' for Stripe events).
+   */
+  webhook_logs?: FieldRedactionRules;
+  /** Environment variable holding a secret that makes `hash` an HMAC-SHA256 */
+  hash_secret_env?: string;
 }
 
 /**
@@ -64,6 +105,254 @@ export interface WebhookLoggingConfig {
   enabled: boolean;
 }
 
+/**
+ * Configuration for entity change history
+ */
+export interface EntityHistoryConfig {
+  /**
+   * Collection keys whose changes are recorded in `supasaasy.entity_versions`
+   * (e.g. ['stripe_subscription']). Each update that changes an entity's payload
+   * stores the previous payload, the changed fields and the source of the change.
+   */
+  collections: string[];
+}
+
+/**
+ * Kind of change made to an entity
+ */
+export type EntityChangeOperation = 'create' | 'update' | 'delete';
+
+/**
+ * Change event emitted after an entity is written or deleted
+ */
+export interface EntityChangeEvent {
+  /** Entity ID (supasaasy.entities.id) */
+  entity_id: string;
+  app_key: string;
+  collection_key: string;
+  external_id: string;
+  /** 'delete' covers both hard deletes and soft deletes (deleted_at being set) */
+  operation: EntityChangeOperation;
+  /** Raw payload before the change (null when created) */
+  before: Record<string, unknown> | null;
+  /** Raw payload after the change (null when hard deleted) */
+  after: Record<string, unknown> | null;
+  /** What made the change (e.g. 'webhook:evt_123', 'sync_job:<job id>') */
+  change_source: string | null;
+  /** When the change was written */
+  occurred_at: string;
+  /** Set on NOTIFY events whose payloads were left out to fit the NOTIFY size limit */
+  truncated?: boolean;
+}
+
+/**
+ * In-process subscriber to entity change events
+ */
+export type ChangeFeedHook = (event: EntityChangeEvent) => void | Promise<void>;
+
+/**
+ * HTTP endpoint that receives entity change events
+ */
+export interface ChangeFeedHttpTarget {
+  /**
+   * Unique name of the target. Deliveries are queued for the name, so the URL can be
+   * changed without losing deliveries that are pending or being retried.
+   */
+  name: string;
+  /** URL that change events are POSTed to */
+  url: string;
+  /** Environment variable holding the secret used to sign requests (HMAC-SHA256) */
+  secret_env: string;
+  /** Only send changes from these app keys (all apps when omitted) */
+  app_keys?: string[];
+  /** Only send changes to these collection keys (all collections when omitted) */
+  collections?: string[];
+  /** Only send these operations (all operations when omitted) */
+  operations?: EntityChangeOperation[];
+}
+
+/**
+ * Retry settings for change feed HTTP deliveries
+ */
+export interface ChangeFeedDeliveryConfig {
+  /** Number of attempts before a delivery is marked failed (default: 5) */
+  max_attempts?: number;
+  /**
+   * Base delay before retrying a failed delivery. Doubles with each attempt, up to
+   * `retry_max_delay_seconds` (default: 30)
+   */
+  retry_base_delay_seconds?: number;
+  /** Maximum delay between retries of a delivery (default: 3600) */
+  retry_max_delay_seconds?: number;
+}
+
+/**
+ * Configuration for the entity change feed
+ */
+export interface ChangeFeedConfig {
+  /** Functions called with each change event */
+  hooks?: ChangeFeedHook[];
+  /**
+   * HTTP endpoints that change events are POSTed to. Each event is recorded in
+   * `supasaasy.outbound_deliveries` and sent by the delivery worker.
+   */
+  http_targets?: ChangeFeedHttpTarget[];
+  /** Retry settings for HTTP deliveries */
+  delivery?: ChangeFeedDeliveryConfig;
+  /** Postgres channel that change events are published to with NOTIFY */
+  notify_channel?: string;
+}
+
+/**
+ * What made an entity write: a sync, or a webhook (including queued and replayed webhooks)
+ */
+export type EntityWriteSource = 'sync' | 'webhook';
+
+/**
+ * Context passed to entity lifecycle hooks
+ */
+export interface EntityHookContext {
+  appKey: string;
+  collectionKey: string;
+  source: EntityWriteSource;
+  /** What triggered the write (e.g. 'webhook:evt_123', 'sync_job:<job id>'), when known */
+  changeSource?: string;
+}
+
+/**
+ * Entity about to be deleted
+ */
+export interface EntityDeleteTarget {
+  appKey: string;
+  collectionKey: string;
+  externalId: string;
+}
+
+/**
+ * Called before an entity is written. Return a (modified) entity to write it instead,
+ * nothing to write the entity as passed (including changes made to it in place), or
+ * null to skip the write.
+ */
+export type BeforeUpsertHook = (
+  entity: NormalizedEntity,
+  context: EntityHookContext,
+) => NormalizedEntity | null | void | Promise<NormalizedEntity | null | void>;
+
+/**
+ * Called after an entity is written. Not called for writes skipped as unchanged or
+ * out of order.
+ */
+export type AfterUpsertHook = (
+  entity: NormalizedEntity,
+  context: EntityHookContext,
+) => void | Promise<void>;
+
+/**
+ * Called before an entity is deleted. Return false to keep the entity.
+ */
+export type BeforeDeleteHook = (
+  target: EntityDeleteTarget,
+  context: EntityHookContext,
+) => boolean | void | Promise<boolean | void>;
+
+/**
+ * Hooks called around entity writes
+ */
+export interface EntityLifecycleHooks {
+  beforeUpsert?: BeforeUpsertHook;
+  afterUpsert?: AfterUpsertHook;
+  beforeDelete?: BeforeDeleteHook;
+}
+
+/**
+ * Lifecycle hooks configuration, with optional hooks for specific collections
+ */
+export interface LifecycleHooksConfig extends EntityLifecycleHooks {
+  /** Hooks for collection keys (e.g. 'stripe_customer'), run after the hooks above */
+  collections?: Record<string, EntityLifecycleHooks>;
+}
+
+/**
+ * Configuration for asynchronous webhook processing
+ */
+export interface WebhookQueueConfig {
+  /**
+   * Whether verified webhooks are stored in `supasaasy.webhook_queue` and acknowledged
+   * immediately, instead of being processed before responding. Queued webhooks are
+   * processed by the webhook worker.
+   */
+  enabled: boolean;
+  /** Number of attempts before a queued webhook is moved to dead_letter (default: 5) */
+  max_attempts?: number;
+  /**
+   * Base delay before retrying a failed webhook. Doubles with each attempt, up to
+   * `retry_max_delay_seconds` (default: 30)
+   */
+  retry_base_delay_seconds?: number;
+  /** Maximum delay between retries of a webhook (default: 3600) */
+  retry_max_delay_seconds?: number;
+}
+
+/**
+ * Configuration for sync job workers
+ */
+export interface WorkerConfig {
+  /**
+   * Seconds without a heartbeat before a processing task is considered stuck
+   * and is reset or failed (default: 300)
+   */
+  stuck_task_timeout_seconds?: number;
+  /**
+   * Number of attempts before a task is failed. Applies to stuck tasks and to
+   * tasks that failed with a retryable error (default: 3)
+   */
+  max_task_attempts?: number;
+  /**
+   * Base delay before retrying a task that failed with a retryable error. Doubles
+   * with each attempt, up to `retry_max_delay_seconds` (default: 30)
+   */
+  retry_base_delay_seconds?: number;
+  /** Maximum delay between retries of a task (default: 3600) */
+  retry_max_delay_seconds?: number;
+  /**
+   * Whether getMigrations schedules the pg_cron jobs that wake due task retries and
+   * recover stuck tasks. Without them, the scheduler wakes due retries, and workers
+   * and the scheduler recover stuck tasks, on each run. Default: true if
+   * `sync_schedules`, `webhook_queue` or change feed `http_targets` already need
+   * pg_cron, false otherwise
+   */
+  pg_cron?: boolean;
+}
+
+/**
+ * SupaSaaSy tables that roles can be allowed to read
+ */
+export type AuthRoleTable =
+  | 'entities'
+  | 'entity_versions'
+  | 'sync_state'
+  | 'webhook_logs'
+  | 'webhook_events'
+  | 'webhook_queue'
+  | 'outbound_deliveries'
+  | 'sync_jobs'
+  | 'sync_job_tasks';
+
+/**
+ * What users with a role can read
+ */
+export interface AuthRoleConfig {
+  /** Tables the role can read; other tables return no rows to it */
+  tables: AuthRoleTable[];
+  /**
+   * collection_key patterns the role can read, with `*` as a wildcard
+   * (e.g. `['intercom_*']`). Applies to the tables with a collection_key column:
+   * entities, entity_versions, sync_state and outbound_deliveries.
+   * Default: all collections
+   */
+  collections?: string[];
+}
+
 /**
  * Configuration for authentication and Row Level Security (RLS)
  */
@@ -75,6 +364,21 @@ export interface AuthConfig {
    * Default: true
    */
   enabled: boolean;
+  /**
+   * Whether to restrict users to the app keys granted to them in
+   * `supasaasy.user_app_access`, instead of letting every user in `supasaasy.users`
+   * read every app's data.
+   * Default: false
+   */
+  per_app_access?: boolean;
+  /**
+   * Named roles, each allowed to read specific tables and collections. When set, a
+   * user can only read what their role allows: the role in `supasaasy.users`, or with
+   * `per_app_access` the role of each grant in `supasaasy.user_app_access`.
+   * Role names are used in policy names, so they must be lowercase identifiers of
+   * at most 19 characters.
+   */
+  roles?: Record<string, AuthRoleConfig>;
 }
 
 /**
@@ -87,9 +391,24 @@ export interface SupaSaaSyConfig {
   sync_schedules?: SyncSchedule[];
   /** Webhook logging configuration */
   webhook_logging?: WebhookLoggingConfig;
+  /** Asynchronous webhook processing configuration */
+  webhook_queue?: WebhookQueueConfig;
+  /** Entity change history configuration (disabled when omitted) */
+  entity_history?: EntityHistoryConfig;
+  /** Entity change feed configuration (disabled when omitted) */
+  change_feed?: ChangeFeedConfig;
+  /**
+   * Hooks that can modify, skip or react to entity writes. They run for the syncs and
+   * webhooks of every built-in connector and for syncs built on paginatedSync, before
+   * the hooks of each app.
+   */
+  lifecycle_hooks?: LifecycleHooksConfig;
+  /** Sync job worker configuration */
+  workers?: WorkerConfig;
   /**
    * Authentication and RLS configuration.
-   * When enabled (default), RLS policies restrict access to users in `supasaasy.users`.
+   * When enabled (default), RLS policies restrict access to users in `supasaasy.users`,
+   * or with `per_app_access` to the app keys granted in `supasaasy.user_app_access`.
    */
   auth?: AuthConfig;
 }
@@ -169,6 +488,12 @@ export interface NormalizedEntity {
   rawPayload: Record<string, unknown>;
   /** Timestamp when entity was soft-deleted upstream */
   archivedAt?: Date;
+  /**
+   * When the provider last changed this data (e.g., the payload's `updated_at`).
+   * Writes older than the stored value are skipped, so late webhooks can't
+   * overwrite fresher data.
+   */
+  sourceUpdatedAt?: Date;
 }
 
 /**
@@ -185,6 +510,9 @@ export interface EntityRow {
   updated_at?: string;
   archived_at?: string | null;
   deleted_at?: string | null;
+  source_updated_at?: string | null;
+  change_source?: string | null;
+  payload_hash?: string | null;
 }
 
 // =============================================================================
@@ -192,9 +520,13 @@ export interface EntityRow {
 // =============================================================================
 
 /**
- * Standard webhook event types
+ * Standard webhook event types.
+ * `undelete` is for objects restored after being deleted or archived upstream: the
+ * entity is refetched and its archived_at / deleted_at are cleared. It covers every
+ * restore (unarchive, reactivate, restore from trash), so there is no separate
+ * `restore` type.
  */
-export type WebhookEventType = 'create' | 'update' | 'delete' | 'archive';
+export type WebhookEventType = 'create' | 'update' | 'delete' | 'archive' | 'undelete';
 
 /**
  * Result of webhook signature verification
@@ -212,6 +544,11 @@ export interface WebhookVerificationResult {
  * Parsed and normalized webhook event
  */
 export interface ParsedWebhookEvent {
+  /**
+   * The provider's unique ID for this event (e.g., Stripe's `evt_` ID).
+   * When set, redeliveries of the same event are detected and skipped.
+   */
+  eventId?: string;
   /** The normalized event type */
   eventType: WebhookEventType;
   /** The original event type from the provider */
@@ -266,12 +603,32 @@ export interface SyncProgress {
 export interface SyncOptions {
   /** Maximum number of records to fetch per page */
   pageSize?: number;
-  /** Cursor or page token for pagination */
+  /**
+   * Cursor or page token to resume pagination from.
+   * Only meaningful when syncing a single resource type. Deletion detection is
+   * skipped when resuming, since earlier pages are not seen again.
+   */
   cursor?: string;
+  /**
+   * Cursor callback - called after each page is written with the cursor for the
+   * next page and the number of entities the sync has processed so far, so callers
+   * can persist both and resume an interrupted sync
+   */
+  onCursor?: (cursor: string, processed?: number) => void | Promise<void>;
+  /**
+   * Cancellation check - called between pages. When it returns true the sync stops
+   * before fetching the next page and reports `cancelled` in its result.
+   */
+  isCancelled?: () => boolean | Promise<boolean>;
   /** Timestamp for incremental sync (fetch only records modified since) */
   since?: Date;
   /** Specific resource types to sync (empty = all) */
   resourceTypes?: string[];
+  /**
+   * Source recorded in entity history for entities written by this sync
+   * (e.g. 'sync_job:<job id>')
+   */
+  changeSource?: string;
   /** Maximum total records to sync (for testing/debugging) */
   limit?: number;
   /** Dry-run mode - skips database writes, logs what would happen */
@@ -292,6 +649,8 @@ export interface SyncResult {
   created: number;
   /** Number of records updated */
   updated: number;
+  /** Number of records left as they were (payload unchanged, or the stored data is newer) */
+  unchanged?: number;
   /** Number of records deleted/archived */
   deleted: number;
   /** Number of records that failed to process */
@@ -302,8 +661,14 @@ export interface SyncResult {
   nextCursor?: string;
   /** Whether there are more records to fetch */
   hasMore?: boolean;
+  /** Whether the sync stopped early because it was cancelled */
+  cancelled?: boolean;
   /** Duration of the sync operation in milliseconds */
   durationMs?: number;
+  /** Whether a failed sync can be retried (e.g. rate limits, 5xx, connection errors) */
+  retryable?: boolean;
+  /** Seconds the provider asked us to wait before retrying (e.g. from Retry-After) */
+  retryAfterSeconds?: number;
 }
 
 /**
@@ -344,6 +709,8 @@ export interface WebhookLogEntry {
   request_headers: Record<string, string>;
   /** Request body payload */
   request_body?: Record<string, unknown>;
+  /** Whether the request body was redacted before storage (null = unknown) */
+  request_body_redacted?: boolean | null;
   /** HTTP response status code */
   response_status: number;
   /** Response body payload */